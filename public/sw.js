@@ -0,0 +1,54 @@
+// Service worker del modo sin conexión: guarda las páginas y los recursos estáticos de la app
+// para poder abrirla sin red. Los datos de la API no pasan por aquí: se guardan en IndexedDB
+// desde el cliente (src/lib/offlineStore.ts).
+
+const CACHE_NAME = 'vivla-guides-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Los recursos de /_next/static llevan hash en el nombre: si están guardados no cambian
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Páginas y datos de navegación: siempre la versión de red si la hay
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Solo lecturas del propio origen: la API, Firebase y Storage van directamente a la red
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  event.respondWith(url.pathname.startsWith('/_next/static/') ? cacheFirst(request) : networkFirst(request));
+});
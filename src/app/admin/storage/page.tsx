@@ -0,0 +1,241 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { deleteFileByPath } from '@/lib/firebase';
+import { queryKeys } from '@/lib/queryKeys';
+import { runStorageAudit, STORAGE_BASE_PATHS, type StorageAuditReport } from '@/lib/storageAudit';
+
+function formatBytes(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function StorageAuditPage() {
+    const queryClient = useQueryClient();
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    // La auditoría recorre todo Storage y todas las entidades: solo se lanza bajo demanda
+    const audit = useQuery({
+        queryKey: queryKeys.storageAudit(),
+        queryFn: ({ signal }) => runStorageAudit(apiClient, { signal }),
+        enabled: false,
+        staleTime: Infinity,
+    });
+    const report = audit.data;
+    const orphans = useMemo(() => report?.orphans ?? [], [report]);
+
+    const deleteOrphans = useMutation({
+        mutationFn: async (paths: string[]) => {
+            const results = await Promise.allSettled(paths.map(path => deleteFileByPath(path)));
+            return paths.filter((_, index) => results[index].status === 'fulfilled');
+        },
+        onSuccess: (deletedPaths) => {
+            const deleted = new Set(deletedPaths);
+            // Quitar del informe en caché los archivos eliminados
+            queryClient.setQueryData<StorageAuditReport>(queryKeys.storageAudit(), old =>
+                old ? { ...old, orphans: old.orphans.filter(object => !deleted.has(object.path)) } : old
+            );
+        },
+    });
+
+    const selectedSize = orphans.filter(object => selected.has(object.path)).reduce((sum, object) => sum + object.size, 0);
+    const totalSize = orphans.reduce((sum, object) => sum + object.size, 0);
+
+    const toggle = (path: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) {
+                next.delete(path);
+            } else {
+                next.add(path);
+            }
+            return next;
+        });
+    };
+
+    // "Seleccionar todos" excluye los recientes, que pueden pertenecer a formularios abiertos
+    const selectAllOld = () => {
+        setSelected(new Set(orphans.filter(object => !object.isRecent).map(object => object.path)));
+    };
+
+    const handleAudit = async () => {
+        setSelected(new Set());
+        setSubmitMessage(null);
+        await audit.refetch();
+    };
+
+    const handleDelete = async () => {
+        setConfirmingDelete(false);
+        const paths = [...selected];
+        try {
+            const deleted = await deleteOrphans.mutateAsync(paths);
+            setSelected(new Set());
+            if (deleted.length === paths.length) {
+                setSubmitMessage({ type: 'success', message: `${deleted.length} archivo${deleted.length !== 1 ? 's' : ''} eliminado${deleted.length !== 1 ? 's' : ''}` });
+            } else {
+                setSubmitMessage({ type: 'error', message: `Se eliminaron ${deleted.length} de ${paths.length} archivos. Vuelve a analizar para revisar el resto.` });
+            }
+        } catch (error) {
+            console.error('Error al eliminar archivos huérfanos:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al eliminar los archivos' });
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-7xl mx-auto px-4">
+                {/* Header */}
+                <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-900 mb-2">Auditoría de Archivos</h1>
+                        <p className="text-gray-600">
+                            Archivos en Storage ({STORAGE_BASE_PATHS.join(', ')}) que no usa ninguna guía, plano, producto, casa, playbook, plantilla ni ejecución
+                        </p>
+                    </div>
+                    <button
+                        onClick={handleAudit}
+                        disabled={audit.isFetching}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {audit.isFetching ? 'Analizando...' : report ? '🔄 Volver a analizar' : '🔍 Analizar Storage'}
+                    </button>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md mb-6 ${submitMessage.type === 'success'
+                        ? 'bg-green-50 text-green-800 border border-green-200'
+                        : 'bg-red-50 text-red-800 border border-red-200'
+                        }`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                {audit.error && (
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+                        <p className="text-red-800">Error al analizar Storage: {audit.error.message}</p>
+                    </div>
+                )}
+
+                {audit.isFetching && !report && (
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                )}
+
+                {report && (
+                    <div className="bg-white rounded-lg shadow">
+                        {/* Resumen */}
+                        <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                            <div className="text-sm text-gray-600">
+                                {report.scanned} archivos analizados • {report.referenced} referencias •{' '}
+                                <span className="font-medium text-gray-900">{orphans.length} huérfanos ({formatBytes(totalSize)})</span>
+                                <span className="block text-xs text-gray-500 mt-1">
+                                    Análisis del {new Date(report.generatedAt).toLocaleString('es-ES')}
+                                </span>
+                            </div>
+                            {orphans.length > 0 && (
+                                <div className="flex items-center space-x-2">
+                                    <button
+                                        onClick={selectAllOld}
+                                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                                    >
+                                        Seleccionar antiguos
+                                    </button>
+                                    <button
+                                        onClick={() => setConfirmingDelete(true)}
+                                        disabled={selected.size === 0 || deleteOrphans.isPending}
+                                        className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {deleteOrphans.isPending ? 'Eliminando...' : `🗑️ Eliminar seleccionados (${selected.size})`}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+
+                        {orphans.length === 0 ? (
+                            <div className="text-center py-12 text-sm text-gray-500">
+                                No hay archivos huérfanos 🎉
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-6 py-3"></th>
+                                            <th className="px-6 py-3 text-left font-medium text-gray-500">Archivo</th>
+                                            <th className="px-6 py-3 text-left font-medium text-gray-500">Tamaño</th>
+                                            <th className="px-6 py-3 text-left font-medium text-gray-500">Subido</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {orphans.map(object => (
+                                            <tr key={object.path} className={selected.has(object.path) ? 'bg-red-50' : ''}>
+                                                <td className="px-6 py-3">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selected.has(object.path)}
+                                                        onChange={() => toggle(object.path)}
+                                                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                    />
+                                                </td>
+                                                <td className="px-6 py-3 text-gray-900 break-all">
+                                                    {object.path}
+                                                    {object.isRecent && (
+                                                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                                                            Reciente
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{formatBytes(object.size)}</td>
+                                                <td className="px-6 py-3 text-gray-600 whitespace-nowrap">
+                                                    {new Date(object.createdAt).toLocaleString('es-ES')}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Modal de confirmación para eliminar */}
+            {confirmingDelete && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div className="flex min-h-screen items-center justify-center p-4">
+                        <div className="fixed inset-0 bg-black opacity-30" onClick={() => setConfirmingDelete(false)}></div>
+                        <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                            <h3 className="text-lg font-medium text-gray-900 mb-2">
+                                ¿Eliminar {selected.size} archivo{selected.size !== 1 ? 's' : ''}?
+                            </h3>
+                            <p className="text-sm text-gray-500 mb-6">
+                                Se liberarán {formatBytes(selectedSize)}. Esta acción no se puede deshacer.
+                            </p>
+                            <div className="flex justify-end space-x-3">
+                                <button
+                                    onClick={() => setConfirmingDelete(false)}
+                                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    onClick={handleDelete}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700"
+                                >
+                                    Eliminar
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useGuestView } from '@/hooks/useApiQueries';
+import { guestHomePath } from '@/lib/guestLinks';
+import {
+    ApplianceGuideCard,
+    GuestLinkError,
+    PlaybookChecklist,
+    StylingGuideSection,
+} from '@/components/guest/GuestSections';
+
+// Vista pública de solo lectura de una habitación: destino de los códigos QR impresos
+export default function GuestRoomPage() {
+    const params = useParams();
+    const token = params.token as string;
+    const roomId = params.roomId as string;
+
+    const { data: view, isLoading, error } = useGuestView(token);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    if (error || !view) {
+        return <GuestLinkError error={error} />;
+    }
+
+    const room = view.rooms.find(r => r.id === roomId);
+    if (!room) {
+        return (
+            <div className="max-w-lg mx-auto px-4 py-8">
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                    <p className="text-red-800">Esta habitación ya no está disponible.</p>
+                    <Link href={guestHomePath(token)} className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                        ← Ver todas las habitaciones
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    const roomGuides = view.styling_guides.filter(guide => guide.room_id === roomId);
+    const roomPlaybooks = view.playbooks.filter(playbook => playbook.room_id === roomId);
+
+    return (
+        <div className="max-w-lg mx-auto px-4 py-6">
+            {/* Header */}
+            <div className="mb-6">
+                <Link href={guestHomePath(token)} className="text-sm text-blue-600 hover:text-blue-800">
+                    ← {view.home.name}
+                </Link>
+                <h1 className="text-2xl font-bold text-gray-900 mt-1">{room.name}</h1>
+                {room.description && <p className="text-gray-600 mt-1">{room.description}</p>}
+            </div>
+
+            {roomGuides.length === 0 && roomPlaybooks.length === 0 && (
+                <div className="bg-white rounded-lg shadow p-6 mb-4 text-center text-sm text-gray-500">
+                    Esta habitación todavía no tiene guías.
+                </div>
+            )}
+
+            {roomGuides.map(guide => (
+                <StylingGuideSection key={guide.id} guide={guide} />
+            ))}
+
+            {roomPlaybooks.map(playbook => (
+                <PlaybookChecklist key={playbook.id} playbook={playbook} />
+            ))}
+
+            {/* Electrodomésticos de la casa */}
+            {view.appliance_guides.length > 0 && (
+                <details className="mt-6">
+                    <summary className="cursor-pointer text-md font-medium text-gray-700 mb-3">
+                        🔌 Electrodomésticos ({view.appliance_guides.length})
+                    </summary>
+                    {view.appliance_guides.map(guide => (
+                        <ApplianceGuideCard key={guide.id} guide={guide} />
+                    ))}
+                </details>
+            )}
+        </div>
+    );
+}
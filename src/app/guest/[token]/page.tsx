@@ -0,0 +1,80 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useGuestView } from '@/hooks/useApiQueries';
+import { guestRoomPath } from '@/lib/guestLinks';
+import { ApplianceGuideCard, GuestLinkError } from '@/components/guest/GuestSections';
+
+// Vista pública de solo lectura de una casa: habitaciones y electrodomésticos
+export default function GuestHomePage() {
+    const params = useParams();
+    const token = params.token as string;
+
+    const { data: view, isLoading, error } = useGuestView(token);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    if (error || !view) {
+        return <GuestLinkError error={error} />;
+    }
+
+    return (
+        <div className="max-w-lg mx-auto px-4 py-6">
+            {/* Header */}
+            {view.home.main_image && (
+                <img
+                    src={view.home.main_image}
+                    alt={view.home.name}
+                    className="w-full h-40 object-cover rounded-lg mb-4"
+                />
+            )}
+            <h1 className="text-2xl font-bold text-gray-900">{view.home.name}</h1>
+            <p className="text-gray-600 mb-6">📍 {view.home.destination}</p>
+
+            {/* Habitaciones */}
+            <h2 className="text-md font-medium text-gray-700 mb-3">🚪 Habitaciones</h2>
+            {view.rooms.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-6">No hay habitaciones.</p>
+            ) : (
+                <div className="bg-white rounded-lg shadow divide-y divide-gray-100 mb-6">
+                    {view.rooms.map(room => {
+                        const guides = view.styling_guides.filter(guide => guide.room_id === room.id).length;
+                        const playbooks = view.playbooks.filter(playbook => playbook.room_id === room.id).length;
+                        return (
+                            <Link
+                                key={room.id}
+                                href={guestRoomPath(token, room.id)}
+                                className="flex items-center justify-between p-4 hover:bg-gray-50"
+                            >
+                                <div>
+                                    <p className="font-medium text-gray-900">{room.name}</p>
+                                    <p className="text-xs text-gray-500">
+                                        🎨 {guides} guía{guides !== 1 ? 's' : ''} • 📋 {playbooks} playbook{playbooks !== 1 ? 's' : ''}
+                                    </p>
+                                </div>
+                                <span className="text-gray-400">→</span>
+                            </Link>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Electrodomésticos */}
+            {view.appliance_guides.length > 0 && (
+                <>
+                    <h2 className="text-md font-medium text-gray-700 mb-3">🔌 Electrodomésticos</h2>
+                    {view.appliance_guides.map(guide => (
+                        <ApplianceGuideCard key={guide.id} guide={guide} />
+                    ))}
+                </>
+            )}
+        </div>
+    );
+}
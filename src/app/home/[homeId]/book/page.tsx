@@ -0,0 +1,223 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import {
+    useAllAmenities,
+    useAllBrands,
+    useHome,
+    useHomeApplianceGuides,
+    usePlaybooks,
+    useRooms,
+    useStylingGuides,
+    useTechnicalPlans,
+} from '@/hooks/useApiQueries';
+import { PLAYBOOK_TYPE_LABELS, materialName } from '@/lib/playbooks';
+import { parseBulletList } from '@/lib/textLists';
+
+// "Libro de la casa": documento de entrega para propietarios y operaciones.
+// Se imprime o se guarda como PDF desde el navegador, como las etiquetas QR.
+export default function HomeBookPage() {
+    const params = useParams();
+    const homeId = params.homeId as string;
+
+    const { data: home, isLoading: isLoadingHome, error: homeError } = useHome(homeId);
+    const { data: rooms = [], isLoading: isLoadingRooms } = useRooms(homeId);
+    const { data: stylingGuides = [], isLoading: isLoadingGuides } = useStylingGuides(homeId);
+    const { data: playbooks = [], isLoading: isLoadingPlaybooks } = usePlaybooks(homeId);
+    const { data: applianceGuides = [] } = useHomeApplianceGuides(homeId);
+    const { data: technicalPlans = [] } = useTechnicalPlans(homeId);
+    const { data: brands = [] } = useAllBrands();
+    const { data: amenities = [] } = useAllAmenities();
+
+    if (isLoadingHome || isLoadingRooms || isLoadingGuides || isLoadingPlaybooks) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (homeError || !home) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">{homeError ? 'Error al cargar la casa' : 'Casa no encontrada'}</p>
+                        <Link href="/" className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver al inicio
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 print:bg-white">
+            {/* Controles (no se imprimen) */}
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:hidden flex items-center justify-between">
+                <Link href={`/home/${homeId}`} className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+                    ← Volver a {home.name}
+                </Link>
+                <button
+                    onClick={() => window.print()}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                >
+                    🖨️ Imprimir / Guardar PDF
+                </button>
+            </div>
+
+            {/* Documento A4: en pantalla se muestra como vista previa */}
+            <div
+                className="mx-auto mb-8 bg-white shadow print:shadow-none print:m-0 p-[15mm] text-gray-900"
+                style={{ width: '210mm' }}
+            >
+                {/* Portada */}
+                <section className="break-after-page text-center pt-[40mm]">
+                    {home.main_image && (
+                        <img src={home.main_image} alt={home.name} className="mx-auto mb-[10mm] w-full max-h-[110mm] object-cover rounded" />
+                    )}
+                    <h1 className="text-4xl font-bold">{home.name}</h1>
+                    <p className="text-lg text-gray-600 mt-2">{home.address}</p>
+                    <p className="text-gray-600">📍 {home.destination}</p>
+                    <p className="text-sm text-gray-500 mt-[20mm]">
+                        Libro de la casa • {new Date().toLocaleDateString('es-ES')}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                        {rooms.length} habitaciones • {playbooks.length} playbooks • {applianceGuides.length} equipos • {technicalPlans.length} planos
+                    </p>
+                </section>
+
+                {/* Habitaciones */}
+                {rooms.map(room => {
+                    const roomGuides = stylingGuides.filter(guide => guide.room_id === room.id);
+                    const roomPlaybooks = playbooks.filter(playbook => playbook.room_id === room.id);
+                    return (
+                        <section key={room.id} className="break-before-page">
+                            <h2 className="text-2xl font-bold border-b-2 border-gray-900 pb-2 mb-4">🚪 {room.name}</h2>
+                            {room.description && <p className="text-sm text-gray-600 mb-4">{room.description}</p>}
+
+                            {roomGuides.map(guide => (
+                                <div key={guide.id} className="mb-6 break-inside-avoid">
+                                    <h3 className="text-lg font-semibold mb-2">🎨 {guide.title}</h3>
+                                    <div className="grid grid-cols-3 gap-[3mm]">
+                                        {[guide.reference_photo_url, ...guide.image_urls].filter(Boolean).map((url, index) => (
+                                            <img
+                                                key={`${url}-${index}`}
+                                                src={url}
+                                                alt={`${guide.title} ${index + 1}`}
+                                                className="w-full h-[45mm] object-cover rounded border border-gray-200"
+                                            />
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+
+                            {roomPlaybooks.map(playbook => (
+                                <div key={playbook.id} className="mb-6 break-inside-avoid">
+                                    <h3 className="text-lg font-semibold">📋 {playbook.title}</h3>
+                                    <p className="text-xs text-gray-500 mb-2">
+                                        {PLAYBOOK_TYPE_LABELS[playbook.type]}{playbook.estimated_time && ` • ${playbook.estimated_time}`}
+                                    </p>
+                                    <ol className="list-decimal list-inside text-sm space-y-1">
+                                        {playbook.steps.map(step => (
+                                            <li key={step.order}>
+                                                {step.text}
+                                                {step.duration_minutes ? <span className="text-gray-500"> ({step.duration_minutes} min)</span> : null}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                    {(playbook.materials.length > 0 || playbook.materials_note) && (
+                                        <p className="text-sm text-gray-600 mt-2">
+                                            <span className="font-medium">Materiales: </span>
+                                            {playbook.materials.map(material => `${material.quantity} × ${materialName(material, amenities)}`).join(', ')}
+                                            {playbook.materials_note && ` ${playbook.materials_note}`}
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+
+                            {roomGuides.length === 0 && roomPlaybooks.length === 0 && (
+                                <p className="text-sm text-gray-500">Sin guías de estilo ni playbooks.</p>
+                            )}
+                        </section>
+                    );
+                })}
+
+                {/* Equipos */}
+                {applianceGuides.length > 0 && (
+                    <section className="break-before-page">
+                        <h2 className="text-2xl font-bold border-b-2 border-gray-900 pb-2 mb-4">🔌 Equipos</h2>
+                        {applianceGuides.map(guide => {
+                            const quickUse = parseBulletList(guide.quick_use_bullets);
+                            const maintenance = parseBulletList(guide.maintenance_bullets);
+                            return (
+                                <div key={guide.id} className="mb-6 break-inside-avoid">
+                                    <div className="flex items-start gap-[4mm]">
+                                        {guide.image_urls?.[0] && (
+                                            <img src={guide.image_urls[0]} alt={guide.equipment_name} className="w-[30mm] h-[30mm] object-cover rounded border border-gray-200" />
+                                        )}
+                                        <div>
+                                            <h3 className="text-lg font-semibold">{guide.equipment_name}</h3>
+                                            <p className="text-xs text-gray-500">
+                                                {[brands.find(brand => brand.id === guide.brand_id)?.name, guide.model].filter(Boolean).join(' • ')}
+                                            </p>
+                                            {guide.brief_description && <p className="text-sm text-gray-600 mt-1">{guide.brief_description}</p>}
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-[6mm] mt-3 text-sm">
+                                        <div>
+                                            <p className="font-medium mb-1">Uso rápido</p>
+                                            {quickUse.length > 0 ? (
+                                                <ul className="list-disc list-inside space-y-1">
+                                                    {quickUse.map((bullet, index) => <li key={index}>{bullet}</li>)}
+                                                </ul>
+                                            ) : <p className="text-gray-500">—</p>}
+                                        </div>
+                                        <div>
+                                            <p className="font-medium mb-1">Mantenimiento</p>
+                                            {maintenance.length > 0 ? (
+                                                <ul className="list-disc list-inside space-y-1">
+                                                    {maintenance.map((bullet, index) => <li key={index}>{bullet}</li>)}
+                                                </ul>
+                                            ) : <p className="text-gray-500">—</p>}
+                                        </div>
+                                    </div>
+                                    {(guide.pdf_url || guide.video_url) && (
+                                        <p className="text-xs text-gray-500 mt-2 break-all">
+                                            {guide.pdf_url && <>Manual: {guide.pdf_url} </>}
+                                            {guide.video_url && <>Vídeo: {guide.video_url}</>}
+                                        </p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </section>
+                )}
+
+                {/* Planos técnicos */}
+                {technicalPlans.length > 0 && (
+                    <section className="break-before-page">
+                        <h2 className="text-2xl font-bold border-b-2 border-gray-900 pb-2 mb-4">📐 Planos técnicos</h2>
+                        {technicalPlans.map(plan => (
+                            <div key={plan.id} className="mb-4 break-inside-avoid">
+                                <h3 className="text-lg font-semibold">{plan.title}</h3>
+                                {plan.description && <p className="text-sm text-gray-600">{plan.description}</p>}
+                                {plan.plan_file_url && (
+                                    <p className="text-xs text-gray-500 break-all">
+                                        <a href={plan.plan_file_url} target="_blank" rel="noopener noreferrer" className="text-blue-600">{plan.plan_file_url}</a>
+                                    </p>
+                                )}
+                            </div>
+                        ))}
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+}
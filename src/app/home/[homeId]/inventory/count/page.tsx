@@ -0,0 +1,404 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { HomeInventoryWithRelations, StockTake } from '@/lib/types';
+import { useHome, useInventory, useRooms } from '@/hooks/useApiQueries';
+import { useCreateStockTake } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { StockTakeReport } from '@/components/inventory/StockTakeReport';
+import { groupInventoryByRoom } from '@/lib/inventory';
+import { formatQuantityChange, movementAuthor } from '@/lib/stockMovements';
+import { stockTakeLines, stockTakeSummary } from '@/lib/stockTake';
+
+type LineFilter = 'all' | 'pending' | 'differences';
+
+const LINE_FILTER_LABELS: Record<LineFilter, string> = {
+    all: 'Todas',
+    pending: 'Sin contar',
+    differences: 'Con diferencias',
+};
+
+// Recuento físico del inventario de una casa, pensado para hacerse desde el móvil
+export default function StockTakePage() {
+    const params = useParams();
+    const homeId = params.homeId as string;
+    const { can, user } = useAuth();
+
+    // '' = toda la casa. Se filtra en local sobre el inventario completo, que también está
+    // disponible sin conexión
+    const [roomScope, setRoomScope] = useState('');
+    const { data: home, isLoading: isLoadingHome, error: homeError } = useHome(homeId);
+    const { data: rooms = [], isLoading: isLoadingRooms } = useRooms(homeId);
+    const { data: homeInventory = [], isLoading: isLoadingInventory } = useInventory(homeId);
+    const inventory = useMemo(
+        () => (roomScope ? homeInventory.filter(item => item.room_id === roomScope) : homeInventory),
+        [homeInventory, roomScope]
+    );
+    const createStockTake = useCreateStockTake();
+
+    // Cantidad contada por línea de inventario (las que no están aquí no se han contado)
+    const [counts, setCounts] = useState<Record<string, number>>({});
+    const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+    const [notes, setNotes] = useState('');
+    const [confirming, setConfirming] = useState(false);
+    const [report, setReport] = useState<StockTake | null>(null);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    // Habitación elegida cuando hay líneas contadas fuera de ella: se pide confirmación antes de descartarlas
+    const [pendingScope, setPendingScope] = useState<string | null>(null);
+
+    const roomName = (roomId?: string) => rooms.find(room => room.id === roomId)?.name;
+
+    const roomGroups = useMemo(
+        () => groupInventoryByRoom(inventory, rooms).filter(group => group.items.length > 0),
+        [inventory, rooms]
+    );
+    const lines = useMemo(() => stockTakeLines(inventory, counts), [inventory, counts]);
+    const summary = stockTakeSummary(lines);
+    const pendingLines = inventory.length - lines.length;
+
+    const setCount = (itemId: string, value: number | undefined) => {
+        setCounts(prev => {
+            const next = { ...prev };
+            if (value === undefined || Number.isNaN(value)) {
+                delete next[itemId];
+            } else {
+                next[itemId] = Math.max(0, value);
+            }
+            return next;
+        });
+    };
+
+    const isInScope = (item: HomeInventoryWithRelations, scope: string) => !scope || item.room_id === scope;
+    const countedOutside = (scope: string) =>
+        homeInventory.filter(item => counts[item.id] !== undefined && !isInScope(item, scope)).length;
+
+    const applyScope = (scope: string) => {
+        setCounts(prev => Object.fromEntries(
+            homeInventory.filter(item => prev[item.id] !== undefined && isInScope(item, scope)).map(item => [item.id, prev[item.id]])
+        ));
+        setRoomScope(scope);
+        setPendingScope(null);
+    };
+
+    const handleScopeChange = (scope: string) => {
+        if (countedOutside(scope) > 0) {
+            setPendingScope(scope);
+        } else {
+            applyScope(scope);
+        }
+    };
+
+    const isVisible = (item: HomeInventoryWithRelations) => {
+        if (lineFilter === 'pending') return counts[item.id] === undefined;
+        if (lineFilter === 'differences') return counts[item.id] !== undefined && counts[item.id] !== item.quantity;
+        return true;
+    };
+
+    const handleSubmit = async () => {
+        if (!user || lines.length === 0) return;
+        setConfirming(false);
+
+        try {
+            const response = await createStockTake.mutateAsync({
+                home_id: homeId,
+                room_id: roomScope || undefined,
+                lines,
+                notes: notes.trim() || undefined,
+                ...movementAuthor(user),
+            });
+            setReport(response.data);
+            setCounts({});
+            setNotes('');
+            setSubmitMessage(null);
+        } catch (error) {
+            console.error('Error al registrar el recuento:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al registrar el recuento. Lo contado se conserva: vuelve a intentarlo.' });
+        }
+    };
+
+    if (isLoadingHome || isLoadingRooms) {
+        return (
+            <div className="min-h-screen bg-gray-50 py-8">
+                <div className="flex justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            </div>
+        );
+    }
+
+    if (homeError || !home) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-3xl mx-auto px-4 py-8">
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">{homeError ? 'Error al cargar la casa' : 'Casa no encontrada'}</p>
+                        <Link href="/" className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver al inicio
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!can('inventory:count')) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-3xl mx-auto px-4 py-8">
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                        <p className="text-yellow-800">No tienes permiso para hacer recuentos de inventario</p>
+                        <Link href={`/home/${homeId}/inventory`} className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver al inventario
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 print:bg-white">
+            <div className="max-w-3xl mx-auto px-4 py-6 pb-32 print:pb-0 space-y-4">
+                {/* Header */}
+                <div className="print:hidden">
+                    <Link
+                        href={`/home/${homeId}/inventory`}
+                        className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-2"
+                    >
+                        ← Volver al inventario
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900">Recuento de {home.name}</h1>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Cuenta cada producto e introduce la cantidad real. Al enviar, las diferencias se registran como correcciones.
+                    </p>
+                </div>
+
+                {submitMessage && (
+                    <div className={`p-4 rounded-md print:hidden ${submitMessage.type === 'success' ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-red-50 text-red-800 border border-red-200'}`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                {report ? (
+                    <>
+                        <StockTakeReport stockTake={report} homeName={home.name} roomName={roomName} />
+                        <div className="flex justify-end gap-3 print:hidden">
+                            <Link
+                                href={`/home/${homeId}/inventory`}
+                                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                            >
+                                Ver inventario
+                            </Link>
+                            <button
+                                onClick={() => setReport(null)}
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                            >
+                                Nuevo recuento
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        {/* Alcance y filtro */}
+                        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+                            <select
+                                value={pendingScope ?? roomScope}
+                                onChange={(e) => handleScopeChange(e.target.value)}
+                                className="w-full px-3 py-3 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                            >
+                                <option value="">Toda la casa</option>
+                                {rooms.map(room => (
+                                    <option key={room.id} value={room.id}>{room.name}</option>
+                                ))}
+                            </select>
+                            {pendingScope !== null && (
+                                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm">
+                                    <p className="text-yellow-800">
+                                        Has contado {countedOutside(pendingScope)} líneas fuera de {roomName(pendingScope) || 'esta habitación'}.
+                                        Si cambias, esas cantidades se descartan y no se envían.
+                                    </p>
+                                    <div className="flex justify-end gap-2 mt-2">
+                                        <button
+                                            onClick={() => setPendingScope(null)}
+                                            className="px-3 py-2 font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                                        >
+                                            Seguir aquí
+                                        </button>
+                                        <button
+                                            onClick={() => applyScope(pendingScope)}
+                                            className="px-3 py-2 font-medium text-white bg-yellow-600 border border-transparent rounded-md hover:bg-yellow-700"
+                                        >
+                                            Cambiar y descartar
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-3 gap-2">
+                                {(Object.keys(LINE_FILTER_LABELS) as LineFilter[]).map(filter => (
+                                    <button
+                                        key={filter}
+                                        onClick={() => setLineFilter(filter)}
+                                        className={`px-2 py-2 text-sm font-medium rounded-md border ${lineFilter === filter
+                                            ? 'bg-blue-600 text-white border-blue-600'
+                                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        {LINE_FILTER_LABELS[filter]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Líneas por habitación */}
+                        {isLoadingInventory ? (
+                            <div className="flex justify-center py-12">
+                                <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                            </div>
+                        ) : inventory.length === 0 ? (
+                            <p className="bg-white rounded-lg shadow px-4 py-8 text-sm text-gray-500 text-center">
+                                No hay productos que contar {roomScope ? 'en esta habitación' : 'en esta casa'}
+                            </p>
+                        ) : (
+                            roomGroups.map(group => {
+                                const visibleItems = group.items.filter(isVisible);
+                                if (visibleItems.length === 0) return null;
+                                const countedInGroup = group.items.filter(item => counts[item.id] !== undefined).length;
+                                return (
+                                    <div key={group.id || 'sin-habitacion'} className="bg-white rounded-lg shadow overflow-hidden">
+                                        <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                                            <h2 className="font-medium text-gray-900">{group.id ? '🚪' : '📦'} {group.name}</h2>
+                                            <span className="text-sm text-gray-500">{countedInGroup}/{group.items.length}</span>
+                                        </div>
+                                        <div className="divide-y divide-gray-200">
+                                            {visibleItems.map(item => {
+                                                const counted = counts[item.id];
+                                                const difference = counted === undefined ? 0 : counted - item.quantity;
+                                                return (
+                                                    <div
+                                                        key={item.id}
+                                                        className={`px-4 py-3 ${counted === undefined ? '' : difference === 0 ? 'bg-green-50' : 'bg-orange-50'}`}
+                                                    >
+                                                        <div className="flex items-start justify-between gap-3">
+                                                            <div className="min-w-0">
+                                                                <p className="font-medium text-gray-900">{item.amenity?.name}</p>
+                                                                <p className="text-xs text-gray-500">
+                                                                    Sistema: {item.quantity}
+                                                                    {item.location_details && ` • ${item.location_details}`}
+                                                                </p>
+                                                            </div>
+                                                            {counted !== undefined && difference !== 0 && (
+                                                                <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${difference < 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+                                                                    {formatQuantityChange(difference)}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                        <div className="flex items-center gap-2 mt-2">
+                                                            <button
+                                                                onClick={() => setCount(item.id, (counted ?? item.quantity) - 1)}
+                                                                className="w-12 h-12 text-xl font-medium text-gray-700 bg-white border-2 border-gray-300 rounded-md hover:bg-gray-50"
+                                                                aria-label="Una menos"
+                                                            >
+                                                                -
+                                                            </button>
+                                                            <input
+                                                                type="number"
+                                                                inputMode="numeric"
+                                                                min="0"
+                                                                value={counted ?? ''}
+                                                                onChange={(e) => setCount(item.id, e.target.value === '' ? undefined : parseInt(e.target.value))}
+                                                                placeholder="Contado"
+                                                                className="flex-1 h-12 px-3 text-center text-lg border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                                            />
+                                                            <button
+                                                                onClick={() => setCount(item.id, (counted ?? item.quantity) + 1)}
+                                                                className="w-12 h-12 text-xl font-medium text-gray-700 bg-white border-2 border-gray-300 rounded-md hover:bg-gray-50"
+                                                                aria-label="Una más"
+                                                            >
+                                                                +
+                                                            </button>
+                                                            <button
+                                                                onClick={() => setCount(item.id, item.quantity)}
+                                                                className="h-12 px-3 text-sm font-medium text-green-700 bg-green-50 border-2 border-green-200 rounded-md hover:bg-green-100"
+                                                                title="La cantidad coincide con el sistema"
+                                                            >
+                                                                ✓ {item.quantity}
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                );
+                            })
+                        )}
+                    </>
+                )}
+            </div>
+
+            {/* Barra de envío (fija abajo en el móvil) */}
+            {!report && inventory.length > 0 && (
+                <div className="fixed bottom-0 inset-x-0 z-40 bg-white border-t border-gray-200 shadow-lg print:hidden">
+                    <div className="max-w-3xl mx-auto px-4 py-3 flex items-center justify-between gap-3">
+                        <p className="text-sm text-gray-700">
+                            <span className="font-medium">{lines.length}/{inventory.length}</span> contadas
+                            {summary.discrepancies > 0 && <span className="text-orange-600"> • {summary.discrepancies} con diferencias</span>}
+                        </p>
+                        <button
+                            onClick={() => setConfirming(true)}
+                            disabled={lines.length === 0 || createStockTake.isPending}
+                            className="px-4 py-3 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {createStockTake.isPending ? 'Enviando...' : 'Enviar recuento'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Confirmación del envío */}
+            {confirming && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div className="flex min-h-screen items-center justify-center p-4">
+                        <div className="fixed inset-0 bg-black opacity-30" onClick={() => setConfirming(false)}></div>
+                        <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                            <h3 className="text-lg font-medium text-gray-900 mb-4">Enviar recuento</h3>
+                            <ul className="text-sm text-gray-700 space-y-1 mb-4">
+                                <li>✅ {summary.matching} líneas cuadran con el sistema</li>
+                                <li>⚠️ {summary.discrepancies} líneas se corregirán (-{summary.missingUnits} / +{summary.surplusUnits} uds.)</li>
+                                {pendingLines > 0 && (
+                                    <li className="text-orange-700">⏳ {pendingLines} líneas sin contar no se modificarán</li>
+                                )}
+                            </ul>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Observaciones (opcional)
+                            </label>
+                            <textarea
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                rows={3}
+                                className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                placeholder="Ej: faltan toallas tras la última estancia"
+                            />
+                            <div className="flex justify-end space-x-3 mt-6">
+                                <button
+                                    onClick={() => setConfirming(false)}
+                                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                >
+                                    Seguir contando
+                                </button>
+                                <button
+                                    onClick={handleSubmit}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                                >
+                                    Enviar
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,99 +1,168 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useParams } from 'next/navigation';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
-import { HomeWithCompleteness, HomeInventoryWithRelations } from '@/lib/types';
+import { isApiError } from '@/lib/apiClient';
+import { HomeInventoryWithRelations } from '@/lib/types';
+import { useHome, useInventory, useRooms, useSuppliers } from '@/hooks/useApiQueries';
+import { useUpdateInventory, useDeleteInventory, useRecordStockMovement } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { groupInventoryByRoom } from '@/lib/inventory';
+import { InventoryItemRow } from '@/components/inventory/InventoryItemRow';
+import { StockMovementTimeline } from '@/components/inventory/StockMovementTimeline';
+import { TransferInventoryModal } from '@/components/inventory/TransferInventoryModal';
+import {
+    MANUAL_MOVEMENT_TYPES,
+    STOCK_MOVEMENT_LABELS,
+    movementAuthor,
+    movementChange,
+    type ManualMovementType,
+} from '@/lib/stockMovements';
 import Link from 'next/link';
 
-const apiClient = createApiClient(config.apiUrl);
+type ViewMode = 'list' | 'rooms';
+
+// Valor del filtro para los productos sin habitación ('' es "todas")
+const NO_ROOM = 'sin-habitacion';
 
 export default function HomeInventoryPage() {
     const params = useParams();
     const homeId = params.homeId as string;
+    const { can, user } = useAuth();
 
-    const [home, setHome] = useState<HomeWithCompleteness | null>(null);
-    const [inventory, setInventory] = useState<HomeInventoryWithRelations[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const { data: home, isLoading: isLoadingHome, error: homeError } = useHome(homeId);
+    const { data: inventory = [], isLoading: isLoadingInventory } = useInventory(homeId);
+    const { data: rooms = [], isLoading: isLoadingRooms } = useRooms(homeId);
+    const { data: suppliers } = useSuppliers({ page: 1, pageSize: 100 });
+    const updateInventory = useUpdateInventory();
+    const deleteInventory = useDeleteInventory();
+    const recordMovement = useRecordStockMovement();
     const [editingItem, setEditingItem] = useState<HomeInventoryWithRelations | null>(null);
     const [deletingItem, setDeletingItem] = useState<HomeInventoryWithRelations | null>(null);
+    const [historyItem, setHistoryItem] = useState<HomeInventoryWithRelations | null>(null);
+    const [transferringItem, setTransferringItem] = useState<HomeInventoryWithRelations | null>(null);
     const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [viewMode, setViewMode] = useState<ViewMode>('list');
+    const [roomFilter, setRoomFilter] = useState('');
+    // Habitación sobre la que se está arrastrando un producto ('' = sin habitación)
+    const [dragOverRoomId, setDragOverRoomId] = useState<string | null>(null);
     const [editForm, setEditForm] = useState({
-        quantity: '',
+        // La cantidad no se edita: cambia con un movimiento de stock
+        movement_type: '' as ManualMovementType | '',
+        movement_amount: '',
+        movement_reason: '',
+        room_id: '',
+        minimum_threshold: '',
+        supplier_id: '',
+        purchase_link: '',
         notes: ''
     });
 
-    useEffect(() => {
-        const loadHomeData = async () => {
-            try {
-                setLoading(true);
-
-                // Cargar información de la casa
-                const homeResponse = await apiClient.listHomesWithCompleteness();
-                const foundHome = homeResponse.data.find(h => h.id === homeId);
-
-                if (!foundHome) {
-                    setError('Casa no encontrada');
-                    return;
-                }
-
-                setHome(foundHome);
+    const roomName = (roomId?: string) => rooms.find(room => room.id === roomId)?.name;
 
-                // Cargar inventario de la casa (filtrado en servidor)
-                const inventoryResponse = await apiClient.listInventory({ home_id: homeId, pageSize: 100 });
-                setInventory(inventoryResponse.data);
+    const roomGroups = useMemo(() => groupInventoryByRoom(inventory, rooms), [inventory, rooms]);
 
-            } catch (err) {
-                console.error('Error loading home data:', err);
-                setError('Error al cargar los datos de la casa');
-            } finally {
-                setLoading(false);
-            }
-        };
+    const filteredInventory = roomFilter
+        ? roomGroups.find(group => (group.id || NO_ROOM) === roomFilter)?.items ?? []
+        : inventory;
 
-        if (homeId) {
-            loadHomeData();
-        }
-    }, [homeId]);
+    const loading = isLoadingHome || isLoadingInventory || isLoadingRooms;
+    const error = homeError
+        ? (isApiError(homeError) && homeError.status === 404 ? 'Casa no encontrada' : 'Error al cargar los datos de la casa')
+        : null;
 
     // Funciones para manejar edición y eliminación
     const handleEditInventory = (item: HomeInventoryWithRelations) => {
         setEditingItem(item);
         setEditForm({
-            quantity: item.quantity.toString(),
+            movement_type: '',
+            movement_amount: '',
+            movement_reason: '',
+            room_id: item.room_id || '',
+            minimum_threshold: item.minimum_threshold.toString(),
+            supplier_id: item.supplier_id,
+            purchase_link: item.purchase_link || '',
             notes: item.notes || ''
         });
     };
 
     const handleDeleteInventory = async (item: HomeInventoryWithRelations) => {
         try {
-            await apiClient.deleteInventory(item.id);
-            setSubmitMessage({ type: 'success', message: 'Producto eliminado exitosamente' });
+            // El producto desaparece de la lista al instante y se restaura si falla
             setDeletingItem(null);
-            // Recargar el inventario
-            const inventoryResponse = await apiClient.listInventory({ home_id: homeId, pageSize: 100 });
-            setInventory(inventoryResponse.data);
+            await deleteInventory.mutateAsync(item.id);
+            setSubmitMessage({ type: 'success', message: 'Producto eliminado exitosamente' });
         } catch (error) {
             console.error('Error deleting inventory:', error);
             setSubmitMessage({ type: 'error', message: 'Error al eliminar el producto' });
         }
     };
 
+    // Cambio de habitación: se registra como movimiento y el backend actualiza la línea
+    const recordRoomMove = (item: HomeInventoryWithRelations, roomId: string) =>
+        recordMovement.mutateAsync({
+            inventory_id: item.id,
+            type: 'room_move',
+            quantity_change: 0,
+            from_room_id: item.room_id || undefined,
+            to_room_id: roomId || undefined,
+            ...movementAuthor(user!),
+        });
+
+    const handleMoveToRoom = async (itemId: string, roomId: string) => {
+        setDragOverRoomId(null);
+        const item = inventory.find(i => i.id === itemId);
+        if (!item || !user || (roomName(item.room_id) ? item.room_id : '') === roomId) return;
+
+        try {
+            await recordRoomMove(item, roomId);
+            setSubmitMessage({ type: 'success', message: `${item.amenity?.name || 'Producto'} movido a ${roomName(roomId) || 'Sin habitación'}` });
+        } catch (error) {
+            console.error('Error moving inventory:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al mover el producto' });
+        }
+    };
+
+    const movementAmount = parseInt(editForm.movement_amount);
+    const quantityChange = editingItem && editForm.movement_type && movementAmount >= 0
+        ? movementChange(editForm.movement_type, movementAmount, editingItem.quantity)
+        : 0;
+    const movementError = editingItem && editForm.movement_type && editForm.movement_amount !== ''
+        ? (!(movementAmount >= 0)
+            ? 'Introduce un número de unidades válido'
+            : editingItem.quantity + quantityChange < 0
+                ? `Solo hay ${editingItem.quantity} unidades`
+                : null)
+        : null;
+
     const handleSaveEdit = async () => {
-        if (!editingItem) return;
+        if (!editingItem || !user || movementError) return;
+        const item = editingItem;
 
         try {
-            await apiClient.updateInventory(editingItem.id, {
-                quantity: parseInt(editForm.quantity),
-                notes: editForm.notes
+            setEditingItem(null);
+            await updateInventory.mutateAsync({
+                id: item.id,
+                payload: {
+                    minimum_threshold: parseInt(editForm.minimum_threshold) || 0,
+                    supplier_id: editForm.supplier_id,
+                    purchase_link: editForm.purchase_link.trim(),
+                    notes: editForm.notes
+                }
             });
+            if (editForm.room_id !== (item.room_id || '')) {
+                await recordRoomMove(item, editForm.room_id);
+            }
+            if (editForm.movement_type && quantityChange !== 0) {
+                await recordMovement.mutateAsync({
+                    inventory_id: item.id,
+                    type: editForm.movement_type,
+                    quantity_change: quantityChange,
+                    reason: editForm.movement_reason.trim() || undefined,
+                    ...movementAuthor(user),
+                });
+            }
             setSubmitMessage({ type: 'success', message: 'Producto actualizado exitosamente' });
-            setEditingItem(null);
-            // Recargar el inventario
-            const inventoryResponse = await apiClient.listInventory({ home_id: homeId, pageSize: 100 });
-            setInventory(inventoryResponse.data);
         } catch (error) {
             console.error('Error updating inventory:', error);
             setSubmitMessage({ type: 'error', message: 'Error al actualizar el producto' });
@@ -162,12 +231,24 @@ export default function HomeInventoryPage() {
                                 Todos los productos y elementos incluidos en esta casa
                             </p>
                         </div>
-                        <Link
-                            href={`/wizard/inventory?homeId=${homeId}`}
-                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gray-800 hover:bg-gray-900"
-                        >
-                            ✏️ Gestionar Inventario
-                        </Link>
+                        <div className="flex items-center gap-3">
+                            {can('inventory:count') && inventory.length > 0 && (
+                                <Link
+                                    href={`/home/${homeId}/inventory/count`}
+                                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                                >
+                                    🔢 Recuento
+                                </Link>
+                            )}
+                            {can('content:edit') && (
+                                <Link
+                                    href={`/wizard/inventory?homeId=${homeId}`}
+                                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gray-800 hover:bg-gray-900"
+                                >
+                                    ✏️ Gestionar Inventario
+                                </Link>
+                            )}
+                        </div>
                     </div>
                 </div>
 
@@ -175,10 +256,40 @@ export default function HomeInventoryPage() {
 
                 {/* Lista de Inventario */}
                 <div className="bg-white rounded-lg shadow">
-                    <div className="px-6 py-4 border-b border-gray-200">
+                    <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
                         <h2 className="text-lg font-medium text-gray-900">
                             Productos del Inventario
                         </h2>
+                        {inventory.length > 0 && (
+                            <div className="flex items-center gap-3">
+                                {viewMode === 'list' && (
+                                    <select
+                                        value={roomFilter}
+                                        onChange={(e) => setRoomFilter(e.target.value)}
+                                        className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm text-sm"
+                                    >
+                                        <option value="">Todas las habitaciones</option>
+                                        {roomGroups.map(group => (
+                                            <option key={group.id || NO_ROOM} value={group.id || NO_ROOM}>{group.name} ({group.items.length})</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <div className="inline-flex rounded-md shadow-sm">
+                                    {(['list', 'rooms'] as ViewMode[]).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setViewMode(mode)}
+                                            className={`px-3 py-2 text-sm font-medium border first:rounded-l-md last:rounded-r-md ${viewMode === mode
+                                                ? 'bg-blue-600 text-white border-blue-600'
+                                                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                                }`}
+                                        >
+                                            {mode === 'list' ? '📋 Lista' : '🚪 Por habitación'}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     {inventory.length === 0 ? (
@@ -199,73 +310,54 @@ export default function HomeInventoryPage() {
                                 + Añadir Productos
                             </Link>
                         </div>
-                    ) : (
+                    ) : viewMode === 'list' ? (
                         <div className="divide-y divide-gray-200">
-                            {inventory.map((item) => (
-                                <div key={item.id} className="px-6 py-4 hover:bg-gray-50">
-                                    <div className="flex items-center justify-between">
-                                        <div className="flex-1">
-                                            <div className="flex items-center">
-                                                <h3 className="text-lg font-medium text-gray-900">
-                                                    {item.amenity?.name}
-                                                </h3>
-                                                {item.quantity && item.quantity > 1 && (
-                                                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                                                        x{item.quantity}
-                                                    </span>
-                                                )}
-                                            </div>
-
-                                            <div className="mt-1 flex items-center text-sm text-gray-500">
-                                                {item.amenity?.category?.name && (
-                                                    <span className="mr-4">
-                                                        📂 {item.amenity.category.name}
-                                                    </span>
-                                                )}
-                                                {item.amenity?.brand?.name && (
-                                                    <span className="mr-4">
-                                                        🏷️ {item.amenity.brand.name}
-                                                    </span>
-                                                )}
-                                                {item.supplier?.name && (
-                                                    <span>
-                                                        🏢 {item.supplier.name}
-                                                    </span>
-                                                )}
-                                            </div>
-
-                                            {item.amenity?.description && (
-                                                <p className="mt-2 text-sm text-gray-600">
-                                                    {item.amenity.description}
-                                                </p>
-                                            )}
-                                        </div>
-
-                                        <div className="ml-6 flex flex-col items-end">
-                                            <div className="text-lg font-semibold text-green-600">
-                                                €{Number(item.amenity?.base_price || 0).toFixed(2)}
-                                            </div>
-                                            {item.quantity && item.quantity > 1 && (
-                                                <div className="text-sm text-gray-500">
-                                                    Total: €{(Number(item.amenity?.base_price || 0) * item.quantity).toFixed(2)}
-                                                </div>
-                                            )}
-                                            <div className="flex space-x-2 mt-2">
-                                                <button
-                                                    onClick={() => handleEditInventory(item)}
-                                                    className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100"
-                                                >
-                                                    ✏️ Editar
-                                                </button>
-                                                <button
-                                                    onClick={() => setDeletingItem(item)}
-                                                    className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
-                                                >
-                                                    🗑️ Eliminar
-                                                </button>
-                                            </div>
-                                        </div>
+                            {filteredInventory.map((item) => (
+                                <InventoryItemRow
+                                    key={item.id}
+                                    item={item}
+                                    roomName={roomName(item.room_id)}
+                                    onHistory={() => setHistoryItem(item)}
+                                    onTransfer={can('content:edit') && item.quantity > 0 ? () => setTransferringItem(item) : undefined}
+                                    onEdit={can('content:edit') ? () => handleEditInventory(item) : undefined}
+                                    onDelete={can('content:delete') ? () => setDeletingItem(item) : undefined}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="p-6 space-y-6">
+                            {can('content:edit') && (
+                                <p className="text-sm text-gray-500">Arrastra un producto a otra habitación para moverlo.</p>
+                            )}
+                            {roomGroups.map(group => (
+                                <div
+                                    key={group.id || NO_ROOM}
+                                    onDragOver={can('content:edit') ? (e) => { e.preventDefault(); setDragOverRoomId(group.id); } : undefined}
+                                    onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverRoomId(null); }}
+                                    onDrop={(e) => { e.preventDefault(); handleMoveToRoom(e.dataTransfer.getData('text/plain'), group.id); }}
+                                    className={`border-2 rounded-lg overflow-hidden ${dragOverRoomId === group.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                                >
+                                    <div className="px-6 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                                        <h3 className="font-medium text-gray-900">{group.id ? '🚪' : '📦'} {group.name}</h3>
+                                        <span className="text-sm text-gray-500">{group.items.length} productos</span>
                                     </div>
+                                    {group.items.length === 0 ? (
+                                        <p className="px-6 py-4 text-sm text-gray-400">Sin productos</p>
+                                    ) : (
+                                        <div className="divide-y divide-gray-200">
+                                            {group.items.map(item => (
+                                                <InventoryItemRow
+                                                    key={item.id}
+                                                    item={item}
+                                                    onHistory={() => setHistoryItem(item)}
+                                                    onTransfer={can('content:edit') && item.quantity > 0 ? () => setTransferringItem(item) : undefined}
+                                                    onEdit={can('content:edit') ? () => handleEditInventory(item) : undefined}
+                                                    onDelete={can('content:delete') ? () => setDeletingItem(item) : undefined}
+                                                    onDragStart={can('content:edit') ? (e) => e.dataTransfer.setData('text/plain', item.id) : undefined}
+                                                />
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -311,6 +403,37 @@ export default function HomeInventoryPage() {
                 </div>
             )}
 
+            {/* Transferencia a otra casa */}
+            {transferringItem && (
+                <TransferInventoryModal
+                    item={transferringItem}
+                    sourceRoomName={roomName(transferringItem.room_id)}
+                    onClose={() => setTransferringItem(null)}
+                    onDone={setSubmitMessage}
+                />
+            )}
+
+            {/* Historial de movimientos */}
+            {historyItem && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div className="flex min-h-screen items-center justify-center p-4">
+                        <div className="fixed inset-0 bg-black opacity-30" onClick={() => setHistoryItem(null)}></div>
+                        <div className="relative bg-white rounded-lg shadow-lg max-w-lg w-full p-6">
+                            <div className="flex items-start justify-between mb-4">
+                                <div>
+                                    <h3 className="text-lg font-medium text-gray-900">Historial de {historyItem.amenity?.name}</h3>
+                                    <p className="text-sm text-gray-500">{historyItem.quantity} uds. • {roomName(historyItem.room_id) || 'Sin habitación'}</p>
+                                </div>
+                                <button onClick={() => setHistoryItem(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+                            </div>
+                            <div className="max-h-[60vh] overflow-y-auto pt-2">
+                                <StockMovementTimeline item={historyItem} roomName={roomName} />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Modal de edición */}
             {editingItem && (
                 <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -334,15 +457,105 @@ export default function HomeInventoryPage() {
                             <div className="space-y-4 bg-gray-50 p-4 rounded-lg">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                                        Cantidad
+                                        Movimiento de stock ({editingItem.quantity} uds. ahora)
+                                    </label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <select
+                                            value={editForm.movement_type}
+                                            onChange={(e) => setEditForm({ ...editForm, movement_type: e.target.value as ManualMovementType | '' })}
+                                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                        >
+                                            <option value="">Sin cambios</option>
+                                            {MANUAL_MOVEMENT_TYPES.map(type => (
+                                                <option key={type} value={type}>{STOCK_MOVEMENT_LABELS[type]}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={editForm.movement_amount}
+                                            onChange={(e) => setEditForm({ ...editForm, movement_amount: e.target.value })}
+                                            disabled={!editForm.movement_type}
+                                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm disabled:bg-gray-100"
+                                            placeholder={editForm.movement_type === 'correction' ? 'Cantidad contada' : 'Unidades'}
+                                        />
+                                    </div>
+                                    {editForm.movement_type && (
+                                        <input
+                                            type="text"
+                                            value={editForm.movement_reason}
+                                            onChange={(e) => setEditForm({ ...editForm, movement_reason: e.target.value })}
+                                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm mt-2"
+                                            placeholder="Motivo (opcional)"
+                                        />
+                                    )}
+                                    {movementError ? (
+                                        <p className="text-xs text-red-600 mt-1">{movementError}</p>
+                                    ) : quantityChange !== 0 && (
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            Quedarán {editingItem.quantity + quantityChange} uds.
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Habitación
+                                    </label>
+                                    <select
+                                        value={editForm.room_id}
+                                        onChange={(e) => setEditForm({ ...editForm, room_id: e.target.value })}
+                                        className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                    >
+                                        <option value="">Sin habitación</option>
+                                        {rooms.map(room => (
+                                            <option key={room.id} value={room.id}>{room.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Umbral mínimo
                                     </label>
                                     <input
                                         type="number"
-                                        min="1"
-                                        value={editForm.quantity}
-                                        onChange={(e) => setEditForm({ ...editForm, quantity: e.target.value })}
+                                        min="0"
+                                        value={editForm.minimum_threshold}
+                                        onChange={(e) => setEditForm({ ...editForm, minimum_threshold: e.target.value })}
+                                        className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                        placeholder="Cantidad a partir de la cual hay que reponer"
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Proveedor
+                                    </label>
+                                    <select
+                                        value={editForm.supplier_id}
+                                        onChange={(e) => setEditForm({ ...editForm, supplier_id: e.target.value })}
+                                        className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                    >
+                                        {!suppliers.some(supplier => supplier.id === editForm.supplier_id) && (
+                                            <option value={editForm.supplier_id}>{editingItem.supplier?.name || 'Proveedor actual'}</option>
+                                        )}
+                                        {suppliers.map(supplier => (
+                                            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Enlace de compra (opcional)
+                                    </label>
+                                    <input
+                                        type="url"
+                                        value={editForm.purchase_link}
+                                        onChange={(e) => setEditForm({ ...editForm, purchase_link: e.target.value })}
                                         className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
-                                        placeholder="Cantidad"
+                                        placeholder="https://..."
                                     />
                                 </div>
 
@@ -369,7 +582,8 @@ export default function HomeInventoryPage() {
                                 </button>
                                 <button
                                     onClick={handleSaveEdit}
-                                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                                    disabled={Boolean(movementError)}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                     Guardar
                                 </button>
@@ -1,133 +1,41 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import { HomeWithCompleteness, Room, StylingGuide, Playbook, HomeInventoryWithRelations, TechnicalPlan, ApplianceGuide } from '@/lib/types';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
+import { isApiError } from '@/lib/apiClient';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { ShareLinksPanel } from '@/components/home/ShareLinksPanel';
+import { PlaybookCompletionHistory } from '@/components/home/PlaybookCompletionHistory';
+import { HomeExportMenu } from '@/components/home/HomeExportMenu';
+import { HomeOfflineToggle } from '@/components/home/HomeOfflineToggle';
+import {
+    useHome,
+    useRooms,
+    useInventory,
+    useTechnicalPlans,
+    useHomeApplianceGuides,
+    useStylingGuides,
+    usePlaybooks,
+    usePlaybookCompletions,
+} from '@/hooks/useApiQueries';
 
 export default function HomeDetailPage() {
     const params = useParams();
     const homeId = params.homeId as string;
+    const { can } = useAuth();
 
-    const [home, setHome] = useState<HomeWithCompleteness | null>(null);
-    const [rooms, setRooms] = useState<Room[]>([]);
-    const [inventory, setInventory] = useState<HomeInventoryWithRelations[]>([]);
-    const [technicalPlans, setTechnicalPlans] = useState<TechnicalPlan[]>([]);
-    const [applianceGuides, setApplianceGuides] = useState<ApplianceGuide[]>([]);
-    const [stylingGuides, setStylingGuides] = useState<StylingGuide[]>([]);
-    const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const { data: home, isLoading: loading, error: homeError } = useHome(homeId);
+    const { data: rooms = [] } = useRooms(homeId);
+    const { data: inventory = [] } = useInventory(homeId);
+    const { data: technicalPlans = [] } = useTechnicalPlans(homeId);
+    const { data: applianceGuides = [] } = useHomeApplianceGuides(homeId);
+    const { data: stylingGuides = [] } = useStylingGuides(homeId);
+    const { data: playbooks = [] } = usePlaybooks(homeId);
+    const { data: completions = [], isLoading: isLoadingCompletions } = usePlaybookCompletions(homeId);
 
-    const apiClient = createApiClient(config.apiUrl);
-
-    useEffect(() => {
-        if (homeId) {
-            loadHomeData();
-        }
-    }, [homeId]);
-
-    const loadHomeData = async () => {
-        setLoading(true);
-        try {
-            // Cargar casa con completitud
-            const homeResponse = await apiClient.listHomesWithCompleteness({ pageSize: 100 });
-            if (homeResponse.success) {
-                const foundHome = homeResponse.data.find(h => h.id === homeId);
-                if (foundHome) {
-                    setHome(foundHome);
-                    await Promise.all([
-                        loadRooms(homeId),
-                        loadInventory(homeId),
-                        loadTechnicalPlans(homeId),
-                        loadApplianceGuides(homeId),
-                        loadStylingGuides(),
-                        loadPlaybooks()
-                    ]);
-                } else {
-                    setError('Casa no encontrada');
-                }
-            }
-        } catch (error) {
-            console.error('Error loading home data:', error);
-            setError('Error al cargar los datos de la casa');
-        } finally {
-            setLoading(false);
-        }
-    };
-
-    const loadRooms = async (homeId: string) => {
-        try {
-            const response = await apiClient.listRooms({ home_id: homeId });
-            if (response.success) {
-                setRooms(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading rooms:', error);
-        }
-    };
-
-    const loadInventory = async (homeId: string) => {
-        try {
-            const response = await apiClient.listInventory({ home_id: homeId });
-            if (response.success) {
-                setInventory(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading inventory:', error);
-        }
-    };
-
-    const loadTechnicalPlans = async (homeId: string) => {
-        try {
-            console.log('Loading technical plans for home:', homeId);
-            const response = await apiClient.listTechnicalPlans({ home_id: homeId });
-            if (response.success) {
-                console.log('Technical plans loaded:', response.data);
-                // Filtrar solo los planos que pertenecen a esta casa específica
-                const filteredPlans = response.data.filter(plan => plan.home_id === homeId);
-                console.log('Filtered technical plans for this home:', filteredPlans);
-                setTechnicalPlans(filteredPlans);
-            }
-        } catch (error) {
-            console.error('Error loading technical plans:', error);
-        }
-    };
-
-    const loadApplianceGuides = async (homeId: string) => {
-        try {
-            const response = await apiClient.listApplianceGuidesByHome(homeId);
-            if (response.success) {
-                setApplianceGuides(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading appliance guides:', error);
-        }
-    };
-
-    const loadStylingGuides = async () => {
-        try {
-            const response = await apiClient.listStylingGuides({ pageSize: 100 });
-            if (response.success) {
-                setStylingGuides(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading styling guides:', error);
-        }
-    };
-
-    const loadPlaybooks = async () => {
-        try {
-            const response = await apiClient.listPlaybooks({ pageSize: 100 });
-            if (response.success) {
-                setPlaybooks(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading playbooks:', error);
-        }
-    };
+    const error = homeError
+        ? (isApiError(homeError) && homeError.status === 404 ? 'Casa no encontrada' : 'Error al cargar los datos de la casa')
+        : null;
 
     const getCompletenessColor = (completeness: number) => {
         if (completeness >= 80) return 'text-green-600 bg-green-50 border-green-200';
@@ -204,6 +112,10 @@ export default function HomeDetailPage() {
                                     <span className="text-gray-500">📍 {home.destination}</span>
                                 </div>
                             </div>
+                            <div className="flex flex-col items-end gap-2">
+                                <HomeExportMenu home={home} inventory={inventory} rooms={rooms} />
+                                <HomeOfflineToggle homeId={homeId} />
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -238,31 +150,35 @@ export default function HomeDetailPage() {
                             </div>
                         </Link>
 
-                        <Link
-                            href={`/wizard/technical-docs?homeId=${homeId}`}
-                            className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
-                        >
-                            <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
-                                <span className="text-green-600 text-lg">📐</span>
-                            </div>
-                            <div>
-                                <h3 className="font-medium text-gray-900">Documentación Técnica</h3>
-                                <p className="text-sm text-gray-500">{technicalPlans.length + applianceGuides.length} documentos</p>
-                            </div>
-                        </Link>
+                        {can('content:edit') && (
+                            <Link
+                                href={`/wizard/technical-docs?homeId=${homeId}`}
+                                className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                                <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                                    <span className="text-green-600 text-lg">📐</span>
+                                </div>
+                                <div>
+                                    <h3 className="font-medium text-gray-900">Documentación Técnica</h3>
+                                    <p className="text-sm text-gray-500">{technicalPlans.length + applianceGuides.length} documentos</p>
+                                </div>
+                            </Link>
+                        )}
 
-                        <Link
-                            href={`/wizard/catalog`}
-                            className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
-                        >
-                            <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center">
-                                <span className="text-orange-600 text-lg">🏷️</span>
-                            </div>
-                            <div>
-                                <h3 className="font-medium text-gray-900">Gestionar Catálogo</h3>
-                                <p className="text-sm text-gray-500">Marcas, categorías, productos</p>
-                            </div>
-                        </Link>
+                        {can('catalog:edit') && (
+                            <Link
+                                href={`/wizard/catalog`}
+                                className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                                <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center">
+                                    <span className="text-orange-600 text-lg">🏷️</span>
+                                </div>
+                                <div>
+                                    <h3 className="font-medium text-gray-900">Gestionar Catálogo</h3>
+                                    <p className="text-sm text-gray-500">Marcas, categorías, productos</p>
+                                </div>
+                            </Link>
+                        )}
                     </div>
                 </div>
 
@@ -342,17 +258,33 @@ export default function HomeDetailPage() {
                                 )}
                             </div>
                         </div>
-                        <div className="mt-4">
-                            <Link
-                                href={`/wizard/technical-docs?homeId=${homeId}`}
-                                className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                            >
-                                Gestionar documentación →
-                            </Link>
-                        </div>
+                        {can('content:edit') && (
+                            <div className="mt-4">
+                                <Link
+                                    href={`/wizard/technical-docs?homeId=${homeId}`}
+                                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                                >
+                                    Gestionar documentación →
+                                </Link>
+                            </div>
+                        )}
                     </div>
                 </div>
 
+                {/* Historial de ejecuciones */}
+                {can('content:edit') && (
+                    <div className="mt-8">
+                        <PlaybookCompletionHistory completions={completions} rooms={rooms} isLoading={isLoadingCompletions} />
+                    </div>
+                )}
+
+                {/* Enlaces públicos */}
+                {can('content:edit') && (
+                    <div id="enlaces" className="mt-8">
+                        <ShareLinksPanel homeId={homeId} />
+                    </div>
+                )}
+
                 {/* Habitaciones */}
                 <div className="mt-8">
                     <div className="bg-white rounded-lg shadow-md p-6">
@@ -366,6 +298,9 @@ export default function HomeDetailPage() {
                                 {rooms.map((room) => {
                                     const roomStylingGuides = stylingGuides.filter(g => g.room_id === room.id);
                                     const roomPlaybooks = playbooks.filter(p => p.room_id === room.id);
+                                    const roomInventoryCount = inventory.filter(item => item.room_id === room.id).length;
+                                    // El historial llega ordenado del más reciente al más antiguo
+                                    const lastCompletion = completions.find(c => c.room_id === room.id);
 
                                     return (
                                         <div key={room.id} className="border border-gray-200 rounded-lg p-4">
@@ -377,6 +312,13 @@ export default function HomeDetailPage() {
                                                     <h3 className="font-medium text-gray-900">{room.name}</h3>
                                                     <p className="text-sm text-gray-500">{room.description || 'Sin descripción'}</p>
                                                 </div>
+                                                <Link
+                                                    href={`/home/${homeId}/inventory`}
+                                                    className="ml-auto text-xs font-medium text-gray-600 bg-gray-100 rounded-full px-2 py-0.5 hover:bg-gray-200"
+                                                    title="Productos del inventario en esta habitación"
+                                                >
+                                                    📦 {roomInventoryCount}
+                                                </Link>
                                             </div>
 
                                             <div className="space-y-3">
@@ -407,7 +349,15 @@ export default function HomeDetailPage() {
                                                             {roomPlaybooks.map((playbook) => (
                                                                 <div key={playbook.id} className="flex items-center space-x-2 p-1 bg-blue-50 rounded text-xs">
                                                                     <span className="text-blue-600">📋</span>
-                                                                    <span className="text-gray-900">{playbook.title}</span>
+                                                                    <span className="flex-1 text-gray-900">{playbook.title}</span>
+                                                                    {can('playbook:run') && (
+                                                                        <Link
+                                                                            href={`/home/${homeId}/playbooks/${playbook.id}/run`}
+                                                                            className="text-green-700 hover:text-green-900 font-medium"
+                                                                        >
+                                                                            ▶️ Ejecutar
+                                                                        </Link>
+                                                                    )}
                                                                 </div>
                                                             ))}
                                                         </div>
@@ -415,6 +365,12 @@ export default function HomeDetailPage() {
                                                         <p className="text-xs text-gray-500">No hay playbooks</p>
                                                     )}
                                                 </div>
+
+                                                {can('content:edit') && lastCompletion && (
+                                                    <p className="text-xs text-gray-500">
+                                                        ✓ Último: {lastCompletion.playbook_title} el {new Date(lastCompletion.completed_at).toLocaleDateString('es-ES')}
+                                                    </p>
+                                                )}
                                             </div>
 
 
@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useHome, useRooms, usePlaybooks, useAllAmenities } from '@/hooks/useApiQueries';
+import { useCreatePlaybookCompletion } from '@/hooks/useApiMutations';
+import { useUploadSession } from '@/hooks/useUploadSession';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { FileUpload } from '@/components/ui/FileUpload';
+import { STYLING_PHOTO_PROCESSING } from '@/lib/imageProcessing';
+import { materialName } from '@/lib/playbooks';
+import type { PlaybookStep } from '@/lib/types';
+
+const NO_STEPS: PlaybookStep[] = [];
+
+type StepState = { done: boolean; photo_url?: string };
+
+function formatElapsed(ms: number) {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Ejecución guiada de un playbook: marcar tareas, foto por paso, duración real y registro final
+export default function RunPlaybookPage() {
+    const params = useParams();
+    const homeId = params.homeId as string;
+    const playbookId = params.playbookId as string;
+    const { user } = useAuth();
+
+    const { data: home, isLoading: isLoadingHome } = useHome(homeId);
+    const { data: rooms = [], isLoading: isLoadingRooms } = useRooms(homeId);
+    const { data: playbooks = [], isLoading: isLoadingPlaybooks } = usePlaybooks(homeId);
+    const { data: amenities = [] } = useAllAmenities();
+    const createCompletion = useCreatePlaybookCompletion();
+    // Fotos de los pasos: si se abandona la ejecución sin enviarla, se borran
+    const photoUploads = useUploadSession();
+
+    const playbook = playbooks.find(p => p.id === playbookId);
+    const room = rooms.find(r => r.id === playbook?.room_id);
+    const tasks = playbook?.steps ?? NO_STEPS;
+
+    const [startedAt] = useState(() => new Date());
+    const [now, setNow] = useState(() => Date.now());
+    const [steps, setSteps] = useState<StepState[]>([]);
+    const [photoStep, setPhotoStep] = useState<number | null>(null);
+    const [durationMinutes, setDurationMinutes] = useState('');
+    const [notes, setNotes] = useState('');
+    const [confirmingIncomplete, setConfirmingIncomplete] = useState(false);
+    const [completed, setCompleted] = useState(false);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    // Un estado por tarea en cuanto se conoce el playbook
+    useEffect(() => {
+        setSteps(prev => (prev.length === tasks.length ? prev : tasks.map(() => ({ done: false }))));
+    }, [tasks]);
+
+    // Cronómetro
+    useEffect(() => {
+        if (completed) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [completed]);
+
+    const elapsedMs = now - startedAt.getTime();
+    const doneCount = steps.filter(step => step.done).length;
+
+    const updateStep = (index: number, changes: Partial<StepState>) => {
+        setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+    };
+
+    const handleRemovePhoto = (index: number) => {
+        const url = steps[index]?.photo_url;
+        if (url) photoUploads.release(url);
+        updateStep(index, { photo_url: undefined });
+    };
+
+    const handleSubmit = async () => {
+        if (!playbook || !user) return;
+        setConfirmingIncomplete(false);
+
+        const completedAt = new Date();
+        const parsedDuration = Number(durationMinutes);
+        try {
+            await createCompletion.mutateAsync({
+                playbook_id: playbook.id,
+                room_id: playbook.room_id,
+                home_id: homeId,
+                playbook_title: playbook.title,
+                completed_by: user.uid,
+                completed_by_name: user.displayName || user.email || undefined,
+                started_at: startedAt,
+                completed_at: completedAt,
+                duration_minutes: durationMinutes && parsedDuration > 0
+                    ? Math.round(parsedDuration)
+                    : Math.max(1, Math.round((completedAt.getTime() - startedAt.getTime()) / 60000)),
+                steps: tasks.map((task, index) => ({
+                    index,
+                    text: task.text,
+                    done: steps[index]?.done ?? false,
+                    photo_url: steps[index]?.photo_url,
+                })),
+                notes: notes.trim() || undefined,
+            });
+            await photoUploads.commit();
+            setCompleted(true);
+        } catch (error) {
+            console.error('Error al registrar la ejecución del playbook:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al registrar la ejecución. Inténtalo de nuevo.' });
+        }
+    };
+
+    const requestSubmit = () => {
+        if (doneCount < tasks.length) {
+            setConfirmingIncomplete(true);
+        } else {
+            handleSubmit();
+        }
+    };
+
+    if (isLoadingHome || isLoadingRooms || isLoadingPlaybooks) {
+        return (
+            <div className="min-h-screen bg-gray-50 py-8">
+                <div className="flex justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!home || !playbook) {
+        return (
+            <div className="min-h-screen bg-gray-50 py-8">
+                <div className="max-w-2xl mx-auto px-4">
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">Playbook no encontrado</p>
+                        <Link href={`/home/${homeId}/styling-guides`} className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver a las guías
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (completed) {
+        return (
+            <div className="min-h-screen bg-gray-50 py-8">
+                <div className="max-w-2xl mx-auto px-4">
+                    <div className="bg-white rounded-lg shadow p-6 text-center">
+                        <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                            <span className="text-green-600 text-2xl">✓</span>
+                        </div>
+                        <h1 className="text-xl font-bold text-gray-900 mb-2">Playbook completado</h1>
+                        <p className="text-gray-600 mb-6">
+                            {playbook.title} • {room?.name} • {doneCount}/{tasks.length} tareas
+                        </p>
+                        <Link
+                            href={`/home/${homeId}/styling-guides`}
+                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                        >
+                            Volver a {home.name}
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-2xl mx-auto px-4">
+                {/* Header */}
+                <div className="mb-6">
+                    <Link
+                        href={`/home/${homeId}/styling-guides`}
+                        className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-2"
+                    >
+                        ← Salir sin guardar
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900">{playbook.title}</h1>
+                    <p className="text-gray-600">
+                        {room?.name || 'Habitación'} • {home.name}
+                    </p>
+                    <div className="mt-3 flex items-center space-x-4 text-sm">
+                        <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full font-mono">⏱️ {formatElapsed(elapsedMs)}</span>
+                        <span className="text-gray-500">Estimado: {playbook.estimated_time}</span>
+                        <span className="text-gray-500">{doneCount}/{tasks.length} tareas</span>
+                    </div>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md mb-6 ${submitMessage.type === 'success' ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-red-50 text-red-800 border border-red-200'}`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                {(playbook.materials.length > 0 || playbook.materials_note) && (
+                    <div className="bg-white rounded-lg shadow p-4 mb-4">
+                        <h2 className="text-sm font-medium text-gray-700 mb-1">🛠️ Materiales</h2>
+                        <ul className="list-disc list-inside text-sm text-gray-700 space-y-0.5">
+                            {playbook.materials.map((material, index) => (
+                                <li key={index}>{materialName(material, amenities)} ×{material.quantity}</li>
+                            ))}
+                        </ul>
+                        {playbook.materials_note && (
+                            <p className="text-sm text-gray-600 mt-1">{playbook.materials_note}</p>
+                        )}
+                    </div>
+                )}
+
+                {/* Tareas */}
+                <div className="bg-white rounded-lg shadow divide-y divide-gray-100 mb-4">
+                    {tasks.length === 0 && (
+                        <p className="p-4 text-sm text-gray-500">Este playbook no tiene tareas definidas.</p>
+                    )}
+                    {tasks.map((task, index) => {
+                        const step = steps[index] ?? { done: false };
+                        return (
+                            <div key={task.order} className="p-4">
+                                <label className="flex items-start space-x-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={step.done}
+                                        onChange={() => updateStep(index, { done: !step.done })}
+                                        className="mt-0.5 h-5 w-5 text-blue-600 border-gray-300 rounded flex-shrink-0"
+                                    />
+                                    <span className={`text-sm ${step.done ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                                        {task.order}. {task.text}
+                                        {task.duration_minutes != null && (
+                                            <span className="ml-1 text-xs text-gray-500">⏱️ {task.duration_minutes} min</span>
+                                        )}
+                                    </span>
+                                </label>
+                                {task.image_url && (
+                                    <img src={task.image_url} alt={`Referencia del paso ${task.order}`} className="mt-2 ml-8 w-40 rounded border" />
+                                )}
+
+                                <div className="mt-2 ml-8">
+                                    {step.photo_url ? (
+                                        <div className="relative inline-block">
+                                            <img src={step.photo_url} alt={`Foto del paso ${index + 1}`} className="w-24 h-24 object-cover rounded border" />
+                                            <button
+                                                onClick={() => handleRemovePhoto(index)}
+                                                className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white rounded-full text-xs flex items-center justify-center hover:bg-red-600"
+                                            >
+                                                ×
+                                            </button>
+                                        </div>
+                                    ) : photoStep === index ? (
+                                        <FileUpload
+                                            onUrlsChange={(urls) => {
+                                                if (urls[0]) {
+                                                    updateStep(index, { photo_url: urls[0] });
+                                                    setPhotoStep(null);
+                                                }
+                                            }}
+                                            accept="image/*"
+                                            multiple={false}
+                                            maxFiles={1}
+                                            maxSize={5}
+                                            basePath={`playbook-runs/${homeId}`}
+                                            uploadSession={photoUploads}
+                                            imageProcessing={{ ...STYLING_PHOTO_PROCESSING, thumbnail: false }}
+                                        />
+                                    ) : (
+                                        <button
+                                            onClick={() => setPhotoStep(index)}
+                                            className="text-xs font-medium text-gray-600 hover:text-gray-900"
+                                        >
+                                            📷 Añadir foto
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Cierre */}
+                <div className="bg-white rounded-lg shadow p-4 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Duración real (minutos)
+                        </label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={durationMinutes}
+                            onChange={(e) => setDurationMinutes(e.target.value)}
+                            placeholder={`${Math.max(1, Math.round(elapsedMs / 60000))} (cronómetro)`}
+                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Observaciones (opcional)
+                        </label>
+                        <textarea
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            rows={3}
+                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                            placeholder="Incidencias, reposiciones pendientes..."
+                        />
+                    </div>
+                    <button
+                        onClick={requestSubmit}
+                        disabled={createCompletion.isPending}
+                        className="w-full px-4 py-3 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {createCompletion.isPending ? 'Registrando...' : '✓ Finalizar playbook'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Modal de confirmación con tareas pendientes */}
+            {confirmingIncomplete && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div className="flex min-h-screen items-center justify-center p-4">
+                        <div className="fixed inset-0 bg-black opacity-30" onClick={() => setConfirmingIncomplete(false)}></div>
+                        <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                            <h3 className="text-lg font-medium text-gray-900 mb-2">Hay tareas sin marcar</h3>
+                            <p className="text-sm text-gray-500 mb-6">
+                                Quedan {tasks.length - doneCount} de {tasks.length} tareas sin completar. Se registrará la ejecución tal cual.
+                            </p>
+                            <div className="flex justify-end space-x-3">
+                                <button
+                                    onClick={() => setConfirmingIncomplete(false)}
+                                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                >
+                                    Seguir
+                                </button>
+                                <button
+                                    onClick={handleSubmit}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700"
+                                >
+                                    Finalizar igualmente
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
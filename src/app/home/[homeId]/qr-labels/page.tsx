@@ -0,0 +1,192 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useActiveShareLink, useHome, useRooms } from '@/hooks/useApiQueries';
+import { QrCode } from '@/components/ui/QrCode';
+import { guestRoomUrl } from '@/lib/guestLinks';
+import type { Room } from '@/lib/types';
+
+// Formatos de hoja A4: columnas x filas de etiquetas
+const LABEL_LAYOUTS = {
+    8: { columns: 2, rows: 4, label: '8 por hoja (105 × 74 mm)' },
+    4: { columns: 2, rows: 2, label: '4 por hoja (105 × 148 mm)' },
+    2: { columns: 1, rows: 2, label: '2 por hoja (210 × 148 mm)' },
+} as const;
+
+type LabelsPerPage = keyof typeof LABEL_LAYOUTS;
+
+const LABEL_OPTIONS: LabelsPerPage[] = [8, 4, 2];
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const pages: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        pages.push(items.slice(i, i + size));
+    }
+    return pages;
+}
+
+export default function QrLabelsPage() {
+    const params = useParams();
+    const homeId = params.homeId as string;
+
+    const { data: home, isLoading: isLoadingHome, error: homeError } = useHome(homeId);
+    const { data: rooms = [], isLoading: isLoadingRooms } = useRooms(homeId);
+    const { link: shareLink, isLoading: isLoadingShareLink } = useActiveShareLink(homeId);
+
+    const [labelsPerPage, setLabelsPerPage] = useState<LabelsPerPage>(8);
+    // Habitaciones excluidas de la impresión (por defecto se imprimen todas)
+    const [excludedRoomIds, setExcludedRoomIds] = useState<Set<string>>(new Set());
+
+    const layout = LABEL_LAYOUTS[labelsPerPage];
+    const selectedRooms = useMemo(() => rooms.filter(room => !excludedRoomIds.has(room.id)), [rooms, excludedRoomIds]);
+    const pages = useMemo(() => chunk<Room>(selectedRooms, labelsPerPage), [selectedRooms, labelsPerPage]);
+
+    const toggleRoom = (roomId: string) => {
+        setExcludedRoomIds(prev => {
+            const next = new Set(prev);
+            if (next.has(roomId)) {
+                next.delete(roomId);
+            } else {
+                next.add(roomId);
+            }
+            return next;
+        });
+    };
+
+    if (isLoadingHome || isLoadingRooms || isLoadingShareLink) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (homeError || !home) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">{homeError ? 'Error al cargar la casa' : 'Casa no encontrada'}</p>
+                        <Link href="/" className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver al inicio
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 print:bg-white">
+            {/* Controles (no se imprimen) */}
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:hidden">
+                <Link
+                    href={`/home/${homeId}/styling-guides`}
+                    className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-2"
+                >
+                    ← Volver a las guías de {home.name}
+                </Link>
+                <h1 className="text-3xl font-bold text-gray-900">Etiquetas QR de {home.name}</h1>
+                <p className="text-gray-600 mt-2">
+                    Cada etiqueta enlaza con la guía de estilo y los playbooks de la habitación
+                </p>
+
+                {!shareLink && (
+                    <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                        <p className="text-yellow-800 text-sm">
+                            Esta casa no tiene ningún enlace público activo y los QR no tendrían destino.{' '}
+                            <Link href={`/home/${homeId}#enlaces`} className="font-medium underline">
+                                Crear uno en la ficha de la casa
+                            </Link>
+                        </p>
+                    </div>
+                )}
+
+                <div className="mt-6 bg-white rounded-lg shadow p-6 space-y-4">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Formato</label>
+                            <select
+                                value={labelsPerPage}
+                                onChange={(e) => setLabelsPerPage(Number(e.target.value) as LabelsPerPage)}
+                                className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                            >
+                                {LABEL_OPTIONS.map(option => (
+                                    <option key={option} value={option}>{LABEL_LAYOUTS[option].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            onClick={() => window.print()}
+                            disabled={!shareLink || selectedRooms.length === 0}
+                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            🖨️ Imprimir {selectedRooms.length} etiqueta{selectedRooms.length !== 1 ? 's' : ''} ({pages.length} hoja{pages.length !== 1 ? 's' : ''})
+                        </button>
+                    </div>
+
+                    <div>
+                        <p className="text-sm font-medium text-gray-700 mb-2">Habitaciones</p>
+                        {rooms.length === 0 ? (
+                            <p className="text-sm text-gray-500">Esta casa no tiene habitaciones.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-3">
+                                {rooms.map(room => (
+                                    <label key={room.id} className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={!excludedRoomIds.has(room.id)}
+                                            onChange={() => toggleRoom(room.id)}
+                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                        />
+                                        <span>{room.name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Hojas A4: en pantalla se muestran como vista previa */}
+            <div className="pb-8 space-y-8 print:p-0 print:space-y-0">
+                {shareLink && pages.map((pageRooms, pageIndex) => (
+                    <div
+                        key={pageIndex}
+                        className="mx-auto bg-white shadow print:shadow-none break-after-page grid"
+                        style={{
+                            width: '210mm',
+                            height: '297mm',
+                            gridTemplateColumns: `repeat(${layout.columns}, 1fr)`,
+                            gridTemplateRows: `repeat(${layout.rows}, 1fr)`,
+                        }}
+                    >
+                        {pageRooms.map(room => (
+                            <div
+                                key={room.id}
+                                className="flex flex-col items-center justify-center text-center p-[6mm] border border-dashed border-gray-300 overflow-hidden"
+                            >
+                                <QrCode
+                                    value={guestRoomUrl(shareLink.token, room.id)}
+                                    alt={`Código QR de ${room.name}`}
+                                    className={labelsPerPage === 8 ? 'w-[42mm] h-[42mm]' : 'w-[80mm] h-[80mm]'}
+                                />
+                                <p className={`mt-[3mm] font-bold text-gray-900 ${labelsPerPage === 8 ? 'text-base' : 'text-2xl'}`}>
+                                    {room.name}
+                                </p>
+                                <p className={`text-gray-600 ${labelsPerPage === 8 ? 'text-xs' : 'text-base'}`}>{home.name}</p>
+                                <p className="mt-[1mm] text-[8pt] text-gray-500">Escanea para ver la guía de la habitación</p>
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
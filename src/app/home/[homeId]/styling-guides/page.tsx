@@ -1,81 +1,74 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
-import { Home, Room, StylingGuide, Playbook } from '@/lib/types';
+import { StylingGuide, Playbook, PlaybookMaterial, PlaybookStep, PlaybookType, Room } from '@/lib/types';
+import { useHome, useRooms, useStylingGuides, usePlaybooks, useActiveShareLink, useAllAmenities } from '@/hooks/useApiQueries';
+import {
+    useUpdateStylingGuide,
+    useDeleteStylingGuide,
+    useUpdatePlaybook,
+    useDeletePlaybook,
+} from '@/hooks/useApiMutations';
 import { FileUpload } from '@/components/ui/FileUpload';
+import { STYLING_PHOTO_PROCESSING } from '@/lib/imageProcessing';
+import { useUploadSession } from '@/hooks/useUploadSession';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { QrCode } from '@/components/ui/QrCode';
+import { guestRoomPath, guestRoomUrl, qrCodeDataUrl } from '@/lib/guestLinks';
+import { cleanPlaybookContent, materialName, PLAYBOOK_TYPE_LABELS, PLAYBOOK_TYPES } from '@/lib/playbooks';
+import { PlaybookMaterialsEditor, PlaybookStepsEditor } from '@/components/playbooks/PlaybookEditors';
 
 export default function StylingGuidesPage() {
     const params = useParams();
     const homeId = params.homeId as string;
-    const apiClient = createApiClient(config.apiUrl);
-
-    const [home, setHome] = useState<Home | null>(null);
-    const [rooms, setRooms] = useState<Room[]>([]);
-    const [stylingGuides, setStylingGuides] = useState<StylingGuide[]>([]);
-    const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const { can } = useAuth();
+
+    const { data: home, isLoading: isLoadingHome, error: homeError } = useHome(homeId);
+    const { data: rooms = [], isLoading: isLoadingRooms } = useRooms(homeId);
+    const { data: stylingGuides = [] } = useStylingGuides(homeId);
+    const { data: playbooks = [] } = usePlaybooks(homeId);
+    const { data: amenities = [] } = useAllAmenities();
+    // Los QR enlazan con la vista pública a través del enlace activo de la casa
+    const { link: shareLink, isLoading: isLoadingShareLink } = useActiveShareLink(homeId);
+    const updateStylingGuide = useUpdateStylingGuide();
+    const deleteStylingGuide = useDeleteStylingGuide();
+    const updatePlaybook = useUpdatePlaybook();
+    const deletePlaybook = useDeletePlaybook();
+
+    const loading = isLoadingHome || isLoadingRooms;
+    const error = homeError ? 'Error al cargar las guías de estilismo' : null;
 
     // Estados para edición y eliminación
     const [editingGuide, setEditingGuide] = useState<StylingGuide | null>(null);
     const [deletingGuide, setDeletingGuide] = useState<StylingGuide | null>(null);
     const [editingPlaybook, setEditingPlaybook] = useState<Playbook | null>(null);
     const [deletingPlaybook, setDeletingPlaybook] = useState<Playbook | null>(null);
+    const [qrRoom, setQrRoom] = useState<Room | null>(null);
     const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
     // Estados para formularios de edición
     const [editForm, setEditForm] = useState({
         title: '',
-        qr_code_url: '',
         image_urls: [] as string[]
     });
     const [editImageUrls, setEditImageUrls] = useState<string[]>([]);
+    const [editThumbnailUrls, setEditThumbnailUrls] = useState<string[]>([]);
+    // Imágenes subidas durante la edición (se añaden a las actuales al guardar)
+    const [editNewImages, setEditNewImages] = useState<{ urls: string[]; thumbnails: string[] }>({ urls: [], thumbnails: [] });
+    // Subidas y borrados de la edición: solo se aplican en Storage si se guarda
+    const editUploads = useUploadSession();
     const [editReferencePhotoUrl, setEditReferencePhotoUrl] = useState<string>('');
     const [editPlaybookForm, setEditPlaybookForm] = useState({
         title: '',
-        type: '',
+        type: 'maintenance' as PlaybookType,
         estimated_time: '',
-        tasks: '',
-        materials: ''
+        steps: [] as PlaybookStep[],
+        materials: [] as PlaybookMaterial[]
     });
-
-    useEffect(() => {
-        const loadHomeData = async () => {
-            try {
-                setLoading(true);
-                setError(null);
-
-                // Cargar datos de la casa
-                const homeResponse = await apiClient.getHomeById(homeId);
-                setHome(homeResponse.data);
-
-                // Cargar habitaciones de la casa
-                const roomsResponse = await apiClient.listRooms({ home_id: homeId, pageSize: 100 });
-                setRooms(roomsResponse.data);
-
-                // Cargar guías de estilismo de la casa
-                const guidesResponse = await apiClient.listStylingGuidesByHome(homeId, { pageSize: 100 });
-                setStylingGuides(guidesResponse.data);
-
-                // Cargar playbooks de la casa
-                const playbooksResponse = await apiClient.listPlaybooksByHome(homeId, { pageSize: 100 });
-                setPlaybooks(playbooksResponse.data);
-            } catch (err) {
-                console.error('Error loading styling guides:', err);
-                setError('Error al cargar las guías de estilismo');
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        if (homeId) {
-            loadHomeData();
-        }
-    }, [homeId]);
+    // Imágenes de los pasos: como en la edición de guías, solo se aplican si se guarda
+    const editPlaybookUploads = useUploadSession();
 
     // Funciones helper para obtener guías y playbooks por habitación
     const getGuidesForRoom = (roomId: string) => {
@@ -91,21 +84,19 @@ export default function StylingGuidesPage() {
         setEditingGuide(guide);
         setEditForm({
             title: guide.title,
-            qr_code_url: guide.qr_code_url || '',
             image_urls: guide.image_urls || []
         });
         setEditImageUrls(guide.image_urls || []);
+        setEditThumbnailUrls((guide.image_urls || []).map((_, i) => guide.thumbnail_urls?.[i] || ''));
+        setEditNewImages({ urls: [], thumbnails: [] });
         setEditReferencePhotoUrl(guide.reference_photo_url || '');
     };
 
     const handleDeleteGuide = async (guide: StylingGuide) => {
         try {
-            await apiClient.deleteStylingGuide(guide.id);
-            setSubmitMessage({ type: 'success', message: 'Guía de estilismo eliminada exitosamente' });
             setDeletingGuide(null);
-            // Recargar las guías
-            const guidesResponse = await apiClient.listStylingGuidesByHome(homeId, { pageSize: 100 });
-            setStylingGuides(guidesResponse.data);
+            await deleteStylingGuide.mutateAsync(guide.id);
+            setSubmitMessage({ type: 'success', message: 'Guía de estilismo eliminada exitosamente' });
         } catch (error) {
             console.error('Error deleting styling guide:', error);
             setSubmitMessage({ type: 'error', message: 'Error al eliminar la guía de estilismo' });
@@ -116,50 +107,76 @@ export default function StylingGuidesPage() {
         if (!editingGuide) return;
 
         try {
-            await apiClient.updateStylingGuide(editingGuide.id, {
-                title: editForm.title,
-                reference_photo_url: editReferencePhotoUrl || undefined,
-                qr_code_url: editForm.qr_code_url || undefined,
-                image_urls: editImageUrls
+            await updateStylingGuide.mutateAsync({
+                id: editingGuide.id,
+                payload: {
+                    title: editForm.title,
+                    reference_photo_url: editReferencePhotoUrl || undefined,
+                    image_urls: [...editImageUrls, ...editNewImages.urls],
+                    thumbnail_urls: [...editThumbnailUrls, ...editNewImages.thumbnails]
+                }
             });
+            await editUploads.commit();
             setSubmitMessage({ type: 'success', message: 'Guía de estilismo actualizada exitosamente' });
             setEditingGuide(null);
-            // Recargar las guías
-            const guidesResponse = await apiClient.listStylingGuidesByHome(homeId, { pageSize: 100 });
-            setStylingGuides(guidesResponse.data);
         } catch (error) {
             console.error('Error updating styling guide:', error);
             setSubmitMessage({ type: 'error', message: 'Error al actualizar la guía de estilismo' });
         }
     };
 
+    // Cerrar la edición sin guardar: se borran las imágenes subidas y se conservan las quitadas
+    const handleCancelEdit = () => {
+        editUploads.discard();
+        setEditingGuide(null);
+    };
+
+    // Quitar una imagen de la galería (con su miniatura)
+    const handleRemoveEditImage = (index: number) => {
+        [editImageUrls[index], editThumbnailUrls[index]].filter(Boolean).forEach(url => editUploads.release(url));
+        setEditImageUrls(editImageUrls.filter((_, i) => i !== index));
+        setEditThumbnailUrls(editThumbnailUrls.filter((_, i) => i !== index));
+    };
+
     const handleEditPlaybook = (playbook: Playbook) => {
         setEditingPlaybook(playbook);
         setEditPlaybookForm({
             title: playbook.title,
             type: playbook.type,
             estimated_time: playbook.estimated_time,
-            tasks: playbook.tasks,
-            materials: playbook.materials || ''
+            steps: playbook.steps,
+            materials: playbook.materials
         });
     };
 
+    const handleCancelPlaybookEdit = () => {
+        editPlaybookUploads.discard();
+        setEditingPlaybook(null);
+    };
+
     const handleSavePlaybookEdit = async () => {
         if (!editingPlaybook) return;
 
+        const { steps, materials } = cleanPlaybookContent(editPlaybookForm.steps, editPlaybookForm.materials);
+        if (steps.length === 0) {
+            setSubmitMessage({ type: 'error', message: 'El playbook necesita al menos un paso' });
+            return;
+        }
+
         try {
-            await apiClient.updatePlaybook(editingPlaybook.id, {
-                title: editPlaybookForm.title,
-                type: editPlaybookForm.type,
-                estimated_time: editPlaybookForm.estimated_time,
-                tasks: editPlaybookForm.tasks,
-                materials: editPlaybookForm.materials || undefined
+            await updatePlaybook.mutateAsync({
+                id: editingPlaybook.id,
+                payload: {
+                    title: editPlaybookForm.title,
+                    type: editPlaybookForm.type,
+                    estimated_time: editPlaybookForm.estimated_time,
+                    steps,
+                    materials
+                }
             });
+            await editPlaybookUploads.commit();
             setSubmitMessage({ type: 'success', message: 'Playbook actualizado exitosamente' });
             setEditingPlaybook(null);
-            // Recargar los playbooks
-            const playbooksResponse = await apiClient.listPlaybooksByHome(homeId, { pageSize: 100 });
-            setPlaybooks(playbooksResponse.data);
         } catch (error) {
             console.error('Error updating playbook:', error);
             setSubmitMessage({ type: 'error', message: 'Error al actualizar el playbook' });
@@ -168,18 +185,28 @@ export default function StylingGuidesPage() {
 
     const handleDeletePlaybook = async (playbook: Playbook) => {
         try {
-            await apiClient.deletePlaybook(playbook.id);
-            setSubmitMessage({ type: 'success', message: 'Playbook eliminado exitosamente' });
             setDeletingPlaybook(null);
-            // Recargar los playbooks
-            const playbooksResponse = await apiClient.listPlaybooksByHome(homeId, { pageSize: 100 });
-            setPlaybooks(playbooksResponse.data);
+            await deletePlaybook.mutateAsync(playbook.id);
+            setSubmitMessage({ type: 'success', message: 'Playbook eliminado exitosamente' });
         } catch (error) {
             console.error('Error deleting playbook:', error);
             setSubmitMessage({ type: 'error', message: 'Error al eliminar el playbook' });
         }
     };
 
+    // Descargar el QR de una habitación como PNG
+    const handleDownloadQr = async (room: Room, token: string) => {
+        try {
+            const link = document.createElement('a');
+            link.href = await qrCodeDataUrl(guestRoomUrl(token, room.id), 1024);
+            link.download = `qr-${room.name.toLowerCase().replace(/\s+/g, '-')}.png`;
+            link.click();
+        } catch (error) {
+            console.error('Error al descargar el código QR:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al generar el código QR' });
+        }
+    };
+
     if (loading) {
         return (
             <div className="min-h-screen bg-gray-50">
@@ -235,14 +262,24 @@ export default function StylingGuidesPage() {
                     </div>
                 </div>
 
-                {/* Botón de Gestionar */}
-                <div className="mb-6">
-                    <Link
-                        href={`/wizard/styling-guides?homeId=${homeId}`}
-                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700"
-                    >
-                        ✏️ Gestionar Guías de Estilo
-                    </Link>
+                {/* Acciones */}
+                <div className="mb-6 flex flex-wrap gap-3">
+                    {can('content:edit') && (
+                        <Link
+                            href={`/wizard/styling-guides?homeId=${homeId}`}
+                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700"
+                        >
+                            ✏️ Gestionar Guías de Estilo
+                        </Link>
+                    )}
+                    {rooms.length > 0 && (
+                        <Link
+                            href={`/home/${homeId}/qr-labels`}
+                            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                            🖨️ Imprimir etiquetas QR
+                        </Link>
+                    )}
                 </div>
 
                 {/* Lista Organizada por Habitaciones */}
@@ -292,6 +329,12 @@ export default function StylingGuidesPage() {
                                                     {room.description || 'Sin descripción'}
                                                 </p>
                                             </div>
+                                            <button
+                                                onClick={() => setQrRoom(room)}
+                                                className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                                            >
+                                                📱 Código QR
+                                            </button>
                                         </div>
 
                                         {/* Guías de Estilo de esta habitación */}
@@ -341,7 +384,7 @@ export default function StylingGuidesPage() {
                                                                                 {guide.image_urls.map((imageUrl, index) => (
                                                                                     <img
                                                                                         key={index}
-                                                                                        src={imageUrl}
+                                                                                        src={guide.thumbnail_urls?.[index] || imageUrl}
                                                                                         alt={`Imagen ${index + 1}`}
                                                                                         className="w-20 h-20 object-cover rounded border border-gray-200 flex-shrink-0"
                                                                                     />
@@ -355,26 +398,27 @@ export default function StylingGuidesPage() {
                                                                         {guide.reference_photo_url && (
                                                                             <span>📸 Foto de referencia</span>
                                                                         )}
-                                                                        {guide.qr_code_url && (
-                                                                            <span>📱 Código QR</span>
-                                                                        )}
                                                                     </div>
                                                                 </div>
                                                             </div>
 
                                                             <div className="flex space-x-2 mt-4">
-                                                                <button
-                                                                    onClick={() => handleEditGuide(guide)}
-                                                                    className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100"
-                                                                >
-                                                                    ✏️ Editar
-                                                                </button>
-                                                                <button
-                                                                    onClick={() => setDeletingGuide(guide)}
-                                                                    className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
-                                                                >
-                                                                    🗑️ Eliminar
-                                                                </button>
+                                                                {can('content:edit') && (
+                                                                    <button
+                                                                        onClick={() => handleEditGuide(guide)}
+                                                                        className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100"
+                                                                    >
+                                                                        ✏️ Editar
+                                                                    </button>
+                                                                )}
+                                                                {can('content:delete') && (
+                                                                    <button
+                                                                        onClick={() => setDeletingGuide(guide)}
+                                                                        className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                                                    >
+                                                                        🗑️ Eliminar
+                                                                    </button>
+                                                                )}
                                                             </div>
                                                         </div>
                                                     ))}
@@ -395,23 +439,40 @@ export default function StylingGuidesPage() {
                                                                 <div className="flex items-center space-x-2">
                                                                     <span className="text-blue-600">📋</span>
                                                                     <span className="font-medium text-gray-900">{playbook.title}</span>
+                                                                    {playbook.template_id && (
+                                                                        <span className="text-xs px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full" title="Creado desde una plantilla: recibe sus cambios al propagarlos">
+                                                                            📑 Plantilla
+                                                                        </span>
+                                                                    )}
                                                                 </div>
                                                                 <div className="flex items-center space-x-2">
                                                                     <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full">
-                                                                        {playbook.type}
+                                                                        {PLAYBOOK_TYPE_LABELS[playbook.type]}
                                                                     </span>
-                                                                    <button
-                                                                        onClick={() => handleEditPlaybook(playbook)}
-                                                                        className="px-2 py-1 text-xs font-medium text-blue-600 bg-blue-100 border border-blue-200 rounded hover:bg-blue-200"
-                                                                    >
-                                                                        ✏️ Editar
-                                                                    </button>
-                                                                    <button
-                                                                        onClick={() => setDeletingPlaybook(playbook)}
-                                                                        className="px-2 py-1 text-xs font-medium text-red-600 bg-red-100 border border-red-200 rounded hover:bg-red-200"
-                                                                    >
-                                                                        🗑️ Eliminar
-                                                                    </button>
+                                                                    {can('playbook:run') && (
+                                                                        <Link
+                                                                            href={`/home/${homeId}/playbooks/${playbook.id}/run`}
+                                                                            className="px-2 py-1 text-xs font-medium text-green-700 bg-green-100 border border-green-200 rounded hover:bg-green-200"
+                                                                        >
+                                                                            ▶️ Ejecutar
+                                                                        </Link>
+                                                                    )}
+                                                                    {can('content:edit') && (
+                                                                        <button
+                                                                            onClick={() => handleEditPlaybook(playbook)}
+                                                                            className="px-2 py-1 text-xs font-medium text-blue-600 bg-blue-100 border border-blue-200 rounded hover:bg-blue-200"
+                                                                        >
+                                                                            ✏️ Editar
+                                                                        </button>
+                                                                    )}
+                                                                    {can('content:delete') && (
+                                                                        <button
+                                                                            onClick={() => setDeletingPlaybook(playbook)}
+                                                                            className="px-2 py-1 text-xs font-medium text-red-600 bg-red-100 border border-red-200 rounded hover:bg-red-200"
+                                                                        >
+                                                                            🗑️ Eliminar
+                                                                        </button>
+                                                                    )}
                                                                 </div>
                                                             </div>
 
@@ -421,20 +482,36 @@ export default function StylingGuidesPage() {
                                                                     <span className="ml-1 text-gray-900">{playbook.estimated_time}</span>
                                                                 </div>
 
-                                                                {playbook.materials && (
+                                                                {(playbook.materials.length > 0 || playbook.materials_note) && (
                                                                     <div>
                                                                         <span className="text-gray-600">🛠️ Materiales:</span>
-                                                                        <span className="ml-1 text-gray-900">{playbook.materials}</span>
+                                                                        <span className="ml-1 text-gray-900">
+                                                                            {playbook.materials.map(material => `${materialName(material, amenities)} ×${material.quantity}`).join(', ')}
+                                                                            {playbook.materials.length === 0 && playbook.materials_note}
+                                                                        </span>
                                                                     </div>
                                                                 )}
                                                             </div>
 
-                                                            {playbook.tasks && (
+                                                            {playbook.steps.length > 0 && (
                                                                 <div className="mt-2">
-                                                                    <span className="text-gray-600 text-sm">📝 Tareas:</span>
-                                                                    <div className="mt-1 text-sm text-gray-700 bg-white p-2 rounded border">
-                                                                        <pre className="whitespace-pre-wrap font-sans">{playbook.tasks}</pre>
-                                                                    </div>
+                                                                    <span className="text-gray-600 text-sm">📝 Pasos:</span>
+                                                                    <ol className="mt-1 text-sm text-gray-700 bg-white p-2 rounded border space-y-1">
+                                                                        {playbook.steps.map(step => (
+                                                                            <li key={step.order} className="flex items-start space-x-2">
+                                                                                <span className="text-gray-500">{step.order}.</span>
+                                                                                <span className="flex-1">{step.text}</span>
+                                                                                {step.duration_minutes != null && (
+                                                                                    <span className="text-xs text-gray-500 flex-shrink-0">⏱️ {step.duration_minutes} min</span>
+                                                                                )}
+                                                                                {step.image_url && (
+                                                                                    <a href={step.image_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                                                                                        <img src={step.image_url} alt={`Paso ${step.order}`} className="w-10 h-10 object-cover rounded border" />
+                                                                                    </a>
+                                                                                )}
+                                                                            </li>
+                                                                        ))}
+                                                                    </ol>
                                                                 </div>
                                                             )}
                                                         </div>
@@ -498,7 +575,7 @@ export default function StylingGuidesPage() {
                 {editingGuide && (
                     <div className="fixed inset-0 z-50 overflow-y-auto">
                         <div className="flex min-h-screen items-center justify-center p-4">
-                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setEditingGuide(null)}></div>
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={handleCancelEdit}></div>
                             <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
                                 <div className="mb-6">
                                     <div className="flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mx-auto mb-4">
@@ -538,7 +615,10 @@ export default function StylingGuidesPage() {
                                                         className="w-24 h-24 object-cover rounded border"
                                                     />
                                                     <button
-                                                        onClick={() => setEditReferencePhotoUrl('')}
+                                                        onClick={() => {
+                                                            editUploads.release(editReferencePhotoUrl);
+                                                            setEditReferencePhotoUrl('');
+                                                        }}
                                                         className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white rounded-full text-xs flex items-center justify-center hover:bg-red-600"
                                                     >
                                                         ×
@@ -547,11 +627,20 @@ export default function StylingGuidesPage() {
                                             </div>
                                         )}
                                         <FileUpload
-                                            onUrlsChange={(urls) => setEditReferencePhotoUrl(urls[0] || '')}
+                                            onUrlsChange={(urls) => {
+                                                // La foto guardada queda sustituida por la nueva
+                                                if (urls[0] && editingGuide.reference_photo_url && editingGuide.reference_photo_url !== urls[0]) {
+                                                    editUploads.release(editingGuide.reference_photo_url);
+                                                }
+                                                setEditReferencePhotoUrl(urls[0] || '');
+                                            }}
                                             accept="image/*"
+                                            multiple={false}
                                             maxFiles={1}
                                             maxSize={5}
                                             basePath="styling-guides/reference"
+                                            uploadSession={editUploads}
+                                            imageProcessing={{ ...STYLING_PHOTO_PROCESSING, thumbnail: false }}
                                         />
                                     </div>
 
@@ -568,12 +657,12 @@ export default function StylingGuidesPage() {
                                                     {editImageUrls.map((url, index) => (
                                                         <div key={index} className="relative">
                                                             <img
-                                                                src={url}
+                                                                src={editThumbnailUrls[index] || url}
                                                                 alt={`Imagen ${index + 1}`}
                                                                 className="w-16 h-16 object-cover rounded border"
                                                             />
                                                             <button
-                                                                onClick={() => setEditImageUrls(editImageUrls.filter((_, i) => i !== index))}
+                                                                onClick={() => handleRemoveEditImage(index)}
                                                                 className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white rounded-full text-xs flex items-center justify-center hover:bg-red-600"
                                                             >
                                                                 ×
@@ -584,31 +673,20 @@ export default function StylingGuidesPage() {
                                             </div>
                                         )}
                                         <FileUpload
-                                            onUrlsChange={(urls) => setEditImageUrls([...editImageUrls, ...urls])}
+                                            onUrlsChange={(urls, thumbnails) => setEditNewImages({ urls, thumbnails })}
                                             accept="image/*"
                                             maxFiles={5}
                                             maxSize={5}
                                             basePath="styling-guides/gallery"
-                                        />
-                                    </div>
-
-                                    <div>
-                                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                                            URL del Código QR (opcional)
-                                        </label>
-                                        <input
-                                            type="url"
-                                            value={editForm.qr_code_url}
-                                            onChange={(e) => setEditForm({ ...editForm, qr_code_url: e.target.value })}
-                                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
-                                            placeholder="https://ejemplo.com/qr.png"
+                                            uploadSession={editUploads}
+                                            imageProcessing={STYLING_PHOTO_PROCESSING}
                                         />
                                     </div>
                                 </div>
 
                                 <div className="flex justify-end space-x-3 mt-6">
                                     <button
-                                        onClick={() => setEditingGuide(null)}
+                                        onClick={handleCancelEdit}
                                         className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
                                     >
                                         Cancelar
@@ -625,11 +703,67 @@ export default function StylingGuidesPage() {
                     </div>
                 )}
 
+                {/* Modal con el código QR de la habitación */}
+                {qrRoom && (
+                    <div className="fixed inset-0 z-50 overflow-y-auto">
+                        <div className="flex min-h-screen items-center justify-center p-4">
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setQrRoom(null)}></div>
+                            <div className="relative bg-white rounded-lg shadow-lg max-w-sm w-full p-6 text-center">
+                                <h3 className="text-lg font-medium text-gray-900 mb-1">{qrRoom.name}</h3>
+                                <p className="text-sm text-gray-500 mb-4">{home.name}</p>
+                                {shareLink ? (
+                                    <>
+                                        <QrCode
+                                            value={guestRoomUrl(shareLink.token, qrRoom.id)}
+                                            alt={`Código QR de ${qrRoom.name}`}
+                                            className="w-56 h-56 mx-auto"
+                                        />
+                                        <Link
+                                            href={guestRoomPath(shareLink.token, qrRoom.id)}
+                                            target="_blank"
+                                            className="block mt-3 text-xs text-blue-600 hover:text-blue-800 break-all"
+                                        >
+                                            {guestRoomUrl(shareLink.token, qrRoom.id)}
+                                        </Link>
+                                    </>
+                                ) : (
+                                    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+                                        {isLoadingShareLink ? 'Cargando enlace público...' : (
+                                            <>
+                                                Esta casa no tiene ningún enlace público activo.{' '}
+                                                <Link href={`/home/${homeId}#enlaces`} className="font-medium underline">
+                                                    Crear uno en la ficha de la casa
+                                                </Link>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                                <div className="flex justify-center space-x-3 mt-6">
+                                    <button
+                                        onClick={() => setQrRoom(null)}
+                                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                    >
+                                        Cerrar
+                                    </button>
+                                    {shareLink && (
+                                        <button
+                                            onClick={() => handleDownloadQr(qrRoom, shareLink.token)}
+                                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                                        >
+                                            ⬇️ Descargar PNG
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* Modal de edición de playbook */}
                 {editingPlaybook && (
                     <div className="fixed inset-0 z-50 overflow-y-auto">
                         <div className="flex min-h-screen items-center justify-center p-4">
-                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setEditingPlaybook(null)}></div>
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={handleCancelPlaybookEdit}></div>
                             <div className="relative bg-white rounded-lg shadow-lg max-w-2xl w-full p-6">
                                 <div className="mb-6">
                                     <div className="flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mx-auto mb-4">
@@ -663,15 +797,12 @@ export default function StylingGuidesPage() {
                                             </label>
                                             <select
                                                 value={editPlaybookForm.type}
-                                                onChange={(e) => setEditPlaybookForm({ ...editPlaybookForm, type: e.target.value })}
+                                                onChange={(e) => setEditPlaybookForm({ ...editPlaybookForm, type: e.target.value as PlaybookType })}
                                                 className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
                                             >
-                                                <option value="">Selecciona un tipo</option>
-                                                <option value="limpieza">Limpieza</option>
-                                                <option value="mantenimiento">Mantenimiento</option>
-                                                <option value="preparacion">Preparación</option>
-                                                <option value="revision">Revisión</option>
-                                                <option value="emergencia">Emergencia</option>
+                                                {PLAYBOOK_TYPES.map(type => (
+                                                    <option key={type} value={type}>{PLAYBOOK_TYPE_LABELS[type]}</option>
+                                                ))}
                                             </select>
                                         </div>
 
@@ -691,14 +822,12 @@ export default function StylingGuidesPage() {
 
                                     <div>
                                         <label className="block text-sm font-medium text-gray-700 mb-1">
-                                            Tareas/Pasos a Seguir *
+                                            Pasos a Seguir *
                                         </label>
-                                        <textarea
-                                            value={editPlaybookForm.tasks}
-                                            onChange={(e) => setEditPlaybookForm({ ...editPlaybookForm, tasks: e.target.value })}
-                                            rows={4}
-                                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
-                                            placeholder="1. Primer paso...&#10;2. Segundo paso...&#10;3. Tercer paso..."
+                                        <PlaybookStepsEditor
+                                            value={editPlaybookForm.steps}
+                                            onChange={(steps) => setEditPlaybookForm({ ...editPlaybookForm, steps })}
+                                            uploadSession={editPlaybookUploads}
                                         />
                                     </div>
 
@@ -706,19 +835,17 @@ export default function StylingGuidesPage() {
                                         <label className="block text-sm font-medium text-gray-700 mb-1">
                                             Materiales Necesarios (opcional)
                                         </label>
-                                        <textarea
+                                        <PlaybookMaterialsEditor
                                             value={editPlaybookForm.materials}
-                                            onChange={(e) => setEditPlaybookForm({ ...editPlaybookForm, materials: e.target.value })}
-                                            rows={2}
-                                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
-                                            placeholder="Productos de limpieza, herramientas, etc..."
+                                            onChange={(materials) => setEditPlaybookForm({ ...editPlaybookForm, materials })}
+                                            legacyNote={editingPlaybook.materials_note}
                                         />
                                     </div>
                                 </div>
 
                                 <div className="flex justify-end space-x-3 mt-6">
                                     <button
-                                        onClick={() => setEditingPlaybook(null)}
+                                        onClick={handleCancelPlaybookEdit}
                                         className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
                                     >
                                         Cancelar
@@ -2,6 +2,9 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import SidebarLayout from "@/components/ui/SidebarLayout";
+import QueryProvider from "@/components/providers/QueryProvider";
+import AuthProvider from "@/components/providers/AuthProvider";
+import OfflineProvider from "@/components/providers/OfflineProvider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -26,9 +29,15 @@ export default function RootLayout({
   return (
     <html lang="es">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        <SidebarLayout>
-          {children}
-        </SidebarLayout>
+        <QueryProvider>
+          <AuthProvider>
+            <OfflineProvider>
+              <SidebarLayout>
+                {children}
+              </SidebarLayout>
+            </OfflineProvider>
+          </AuthProvider>
+        </QueryProvider>
       </body>
     </html>
   );
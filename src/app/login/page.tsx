@@ -0,0 +1,160 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FirebaseError } from 'firebase/app';
+import { useAuth } from '@/components/providers/AuthProvider';
+
+const loginSchema = z.object({
+    email: z.string().min(1, 'El email es requerido').email('Introduce un email válido'),
+    password: z.string().min(1, 'La contraseña es requerida'),
+});
+
+type LoginFormData = z.infer<typeof loginSchema>;
+
+// Mensajes legibles para los errores más habituales de Firebase Auth
+function loginErrorMessage(error: unknown): string {
+    if (error instanceof FirebaseError) {
+        switch (error.code) {
+            case 'auth/invalid-credential':
+            case 'auth/invalid-email':
+            case 'auth/user-not-found':
+            case 'auth/wrong-password':
+                return 'Email o contraseña incorrectos';
+            case 'auth/user-disabled':
+                return 'Esta cuenta está deshabilitada. Contacta al administrador.';
+            case 'auth/too-many-requests':
+                return 'Demasiados intentos fallidos. Inténtalo de nuevo más tarde.';
+            case 'auth/network-request-failed':
+                return 'Error de red. Comprueba tu conexión.';
+        }
+    }
+    return 'No se pudo iniciar sesión';
+}
+
+// Solo se aceptan rutas internas como destino tras el login. Se resuelve como URL porque los
+// navegadores tratan rutas como "/\evil.com" igual que "//evil.com"
+function safeRedirect(next: string | null): string {
+    if (!next || typeof window === 'undefined') return '/';
+    try {
+        const url = new URL(next, window.location.origin);
+        return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+    } catch {
+        return '/';
+    }
+}
+
+function LoginContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { user, isLoading, signIn } = useAuth();
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const redirectTo = safeRedirect(searchParams.get('next'));
+
+    const loginForm = useForm<LoginFormData>({
+        resolver: zodResolver(loginSchema),
+        defaultValues: {
+            email: '',
+            password: '',
+        }
+    });
+
+    // Con sesión iniciada no tiene sentido quedarse en el login
+    useEffect(() => {
+        if (!isLoading && user) {
+            router.replace(redirectTo);
+        }
+    }, [isLoading, user, router, redirectTo]);
+
+    const handleLogin = async (data: LoginFormData) => {
+        setSubmitMessage(null);
+        try {
+            await signIn(data.email, data.password);
+        } catch (error) {
+            console.error('Error al iniciar sesión:', error);
+            setSubmitMessage({ type: 'error', message: loginErrorMessage(error) });
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+            <div className="w-full max-w-md bg-white rounded-lg shadow-md p-8">
+                <div className="mb-6 text-center">
+                    <h1 className="text-2xl font-bold text-gray-900 mb-2">🏠 VIVLA Guides</h1>
+                    <p className="text-gray-600">Inicia sesión para continuar</p>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md mb-6 ${submitMessage.type === 'success'
+                        ? 'bg-green-50 text-green-800 border border-green-200'
+                        : 'bg-red-50 text-red-800 border border-red-200'
+                        }`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Email
+                        </label>
+                        <input
+                            type="email"
+                            autoComplete="email"
+                            {...loginForm.register('email')}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                            placeholder="tu@vivla.com"
+                        />
+                        {loginForm.formState.errors.email && (
+                            <p className="text-red-500 text-sm mt-1">
+                                {loginForm.formState.errors.email.message}
+                            </p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Contraseña
+                        </label>
+                        <input
+                            type="password"
+                            autoComplete="current-password"
+                            {...loginForm.register('password')}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                        />
+                        {loginForm.formState.errors.password && (
+                            <p className="text-red-500 text-sm mt-1">
+                                {loginForm.formState.errors.password.message}
+                            </p>
+                        )}
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={loginForm.formState.isSubmitting}
+                        className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {loginForm.formState.isSubmitting ? 'Entrando...' : 'Iniciar sesión'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+export default function LoginPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen bg-gray-50 flex justify-center py-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        }>
+            <LoginContent />
+        </Suspense>
+    );
+}
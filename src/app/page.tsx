@@ -1,66 +1,22 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
-import type { HomeWithCompleteness } from '@/lib/types';
-import { useApiData } from '@/hooks/useApiData';
+import { useState, useEffect, Suspense } from 'react';
+import { useHomes, useDestinations } from '@/hooks/useApiQueries';
+import { useHomeFilters } from '@/hooks/useHomeFilters';
 import Link from 'next/link';
 import HomeSearchFilters from '@/components/ui/HomeSearchFilters';
 
 
 
-export default function Home() {
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(12);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
-  // Debounce del término de búsqueda (300ms)
-  useEffect(() => {
-    const handle = setTimeout(() => setDebouncedSearchQuery(searchQuery), 450);
-    return () => clearTimeout(handle);
-  }, [searchQuery]);
-  // Solo activar búsqueda si hay 3+ caracteres
-  const effectiveSearch = debouncedSearchQuery && debouncedSearchQuery.length >= 3 ? debouncedSearchQuery : '';
-  const [destinationFilter, setDestinationFilter] = useState('');
-
-  // Cargar casas con paginación
-  const homesParams = useMemo(() => ({
-    page: (effectiveSearch || destinationFilter) ? 1 : currentPage,
-    pageSize: (effectiveSearch || destinationFilter) ? 100 : pageSize
-  }), [currentPage, pageSize, effectiveSearch, destinationFilter]);
-
-  const { data: homes, meta: homesMeta, isLoading: isLoadingHomes, error: homesError } = useApiData<HomeWithCompleteness>('homes/with-completeness', homesParams);
-  const { data: destinations } = useApiData<string>('homes/destinations');
-
-  // Filtrar casas en el frontend
-  const filteredHomes = useMemo(() => {
-    if (!homes) return [];
-
-    return homes.filter(home => {
-      const matchesSearch = effectiveSearch === '' ||
-        home.name.toLowerCase().includes(effectiveSearch.toLowerCase()) ||
-        home.address.toLowerCase().includes(effectiveSearch.toLowerCase());
-
-      const matchesDestination = destinationFilter === '' ||
-        home.destination === destinationFilter;
-
-      return matchesSearch && matchesDestination;
-    });
-  }, [homes, effectiveSearch, destinationFilter]);
-
-  // Bloque de estadísticas eliminado por no utilizarse
-
-  // Paginación en cliente cuando hay búsqueda o filtro de destino
-  const useClientPagination = Boolean(effectiveSearch || destinationFilter);
-  const clientTotalPages = useMemo(() => {
-    if (!useClientPagination) return 1;
-    return Math.max(1, Math.ceil(filteredHomes.length / pageSize));
-  }, [useClientPagination, filteredHomes.length, pageSize]);
-  const visibleHomes = useMemo(() => {
-    if (!useClientPagination) return filteredHomes;
-    const start = (currentPage - 1) * pageSize;
-    const end = start + pageSize;
-    return filteredHomes.slice(start, end);
-  }, [useClientPagination, filteredHomes, currentPage, pageSize]);
+function HomeContent() {
+  const [pageSize] = useState(12);
+  // Filtros sincronizados con la URL: búsqueda, destino, completitud, orden y página
+  const { filters, setFilters, searchInput, setSearchInput, hasActiveFilters, toListParams } = useHomeFilters();
+  const currentPage = filters.page;
+
+  // Cargar casas con paginación y filtros resueltos en servidor
+  const { data: homes, meta: homesMeta, isFetching: isLoadingHomes, error: homesError } = useHomes(toListParams(pageSize));
+  const { data: destinations } = useDestinations();
 
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   useEffect(() => {
@@ -115,11 +71,16 @@ export default function Home() {
 
         {/* Filtros y Búsqueda */}
         <HomeSearchFilters
-          searchQuery={searchQuery}
-          onSearchChange={setSearchQuery}
-          destinationFilter={destinationFilter}
-          onDestinationChange={(value) => { setDestinationFilter(value); setCurrentPage(1); }}
-          destinations={destinations || []}
+          searchQuery={searchInput}
+          onSearchChange={setSearchInput}
+          destinationFilter={filters.destination}
+          onDestinationChange={(value) => setFilters({ destination: value })}
+          destinations={destinations}
+          minCompleteness={filters.minCompleteness}
+          maxCompleteness={filters.maxCompleteness}
+          onCompletenessChange={(min, max) => setFilters({ minCompleteness: min, maxCompleteness: max })}
+          sort={filters.sort}
+          onSortChange={(value) => setFilters({ sort: value })}
           isLoading={isLoadingHomes}
           hasLoadedOnce={hasLoadedOnce}
           className="mb-8"
@@ -127,7 +88,7 @@ export default function Home() {
 
         {/* Grid de Casas */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {visibleHomes.map((home) => (
+          {homes.map((home) => (
             <Link
               key={home.id}
               href={`/home/${home.id}`}
@@ -195,22 +156,22 @@ export default function Home() {
         </div>
 
         {/* Paginación */}
-        {(useClientPagination ? clientTotalPages > 1 : (homesMeta && homesMeta.totalPages > 1)) && (
+        {homesMeta && homesMeta.totalPages > 1 && (
           <div className="mt-8 flex justify-center">
             <div className="flex items-center space-x-2">
               <button
-                onClick={() => setCurrentPage(currentPage - 1)}
+                onClick={() => setFilters({ page: currentPage - 1 })}
                 disabled={currentPage <= 1}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Anterior
               </button>
               <span className="text-sm text-gray-700">
-                Página {currentPage} de {useClientPagination ? clientTotalPages : homesMeta!.totalPages}
+                Página {currentPage} de {homesMeta.totalPages}
               </span>
               <button
-                onClick={() => setCurrentPage(currentPage + 1)}
-                disabled={currentPage >= (useClientPagination ? clientTotalPages : homesMeta!.totalPages)}
+                onClick={() => setFilters({ page: currentPage + 1 })}
+                disabled={currentPage >= homesMeta.totalPages}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Siguiente
@@ -220,16 +181,16 @@ export default function Home() {
         )}
 
         {/* Mensaje si no hay casas */}
-        {filteredHomes.length === 0 && !isLoadingHomes && (
+        {homes.length === 0 && !isLoadingHomes && (
           <div className="text-center py-12">
             <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
             </svg>
             <h3 className="mt-2 text-sm font-medium text-gray-900">No hay casas</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {searchQuery || destinationFilter ? 'No se encontraron casas con los filtros aplicados.' : 'Aún no se han creado casas.'}
+              {hasActiveFilters ? 'No se encontraron casas con los filtros aplicados.' : 'Aún no se han creado casas.'}
             </p>
-            {!searchQuery && !destinationFilter && (
+            {!hasActiveFilters && (
               <div className="mt-6">
                 <p className="text-sm text-gray-500">
                   No hay casas disponibles. Contacta al administrador para crear la primera casa.
@@ -242,3 +203,19 @@ export default function Home() {
     </div>
   );
 }
+
+export default function Home() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        </div>
+      </div>
+    }>
+      <HomeContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAllHomes, usePurchaseOrder } from '@/hooks/useApiQueries';
+import {
+    PURCHASE_ORDER_STATUS_LABELS,
+    formatEuros,
+    lineTotal,
+    orderTotal,
+    purchaseOrderNumber,
+} from '@/lib/purchaseOrders';
+
+// Pedido en formato A4 para imprimir o guardar como PDF desde el navegador
+export default function PurchaseOrderPrintPage() {
+    const params = useParams();
+    const orderId = params.orderId as string;
+
+    const { data: order, isLoading, error } = usePurchaseOrder(orderId);
+    const { data: homes = [] } = useAllHomes();
+
+    const homeName = (homeId: string) => homes.find(home => home.id === homeId)?.name || 'Casa desconocida';
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !order) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">{error ? 'Error al cargar el pedido' : 'Pedido no encontrado'}</p>
+                        <Link href="/purchase-orders" className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver a pedidos
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 print:bg-white">
+            {/* Controles (no se imprimen) */}
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:hidden flex items-center justify-between">
+                <Link href="/purchase-orders" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+                    ← Volver a pedidos
+                </Link>
+                <button
+                    onClick={() => window.print()}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                >
+                    🖨️ Imprimir / Guardar PDF
+                </button>
+            </div>
+
+            {/* Hoja A4: en pantalla se muestra como vista previa */}
+            <div
+                className="mx-auto mb-8 bg-white shadow print:shadow-none print:m-0 p-[15mm] text-gray-900"
+                style={{ width: '210mm', minHeight: '297mm' }}
+            >
+                <div className="flex justify-between items-start mb-[10mm]">
+                    <div>
+                        <h1 className="text-2xl font-bold">Pedido {purchaseOrderNumber(order)}</h1>
+                        <p className="text-sm text-gray-600">
+                            Fecha: {new Date(order.sent_at ?? order.created_at).toLocaleDateString('es-ES')}
+                        </p>
+                        <p className="text-sm text-gray-600">Estado: {PURCHASE_ORDER_STATUS_LABELS[order.status]}</p>
+                    </div>
+                    <div className="text-right text-sm">
+                        <p className="font-semibold">{order.supplier?.name || 'Proveedor'}</p>
+                        {order.supplier?.contact_email && <p>{order.supplier.contact_email}</p>}
+                        {order.supplier?.phone && <p>{order.supplier.phone}</p>}
+                        {order.supplier?.website && <p>{order.supplier.website}</p>}
+                    </div>
+                </div>
+
+                <table className="w-full text-sm border-collapse">
+                    <thead>
+                        <tr className="border-b-2 border-gray-900">
+                            <th className="py-2 text-left">Producto</th>
+                            <th className="py-2 text-left">Casa</th>
+                            <th className="py-2 text-right">Cantidad</th>
+                            <th className="py-2 text-right">Precio</th>
+                            <th className="py-2 text-right">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {order.lines.map(line => (
+                            <tr key={line.inventory_id} className="border-b border-gray-200">
+                                <td className="py-2">{line.amenity_name}</td>
+                                <td className="py-2">{homeName(line.home_id)}</td>
+                                <td className="py-2 text-right">{line.quantity}</td>
+                                <td className="py-2 text-right">{formatEuros(line.unit_price)}</td>
+                                <td className="py-2 text-right">{formatEuros(lineTotal(line))}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr>
+                            <td colSpan={4} className="pt-4 text-right font-semibold">Total</td>
+                            <td className="pt-4 text-right font-bold">{formatEuros(orderTotal(order))}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+
+                {order.notes && (
+                    <div className="mt-[10mm] text-sm">
+                        <p className="font-semibold mb-1">Notas</p>
+                        <p className="whitespace-pre-line">{order.notes}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,449 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '@/lib/types';
+import { useAllHomes, usePurchaseOrders } from '@/hooks/useApiQueries';
+import {
+    useDeletePurchaseOrder,
+    useReceivePurchaseOrder,
+    useSendPurchaseOrder,
+    useUpdatePurchaseOrder,
+} from '@/hooks/useApiMutations';
+import { downloadCsv } from '@/lib/csv';
+import {
+    PURCHASE_ORDER_STATUS_LABELS,
+    formatEuros,
+    lineTotal,
+    orderTotal,
+    purchaseOrderMailto,
+    purchaseOrderNumber,
+    purchaseOrderRows,
+} from '@/lib/purchaseOrders';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    sent: 'bg-blue-100 text-blue-800',
+    received: 'bg-green-100 text-green-800',
+};
+
+const STATUS_OPTIONS: PurchaseOrderStatus[] = ['draft', 'sent', 'received'];
+
+type ConfirmAction = { type: 'delete' | 'receive'; order: PurchaseOrder };
+
+// Pedidos a proveedores generados desde la pantalla de reposición
+export default function PurchaseOrdersPage() {
+    const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('');
+    const [currentPage, setCurrentPage] = useState(1);
+    const [pageSize] = useState(20);
+    const { data: orders, meta: ordersMeta, isLoading, error } = usePurchaseOrders({ status: statusFilter || undefined, page: currentPage, pageSize });
+    const totalPages = ordersMeta?.totalPages ?? 0;
+    const totalOrders = ordersMeta?.total ?? orders.length;
+    const { data: homes = [] } = useAllHomes();
+    const updateOrder = useUpdatePurchaseOrder();
+    const deleteOrder = useDeletePurchaseOrder();
+    const sendOrder = useSendPurchaseOrder();
+    const receiveOrder = useReceivePurchaseOrder();
+
+    const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+    const [editLines, setEditLines] = useState<PurchaseOrderLine[]>([]);
+    const [editNotes, setEditNotes] = useState('');
+    const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const homeName = (homeId: string) => homes.find(home => home.id === homeId)?.name || 'Casa desconocida';
+
+    const handleEdit = (order: PurchaseOrder) => {
+        setEditingOrder(order);
+        setEditLines(order.lines.map(line => ({ ...line })));
+        setEditNotes(order.notes || '');
+    };
+
+    const updateLine = (index: number, field: 'quantity' | 'unit_price', value: string) => {
+        setEditLines(prev => prev.map((line, i) => (i === index ? { ...line, [field]: Number(value) || 0 } : line)));
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editingOrder) return;
+        const lines = editLines.filter(line => line.quantity > 0);
+        if (lines.length === 0) {
+            setSubmitMessage({ type: 'error', message: 'El pedido necesita al menos una línea con cantidad' });
+            return;
+        }
+
+        try {
+            await updateOrder.mutateAsync({ id: editingOrder.id, payload: { lines, notes: editNotes.trim() || undefined } });
+            setEditingOrder(null);
+            setSubmitMessage({ type: 'success', message: `Pedido ${purchaseOrderNumber(editingOrder)} actualizado` });
+        } catch (error) {
+            console.error('Error al actualizar el pedido:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al actualizar el pedido' });
+        }
+    };
+
+    // Abre el email al proveedor y marca el pedido como enviado
+    const handleSend = async (order: PurchaseOrder) => {
+        if (!order.supplier?.contact_email) {
+            setSubmitMessage({ type: 'error', message: 'El proveedor no tiene email de contacto' });
+            return;
+        }
+        window.location.href = purchaseOrderMailto(order, homeName);
+
+        try {
+            await sendOrder.mutateAsync(order.id);
+            setSubmitMessage({ type: 'success', message: `Pedido ${purchaseOrderNumber(order)} marcado como enviado` });
+        } catch (error) {
+            console.error('Error al enviar el pedido:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al marcar el pedido como enviado' });
+        }
+    };
+
+    const handleConfirm = async () => {
+        if (!confirmAction) return;
+        const { type, order } = confirmAction;
+        setConfirmAction(null);
+
+        try {
+            if (type === 'delete') {
+                await deleteOrder.mutateAsync(order.id);
+                setSubmitMessage({ type: 'success', message: `Pedido ${purchaseOrderNumber(order)} eliminado` });
+            } else {
+                await receiveOrder.mutateAsync(order.id);
+                setSubmitMessage({ type: 'success', message: `Pedido ${purchaseOrderNumber(order)} recibido: inventario actualizado` });
+            }
+        } catch (error) {
+            console.error('Error al actualizar el pedido:', error);
+            setSubmitMessage({ type: 'error', message: type === 'delete' ? 'Error al eliminar el pedido' : 'Error al recibir el pedido' });
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-7xl mx-auto px-4">
+                {/* Header */}
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold text-gray-900 mb-2">Pedidos a proveedores</h1>
+                    <p className="text-gray-600">
+                        Crea pedidos desde la pantalla de{' '}
+                        <Link href="/restock" className="text-blue-600 hover:text-blue-800">Reposición</Link>.
+                        Al recibir un pedido se suman las unidades al inventario de cada casa.
+                    </p>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md mb-6 ${submitMessage.type === 'success'
+                        ? 'bg-green-50 text-green-800 border border-green-200'
+                        : 'bg-red-50 text-red-800 border border-red-200'
+                        }`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                {/* Filtro */}
+                <div className="flex items-center gap-3 mb-6">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => {
+                            setStatusFilter(e.target.value as PurchaseOrderStatus | '');
+                            setCurrentPage(1);
+                        }}
+                        className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                    >
+                        <option value="">Todos los estados</option>
+                        {STATUS_OPTIONS.map(status => (
+                            <option key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</option>
+                        ))}
+                    </select>
+                    <span className="text-sm text-gray-500 ml-auto">{totalOrders} pedidos</span>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : error ? (
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">Error al cargar los pedidos</p>
+                    </div>
+                ) : orders.length === 0 ? (
+                    <div className="bg-white rounded-lg shadow p-12 text-center">
+                        <div className="text-4xl mb-4">🧾</div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">No hay pedidos</h3>
+                        <p className="text-gray-500">Selecciona productos con stock bajo en Reposición para generar pedidos</p>
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        {orders.map(order => (
+                            <div key={order.id} className="bg-white rounded-lg shadow overflow-hidden">
+                                <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <h2 className="text-lg font-semibold text-gray-900">{purchaseOrderNumber(order)}</h2>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[order.status]}`}>
+                                                {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                                            </span>
+                                        </div>
+                                        <p className="text-sm text-gray-600">
+                                            🏢 {order.supplier?.name || 'Proveedor desconocido'}
+                                            {order.supplier?.contact_email && ` • ${order.supplier.contact_email}`}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            Creado el {new Date(order.created_at).toLocaleDateString('es-ES')}
+                                            {order.sent_at && ` • Enviado el ${new Date(order.sent_at).toLocaleDateString('es-ES')}`}
+                                            {order.received_at && ` • Recibido el ${new Date(order.received_at).toLocaleDateString('es-ES')}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        {order.status === 'draft' && (
+                                            <>
+                                                <button
+                                                    onClick={() => handleEdit(order)}
+                                                    className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                                                >
+                                                    ✏️ Editar
+                                                </button>
+                                                <button
+                                                    onClick={() => handleSend(order)}
+                                                    disabled={sendOrder.isPending}
+                                                    className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50"
+                                                >
+                                                    📧 Enviar
+                                                </button>
+                                            </>
+                                        )}
+                                        {order.status === 'sent' && (
+                                            <button
+                                                onClick={() => setConfirmAction({ type: 'receive', order })}
+                                                className="px-3 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded hover:bg-green-100"
+                                            >
+                                                📦 Recibir
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => downloadCsv(purchaseOrderRows(order, homeName), `${purchaseOrderNumber(order)}.csv`)}
+                                            className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                                        >
+                                            ⬇️ CSV
+                                        </button>
+                                        <Link
+                                            href={`/purchase-orders/${order.id}/print`}
+                                            className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                                        >
+                                            🖨️ PDF
+                                        </Link>
+                                        {order.status === 'draft' && (
+                                            <button
+                                                onClick={() => setConfirmAction({ type: 'delete', order })}
+                                                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                            >
+                                                🗑️ Eliminar
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="overflow-x-auto">
+                                    <table className="min-w-full divide-y divide-gray-200">
+                                        <thead className="bg-gray-50">
+                                            <tr>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Casa</th>
+                                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cantidad</th>
+                                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Precio</th>
+                                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="bg-white divide-y divide-gray-200">
+                                            {order.lines.map(line => (
+                                                <tr key={line.inventory_id}>
+                                                    <td className="px-6 py-3 text-sm text-gray-900">
+                                                        {line.purchase_link ? (
+                                                            <a href={line.purchase_link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                                                                {line.amenity_name}
+                                                            </a>
+                                                        ) : line.amenity_name}
+                                                    </td>
+                                                    <td className="px-6 py-3 text-sm text-gray-600">{homeName(line.home_id)}</td>
+                                                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{line.quantity}</td>
+                                                    <td className="px-6 py-3 text-sm text-gray-600 text-right">{formatEuros(line.unit_price)}</td>
+                                                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatEuros(lineTotal(line))}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                        <tfoot className="bg-gray-50">
+                                            <tr>
+                                                <td colSpan={4} className="px-6 py-3 text-sm font-medium text-gray-700 text-right">Total</td>
+                                                <td className="px-6 py-3 text-sm font-semibold text-gray-900 text-right">{formatEuros(orderTotal(order))}</td>
+                                            </tr>
+                                        </tfoot>
+                                    </table>
+                                </div>
+                                {order.notes && (
+                                    <p className="px-6 py-3 text-sm text-gray-600 border-t border-gray-200">📝 {order.notes}</p>
+                                )}
+                            </div>
+                        ))}
+
+                        {/* Controles de paginación */}
+                        {totalPages > 1 && (
+                            <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+                                <div className="text-sm text-gray-500">
+                                    Mostrando {((currentPage - 1) * pageSize) + 1} a {Math.min(currentPage * pageSize, totalOrders)} de {totalOrders} pedidos
+                                </div>
+                                <div className="flex space-x-2">
+                                    <button
+                                        onClick={() => setCurrentPage(currentPage - 1)}
+                                        disabled={currentPage <= 1}
+                                        className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage <= 1
+                                            ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
+                                            : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        Anterior
+                                    </button>
+                                    <div className="flex space-x-1">
+                                        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                                            const pageNum = i + 1;
+                                            return (
+                                                <button
+                                                    key={pageNum}
+                                                    onClick={() => setCurrentPage(pageNum)}
+                                                    className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage === pageNum
+                                                        ? 'text-white bg-blue-600'
+                                                        : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                                                        }`}
+                                                >
+                                                    {pageNum}
+                                                </button>
+                                            );
+                                        })}
+                                        {totalPages > 5 && (
+                                            <span className="px-3 py-1 text-sm text-gray-500">...</span>
+                                        )}
+                                    </div>
+                                    <button
+                                        onClick={() => setCurrentPage(currentPage + 1)}
+                                        disabled={currentPage >= totalPages}
+                                        className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage >= totalPages
+                                            ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
+                                            : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        Siguiente
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Modal de edición del borrador */}
+                {editingOrder && (
+                    <div className="fixed inset-0 z-50 overflow-y-auto">
+                        <div className="flex min-h-screen items-center justify-center p-4">
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setEditingOrder(null)}></div>
+                            <div className="relative bg-white rounded-lg shadow-lg max-w-2xl w-full p-6">
+                                <h3 className="text-lg font-medium text-gray-900 mb-1">Editar {purchaseOrderNumber(editingOrder)}</h3>
+                                <p className="text-sm text-gray-500 mb-4">Las líneas con cantidad 0 se quitan del pedido.</p>
+
+                                <div className="space-y-3 max-h-96 overflow-y-auto">
+                                    {editLines.map((line, index) => (
+                                        <div key={line.inventory_id} className="grid grid-cols-12 gap-3 items-center">
+                                            <div className="col-span-6 text-sm">
+                                                <p className="text-gray-900">{line.amenity_name}</p>
+                                                <p className="text-xs text-gray-500">{homeName(line.home_id)}</p>
+                                            </div>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={line.quantity}
+                                                onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                                                className="col-span-3 px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm text-sm"
+                                                title="Cantidad"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={line.unit_price}
+                                                onChange={(e) => updateLine(index, 'unit_price', e.target.value)}
+                                                className="col-span-3 px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm text-sm"
+                                                title="Precio unitario (€)"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="mt-4">
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Notas para el proveedor</label>
+                                    <textarea
+                                        value={editNotes}
+                                        onChange={(e) => setEditNotes(e.target.value)}
+                                        rows={3}
+                                        className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                        placeholder="Dirección de entrega, horario..."
+                                    />
+                                </div>
+
+                                <div className="flex items-center justify-between mt-6">
+                                    <span className="text-sm font-medium text-gray-700">Total: {formatEuros(orderTotal({ lines: editLines }))}</span>
+                                    <div className="flex space-x-3">
+                                        <button
+                                            onClick={() => setEditingOrder(null)}
+                                            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                        >
+                                            Cancelar
+                                        </button>
+                                        <button
+                                            onClick={handleSaveEdit}
+                                            disabled={updateOrder.isPending}
+                                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {updateOrder.isPending ? 'Guardando...' : 'Guardar'}
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Modal de confirmación */}
+                {confirmAction && (
+                    <div className="fixed inset-0 z-50 overflow-y-auto">
+                        <div className="flex min-h-screen items-center justify-center p-4">
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setConfirmAction(null)}></div>
+                            <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                                <h3 className="text-lg font-medium text-gray-900 mb-4">
+                                    {confirmAction.type === 'delete' ? 'Eliminar pedido' : 'Recibir pedido'}
+                                </h3>
+                                <p className="text-sm text-gray-500 mb-6">
+                                    {confirmAction.type === 'delete'
+                                        ? `¿Seguro que quieres eliminar el borrador ${purchaseOrderNumber(confirmAction.order)}?`
+                                        : `Se sumarán las unidades de ${purchaseOrderNumber(confirmAction.order)} al inventario de cada casa y se marcarán como repuestas. Esta acción no se puede deshacer.`}
+                                </p>
+                                <div className="flex justify-end space-x-3">
+                                    <button
+                                        onClick={() => setConfirmAction(null)}
+                                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                    >
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        onClick={handleConfirm}
+                                        className={`px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md ${confirmAction.type === 'delete'
+                                            ? 'bg-red-600 hover:bg-red-700'
+                                            : 'bg-green-600 hover:bg-green-700'
+                                            }`}
+                                    >
+                                        {confirmAction.type === 'delete' ? 'Eliminar' : 'Recibir'}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
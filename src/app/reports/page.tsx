@@ -0,0 +1,192 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { HomeInventoryWithRelations } from '@/lib/types';
+import { useAllBrands, useAllCategories, useAllHomes, useAllInventory, useAllRooms } from '@/hooks/useApiQueries';
+import { ValuationBreakdown } from '@/components/reports/ValuationBreakdown';
+import { downloadCsv } from '@/lib/csv';
+import {
+    groupValuation,
+    priceComparison,
+    priceComparisonRows,
+    valuationTotals,
+} from '@/lib/inventoryReports';
+import { formatEuros } from '@/lib/purchaseOrders';
+
+// Filas de la comparación de precios visibles en pantalla (el CSV lleva todas)
+const COMPARISON_ROWS = 20;
+
+// Informe de valoración del inventario por casa, habitación, categoría, marca y proveedor
+export default function InventoryReportsPage() {
+    const { data: inventory = [], isLoading: isLoadingInventory, error: inventoryError } = useAllInventory();
+    const { data: homes = [], isLoading: isLoadingHomes } = useAllHomes();
+    const { data: rooms = [] } = useAllRooms();
+    const { data: categories = [] } = useAllCategories();
+    const { data: brands = [] } = useAllBrands();
+
+    const [homeFilter, setHomeFilter] = useState('');
+
+    const items = useMemo(
+        () => (homeFilter ? inventory.filter(item => item.home_id === homeFilter) : inventory),
+        [inventory, homeFilter]
+    );
+
+    const report = useMemo(() => {
+        const homeName = (homeId: string) => homes.find(home => home.id === homeId)?.name || 'Casa desconocida';
+        const roomOf = (item: HomeInventoryWithRelations) => {
+            const room = rooms.find(r => r.id === item.room_id);
+            if (!room) return { id: `${item.home_id}:sin-habitacion`, name: homeFilter ? 'Sin habitación' : `${homeName(item.home_id)} • Sin habitación` };
+            return { id: room.id, name: homeFilter ? room.name : `${homeName(item.home_id)} • ${room.name}` };
+        };
+        const categoryOf = (item: HomeInventoryWithRelations) => {
+            const id = item.amenity?.category_id || 'sin-categoria';
+            return { id, name: item.amenity?.category?.name || categories.find(c => c.id === id)?.name || 'Sin categoría' };
+        };
+        const brandOf = (item: HomeInventoryWithRelations) => {
+            const id = item.amenity?.brand_id || 'sin-marca';
+            return { id, name: item.amenity?.brand?.name || brands.find(b => b.id === id)?.name || 'Sin marca' };
+        };
+
+        return {
+            totals: valuationTotals(items),
+            byHome: groupValuation(items, item => ({ id: item.home_id, name: homeName(item.home_id) })),
+            byRoom: groupValuation(items, roomOf),
+            byCategory: groupValuation(items, categoryOf),
+            byBrand: groupValuation(items, brandOf),
+            bySupplier: groupValuation(items, item => ({ id: item.supplier_id || 'sin-proveedor', name: item.supplier?.name || 'Sin proveedor' })),
+            comparisons: priceComparison(items),
+        };
+    }, [items, rooms, categories, brands, homes, homeFilter]);
+
+    const { totals } = report;
+    const spendDifference = totals.replacementValue
+        ? ((totals.purchaseSpend - totals.replacementValue) / totals.replacementValue) * 100
+        : 0;
+    const suffix = homeFilter ? `-${homeFilter.slice(0, 8)}` : '';
+
+    if (isLoadingInventory || isLoadingHomes) {
+        return (
+            <div className="min-h-screen bg-gray-50 py-8">
+                <div className="flex justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-7xl mx-auto px-4 space-y-6">
+                {/* Header */}
+                <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-900 mb-2">Valoración del inventario</h1>
+                        <p className="text-gray-600">
+                            Valor de reposición a precio de catálogo y gasto según el precio de compra de cada línea
+                        </p>
+                    </div>
+                    <select
+                        value={homeFilter}
+                        onChange={(e) => setHomeFilter(e.target.value)}
+                        className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                    >
+                        <option value="">Todas las casas</option>
+                        {homes.map(home => (
+                            <option key={home.id} value={home.id}>{home.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {inventoryError && (
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">Error al cargar el inventario</p>
+                    </div>
+                )}
+
+                {/* Totales */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="bg-white rounded-lg shadow p-4">
+                        <p className="text-sm text-gray-500">Valor de reposición</p>
+                        <p className="text-2xl font-semibold text-gray-900">{formatEuros(totals.replacementValue)}</p>
+                    </div>
+                    <div className="bg-white rounded-lg shadow p-4">
+                        <p className="text-sm text-gray-500">Gasto de compra</p>
+                        <p className="text-2xl font-semibold text-gray-900">{formatEuros(totals.purchaseSpend)}</p>
+                        {totals.replacementValue > 0 && (
+                            <p className={`text-xs ${spendDifference > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                {spendDifference > 0 ? '+' : ''}{spendDifference.toFixed(1)}% sobre catálogo
+                            </p>
+                        )}
+                    </div>
+                    <div className="bg-white rounded-lg shadow p-4">
+                        <p className="text-sm text-gray-500">Unidades</p>
+                        <p className="text-2xl font-semibold text-gray-900">{totals.units}</p>
+                    </div>
+                    <div className="bg-white rounded-lg shadow p-4">
+                        <p className="text-sm text-gray-500">Líneas de inventario</p>
+                        <p className="text-2xl font-semibold text-gray-900">{totals.lines}</p>
+                    </div>
+                </div>
+
+                {!homeFilter && (
+                    <ValuationBreakdown title="Por casa" groupLabel="Casa" groups={report.byHome} filename="valoracion-por-casa.csv" />
+                )}
+                <ValuationBreakdown title="Por habitación" groupLabel="Habitación" groups={report.byRoom} filename={`valoracion-por-habitacion${suffix}.csv`} />
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <ValuationBreakdown title="Por categoría" groupLabel="Categoría" groups={report.byCategory} filename={`valoracion-por-categoria${suffix}.csv`} />
+                    <ValuationBreakdown title="Por marca" groupLabel="Marca" groups={report.byBrand} filename={`valoracion-por-marca${suffix}.csv`} />
+                </div>
+                <ValuationBreakdown title="Por proveedor" groupLabel="Proveedor" groups={report.bySupplier} filename={`valoracion-por-proveedor${suffix}.csv`} />
+
+                {/* Compra frente a catálogo */}
+                <div className="bg-white rounded-lg shadow">
+                    <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                        <div>
+                            <h2 className="text-lg font-medium text-gray-900">Precio de compra frente a catálogo</h2>
+                            <p className="text-sm text-gray-500">Productos con mayor diferencia entre el precio medio pagado y el precio base</p>
+                        </div>
+                        <button
+                            onClick={() => downloadCsv(priceComparisonRows(report.comparisons), `compra-vs-catalogo${suffix}.csv`)}
+                            disabled={report.comparisons.length === 0}
+                            className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50"
+                        >
+                            ⬇️ CSV
+                        </button>
+                    </div>
+                    {report.comparisons.length === 0 ? (
+                        <p className="px-6 py-8 text-sm text-gray-500 text-center">
+                            Ninguna línea tiene a la vez precio de compra y precio base
+                        </p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unidades</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Compra (media)</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Catálogo</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Diferencia</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {report.comparisons.slice(0, COMPARISON_ROWS).map(comparison => (
+                                        <tr key={comparison.amenityId}>
+                                            <td className="px-6 py-3 text-sm text-gray-900">{comparison.name}</td>
+                                            <td className="px-6 py-3 text-sm text-gray-600 text-right">{comparison.units}</td>
+                                            <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatEuros(comparison.averagePurchasePrice)}</td>
+                                            <td className="px-6 py-3 text-sm text-gray-600 text-right">{formatEuros(comparison.basePrice)}</td>
+                                            <td className={`px-6 py-3 text-sm text-right font-medium ${comparison.difference > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                {comparison.difference > 0 ? '+' : ''}{comparison.differencePercent.toFixed(1)}%
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,337 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { HomeInventoryWithRelations, Supplier } from '@/lib/types';
+import { useAllHomes, useAllInventory } from '@/hooks/useApiQueries';
+import { useCreatePurchaseOrders, useRestockInventory } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { formatRestockDate, isLowStock, suggestedRestockQuantity } from '@/lib/inventory';
+import { draftOrdersFromInventory } from '@/lib/purchaseOrders';
+import { movementAuthor } from '@/lib/stockMovements';
+
+type GroupBy = 'home' | 'supplier';
+
+type RestockGroup = {
+    id: string;
+    title: string;
+    supplier?: Supplier;
+    items: HomeInventoryWithRelations[];
+};
+
+// Productos con stock bajo en todas las casas, agrupados por casa o por proveedor
+export default function RestockPage() {
+    const router = useRouter();
+    const { can, user } = useAuth();
+    const { data: inventory = [], isLoading: isLoadingInventory, error: inventoryError } = useAllInventory();
+    const { data: homes = [], isLoading: isLoadingHomes } = useAllHomes();
+    const restockInventory = useRestockInventory();
+    const createPurchaseOrders = useCreatePurchaseOrders();
+    const canOrder = can('purchase:manage');
+
+    const [groupBy, setGroupBy] = useState<GroupBy>('home');
+    const [homeFilter, setHomeFilter] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [restockingItem, setRestockingItem] = useState<HomeInventoryWithRelations | null>(null);
+    const [restockQuantity, setRestockQuantity] = useState('');
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const homeName = (homeId: string) => homes.find(home => home.id === homeId)?.name || 'Casa desconocida';
+
+    const lowStock = useMemo(
+        () => inventory.filter(item => isLowStock(item) && (!homeFilter || item.home_id === homeFilter)),
+        [inventory, homeFilter]
+    );
+
+    const groups = useMemo(() => {
+        const map = new Map<string, RestockGroup>();
+        lowStock.forEach(item => {
+            const id = groupBy === 'home' ? item.home_id : item.supplier_id || 'sin-proveedor';
+            if (!map.has(id)) {
+                map.set(id, groupBy === 'home'
+                    ? { id, title: homes.find(home => home.id === id)?.name || 'Casa desconocida', items: [] }
+                    : { id, title: item.supplier?.name || 'Sin proveedor', supplier: item.supplier, items: [] });
+            }
+            map.get(id)!.items.push(item);
+        });
+        return [...map.values()].sort((a, b) => a.title.localeCompare(b.title));
+    }, [lowStock, groupBy, homes]);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    // Un pedido en borrador por proveedor con las líneas seleccionadas
+    const handleCreateOrders = async () => {
+        const orders = draftOrdersFromInventory(lowStock.filter(item => selectedIds.has(item.id)));
+        try {
+            const { failed } = await createPurchaseOrders.mutateAsync(orders);
+            if (failed > 0) {
+                setSubmitMessage({ type: 'error', message: `No se pudieron crear ${failed} de ${orders.length} pedidos` });
+                return;
+            }
+            router.push('/purchase-orders');
+        } catch (error) {
+            console.error('Error al crear los pedidos:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al crear los pedidos' });
+        }
+    };
+
+    const handleOpenRestock = (item: HomeInventoryWithRelations) => {
+        setRestockingItem(item);
+        setRestockQuantity(suggestedRestockQuantity(item).toString());
+    };
+
+    const handleRestock = async () => {
+        if (!restockingItem || !user) return;
+        const quantity = parseInt(restockQuantity);
+        if (!quantity || quantity <= restockingItem.quantity) return;
+
+        try {
+            setRestockingItem(null);
+            await restockInventory.mutateAsync({ item: restockingItem, quantity, author: movementAuthor(user) });
+            setSubmitMessage({ type: 'success', message: `${restockingItem.amenity?.name || 'Producto'} repuesto (${quantity} uds.)` });
+        } catch (error) {
+            console.error('Error al reponer el producto:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al marcar el producto como repuesto' });
+        }
+    };
+
+    const loading = isLoadingInventory || isLoadingHomes;
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-7xl mx-auto px-4">
+                {/* Header */}
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold text-gray-900 mb-2">Reposición</h1>
+                    <p className="text-gray-600">
+                        Productos cuya cantidad ha llegado al umbral mínimo en cualquier casa
+                    </p>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md mb-6 ${submitMessage.type === 'success'
+                        ? 'bg-green-50 text-green-800 border border-green-200'
+                        : 'bg-red-50 text-red-800 border border-red-200'
+                        }`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                {/* Controles */}
+                <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6">
+                    <div className="inline-flex rounded-md shadow-sm">
+                        {(['home', 'supplier'] as GroupBy[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setGroupBy(option)}
+                                className={`px-4 py-2 text-sm font-medium border first:rounded-l-md last:rounded-r-md ${groupBy === option
+                                    ? 'bg-blue-600 text-white border-blue-600'
+                                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                    }`}
+                            >
+                                {option === 'home' ? '🏠 Por casa' : '🏢 Por proveedor'}
+                            </button>
+                        ))}
+                    </div>
+                    <select
+                        value={homeFilter}
+                        onChange={(e) => setHomeFilter(e.target.value)}
+                        className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                    >
+                        <option value="">Todas las casas</option>
+                        {homes.map(home => (
+                            <option key={home.id} value={home.id}>{home.name}</option>
+                        ))}
+                    </select>
+                    <span className="text-sm text-gray-500 md:ml-auto">
+                        {lowStock.length} productos por reponer
+                    </span>
+                    {canOrder && (
+                        <button
+                            onClick={handleCreateOrders}
+                            disabled={selectedIds.size === 0 || createPurchaseOrders.isPending}
+                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {createPurchaseOrders.isPending ? 'Creando pedidos...' : `🧾 Crear pedidos (${selectedIds.size})`}
+                        </button>
+                    )}
+                </div>
+
+                {inventoryError && (
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+                        <p className="text-red-800">Error al cargar el inventario: {inventoryError.message}</p>
+                    </div>
+                )}
+
+                {loading ? (
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : groups.length === 0 ? (
+                    <div className="bg-white rounded-lg shadow-md p-12 text-center">
+                        <p className="text-4xl mb-2">✅</p>
+                        <p className="text-gray-500">No hay productos con stock bajo</p>
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        {groups.map(group => (
+                            <div key={group.id} className="bg-white rounded-lg shadow-md">
+                                <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                                    <div>
+                                        <h2 className="text-lg font-medium text-gray-900">
+                                            {groupBy === 'home' ? (
+                                                <Link href={`/home/${group.id}/inventory`} className="hover:text-blue-600">
+                                                    🏠 {group.title}
+                                                </Link>
+                                            ) : (
+                                                <>🏢 {group.title}</>
+                                            )}
+                                        </h2>
+                                        {group.supplier && (
+                                            <p className="text-sm text-gray-500">
+                                                {[group.supplier.contact_email, group.supplier.phone].filter(Boolean).join(' • ')}
+                                                {group.supplier.website && (
+                                                    <a href={group.supplier.website} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 hover:text-blue-800">
+                                                        🌐 Web
+                                                    </a>
+                                                )}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <span className="text-sm text-gray-500">{group.items.length} productos</span>
+                                </div>
+
+                                <div className="overflow-x-auto">
+                                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                        <thead className="bg-gray-50">
+                                            <tr>
+                                                {canOrder && <th className="pl-6 py-3"></th>}
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    {groupBy === 'home' ? 'Proveedor' : 'Casa'}
+                                                </th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock / Mínimo</th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Última reposición</th>
+                                                <th className="px-6 py-3"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {group.items.map(item => (
+                                                <tr key={item.id} className="hover:bg-gray-50">
+                                                    {canOrder && (
+                                                        <td className="pl-6 py-3">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={selectedIds.has(item.id)}
+                                                                disabled={!item.supplier_id}
+                                                                onChange={() => toggleSelected(item.id)}
+                                                                title={item.supplier_id ? 'Incluir en un pedido' : 'Sin proveedor: no se puede pedir'}
+                                                                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                            />
+                                                        </td>
+                                                    )}
+                                                    <td className="px-6 py-3">
+                                                        <p className="font-medium text-gray-900">{item.amenity?.name || 'Producto'}</p>
+                                                        <p className="text-xs text-gray-500">
+                                                            {[item.room?.name, item.location_details].filter(Boolean).join(' • ')}
+                                                        </p>
+                                                    </td>
+                                                    <td className="px-6 py-3 text-gray-700">
+                                                        {groupBy === 'home' ? item.supplier?.name || 'Sin proveedor' : homeName(item.home_id)}
+                                                    </td>
+                                                    <td className="px-6 py-3">
+                                                        <span className={`font-semibold ${item.quantity === 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                                                            {item.quantity}
+                                                        </span>
+                                                        <span className="text-gray-500"> / {item.minimum_threshold}</span>
+                                                    </td>
+                                                    <td className="px-6 py-3 text-gray-700">{formatRestockDate(item.last_restocked_date)}</td>
+                                                    <td className="px-6 py-3">
+                                                        <div className="flex justify-end space-x-2">
+                                                            {item.purchase_link && (
+                                                                <a
+                                                                    href={item.purchase_link}
+                                                                    target="_blank"
+                                                                    rel="noopener noreferrer"
+                                                                    className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 whitespace-nowrap"
+                                                                >
+                                                                    🛒 Comprar
+                                                                </a>
+                                                            )}
+                                                            <button
+                                                                onClick={() => handleOpenRestock(item)}
+                                                                className="px-3 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded hover:bg-green-100 whitespace-nowrap"
+                                                            >
+                                                                ✅ Marcar repuesto
+                                                            </button>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Modal de reposición */}
+                {restockingItem && (
+                    <div className="fixed inset-0 z-50 overflow-y-auto">
+                        <div className="flex min-h-screen items-center justify-center p-4">
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setRestockingItem(null)}></div>
+                            <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                                <h3 className="text-lg font-medium text-gray-900 mb-1">Marcar como repuesto</h3>
+                                <p className="text-sm text-gray-500 mb-4">
+                                    {restockingItem.amenity?.name} • {homeName(restockingItem.home_id)}
+                                </p>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Cantidad tras reponer
+                                </label>
+                                <input
+                                    type="number"
+                                    min={restockingItem.quantity + 1}
+                                    value={restockQuantity}
+                                    onChange={(e) => setRestockQuantity(e.target.value)}
+                                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Ahora hay {restockingItem.quantity} (mínimo {restockingItem.minimum_threshold}). Se registra una reposición
+                                    de la diferencia y se guarda la fecha de hoy como última reposición.
+                                </p>
+                                <div className="flex justify-end space-x-3 mt-6">
+                                    <button
+                                        onClick={() => setRestockingItem(null)}
+                                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                    >
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        onClick={handleRestock}
+                                        disabled={!(parseInt(restockQuantity) > restockingItem.quantity)}
+                                        className="px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Guardar
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,414 @@
+'use client';
+
+import { Suspense, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import {
+    useAllAmenities,
+    useAllBrands,
+    useAllCategories,
+    useAllSuppliers,
+    useHome,
+    useInventory,
+    useRooms,
+} from '@/hooks/useApiQueries';
+import { useImportInventory } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
+import {
+    IMPORT_FIELDS,
+    buildImportPlan,
+    guessColumnMapping,
+    importAction,
+    readImportFile,
+    type ColumnMapping,
+    type ImportAction,
+    type ImportField,
+    type ImportResult,
+} from '@/lib/inventoryImport';
+import { movementAuthor } from '@/lib/stockMovements';
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+    create: { label: 'Añadir', className: 'bg-green-100 text-green-800' },
+    update: { label: 'Actualizar', className: 'bg-blue-100 text-blue-800' },
+    error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+};
+
+const SELECT_CLASS = 'w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm text-sm';
+
+function InventoryImportContent() {
+    const searchParams = useSearchParams();
+    const homeId = searchParams.get('homeId');
+    const { can, user } = useAuth();
+
+    const { data: home, isLoading: isLoadingHome } = useHome(homeId);
+    const { data: rooms = [] } = useRooms(homeId);
+    const { data: inventory = [] } = useInventory(homeId);
+    const { data: amenities = [], isLoading: isLoadingAmenities } = useAllAmenities();
+    // Catálogo completo: las filas se comparan por nombre y lo que no aparezca se daría por nuevo
+    const { data: categories = [], isLoading: isLoadingCategories } = useAllCategories();
+    const { data: brands = [], isLoading: isLoadingBrands } = useAllBrands();
+    const { data: suppliers = [], isLoading: isLoadingSuppliers } = useAllSuppliers();
+    const isLoadingCatalog = isLoadingAmenities || isLoadingCategories || isLoadingBrands || isLoadingSuppliers;
+    const importInventory = useImportInventory();
+
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [createMissing, setCreateMissing] = useState(false);
+    const [defaultSupplierId, setDefaultSupplierId] = useState('');
+    const [onlyProblems, setOnlyProblems] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [results, setResults] = useState<ImportResult[] | null>(null);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    // Crear productos, marcas y categorías es una edición del catálogo
+    const canCreateMissing = can('catalog:edit');
+
+    const plan = useMemo(
+        () => rows.length === 0 ? [] : buildImportPlan(rows, mapping, {
+            amenities,
+            brands,
+            categories,
+            suppliers,
+            rooms,
+            inventory,
+        }, { createMissing: createMissing && canCreateMissing, defaultSupplierId }),
+        [rows, mapping, amenities, brands, categories, suppliers, rooms, inventory, createMissing, canCreateMissing, defaultSupplierId]
+    );
+
+    const summary = useMemo(() => {
+        const counts: Record<ImportAction, number> = { create: 0, update: 0, error: 0 };
+        plan.forEach(row => counts[importAction(row)]++);
+        return {
+            ...counts,
+            newAmenities: new Set(plan.filter(row => row.amenity && !row.amenity.id && importAction(row) !== 'error').map(row => row.amenity!.name.toLowerCase())).size,
+        };
+    }, [plan]);
+
+    const visibleRows = onlyProblems ? plan.filter(row => row.errors.length > 0 || row.warnings.length > 0) : plan;
+    const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setResults(null);
+        setSubmitMessage(null);
+        try {
+            const [headerRow = [], ...dataRows] = await readImportFile(file);
+            if (dataRows.length === 0) {
+                setSubmitMessage({ type: 'error', message: 'El fichero no tiene filas de datos' });
+                return;
+            }
+            setFileName(file.name);
+            setHeaders(headerRow);
+            setRows(dataRows);
+            setMapping(guessColumnMapping(headerRow));
+        } catch (error) {
+            console.error('Error al leer el fichero:', error);
+            setSubmitMessage({ type: 'error', message: 'No se pudo leer el fichero. Usa un CSV o un Excel (.xlsx)' });
+        }
+    };
+
+    const handleMappingChange = (field: ImportField, value: string) => {
+        setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+    };
+
+    const handleImport = async () => {
+        if (!homeId || !user) return;
+        const validRows = plan.filter(row => importAction(row) !== 'error');
+        setProgress({ done: 0, total: validRows.length });
+
+        try {
+            const importResults = await importInventory.mutateAsync({
+                homeId,
+                rows: validRows,
+                author: movementAuthor(user),
+                onProgress: (done, total) => setProgress({ done, total }),
+            });
+            setResults(importResults);
+            const failed = importResults.filter(result => !result.ok).length;
+            setSubmitMessage(failed === 0
+                ? { type: 'success', message: `${importResults.length} filas importadas correctamente` }
+                : { type: 'error', message: `${importResults.length - failed} filas importadas; ${failed} fallaron` });
+            setRows([]);
+        } catch (error) {
+            console.error('Error al importar el inventario:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al importar el inventario' });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    if (isLoadingHome) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    if (!home) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                        <p className="text-red-800">Casa no encontrada</p>
+                        <Link href="/wizard/inventory" className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                            ← Volver al inventario
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-7xl mx-auto px-4 space-y-6">
+                {/* Header */}
+                <div>
+                    <Link
+                        href={`/wizard/inventory?homeId=${home.id}`}
+                        className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-2"
+                    >
+                        ← Volver al inventario de {home.name}
+                    </Link>
+                    <h1 className="text-3xl font-bold text-gray-900">Importar inventario</h1>
+                    <p className="text-gray-600 mt-2">
+                        Sube un CSV o Excel con una fila por producto. Antes de guardar nada verás qué se añade, qué se actualiza y qué filas tienen errores.
+                    </p>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md ${submitMessage.type === 'success'
+                        ? 'bg-green-50 text-green-800 border border-green-200'
+                        : 'bg-red-50 text-red-800 border border-red-200'
+                        }`}>
+                        {submitMessage.message}
+                        {results && (
+                            <Link href={`/home/${home.id}/inventory`} className="ml-2 font-medium underline">
+                                Ver inventario
+                            </Link>
+                        )}
+                    </div>
+                )}
+
+                {/* Filas que fallaron al importar */}
+                {results && results.some(result => !result.ok) && (
+                    <div className="bg-white rounded-lg shadow p-6">
+                        <h2 className="text-lg font-medium text-gray-900 mb-3">Filas no importadas</h2>
+                        <ul className="space-y-1 text-sm text-red-700">
+                            {results.filter(result => !result.ok).map(result => (
+                                <li key={result.line}>Fila {result.line}: {result.message}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {/* Fichero */}
+                <div className="bg-white rounded-lg shadow p-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Fichero (.csv, .xlsx)</label>
+                    <input
+                        type="file"
+                        accept=".csv,.txt,.xlsx"
+                        disabled={importInventory.isPending}
+                        onChange={(e) => {
+                            handleFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                        className="block text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                    />
+                    {fileName && rows.length > 0 && (
+                        <p className="text-sm text-gray-500 mt-2">{fileName}: {rows.length} filas</p>
+                    )}
+                </div>
+
+                {rows.length > 0 && (
+                    <>
+                        {/* Columnas y opciones */}
+                        <div className="bg-white rounded-lg shadow p-6">
+                            <h2 className="text-lg font-medium text-gray-900 mb-4">Columnas</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                                {IMPORT_FIELDS.map(field => (
+                                    <div key={field.key}>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            {field.label}{field.required && ' *'}
+                                        </label>
+                                        <select
+                                            value={mapping[field.key] ?? ''}
+                                            onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                                            className={SELECT_CLASS}
+                                        >
+                                            <option value="">— Sin asignar —</option>
+                                            {headers.map((header, column) => (
+                                                <option key={column} value={column}>{header || `Columna ${column + 1}`}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 pt-6 border-t border-gray-200">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Proveedor por defecto</label>
+                                    <select
+                                        value={defaultSupplierId}
+                                        onChange={(e) => setDefaultSupplierId(e.target.value)}
+                                        className={SELECT_CLASS}
+                                    >
+                                        <option value="">Ninguno</option>
+                                        {suppliers.map(supplier => (
+                                            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        Para filas sin proveedor cuyo producto no tiene proveedor habitual
+                                    </p>
+                                </div>
+                                <div>
+                                    <label className="flex items-start space-x-2 text-sm text-gray-700 mt-6">
+                                        <input
+                                            type="checkbox"
+                                            checked={createMissing && canCreateMissing}
+                                            disabled={!canCreateMissing}
+                                            onChange={(e) => setCreateMissing(e.target.checked)}
+                                            className="h-4 w-4 mt-0.5 text-blue-600 border-gray-300 rounded"
+                                        />
+                                        <span>
+                                            Crear en el catálogo los productos, marcas y categorías que no existan
+                                            {!canCreateMissing && (
+                                                <span className="block text-xs text-gray-500">Tu rol no puede editar el catálogo</span>
+                                            )}
+                                        </span>
+                                    </label>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Simulación */}
+                        <div className="bg-white rounded-lg shadow">
+                            <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                                <div>
+                                    <h2 className="text-lg font-medium text-gray-900">Vista previa</h2>
+                                    <p className="text-sm text-gray-500">
+                                        {summary.create} nuevas • {summary.update} actualizadas • {summary.error} con errores
+                                        {summary.newAmenities > 0 && ` • ${summary.newAmenities} productos nuevos en el catálogo`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={onlyProblems}
+                                            onChange={(e) => setOnlyProblems(e.target.checked)}
+                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                        />
+                                        <span>Solo filas con avisos</span>
+                                    </label>
+                                    <button
+                                        onClick={handleImport}
+                                        disabled={missingRequired.length > 0 || isLoadingCatalog || summary.create + summary.update === 0 || importInventory.isPending}
+                                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {importInventory.isPending ? 'Importando...' : `📥 Importar ${summary.create + summary.update} filas`}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {missingRequired.length > 0 && (
+                                <p className="px-6 py-3 text-sm text-red-700 bg-red-50 border-b border-red-200">
+                                    Asigna una columna a: {missingRequired.map(field => field.label).join(', ')}
+                                </p>
+                            )}
+
+                            {progress && (
+                                <div className="px-6 py-3 border-b border-gray-200">
+                                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                                        <span>Importando...</span>
+                                        <span>{progress.done} / {progress.total}</span>
+                                    </div>
+                                    <div className="w-full bg-gray-200 rounded-full h-2">
+                                        <div
+                                            className="bg-blue-600 h-2 rounded-full transition-all"
+                                            style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                                        ></div>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fila</th>
+                                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Acción</th>
+                                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Habitación</th>
+                                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cantidad</th>
+                                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avisos</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {visibleRows.map(row => {
+                                            const action = importAction(row);
+                                            return (
+                                                <tr key={row.line} className={action === 'error' ? 'bg-red-50' : ''}>
+                                                    <td className="px-4 py-3 text-sm text-gray-500">{row.line}</td>
+                                                    <td className="px-4 py-3">
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[action].className}`}>
+                                                            {ACTION_STYLES[action].label}
+                                                        </span>
+                                                    </td>
+                                                    <td className="px-4 py-3 text-sm">
+                                                        <p className="text-gray-900">{row.data?.amenity_name || '—'}</p>
+                                                        {row.amenity?.id && row.amenity.name !== row.data?.amenity_name && (
+                                                            <p className="text-xs text-gray-500">
+                                                                ≈ {row.amenity.name} ({Math.round((row.amenity.score ?? 1) * 100)}%)
+                                                            </p>
+                                                        )}
+                                                        {row.amenity && !row.amenity.id && (
+                                                            <p className="text-xs text-green-700">
+                                                                ➕ Producto nuevo
+                                                                {row.category && !row.category.id && ` • categoría "${row.category.name}" nueva`}
+                                                                {row.brand && !row.brand.id && ` • marca "${row.brand.name}" nueva`}
+                                                            </p>
+                                                        )}
+                                                    </td>
+                                                    <td className="px-4 py-3 text-sm text-gray-600">{row.room?.name || 'Sin habitación'}</td>
+                                                    <td className="px-4 py-3 text-sm text-gray-900">
+                                                        {row.existing ? `${row.existing.quantity} → ${row.data?.quantity}` : row.data?.quantity ?? '—'}
+                                                    </td>
+                                                    <td className="px-4 py-3 text-sm">
+                                                        {row.errors.map(message => (
+                                                            <p key={message} className="text-red-700">{message}</p>
+                                                        ))}
+                                                        {row.warnings.map(message => (
+                                                            <p key={message} className="text-yellow-700">{message}</p>
+                                                        ))}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function InventoryImportPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        }>
+            <InventoryImportContent />
+        </Suspense>
+    );
+}
@@ -1,14 +1,22 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect, Suspense } from 'react';
+import { useState, useMemo, useEffect, Suspense } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Home, Room, RoomType, Category, Brand, Supplier, Amenity, HomeInventoryWithRelations, HomeWithCompleteness } from '@/lib/types';
+import { Home, Room, RoomType, Supplier, Amenity, HomeWithCompleteness } from '@/lib/types';
 import { Input } from '@/components/ui/Input';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
-import { useApiData } from '@/hooks/useApiData';
+import {
+    useHome,
+    useCategories,
+    useBrands,
+    useSuppliers,
+    useRooms,
+    useInventory,
+    useAllAmenities,
+} from '@/hooks/useApiQueries';
+import { useCreateInventory, useCreateAmenity, useUpdateAmenity } from '@/hooks/useApiMutations';
+import { applyApiErrorToForm } from '@/lib/formErrors';
 import Link from 'next/link';
 import HomeSelector from '@/components/wizard/HomeSelector';
 import { useSearchParams } from 'next/navigation';
@@ -22,8 +30,14 @@ const homeSchema = z.object({
 
 const addInventorySchema = z.object({
     quantity: z.number().min(1, 'La cantidad debe ser mayor a 0'),
+    supplier_id: z.string().min(1, 'Selecciona un proveedor'),
+    remember_supplier: z.boolean().optional(),
+    room_id: z.string().optional(),
+    minimum_threshold: z.number().min(0, 'El umbral debe ser mayor o igual a 0'),
     purchase_price: z.number().min(0, 'El precio debe ser mayor o igual a 0').optional(),
+    purchase_link: z.string().url('Debe ser una URL válida').optional().or(z.literal('')),
     location_in_room: z.string().optional(),
+    notes: z.string().optional(),
 });
 
 const createAmenitySchema = z.object({
@@ -47,6 +61,18 @@ type AddInventoryFormData = z.infer<typeof addInventorySchema>;
 type CreateAmenityFormData = z.infer<typeof createAmenitySchema>;
 type CreateBrandFormData = z.infer<typeof createBrandSchema>;
 
+const EMPTY_INVENTORY_FORM: AddInventoryFormData = {
+    quantity: 1,
+    supplier_id: '',
+    remember_supplier: false,
+    room_id: '',
+    minimum_threshold: 1,
+    purchase_price: 0,
+    purchase_link: '',
+    location_in_room: '',
+    notes: '',
+};
+
 interface WizardState {
     currentStep: number;
     home: HomeWithCompleteness | null;
@@ -66,11 +92,7 @@ function InventoryWizardContent() {
         home: null,
     });
 
-    const [homeInventory, setHomeInventory] = useState<HomeInventoryWithRelations[]>([]);
-    const [loadingInventory, setLoadingInventory] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
-    const [allAmenities, setAllAmenities] = useState<Amenity[]>([]);
-    const [loadingAmenities, setLoadingAmenities] = useState(false);
     const [showAllAmenities, setShowAllAmenities] = useState(false);
     const [showAddInventoryModal, setShowAddInventoryModal] = useState(false);
     const [selectedAmenityToAdd, setSelectedAmenityToAdd] = useState<Amenity | null>(null);
@@ -79,41 +101,33 @@ function InventoryWizardContent() {
 
 
 
-    const apiClient = useMemo(() => createApiClient(config.apiUrl), []);
-
     // Cargar datos de soporte
-    const { data: categories } = useApiData<Category>('categories');
-    const { data: brands } = useApiData<Brand>('brands');
+    const { data: categories } = useCategories();
+    const { data: brands } = useBrands();
+    const { data: suppliers } = useSuppliers({ page: 1, pageSize: 100 });
+    const { data: homeRooms = [] } = useRooms(wizardState.home?.id);
+
+    // Inventario de la casa seleccionada y catálogo completo de productos
+    const { data: homeInventory = [], isLoading: loadingInventory } = useInventory(wizardState.home?.id);
+    const { data: allAmenities = [], isLoading: loadingAmenities } = useAllAmenities();
+    const createInventory = useCreateInventory();
+    const createAmenity = useCreateAmenity();
+    const updateAmenity = useUpdateAmenity();
 
     // Cargar casa si hay homeId en la URL
+    const { data: homeFromUrl } = useHome(homeIdFromUrl);
     useEffect(() => {
-        if (homeIdFromUrl) {
-            const loadHomeFromUrl = async () => {
-                try {
-                    const response = await apiClient.listHomesWithCompleteness({ pageSize: 100 });
-                    if (response.success) {
-                        const foundHome = response.data.find(h => h.id === homeIdFromUrl);
-                        if (foundHome) {
-                            setWizardState(prev => ({ ...prev, home: foundHome }));
-                            loadHomeInventory(foundHome.id);
-                        }
-                    }
-                } catch (error) {
-                    console.error('Error loading home from URL:', error);
-                }
-            };
-            loadHomeFromUrl();
+        if (homeFromUrl) {
+            setWizardState(prev => (prev.home ? prev : { ...prev, home: homeFromUrl }));
         }
-    }, [homeIdFromUrl, apiClient]);
+    }, [homeFromUrl]);
 
     // Formularios
     const addInventoryForm = useForm<AddInventoryFormData>({
         resolver: zodResolver(addInventorySchema),
-        defaultValues: {
-            quantity: 1,
-            purchase_price: 0,
-        }
+        defaultValues: EMPTY_INVENTORY_FORM,
     });
+    const selectedSupplierId = addInventoryForm.watch('supplier_id');
 
     const createAmenityForm = useForm<CreateAmenityFormData>({
         resolver: zodResolver(createAmenitySchema),
@@ -143,56 +157,6 @@ function InventoryWizardContent() {
         }
     };
 
-    // Cargar inventario de una casa específica
-    const loadHomeInventory = useCallback(async (homeId: string) => {
-        if (!homeId) return;
-        setLoadingInventory(true);
-        try {
-            const response = await apiClient.listInventory({
-                page: 1,
-                pageSize: 10,
-                home_id: homeId
-            });
-            if (response.success) {
-                setHomeInventory(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading inventory:', error);
-        } finally {
-            setLoadingInventory(false);
-        }
-    }, [apiClient]);
-
-    // Cargar todos los amenities haciendo múltiples llamadas paginadas
-    const loadAllAmenities = useCallback(async () => {
-        setLoadingAmenities(true);
-        try {
-            let allAmenitiesData: Amenity[] = [];
-            let page = 1;
-            let hasMore = true;
-
-            while (hasMore) {
-                const response = await apiClient.listAmenities({ page, pageSize: 100 });
-
-                if (response.success) {
-                    allAmenitiesData = [...allAmenitiesData, ...response.data];
-
-                    // Si recibimos menos de 100 elementos, ya no hay más páginas
-                    hasMore = response.data.length === 100;
-                    page++;
-                } else {
-                    break;
-                }
-            }
-
-            setAllAmenities(allAmenitiesData);
-        } catch (error) {
-            console.error('Error loading all amenities:', error);
-        } finally {
-            setLoadingAmenities(false);
-        }
-    }, [apiClient]);
-
     // Filtrar amenities basado en el término de búsqueda
     const filteredAmenities = useMemo(() => {
         if (!allAmenities) return [];
@@ -211,20 +175,15 @@ function InventoryWizardContent() {
         );
     }, [allAmenities, searchTerm]);
 
-    // Cargar todos los amenities al montar el componente
-    useEffect(() => {
-        loadAllAmenities();
-    }, [loadAllAmenities]);
-
     // Función para añadir amenity al inventario
     const handleAddAmenityToInventory = (amenity: Amenity) => {
         setSelectedAmenityToAdd(amenity);
         setShowAddInventoryModal(true);
 
+        // Proponer el proveedor habitual del producto
         addInventoryForm.reset({
-            quantity: 1,
-            purchase_price: 0,
-            location_in_room: '',
+            ...EMPTY_INVENTORY_FORM,
+            supplier_id: amenity.preferred_supplier_id || '',
         });
     };
 
@@ -233,46 +192,44 @@ function InventoryWizardContent() {
         if (!wizardState.home || !selectedAmenityToAdd) return;
 
         try {
-            // Necesitamos un supplier_id válido - vamos a obtener el primero disponible
-            const suppliers = await apiClient.listSuppliers({ page: 1, pageSize: 1 });
-            let supplierId = '';
-
-            if (suppliers.success && suppliers.data.length > 0) {
-                supplierId = suppliers.data[0].id;
-            } else {
-                alert('Error: No hay proveedores disponibles en el sistema. Por favor, crea un proveedor primero.');
-                return;
-            }
-
-            // Crear objeto base con campos requeridos
             const inventoryData = {
                 home_id: wizardState.home.id,
                 amenity_id: selectedAmenityToAdd.id,
+                room_id: data.room_id || undefined,
                 quantity: data.quantity,
                 location_details: data.location_in_room || 'Sin ubicación específica',
-                minimum_threshold: 1,
-                supplier_id: supplierId,
+                minimum_threshold: data.minimum_threshold,
+                supplier_id: data.supplier_id,
+                purchase_link: data.purchase_link || undefined,
                 purchase_price: data.purchase_price || 0,
+                notes: data.notes || undefined,
             };
 
-            const response = await apiClient.createInventory(inventoryData);
+            const response = await createInventory.mutateAsync(inventoryData);
 
             if (response.success) {
-                // Recargar el inventario de la casa
-                await loadHomeInventory(wizardState.home.id);
+                if (data.remember_supplier && data.supplier_id !== selectedAmenityToAdd.preferred_supplier_id) {
+                    try {
+                        await updateAmenity.mutateAsync({ id: selectedAmenityToAdd.id, payload: { preferred_supplier_id: data.supplier_id } });
+                    } catch (error) {
+                        // La línea ya está creada: no bloqueamos por el proveedor habitual
+                        console.error('Error al guardar el proveedor habitual:', error);
+                    }
+                }
 
                 // Cerrar modal y limpiar estado
                 setShowAddInventoryModal(false);
                 setSelectedAmenityToAdd(null);
                 setSubmitMessage(null); // Limpiar cualquier mensaje anterior
-                addInventoryForm.reset({
-                    quantity: 1,
-                    purchase_price: 0,
-                    location_in_room: '',
-                });
+                addInventoryForm.reset(EMPTY_INVENTORY_FORM);
             }
         } catch (error) {
             console.error('❌ Error adding to inventory:', error);
+            applyApiErrorToForm(error, addInventoryForm, {
+                fields: Object.keys(addInventorySchema.shape),
+                fieldMap: { location_details: 'location_in_room' },
+                fallbackMessage: 'Error al añadir el producto al inventario',
+            });
         }
     };
 
@@ -290,12 +247,9 @@ function InventoryWizardContent() {
                 images: [] // Array vacío por defecto
             };
 
-            const response = await apiClient.createAmenity(amenityData);
+            const response = await createAmenity.mutateAsync(amenityData);
 
             if (response.success) {
-                // Recargar todos los amenities para incluir el nuevo
-                await loadAllAmenities();
-
                 // Cerrar modal y limpiar formulario
                 setShowCreateAmenityModal(false);
                 createAmenityForm.reset({
@@ -314,6 +268,10 @@ function InventoryWizardContent() {
             }
         } catch (error) {
             console.error('Error creating amenity:', error);
+            applyApiErrorToForm(error, createAmenityForm, {
+                fields: Object.keys(createAmenitySchema.shape),
+                fallbackMessage: 'Error al crear el producto',
+            });
         }
     };
 
@@ -328,7 +286,6 @@ function InventoryWizardContent() {
                         onHomeSelect={(home) => {
                             setWizardState(prev => ({ ...prev, home }));
                             if (home) {
-                                loadHomeInventory(home.id);
                                 handleNextStep();
                             }
                         }}
@@ -535,6 +492,27 @@ function InventoryWizardContent() {
                                     </button>
                                 </div>
                             </div>
+
+                            {/* Importar desde fichero */}
+                            <div className="pt-4">
+                                <div className="flex items-center justify-between p-4 bg-white border border-dashed border-blue-300 rounded-lg hover:border-blue-400 transition-colors">
+                                    <div className="flex items-center space-x-3">
+                                        <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                                            <span className="text-blue-600 text-sm">📥</span>
+                                        </div>
+                                        <div>
+                                            <div className="font-medium text-gray-900">¿Muchos productos a la vez?</div>
+                                            <div className="text-sm text-gray-500">Importa el inventario desde un CSV o Excel</div>
+                                        </div>
+                                    </div>
+                                    <Link
+                                        href={`/wizard/inventory/import?homeId=${wizardState.home?.id}`}
+                                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 transition-colors"
+                                    >
+                                        Importar
+                                    </Link>
+                                </div>
+                            </div>
                         </div>
 
                         {/* Mensaje de estado */}
@@ -732,6 +710,78 @@ function InventoryWizardContent() {
                                 )}
                             </div>
 
+                            {/* Proveedor */}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Proveedor *
+                                </label>
+                                <select
+                                    {...addInventoryForm.register('supplier_id')}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                                >
+                                    <option value="">Selecciona un proveedor</option>
+                                    {suppliers.map(supplier => (
+                                        <option key={supplier.id} value={supplier.id}>
+                                            {supplier.name}{supplier.id === selectedAmenityToAdd.preferred_supplier_id ? ' (habitual)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                                {suppliers.length === 0 && (
+                                    <p className="text-sm text-gray-500 mt-1">
+                                        No hay proveedores. <Link href="/wizard/catalog" className="text-blue-600 hover:text-blue-800">Crea uno en el catálogo</Link>
+                                    </p>
+                                )}
+                                {selectedSupplierId && selectedSupplierId !== selectedAmenityToAdd.preferred_supplier_id && (
+                                    <label className="flex items-center space-x-2 text-sm text-gray-700 mt-2">
+                                        <input
+                                            type="checkbox"
+                                            {...addInventoryForm.register('remember_supplier')}
+                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                        />
+                                        <span>Usar como proveedor habitual de este producto</span>
+                                    </label>
+                                )}
+                                {addInventoryForm.formState.errors.supplier_id && (
+                                    <p className="text-red-500 text-sm mt-1">
+                                        {addInventoryForm.formState.errors.supplier_id.message}
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Habitación y umbral */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Habitación (opcional)
+                                    </label>
+                                    <select
+                                        {...addInventoryForm.register('room_id')}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                                    >
+                                        <option value="">Sin habitación</option>
+                                        {homeRooms.map(room => (
+                                            <option key={room.id} value={room.id}>{room.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Umbral mínimo *
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        {...addInventoryForm.register('minimum_threshold', { valueAsNumber: true })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                                    />
+                                    {addInventoryForm.formState.errors.minimum_threshold && (
+                                        <p className="text-red-500 text-sm mt-1">
+                                            {addInventoryForm.formState.errors.minimum_threshold.message}
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+
                             {/* Precio de compra */}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -745,6 +795,11 @@ function InventoryWizardContent() {
                                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
                                     placeholder="0.00"
                                 />
+                                {addInventoryForm.formState.errors.purchase_price && (
+                                    <p className="text-red-500 text-sm mt-1">
+                                        {addInventoryForm.formState.errors.purchase_price.message}
+                                    </p>
+                                )}
                             </div>
 
                             {/* Ubicación en la habitación */}
@@ -758,8 +813,49 @@ function InventoryWizardContent() {
                                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
                                     placeholder="Ej: Armario, Mesa de noche, etc."
                                 />
+                                {addInventoryForm.formState.errors.location_in_room && (
+                                    <p className="text-red-500 text-sm mt-1">
+                                        {addInventoryForm.formState.errors.location_in_room.message}
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Enlace de compra */}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Enlace de compra (opcional)
+                                </label>
+                                <input
+                                    type="url"
+                                    {...addInventoryForm.register('purchase_link')}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                                    placeholder="https://..."
+                                />
+                                {addInventoryForm.formState.errors.purchase_link && (
+                                    <p className="text-red-500 text-sm mt-1">
+                                        {addInventoryForm.formState.errors.purchase_link.message}
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Notas */}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Notas (opcional)
+                                </label>
+                                <textarea
+                                    rows={2}
+                                    {...addInventoryForm.register('notes')}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-400"
+                                />
                             </div>
 
+                            {addInventoryForm.formState.errors.root?.serverError && (
+                                <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                                    {addInventoryForm.formState.errors.root.serverError.message}
+                                </div>
+                            )}
+
                             {/* Botones */}
                             <div className="flex space-x-3 pt-4">
                                 <button
@@ -858,6 +954,11 @@ function InventoryWizardContent() {
                                         </option>
                                     ))}
                                 </select>
+                                {createAmenityForm.formState.errors.brand_id && (
+                                    <p className="text-red-500 text-sm mt-1">
+                                        {createAmenityForm.formState.errors.brand_id.message}
+                                    </p>
+                                )}
                             </div>
 
                             {/* Precio base */}
@@ -880,6 +981,12 @@ function InventoryWizardContent() {
                                 )}
                             </div>
 
+                            {createAmenityForm.formState.errors.root?.serverError && (
+                                <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                                    {createAmenityForm.formState.errors.root.serverError.message}
+                                </div>
+                            )}
+
                             {/* Botones */}
                             <div className="flex space-x-3 pt-4">
                                 <button
@@ -0,0 +1,407 @@
+'use client';
+
+import { useState } from 'react';
+import { PlaybookMaterial, PlaybookStep, PlaybookTemplate, PlaybookType } from '@/lib/types';
+import { usePlaybookTemplates, useRoomTypes } from '@/hooks/useApiQueries';
+import {
+    useCreatePlaybookTemplate,
+    useUpdatePlaybookTemplate,
+    useDeletePlaybookTemplate,
+} from '@/hooks/useApiMutations';
+import { useUploadSession } from '@/hooks/useUploadSession';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { cleanPlaybookContent, PLAYBOOK_TYPE_LABELS, PLAYBOOK_TYPES, TEMPLATE_IMAGE_PATH } from '@/lib/playbooks';
+import { PlaybookMaterialsEditor, PlaybookStepsEditor } from '@/components/playbooks/PlaybookEditors';
+import { ApplyTemplateModal } from '@/components/playbooks/ApplyTemplateModal';
+import { PropagateTemplateModal } from '@/components/playbooks/PropagateTemplateModal';
+
+type TemplateForm = {
+    title: string;
+    room_type_id: string;
+    type: PlaybookType;
+    estimated_time: string;
+    steps: PlaybookStep[];
+    materials: PlaybookMaterial[];
+};
+
+const EMPTY_FORM: TemplateForm = {
+    title: '',
+    room_type_id: '',
+    type: 'check_out',
+    estimated_time: '',
+    steps: [],
+    materials: [],
+};
+
+const inputClassName = 'w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm';
+
+// Biblioteca de plantillas de playbooks por tipo de habitación
+export default function PlaybookTemplatesPage() {
+    const { can } = useAuth();
+    const [roomTypeFilter, setRoomTypeFilter] = useState('');
+
+    const { data: roomTypes = [] } = useRoomTypes();
+    const { data: templates = [], isLoading } = usePlaybookTemplates(roomTypeFilter || undefined);
+    const createTemplate = useCreatePlaybookTemplate();
+    const updateTemplate = useUpdatePlaybookTemplate();
+    const deleteTemplate = useDeletePlaybookTemplate();
+    // Imágenes de los pasos: se borran si la plantilla no llega a guardarse
+    const templateUploads = useUploadSession();
+
+    const [showForm, setShowForm] = useState(false);
+    const [editingTemplate, setEditingTemplate] = useState<PlaybookTemplate | null>(null);
+    const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [deletingTemplate, setDeletingTemplate] = useState<PlaybookTemplate | null>(null);
+    const [applyingTemplate, setApplyingTemplate] = useState<PlaybookTemplate | null>(null);
+    const [propagating, setPropagating] = useState<{ template: PlaybookTemplate; justUpdated: boolean } | null>(null);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const roomTypeName = (roomTypeId: string) => roomTypes.find(type => type.id === roomTypeId)?.name || 'Tipo eliminado';
+    const isSaving = createTemplate.isPending || updateTemplate.isPending;
+
+    const handleNew = () => {
+        setEditingTemplate(null);
+        setForm({ ...EMPTY_FORM, room_type_id: roomTypeFilter });
+        setFormError(null);
+        setShowForm(true);
+    };
+
+    const handleEdit = (template: PlaybookTemplate) => {
+        setEditingTemplate(template);
+        setForm({
+            title: template.title,
+            room_type_id: template.room_type_id,
+            type: template.type,
+            estimated_time: template.estimated_time,
+            steps: template.steps,
+            materials: template.materials,
+        });
+        setFormError(null);
+        setShowForm(true);
+    };
+
+    const handleCancelForm = () => {
+        templateUploads.discard();
+        setShowForm(false);
+        setEditingTemplate(null);
+    };
+
+    const handleSave = async () => {
+        const { steps, materials } = cleanPlaybookContent(form.steps, form.materials);
+        if (!form.title.trim() || !form.room_type_id || !form.estimated_time.trim()) {
+            setFormError('El título, el tipo de habitación y el tiempo estimado son requeridos');
+            return;
+        }
+        if (steps.length === 0) {
+            setFormError('Añade al menos un paso');
+            return;
+        }
+
+        const payload = {
+            title: form.title.trim(),
+            room_type_id: form.room_type_id,
+            type: form.type,
+            estimated_time: form.estimated_time.trim(),
+            steps,
+            materials,
+        };
+
+        try {
+            if (editingTemplate) {
+                const response = await updateTemplate.mutateAsync({ id: editingTemplate.id, payload });
+                await templateUploads.commit();
+                setSubmitMessage({ type: 'success', message: 'Plantilla actualizada exitosamente' });
+                // Ofrecer llevar los cambios a las habitaciones que ya la usan
+                setPropagating({ template: response.data, justUpdated: true });
+            } else {
+                await createTemplate.mutateAsync(payload);
+                await templateUploads.commit();
+                setSubmitMessage({ type: 'success', message: 'Plantilla creada exitosamente' });
+            }
+            setShowForm(false);
+            setEditingTemplate(null);
+        } catch (error) {
+            console.error('Error al guardar la plantilla:', error);
+            setFormError('Error al guardar la plantilla');
+        }
+    };
+
+    const handleDelete = async (template: PlaybookTemplate) => {
+        try {
+            setDeletingTemplate(null);
+            await deleteTemplate.mutateAsync(template.id);
+            setSubmitMessage({ type: 'success', message: 'Plantilla eliminada. Los playbooks creados con ella se conservan.' });
+        } catch (error) {
+            console.error('Error al eliminar la plantilla:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al eliminar la plantilla' });
+        }
+    };
+
+    const handleModalDone = (message: { type: 'success' | 'error'; message: string }) => {
+        setApplyingTemplate(null);
+        setPropagating(null);
+        setSubmitMessage(message);
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8">
+            <div className="max-w-7xl mx-auto px-4">
+                {/* Header */}
+                <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-900 mb-2">Plantillas de Playbooks</h1>
+                        <p className="text-gray-600">
+                            Procedimientos comunes por tipo de habitación: se aplican a varias casas y se mantienen sincronizados
+                        </p>
+                    </div>
+                    <button
+                        onClick={handleNew}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                        ➕ Nueva plantilla
+                    </button>
+                </div>
+
+                {/* Mensaje de estado */}
+                {submitMessage && (
+                    <div className={`p-4 rounded-md mb-6 ${submitMessage.type === 'success'
+                        ? 'bg-green-50 text-green-800 border border-green-200'
+                        : 'bg-red-50 text-red-800 border border-red-200'
+                        }`}>
+                        {submitMessage.message}
+                    </div>
+                )}
+
+                {/* Filtro por tipo de habitación */}
+                <div className="mb-6">
+                    <select
+                        value={roomTypeFilter}
+                        onChange={(e) => setRoomTypeFilter(e.target.value)}
+                        className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                    >
+                        <option value="">Todos los tipos de habitación</option>
+                        {roomTypes.map(type => (
+                            <option key={type.id} value={type.id}>{type.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : templates.length === 0 ? (
+                    <div className="bg-white rounded-lg shadow-md p-12 text-center text-gray-500">
+                        No hay plantillas{roomTypeFilter && ` para ${roomTypeName(roomTypeFilter)}`}
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {templates.map(template => (
+                            <div key={template.id} className="bg-white rounded-lg shadow-md p-6">
+                                <div className="flex items-start justify-between mb-2">
+                                    <div>
+                                        <h2 className="text-lg font-semibold text-gray-900">{template.title}</h2>
+                                        <p className="text-sm text-gray-500">
+                                            🚪 {roomTypeName(template.room_type_id)} • ⏱️ {template.estimated_time} • v{template.version}
+                                        </p>
+                                    </div>
+                                    <span className="px-2 py-1 text-xs font-medium bg-purple-100 text-purple-700 rounded-full">
+                                        {PLAYBOOK_TYPE_LABELS[template.type]}
+                                    </span>
+                                </div>
+
+                                <ol className="text-sm text-gray-700 list-decimal list-inside space-y-0.5 mb-4">
+                                    {template.steps.slice(0, 5).map(step => (
+                                        <li key={step.order}>{step.text}</li>
+                                    ))}
+                                </ol>
+                                {template.steps.length > 5 && (
+                                    <p className="text-xs text-gray-500 -mt-3 mb-4">y {template.steps.length - 5} pasos más</p>
+                                )}
+
+                                <div className="flex flex-wrap gap-2">
+                                    <button
+                                        onClick={() => setApplyingTemplate(template)}
+                                        className="px-3 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded hover:bg-green-100"
+                                    >
+                                        📥 Aplicar a habitaciones
+                                    </button>
+                                    <button
+                                        onClick={() => setPropagating({ template, justUpdated: false })}
+                                        className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100"
+                                    >
+                                        🔄 Propagar cambios
+                                    </button>
+                                    <button
+                                        onClick={() => handleEdit(template)}
+                                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                                    >
+                                        ✏️ Editar
+                                    </button>
+                                    {can('content:delete') && (
+                                        <button
+                                            onClick={() => setDeletingTemplate(template)}
+                                            className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                        >
+                                            🗑️ Eliminar
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Modal de creación / edición */}
+                {showForm && (
+                    <div className="fixed inset-0 z-50 overflow-y-auto">
+                        <div className="flex min-h-screen items-center justify-center p-4">
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={handleCancelForm}></div>
+                            <div className="relative bg-white rounded-lg shadow-lg max-w-2xl w-full p-6">
+                                <h3 className="text-lg font-medium text-gray-900 mb-4">
+                                    {editingTemplate ? 'Editar Plantilla' : 'Nueva Plantilla'}
+                                </h3>
+
+                                <div className="space-y-4 bg-gray-50 p-4 rounded-lg">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Título *</label>
+                                        <input
+                                            type="text"
+                                            value={form.title}
+                                            onChange={(e) => setForm({ ...form, title: e.target.value })}
+                                            className={inputClassName}
+                                            placeholder="Ej: Check-out baño estándar"
+                                        />
+                                    </div>
+
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de habitación *</label>
+                                            <select
+                                                value={form.room_type_id}
+                                                onChange={(e) => setForm({ ...form, room_type_id: e.target.value })}
+                                                className={inputClassName}
+                                            >
+                                                <option value="">Selecciona un tipo</option>
+                                                {roomTypes.map(type => (
+                                                    <option key={type.id} value={type.id}>{type.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo *</label>
+                                            <select
+                                                value={form.type}
+                                                onChange={(e) => setForm({ ...form, type: e.target.value as PlaybookType })}
+                                                className={inputClassName}
+                                            >
+                                                {PLAYBOOK_TYPES.map(type => (
+                                                    <option key={type} value={type}>{PLAYBOOK_TYPE_LABELS[type]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Tiempo Estimado *</label>
+                                            <input
+                                                type="text"
+                                                value={form.estimated_time}
+                                                onChange={(e) => setForm({ ...form, estimated_time: e.target.value })}
+                                                className={inputClassName}
+                                                placeholder="Ej: 30 minutos"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Pasos a Seguir *</label>
+                                        <PlaybookStepsEditor
+                                            value={form.steps}
+                                            onChange={(steps) => setForm({ ...form, steps })}
+                                            uploadSession={templateUploads}
+                                            basePath={TEMPLATE_IMAGE_PATH}
+                                        />
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Materiales Necesarios (opcional)</label>
+                                        <PlaybookMaterialsEditor
+                                            value={form.materials}
+                                            onChange={(materials) => setForm({ ...form, materials })}
+                                        />
+                                    </div>
+                                </div>
+
+                                {formError && <p className="text-red-500 text-sm mt-3">{formError}</p>}
+
+                                <div className="flex justify-end space-x-3 mt-6">
+                                    <button
+                                        onClick={handleCancelForm}
+                                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                    >
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        onClick={handleSave}
+                                        disabled={isSaving}
+                                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {isSaving ? 'Guardando...' : 'Guardar'}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Modal de confirmación para eliminar */}
+                {deletingTemplate && (
+                    <div className="fixed inset-0 z-50 overflow-y-auto">
+                        <div className="flex min-h-screen items-center justify-center p-4">
+                            <div className="fixed inset-0 bg-black opacity-30" onClick={() => setDeletingTemplate(null)}></div>
+                            <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                                <h3 className="text-lg font-medium text-gray-900 mb-2">Eliminar Plantilla</h3>
+                                <p className="text-sm text-gray-500 mb-6">
+                                    ¿Eliminar <strong>{deletingTemplate.title}</strong>? Los playbooks ya creados con ella se conservan,
+                                    pero dejarán de recibir cambios.
+                                </p>
+                                <div className="flex justify-end space-x-3">
+                                    <button
+                                        onClick={() => setDeletingTemplate(null)}
+                                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                    >
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(deletingTemplate)}
+                                        className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700"
+                                    >
+                                        Eliminar
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {applyingTemplate && (
+                    <ApplyTemplateModal
+                        template={applyingTemplate}
+                        roomTypeName={roomTypeName(applyingTemplate.room_type_id)}
+                        onClose={() => setApplyingTemplate(null)}
+                        onDone={handleModalDone}
+                    />
+                )}
+
+                {propagating && (
+                    <PropagateTemplateModal
+                        template={propagating.template}
+                        justUpdated={propagating.justUpdated}
+                        onClose={() => setPropagating(null)}
+                        onDone={handleModalDone}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
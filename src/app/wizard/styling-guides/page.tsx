@@ -1,14 +1,18 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect, Suspense } from 'react';
-import { useForm } from 'react-hook-form';
+import { useState, useEffect, Suspense } from 'react';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Home, Room, StylingGuide, HomeWithCompleteness, CreateStylingGuide, RoomType, CreateRoom, Playbook, CreatePlaybook } from '@/lib/types';
+import { Home, Room, StylingGuide, HomeWithCompleteness, CreateStylingGuide, CreateRoom, Playbook, CreatePlaybook } from '@/lib/types';
 import { FileUpload } from '@/components/ui/FileUpload';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
-import { useApiData } from '@/hooks/useApiData';
+import { STYLING_PHOTO_PROCESSING } from '@/lib/imageProcessing';
+import { useUploadSession } from '@/hooks/useUploadSession';
+import { useHome, useRooms, useRoomTypes, usePlaybookTemplates } from '@/hooks/useApiQueries';
+import { useCreateRoom, useCreateStylingGuide, useCreatePlaybook } from '@/hooks/useApiMutations';
+import { applyApiErrorToForm } from '@/lib/formErrors';
+import { cleanPlaybookContent, PLAYBOOK_TYPE_LABELS, PLAYBOOK_TYPES, templateContent } from '@/lib/playbooks';
+import { isTemplateImage, PlaybookMaterialsEditor, PlaybookStepsEditor } from '@/components/playbooks/PlaybookEditors';
 import Link from 'next/link';
 import HomeSelector from '@/components/wizard/HomeSelector';
 import { useSearchParams } from 'next/navigation';
@@ -28,10 +32,21 @@ const createRoomSchema = z.object({
 
 const createPlaybookSchema = z.object({
     title: z.string().min(1, 'El título del playbook es requerido'),
-    type: z.string().min(1, 'El tipo es requerido'),
+    type: z.enum(PLAYBOOK_TYPES, { message: 'El tipo es requerido' }),
     estimated_time: z.string().min(1, 'El tiempo estimado es requerido'),
-    tasks: z.string().min(1, 'Las tareas son requeridas'),
-    materials: z.string().optional(),
+    steps: z.array(z.object({
+        order: z.number(),
+        text: z.string(),
+        image_url: z.string().optional(),
+        duration_minutes: z.number().optional(),
+    })).refine(steps => steps.some(step => step.text.trim()), 'Añade al menos un paso'),
+    materials: z.array(z.object({
+        amenity_id: z.string(),
+        quantity: z.number(),
+    })),
+    // Plantilla de partida: la copia queda enlazada para recibir sus cambios
+    template_id: z.string().optional(),
+    template_version: z.number().optional(),
 });
 
 type CreateStylingGuideFormData = z.infer<typeof createStylingGuideSchema>;
@@ -61,60 +76,44 @@ function StylingGuidesWizardContent() {
         room: null,
     });
 
-    const [rooms, setRooms] = useState<Room[]>([]);
-    const [loadingRooms, setLoadingRooms] = useState(false);
-
-    const [roomTypes, setRoomTypes] = useState<RoomType[]>([]);
     const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
     const [imageUrls, setImageUrls] = useState<string[]>([]);
+    const [imageThumbnailUrls, setImageThumbnailUrls] = useState<string[]>([]);
     const [referenceImageUrls, setReferenceImageUrls] = useState<string[]>([]);
+    // Subidas de la guía en curso: se borran de Storage si no llega a guardarse
+    const guideUploads = useUploadSession();
     const [showCreateRoomModal, setShowCreateRoomModal] = useState(false);
     const [creatingRoom, setCreatingRoom] = useState(false);
     const [playbooks, setPlaybooks] = useState<CreatePlaybookFormData[]>([]);
     const [showPlaybookForm, setShowPlaybookForm] = useState(false);
-
-    const apiClient = useMemo(() => createApiClient(config.apiUrl), []);
-
-    // Cargar tipos de habitación
-    const { data: roomTypesData } = useApiData<RoomType>('rooms-type', { pageSize: 100 });
+    // Imágenes de los pasos de los playbooks pendientes de crear
+    const playbookUploads = useUploadSession();
+
+    // Cargar tipos de habitación y habitaciones de la casa seleccionada
+    const { data: roomTypes = [] } = useRoomTypes();
+    const { data: rooms = [], isLoading: loadingRooms } = useRooms(wizardState.home?.id);
+    // Plantillas del tipo de la habitación seleccionada
+    const { data: playbookTemplates = [] } = usePlaybookTemplates(wizardState.room?.room_type_id);
+    const createRoom = useCreateRoom();
+    const createStylingGuide = useCreateStylingGuide();
+    const createPlaybook = useCreatePlaybook();
 
     // Cargar casa y habitación si hay parámetros en la URL
+    const { data: homeFromUrl } = useHome(homeIdFromUrl);
     useEffect(() => {
-        if (homeIdFromUrl) {
-            const loadHomeFromUrl = async () => {
-                try {
-                    const response = await apiClient.listHomesWithCompleteness({ pageSize: 100 });
-                    if (response.success) {
-                        const foundHome = response.data.find(h => h.id === homeIdFromUrl);
-                        if (foundHome) {
-                            setWizardState(prev => ({ ...prev, home: foundHome }));
-                            loadRooms(foundHome.id);
-
-                            // Si también hay roomId, cargar la habitación
-                            if (roomIdFromUrl) {
-                                const roomResponse = await apiClient.listRooms({ home_id: homeIdFromUrl });
-                                if (roomResponse.success) {
-                                    const foundRoom = roomResponse.data.find(r => r.id === roomIdFromUrl);
-                                    if (foundRoom) {
-                                        setWizardState(prev => ({ ...prev, room: foundRoom }));
-                                    }
-                                }
-                            }
-                        }
-                    }
-                } catch (error) {
-                    console.error('Error loading home/room from URL:', error);
-                }
-            };
-            loadHomeFromUrl();
+        if (homeFromUrl) {
+            setWizardState(prev => (prev.home ? prev : { ...prev, home: homeFromUrl }));
         }
-    }, [homeIdFromUrl, roomIdFromUrl, apiClient]);
+    }, [homeFromUrl]);
 
+    // Si también hay roomId, seleccionar la habitación cuando lleguen las habitaciones
     useEffect(() => {
-        if (roomTypesData) {
-            setRoomTypes(roomTypesData);
+        if (!roomIdFromUrl || wizardState.home?.id !== homeIdFromUrl) return;
+        const foundRoom = rooms.find(r => r.id === roomIdFromUrl);
+        if (foundRoom) {
+            setWizardState(prev => (prev.room ? prev : { ...prev, room: foundRoom }));
         }
-    }, [roomTypesData]);
+    }, [rooms, roomIdFromUrl, homeIdFromUrl, wizardState.home?.id]);
 
     // Formularios
     const stylingGuideForm = useForm<CreateStylingGuideFormData>({
@@ -137,10 +136,9 @@ function StylingGuidesWizardContent() {
         resolver: zodResolver(createPlaybookSchema),
         defaultValues: {
             title: '',
-            type: '',
             estimated_time: '',
-            tasks: '',
-            materials: '',
+            steps: [],
+            materials: [],
         }
     });
 
@@ -164,31 +162,13 @@ function StylingGuidesWizardContent() {
         }
     };
 
-    // Cargar habitaciones de una casa específica
-    const loadRooms = useCallback(async (homeId: string) => {
-        if (!homeId) return;
-        setLoadingRooms(true);
-        try {
-            const response = await apiClient.listRoomsByHome(homeId);
-            if (response.success) {
-                setRooms(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading rooms:', error);
-        } finally {
-            setLoadingRooms(false);
-        }
-    }, [apiClient]);
-
-
-
     // Función para crear nueva habitación
     const handleCreateRoom = async (data: CreateRoomFormData) => {
         if (!wizardState.home) return;
 
         setCreatingRoom(true);
         try {
-            const response = await apiClient.createRoom({
+            const response = await createRoom.mutateAsync({
                 home_id: wizardState.home.id,
                 name: data.name,
                 room_type_id: data.room_type_id,
@@ -196,9 +176,6 @@ function StylingGuidesWizardContent() {
             });
 
             if (response.success) {
-                // Actualizar lista de habitaciones
-                await loadRooms(wizardState.home.id);
-
                 // Cerrar modal y limpiar formulario
                 setShowCreateRoomModal(false);
                 createRoomForm.reset();
@@ -213,9 +190,9 @@ function StylingGuidesWizardContent() {
             }
         } catch (error) {
             console.error('Error creating room:', error);
-            setSubmitMessage({
-                type: 'error',
-                message: 'Error al crear la habitación'
+            applyApiErrorToForm(error, createRoomForm, {
+                fields: Object.keys(createRoomSchema.shape),
+                fallbackMessage: 'Error al crear la habitación',
             });
         } finally {
             setCreatingRoom(false);
@@ -232,11 +209,13 @@ function StylingGuidesWizardContent() {
                 title: data.title,
                 reference_photo_url: referenceImageUrls[0] || undefined,
                 image_urls: imageUrls,
+                thumbnail_urls: imageThumbnailUrls,
             };
 
-            const response = await apiClient.createStylingGuide(stylingGuideData);
+            const response = await createStylingGuide.mutateAsync(stylingGuideData);
 
             if (response.success) {
+                await guideUploads.commit();
                 setSubmitMessage({
                     type: 'success',
                     message: '¡Guía de estilo creada exitosamente!'
@@ -246,22 +225,35 @@ function StylingGuidesWizardContent() {
             }
         } catch (error) {
             console.error('❌ Error creating styling guide:', error);
-            setSubmitMessage({
-                type: 'error',
-                message: 'Error al crear la guía de estilo'
+            const message = applyApiErrorToForm(error, stylingGuideForm, {
+                fields: Object.keys(createStylingGuideSchema.shape),
+                fallbackMessage: 'Error al crear la guía de estilo',
             });
+            setSubmitMessage({ type: 'error', message });
         }
     };
 
     // Función para añadir playbook a la lista
     const handleAddPlaybook = (data: CreatePlaybookFormData) => {
-        setPlaybooks(prev => [...prev, data]);
+        setPlaybooks(prev => [...prev, { ...data, ...cleanPlaybookContent(data.steps, data.materials) }]);
         createPlaybookForm.reset();
         setShowPlaybookForm(false);
     };
 
+    // Rellenar el formulario con una plantilla (o dejarlo en blanco)
+    const handleSelectTemplate = (templateId: string) => {
+        const template = playbookTemplates.find(t => t.id === templateId);
+        createPlaybookForm.getValues('steps').forEach(step => {
+            if (step.image_url && !isTemplateImage(step.image_url)) playbookUploads.release(step.image_url);
+        });
+        createPlaybookForm.reset(template ? templateContent(template) : undefined);
+    };
+
     // Función para eliminar playbook de la lista
     const handleRemovePlaybook = (index: number) => {
+        playbooks[index]?.steps.forEach(step => {
+            if (step.image_url && !isTemplateImage(step.image_url)) playbookUploads.release(step.image_url);
+        });
         setPlaybooks(prev => prev.filter((_, i) => i !== index));
     };
 
@@ -278,11 +270,14 @@ function StylingGuidesWizardContent() {
                         title: playbook.title,
                         type: playbook.type,
                         estimated_time: playbook.estimated_time,
-                        tasks: playbook.tasks,
-                        materials: playbook.materials || '',
+                        steps: playbook.steps,
+                        materials: playbook.materials,
+                        template_id: playbook.template_id,
+                        template_version: playbook.template_version,
                     };
-                    await apiClient.createPlaybook(playbookData);
+                    await createPlaybook.mutateAsync(playbookData);
                 }
+                await playbookUploads.commit();
 
                 setSubmitMessage({
                     type: 'success',
@@ -334,9 +329,6 @@ function StylingGuidesWizardContent() {
                                 selectedHome={wizardState.home}
                                 onHomeSelect={(home) => {
                                     setWizardState(prev => ({ ...prev, home }));
-                                    if (home) {
-                                        loadRooms(home.id);
-                                    }
                                 }}
                                 title="Seleccionar Casa para Guía de Estilo"
                                 description="Elige la casa para la que quieres crear una guía de estilo"
@@ -494,9 +486,13 @@ function StylingGuidesWizardContent() {
                                 <FileUpload
                                     onUrlsChange={setReferenceImageUrls}
                                     accept="image/*"
+                                    multiple={false}
                                     maxFiles={1}
                                     maxSize={5}
                                     basePath="styling-guides/reference"
+                                    uploadSession={guideUploads}
+                                    imageProcessing={{ ...STYLING_PHOTO_PROCESSING, thumbnail: false }}
+                                    error={stylingGuideForm.formState.errors.reference_photo_url?.message}
                                 />
                             </div>
 
@@ -509,11 +505,17 @@ function StylingGuidesWizardContent() {
                                     Sube múltiples imágenes que sirvan de inspiración para el estilo
                                 </p>
                                 <FileUpload
-                                    onUrlsChange={setImageUrls}
+                                    onUrlsChange={(urls, thumbnails) => {
+                                        setImageUrls(urls);
+                                        setImageThumbnailUrls(thumbnails);
+                                    }}
                                     accept="image/*"
                                     maxFiles={10}
                                     maxSize={5}
                                     basePath="styling-guides/gallery"
+                                    uploadSession={guideUploads}
+                                    imageProcessing={STYLING_PHOTO_PROCESSING}
+                                    error={stylingGuideForm.formState.errors.image_urls?.message}
                                 />
                             </div>
 
@@ -577,13 +579,17 @@ function StylingGuidesWizardContent() {
                                             <div className="flex-1">
                                                 <h4 className="font-medium text-purple-900">{playbook.title}</h4>
                                                 <p className="text-xs text-purple-600 mt-1">
-                                                    <span className="font-medium">Tipo:</span> {playbook.type} |
+                                                    <span className="font-medium">Tipo:</span> {PLAYBOOK_TYPE_LABELS[playbook.type]} |
                                                     <span className="font-medium ml-2">Tiempo:</span> {playbook.estimated_time}
                                                 </p>
-                                                <p className="text-sm text-purple-700 mt-1">{playbook.tasks}</p>
-                                                {playbook.materials && (
+                                                <ol className="text-sm text-purple-700 mt-1 list-decimal list-inside">
+                                                    {playbook.steps.map(step => (
+                                                        <li key={step.order}>{step.text}</li>
+                                                    ))}
+                                                </ol>
+                                                {playbook.materials.length > 0 && (
                                                     <p className="text-xs text-purple-600 mt-1">
-                                                        <span className="font-medium">Materiales:</span> {playbook.materials}
+                                                        <span className="font-medium">Materiales:</span> {playbook.materials.length} producto{playbook.materials.length !== 1 ? 's' : ''} del catálogo
                                                     </p>
                                                 )}
                                             </div>
@@ -605,6 +611,28 @@ function StylingGuidesWizardContent() {
                             <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
                                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Nuevo Playbook</h3>
                                 <form onSubmit={createPlaybookForm.handleSubmit(handleAddPlaybook)} className="space-y-4">
+                                    {playbookTemplates.length > 0 && (
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                                Partir de una plantilla
+                                            </label>
+                                            <select
+                                                value={createPlaybookForm.watch('template_id') ?? ''}
+                                                onChange={(e) => handleSelectTemplate(e.target.value)}
+                                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900 bg-white"
+                                            >
+                                                <option value="">Sin plantilla (desde cero)</option>
+                                                {playbookTemplates.map(template => (
+                                                    <option key={template.id} value={template.id}>
+                                                        {template.title} ({PLAYBOOK_TYPE_LABELS[template.type]})
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                El playbook queda enlazado a la plantilla y podrá recibir sus cambios.
+                                            </p>
+                                        </div>
+                                    )}
                                     <div>
                                         <label className="block text-sm font-medium text-gray-700 mb-2">
                                             Título del Playbook *
@@ -632,11 +660,9 @@ function StylingGuidesWizardContent() {
                                                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900 bg-white"
                                             >
                                                 <option value="">Selecciona un tipo</option>
-                                                <option value="limpieza">Limpieza</option>
-                                                <option value="mantenimiento">Mantenimiento</option>
-                                                <option value="preparacion">Preparación</option>
-                                                <option value="revision">Revisión</option>
-                                                <option value="emergencia">Emergencia</option>
+                                                {PLAYBOOK_TYPES.map(type => (
+                                                    <option key={type} value={type}>{PLAYBOOK_TYPE_LABELS[type]}</option>
+                                                ))}
                                             </select>
                                             {createPlaybookForm.formState.errors.type && (
                                                 <p className="text-red-500 text-sm mt-1">
@@ -665,30 +691,32 @@ function StylingGuidesWizardContent() {
 
                                     <div>
                                         <label className="block text-sm font-medium text-gray-700 mb-2">
-                                            Tareas/Pasos a Seguir *
+                                            Pasos a Seguir *
                                         </label>
-                                        <textarea
-                                            {...createPlaybookForm.register('tasks')}
-                                            rows={4}
-                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900 bg-white placeholder-gray-400"
-                                            placeholder="1. Primer paso...&#10;2. Segundo paso...&#10;3. Tercer paso..."
+                                        <Controller
+                                            control={createPlaybookForm.control}
+                                            name="steps"
+                                            render={({ field, fieldState }) => (
+                                                <PlaybookStepsEditor
+                                                    value={field.value}
+                                                    onChange={field.onChange}
+                                                    uploadSession={playbookUploads}
+                                                    error={fieldState.error?.message}
+                                                />
+                                            )}
                                         />
-                                        {createPlaybookForm.formState.errors.tasks && (
-                                            <p className="text-red-500 text-sm mt-1">
-                                                {createPlaybookForm.formState.errors.tasks.message}
-                                            </p>
-                                        )}
                                     </div>
 
                                     <div>
                                         <label className="block text-sm font-medium text-gray-700 mb-2">
                                             Materiales Necesarios (opcional)
                                         </label>
-                                        <textarea
-                                            {...createPlaybookForm.register('materials')}
-                                            rows={2}
-                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900 bg-white placeholder-gray-400"
-                                            placeholder="Productos de limpieza, herramientas, etc..."
+                                        <Controller
+                                            control={createPlaybookForm.control}
+                                            name="materials"
+                                            render={({ field }) => (
+                                                <PlaybookMaterialsEditor value={field.value} onChange={field.onChange} />
+                                            )}
                                         />
                                     </div>
 
@@ -696,6 +724,9 @@ function StylingGuidesWizardContent() {
                                         <button
                                             type="button"
                                             onClick={() => {
+                                                createPlaybookForm.getValues('steps').forEach(step => {
+                                                    if (step.image_url && !isTemplateImage(step.image_url)) playbookUploads.release(step.image_url);
+                                                });
                                                 setShowPlaybookForm(false);
                                                 createPlaybookForm.reset();
                                             }}
@@ -840,8 +871,19 @@ function StylingGuidesWizardContent() {
                                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900 bg-white placeholder-gray-400"
                                         placeholder="Descripción adicional de la habitación..."
                                     />
+                                    {createRoomForm.formState.errors.description && (
+                                        <p className="text-red-500 text-sm mt-1">
+                                            {createRoomForm.formState.errors.description.message}
+                                        </p>
+                                    )}
                                 </div>
 
+                                {createRoomForm.formState.errors.root?.serverError && (
+                                    <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                                        {createRoomForm.formState.errors.root.serverError.message}
+                                    </div>
+                                )}
+
                                 {/* Botones */}
                                 <div className="flex justify-end space-x-3 pt-4">
                                     <button
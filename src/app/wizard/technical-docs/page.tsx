@@ -1,14 +1,29 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect, Suspense } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Home, HomeWithCompleteness, TechnicalPlan, CreateTechnicalPlan, ApplianceGuide, CreateApplianceGuide, Brand } from '@/lib/types';
+import { Home, HomeWithCompleteness, TechnicalPlan, CreateTechnicalPlan, CreateApplianceGuide } from '@/lib/types';
 import { FileUpload } from '@/components/ui/FileUpload';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
-import { useApiData } from '@/hooks/useApiData';
+import { useUploadSession } from '@/hooks/useUploadSession';
+import {
+    useHome,
+    useBrands,
+    useTechnicalPlans,
+    useHomeApplianceGuides,
+    useApplianceGuides,
+} from '@/hooks/useApiQueries';
+import {
+    useCreateTechnicalPlan,
+    useUpdateTechnicalPlan,
+    useDeleteTechnicalPlan,
+    useCreateApplianceGuide,
+    useLinkApplianceGuide,
+    useUnlinkApplianceGuide,
+} from '@/hooks/useApiMutations';
+import { applyApiErrorToForm } from '@/lib/formErrors';
+import { useAuth } from '@/components/providers/AuthProvider';
 import Link from 'next/link';
 import HomeSelector from '@/components/wizard/HomeSelector';
 import { useSearchParams } from 'next/navigation';
@@ -36,6 +51,7 @@ type CreateTechnicalPlanFormData = z.infer<typeof createTechnicalPlanSchema>;
 type CreateApplianceGuideFormData = z.infer<typeof createApplianceGuideSchema>;
 
 function TechnicalDocsWizardContent() {
+    const { can } = useAuth();
     const searchParams = useSearchParams();
     const homeIdFromUrl = searchParams.get('homeId');
 
@@ -43,10 +59,11 @@ function TechnicalDocsWizardContent() {
     const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
     // Estados para planos técnicos
-    const [technicalPlans, setTechnicalPlans] = useState<TechnicalPlan[]>([]);
-    const [loadingPlans, setLoadingPlans] = useState(false);
     const [showPlanForm, setShowPlanForm] = useState(false);
     const [planFileUrls, setPlanFileUrls] = useState<string[]>([]);
+    // Subidas de cada formulario: se borran de Storage si no llega a guardarse
+    const planUploads = useUploadSession();
+    const applianceUploads = useUploadSession();
     const [editingPlan, setEditingPlan] = useState<TechnicalPlan | null>(null);
     const [deletingPlan, setDeletingPlan] = useState<TechnicalPlan | null>(null);
     const [editPlanForm, setEditPlanForm] = useState({
@@ -55,42 +72,34 @@ function TechnicalDocsWizardContent() {
     });
 
     // Estados para guías de electrodomésticos
-    const [applianceGuides, setApplianceGuides] = useState<ApplianceGuide[]>([]);
-    const [linkedGuides, setLinkedGuides] = useState<string[]>([]);
-    const [loadingGuides, setLoadingGuides] = useState(false);
     const [showApplianceForm, setShowApplianceForm] = useState(false);
     const [manualFileUrls, setManualFileUrls] = useState<string[]>([]);
     const [applianceImageUrls, setApplianceImageUrls] = useState<string[]>([]);
     const [videoUrls, setVideoUrls] = useState<string[]>([]);
-    const [brands, setBrands] = useState<Brand[]>([]);
-
-    const apiClient = useMemo(() => createApiClient(config.apiUrl), []);
 
     // Cargar marcas
-    const { data: brandsData } = useApiData<Brand>('brands', { pageSize: 100 });
+    const { data: brands } = useBrands({ pageSize: 100 });
+
+    // Planos técnicos y guías de electrodomésticos (vinculadas y disponibles)
+    const { data: technicalPlans = [], isLoading: loadingPlans } = useTechnicalPlans(selectedHome?.id);
+    const { data: linkedGuideList = [], isLoading: loadingGuides } = useHomeApplianceGuides(selectedHome?.id);
+    const { data: applianceGuides = [] } = useApplianceGuides();
+    const linkedGuides = linkedGuideList.map(guide => guide.id);
+
+    const createTechnicalPlan = useCreateTechnicalPlan();
+    const updateTechnicalPlan = useUpdateTechnicalPlan();
+    const deleteTechnicalPlan = useDeleteTechnicalPlan();
+    const createApplianceGuide = useCreateApplianceGuide();
+    const linkApplianceGuide = useLinkApplianceGuide();
+    const unlinkApplianceGuide = useUnlinkApplianceGuide();
 
     // Cargar casa si hay homeId en la URL
+    const { data: homeFromUrl } = useHome(homeIdFromUrl);
     useEffect(() => {
-        if (homeIdFromUrl) {
-            const loadHomeFromUrl = async () => {
-                try {
-                    const response = await apiClient.listHomesWithCompleteness({ pageSize: 100 });
-                    if (response.success) {
-                        const foundHome = response.data.find(h => h.id === homeIdFromUrl);
-                        if (foundHome) {
-                            setSelectedHome(foundHome);
-                            loadTechnicalPlans(foundHome.id);
-                            loadLinkedGuides(foundHome.id);
-                            loadAllApplianceGuides();
-                        }
-                    }
-                } catch (error) {
-                    console.error('Error loading home from URL:', error);
-                }
-            };
-            loadHomeFromUrl();
+        if (homeFromUrl) {
+            setSelectedHome(prev => prev ?? homeFromUrl);
         }
-    }, [homeIdFromUrl, apiClient]);
+    }, [homeFromUrl]);
 
     // Formularios
     const technicalPlanForm = useForm<CreateTechnicalPlanFormData>({
@@ -115,60 +124,6 @@ function TechnicalDocsWizardContent() {
         }
     });
 
-    // Cargar planos técnicos
-    const loadTechnicalPlans = async (homeId: string) => {
-        setLoadingPlans(true);
-        try {
-            console.log('Loading technical plans for home:', homeId);
-            const response = await apiClient.listTechnicalPlans({ home_id: homeId, pageSize: 100 });
-            if (response.success) {
-                console.log('Technical plans loaded:', response.data);
-                // Filtrar solo los planos que pertenecen a esta casa específica
-                const filteredPlans = response.data.filter(plan => plan.home_id === homeId);
-                console.log('Filtered technical plans for this home:', filteredPlans);
-                setTechnicalPlans(filteredPlans);
-            }
-        } catch (error) {
-            console.error('Error loading technical plans:', error);
-        } finally {
-            setLoadingPlans(false);
-        }
-    };
-
-    // Cargar guías de electrodomésticos vinculadas
-    const loadLinkedGuides = async (homeId: string) => {
-        setLoadingGuides(true);
-        try {
-            const response = await apiClient.listApplianceGuidesByHome(homeId);
-            if (response.success) {
-                setLinkedGuides(response.data.map(guide => guide.id));
-            }
-        } catch (error) {
-            console.error('Error loading linked appliance guides:', error);
-        } finally {
-            setLoadingGuides(false);
-        }
-    };
-
-    // Cargar todas las guías de electrodomésticos disponibles
-    const loadAllApplianceGuides = async () => {
-        try {
-            const response = await apiClient.listApplianceGuides({ pageSize: 100 });
-            if (response.success) {
-                setApplianceGuides(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading all appliance guides:', error);
-        }
-    };
-
-    // Cargar marcas
-    useEffect(() => {
-        if (brandsData) {
-            setBrands(brandsData);
-        }
-    }, [brandsData]);
-
     // Crear plano técnico
     const handleCreateTechnicalPlan = async (data: CreateTechnicalPlanFormData) => {
         if (!selectedHome) return;
@@ -182,15 +137,18 @@ function TechnicalDocsWizardContent() {
             };
 
             console.log('Creating technical plan with payload:', payload);
-            await apiClient.createTechnicalPlan(payload);
+            await createTechnicalPlan.mutateAsync(payload);
+            await planUploads.commit();
             setSubmitMessage({ type: 'success', message: 'Plano técnico creado exitosamente' });
             technicalPlanForm.reset();
             setPlanFileUrls([]);
             setShowPlanForm(false);
-            loadTechnicalPlans(selectedHome.id);
         } catch (error) {
             console.error('Error creating technical plan:', error);
-            setSubmitMessage({ type: 'error', message: 'Error al crear el plano técnico' });
+            applyApiErrorToForm(error, technicalPlanForm, {
+                fields: Object.keys(createTechnicalPlanSchema.shape),
+                fallbackMessage: 'Error al crear el plano técnico',
+            });
         }
     };
 
@@ -208,14 +166,16 @@ function TechnicalDocsWizardContent() {
         if (!editingPlan || !selectedHome) return;
 
         try {
-            await apiClient.updateTechnicalPlan(editingPlan.id, {
-                title: editPlanForm.title,
-                description: editPlanForm.description || '',
-                plan_file_url: editingPlan.plan_file_url || ''
+            await updateTechnicalPlan.mutateAsync({
+                id: editingPlan.id,
+                payload: {
+                    title: editPlanForm.title,
+                    description: editPlanForm.description || '',
+                    plan_file_url: editingPlan.plan_file_url || ''
+                }
             });
             setSubmitMessage({ type: 'success', message: 'Plano técnico actualizado exitosamente' });
             setEditingPlan(null);
-            loadTechnicalPlans(selectedHome.id);
         } catch (error) {
             console.error('Error updating technical plan:', error);
             setSubmitMessage({ type: 'error', message: 'Error al actualizar el plano técnico' });
@@ -225,12 +185,9 @@ function TechnicalDocsWizardContent() {
     // Eliminar plano técnico
     const handleDeletePlan = async (plan: TechnicalPlan) => {
         try {
-            await apiClient.deleteTechnicalPlan(plan.id);
-            setSubmitMessage({ type: 'success', message: 'Plano técnico eliminado exitosamente' });
             setDeletingPlan(null);
-            if (selectedHome) {
-                loadTechnicalPlans(selectedHome.id);
-            }
+            await deleteTechnicalPlan.mutateAsync(plan.id);
+            setSubmitMessage({ type: 'success', message: 'Plano técnico eliminado exitosamente' });
         } catch (error) {
             console.error('Error deleting technical plan:', error);
             setSubmitMessage({ type: 'error', message: 'Error al eliminar el plano técnico' });
@@ -254,22 +211,24 @@ function TechnicalDocsWizardContent() {
                 maintenance_bullets: data.maintenance_bullets || '',
             };
 
-            const guideResponse = await apiClient.createApplianceGuide(payload);
+            const guideResponse = await createApplianceGuide.mutateAsync(payload);
             if (guideResponse.success) {
                 // Vincular la guía con la casa
-                await apiClient.linkApplianceGuide(selectedHome.id, guideResponse.data.id);
+                await applianceUploads.commit();
+                await linkApplianceGuide.mutateAsync({ homeId: selectedHome.id, guideId: guideResponse.data.id });
                 setSubmitMessage({ type: 'success', message: 'Guía de electrodoméstico creada y vinculada exitosamente' });
                 applianceGuideForm.reset();
                 setManualFileUrls([]);
                 setApplianceImageUrls([]);
                 setVideoUrls([]);
                 setShowApplianceForm(false);
-                loadLinkedGuides(selectedHome.id);
-                loadAllApplianceGuides();
             }
         } catch (error) {
             console.error('Error creating appliance guide:', error);
-            setSubmitMessage({ type: 'error', message: 'Error al crear la guía de electrodoméstico' });
+            applyApiErrorToForm(error, applianceGuideForm, {
+                fields: Object.keys(createApplianceGuideSchema.shape),
+                fallbackMessage: 'Error al crear la guía de electrodoméstico',
+            });
         }
     };
 
@@ -281,10 +240,8 @@ function TechnicalDocsWizardContent() {
         if (!selectedHome) return;
 
         try {
-            await apiClient.unlinkApplianceGuide(selectedHome.id, guideId);
+            await unlinkApplianceGuide.mutateAsync({ homeId: selectedHome.id, guideId });
             setSubmitMessage({ type: 'success', message: 'Guía desvinculada exitosamente' });
-            loadLinkedGuides(selectedHome.id);
-            loadAllApplianceGuides();
         } catch (error) {
             console.error('Error unlinking guide:', error);
             setSubmitMessage({ type: 'error', message: 'Error al desvincular la guía' });
@@ -348,11 +305,6 @@ function TechnicalDocsWizardContent() {
                             selectedHome={selectedHome}
                             onHomeSelect={(home) => {
                                 setSelectedHome(home);
-                                if (home) {
-                                    loadTechnicalPlans(home.id);
-                                    loadLinkedGuides(home.id);
-                                    loadAllApplianceGuides();
-                                }
                             }}
                             title="Seleccionar Casa para Documentación Técnica"
                             description="Elige la casa para la que quieres crear documentación técnica"
@@ -422,12 +374,14 @@ function TechnicalDocsWizardContent() {
                                                     >
                                                         ✏️ Editar
                                                     </button>
-                                                    <button
-                                                        onClick={() => setDeletingPlan(plan)}
-                                                        className="px-2 py-1 text-xs font-medium text-red-600 bg-red-100 border border-red-200 rounded hover:bg-red-200"
-                                                    >
-                                                        🗑️ Eliminar
-                                                    </button>
+                                                    {can('content:delete') && (
+                                                        <button
+                                                            onClick={() => setDeletingPlan(plan)}
+                                                            className="px-2 py-1 text-xs font-medium text-red-600 bg-red-100 border border-red-200 rounded hover:bg-red-200"
+                                                        >
+                                                            🗑️ Eliminar
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </div>
                                             {plan.plan_file_url && (
@@ -489,12 +443,14 @@ function TechnicalDocsWizardContent() {
                                                         </p>
                                                     </div>
                                                 </div>
-                                                <button
-                                                    onClick={() => handleUnlinkGuide(guide.id)}
-                                                    className="px-2 py-1 text-xs font-medium text-orange-600 bg-orange-100 border border-orange-200 rounded hover:bg-orange-200"
-                                                >
-                                                    🔗 Desvincular
-                                                </button>
+                                                {can('content:delete') && (
+                                                    <button
+                                                        onClick={() => handleUnlinkGuide(guide.id)}
+                                                        className="px-2 py-1 text-xs font-medium text-orange-600 bg-orange-100 border border-orange-200 rounded hover:bg-orange-200"
+                                                    >
+                                                        🔗 Desvincular
+                                                    </button>
+                                                )}
                                             </div>
                                             {guide.brief_description && (
                                                 <p className="text-sm text-gray-600 mb-2">{guide.brief_description}</p>
@@ -555,10 +511,8 @@ function TechnicalDocsWizardContent() {
                                                 <button
                                                     onClick={async () => {
                                                         try {
-                                                            await apiClient.linkApplianceGuide(selectedHome.id, guide.id);
+                                                            await linkApplianceGuide.mutateAsync({ homeId: selectedHome.id, guideId: guide.id });
                                                             setSubmitMessage({ type: 'success', message: 'Guía vinculada exitosamente' });
-                                                            loadLinkedGuides(selectedHome.id);
-                                                            loadAllApplianceGuides();
                                                         } catch (error) {
                                                             console.error('Error linking guide:', error);
                                                             setSubmitMessage({ type: 'error', message: 'Error al vincular la guía' });
@@ -620,6 +574,11 @@ function TechnicalDocsWizardContent() {
                                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 bg-white placeholder-gray-400"
                                             placeholder="Descripción del plano técnico..."
                                         />
+                                        {technicalPlanForm.formState.errors.description && (
+                                            <p className="text-red-500 text-sm mt-1">
+                                                {technicalPlanForm.formState.errors.description.message}
+                                            </p>
+                                        )}
                                     </div>
 
                                     <div>
@@ -629,12 +588,21 @@ function TechnicalDocsWizardContent() {
                                         <FileUpload
                                             onUrlsChange={setPlanFileUrls}
                                             accept=".pdf,.dwg,.dxf"
+                                            multiple={false}
                                             maxFiles={1}
+                                            uploadSession={planUploads}
                                             maxSize={10}
                                             basePath="technical-plans"
+                                            error={technicalPlanForm.formState.errors.plan_file_url?.message}
                                         />
                                     </div>
 
+                                    {technicalPlanForm.formState.errors.root?.serverError && (
+                                        <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                                            {technicalPlanForm.formState.errors.root.serverError.message}
+                                        </div>
+                                    )}
+
                                     <div className="flex justify-end space-x-3 pt-4">
                                         <button
                                             type="button"
@@ -642,6 +610,7 @@ function TechnicalDocsWizardContent() {
                                                 setShowPlanForm(false);
                                                 technicalPlanForm.reset();
                                                 setPlanFileUrls([]);
+                                                planUploads.discard();
                                             }}
                                             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
                                         >
@@ -721,6 +690,11 @@ function TechnicalDocsWizardContent() {
                                                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 bg-white placeholder-gray-400"
                                                 placeholder="Ej: ABC123, XYZ789..."
                                             />
+                                            {applianceGuideForm.formState.errors.model && (
+                                                <p className="text-red-500 text-sm mt-1">
+                                                    {applianceGuideForm.formState.errors.model.message}
+                                                </p>
+                                            )}
                                         </div>
                                     </div>
 
@@ -743,9 +717,11 @@ function TechnicalDocsWizardContent() {
                                         <FileUpload
                                             onUrlsChange={setApplianceImageUrls}
                                             accept="image/*"
+                                            uploadSession={applianceUploads}
                                             maxFiles={5}
                                             maxSize={5}
                                             basePath="appliance-guides/images"
+                                            error={applianceGuideForm.formState.errors.image_urls?.message}
                                         />
                                     </div>
 
@@ -756,9 +732,12 @@ function TechnicalDocsWizardContent() {
                                         <FileUpload
                                             onUrlsChange={setManualFileUrls}
                                             accept=".pdf"
+                                            multiple={false}
                                             maxFiles={1}
+                                            uploadSession={applianceUploads}
                                             maxSize={10}
                                             basePath="appliance-guides/manuals"
+                                            error={applianceGuideForm.formState.errors.pdf_url?.message}
                                         />
                                     </div>
 
@@ -772,6 +751,11 @@ function TechnicalDocsWizardContent() {
                                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 bg-white placeholder-gray-400"
                                             placeholder="https://ejemplo.com/video-tutorial"
                                         />
+                                        {applianceGuideForm.formState.errors.video_url && (
+                                            <p className="text-red-500 text-sm mt-1">
+                                                {applianceGuideForm.formState.errors.video_url.message}
+                                            </p>
+                                        )}
                                     </div>
 
                                     <div>
@@ -798,6 +782,12 @@ function TechnicalDocsWizardContent() {
                                         />
                                     </div>
 
+                                    {applianceGuideForm.formState.errors.root?.serverError && (
+                                        <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                                            {applianceGuideForm.formState.errors.root.serverError.message}
+                                        </div>
+                                    )}
+
                                     <div className="flex justify-end space-x-3 pt-4">
                                         <button
                                             type="button"
@@ -807,6 +797,7 @@ function TechnicalDocsWizardContent() {
                                                 setManualFileUrls([]);
                                                 setApplianceImageUrls([]);
                                                 setVideoUrls([]);
+                                                applianceUploads.discard();
                                             }}
                                             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
                                         >
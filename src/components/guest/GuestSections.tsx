@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { isApiError } from '@/lib/apiClient';
+import type { ApplianceGuide, Playbook, StylingGuide } from '@/lib/types';
+import { parseBulletList } from '@/lib/textLists';
+import { materialName, PLAYBOOK_TYPE_LABELS } from '@/lib/playbooks';
+
+// Bloques de la vista pública (móvil primero, solo lectura)
+
+export function StylingGuideSection({ guide }: { guide: StylingGuide }) {
+    return (
+        <section className="bg-white rounded-lg shadow p-4 mb-4">
+            <h2 className="text-lg font-medium text-gray-900 mb-3">🎨 {guide.title}</h2>
+            {guide.reference_photo_url && (
+                <img
+                    src={guide.reference_photo_url}
+                    alt={`Foto de referencia: ${guide.title}`}
+                    className="w-full rounded-lg border border-gray-200 mb-3"
+                />
+            )}
+            {guide.image_urls && guide.image_urls.length > 0 && (
+                <div className="grid grid-cols-3 gap-2">
+                    {guide.image_urls.map((imageUrl, index) => (
+                        <a key={index} href={imageUrl} target="_blank" rel="noopener noreferrer">
+                            <img
+                                src={guide.thumbnail_urls?.[index] || imageUrl}
+                                alt={`Imagen ${index + 1}`}
+                                className="w-full aspect-square object-cover rounded border border-gray-200"
+                            />
+                        </a>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
+
+// Las tareas se marcan solo en este dispositivo: es una ayuda visual, no un registro
+export function PlaybookChecklist({ playbook }: { playbook: Playbook }) {
+    const tasks = playbook.steps;
+    // La vista pública no carga el catálogo: el nombre llega poblado en cada material
+    const materials = playbook.materials.map(material => `${materialName(material)} ×${material.quantity}`);
+    if (playbook.materials_note) materials.push(playbook.materials_note);
+    const [done, setDone] = useState<Set<number>>(new Set());
+
+    const toggle = (index: number) => {
+        setDone(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) {
+                next.delete(index);
+            } else {
+                next.add(index);
+            }
+            return next;
+        });
+    };
+
+    return (
+        <section className="bg-white rounded-lg shadow p-4 mb-4">
+            <div className="flex items-start justify-between mb-2">
+                <h2 className="text-lg font-medium text-gray-900">📋 {playbook.title}</h2>
+                <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full">{PLAYBOOK_TYPE_LABELS[playbook.type]}</span>
+            </div>
+            <p className="text-sm text-gray-600">⏱️ {playbook.estimated_time}</p>
+
+            {materials.length > 0 && (
+                <div className="mt-3">
+                    <h3 className="text-sm font-medium text-gray-700 mb-1">🛠️ Materiales</h3>
+                    <ul className="list-disc list-inside text-sm text-gray-700 space-y-0.5">
+                        {materials.map((material, index) => (
+                            <li key={index}>{material}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {tasks.length > 0 && (
+                <div className="mt-3">
+                    <div className="flex items-center justify-between mb-1">
+                        <h3 className="text-sm font-medium text-gray-700">📝 Tareas</h3>
+                        <span className="text-xs text-gray-500">{done.size}/{tasks.length}</span>
+                    </div>
+                    <ul className="divide-y divide-gray-100">
+                        {tasks.map((task, index) => (
+                            <li key={task.order}>
+                                <label className="flex items-start space-x-3 py-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={done.has(index)}
+                                        onChange={() => toggle(index)}
+                                        className="mt-0.5 h-5 w-5 text-blue-600 border-gray-300 rounded flex-shrink-0"
+                                    />
+                                    <span className={`flex-1 text-sm ${done.has(index) ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                                        {task.text}
+                                        {task.duration_minutes != null && (
+                                            <span className="ml-1 text-xs text-gray-500">⏱️ {task.duration_minutes} min</span>
+                                        )}
+                                    </span>
+                                </label>
+                                {task.image_url && (
+                                    <img
+                                        src={task.image_url}
+                                        alt={`Paso ${task.order}`}
+                                        className="ml-8 mb-2 w-full max-w-xs rounded border border-gray-200"
+                                    />
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </section>
+    );
+}
+
+export function ApplianceGuideCard({ guide }: { guide: ApplianceGuide }) {
+    const quickUse = parseBulletList(guide.quick_use_bullets);
+
+    return (
+        <section className="bg-white rounded-lg shadow p-4 mb-4">
+            <div className="flex items-start space-x-3">
+                {guide.image_urls?.[0] && (
+                    <img
+                        src={guide.image_urls[0]}
+                        alt={guide.equipment_name}
+                        className="w-16 h-16 object-cover rounded border border-gray-200 flex-shrink-0"
+                    />
+                )}
+                <div className="flex-1">
+                    <h2 className="text-lg font-medium text-gray-900">🔌 {guide.equipment_name}</h2>
+                    {guide.brief_description && (
+                        <p className="text-sm text-gray-600">{guide.brief_description}</p>
+                    )}
+                </div>
+            </div>
+
+            {quickUse.length > 0 && (
+                <ul className="mt-3 list-disc list-inside text-sm text-gray-700 space-y-1">
+                    {quickUse.map((bullet, index) => (
+                        <li key={index}>{bullet}</li>
+                    ))}
+                </ul>
+            )}
+
+            {(guide.pdf_url || guide.video_url) && (
+                <div className="mt-3 flex flex-wrap gap-3 text-sm">
+                    {guide.pdf_url && (
+                        <a href={guide.pdf_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                            📄 Manual
+                        </a>
+                    )}
+                    {guide.video_url && (
+                        <a href={guide.video_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                            🎬 Vídeo
+                        </a>
+                    )}
+                </div>
+            )}
+        </section>
+    );
+}
+
+// Enlace revocado, caducado o inexistente: el backend responde 404/410
+export function GuestLinkError({ error }: { error: unknown }) {
+    const invalid = isApiError(error) && (error.status === 404 || error.status === 410);
+    return (
+        <div className="max-w-lg mx-auto px-4 py-8">
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-red-800">
+                    {invalid
+                        ? 'Este enlace no es válido o ha sido revocado. Pide uno nuevo al equipo de VIVLA.'
+                        : 'No se ha podido cargar la guía. Inténtalo de nuevo en unos minutos.'}
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { downloadCsv, downloadXlsx } from '@/lib/csv';
+import { inventorySpreadsheetRows } from '@/lib/inventory';
+import { normalizeText } from '@/lib/inventoryImport';
+import type { Home, HomeInventoryWithRelations, Room } from '@/lib/types';
+
+type HomeExportMenuProps = {
+    home: Pick<Home, 'id' | 'name'>;
+    inventory: HomeInventoryWithRelations[];
+    rooms: Room[];
+};
+
+// Exportaciones de una casa: hoja de inventario y "libro de la casa" imprimible
+export function HomeExportMenu({ home, inventory, rooms }: HomeExportMenuProps) {
+    const [open, setOpen] = useState(false);
+
+    const roomName = (roomId?: string) => rooms.find(room => room.id === roomId)?.name;
+    const baseName = `inventario-${normalizeText(home.name).replace(/ /g, '-') || home.id}`;
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        setOpen(false);
+        const rows = inventorySpreadsheetRows(inventory, roomName);
+        try {
+            if (format === 'csv') {
+                downloadCsv(rows, `${baseName}.csv`);
+            } else {
+                await downloadXlsx(rows, `${baseName}.xlsx`, 'Inventario');
+            }
+        } catch (error) {
+            console.error('Error al exportar el inventario:', error);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(prev => !prev)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+                ⬇️ Exportar
+            </button>
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setOpen(false)}></div>
+                    <div className="absolute right-0 z-20 mt-2 w-64 bg-white border border-gray-200 rounded-md shadow-lg py-1 text-sm">
+                        <button
+                            onClick={() => handleExport('csv')}
+                            disabled={inventory.length === 0}
+                            className="w-full text-left px-4 py-2 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            📄 Inventario (CSV)
+                        </button>
+                        <button
+                            onClick={() => handleExport('xlsx')}
+                            disabled={inventory.length === 0}
+                            className="w-full text-left px-4 py-2 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            📊 Inventario (Excel)
+                        </button>
+                        <Link
+                            href={`/home/${home.id}/book`}
+                            className="block px-4 py-2 text-gray-700 hover:bg-gray-50"
+                        >
+                            📘 Libro de la casa (PDF)
+                        </Link>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useState } from 'react';
+import { useOffline } from '@/components/providers/OfflineProvider';
+
+type HomeOfflineToggleProps = {
+    homeId: string;
+};
+
+// Descarga la casa (habitaciones, inventario, guías y playbooks) para trabajar sin conexión
+export function HomeOfflineToggle({ homeId }: HomeOfflineToggleProps) {
+    const { isOnline, offlineHomeIds, setHomeOffline } = useOffline();
+    const [isSaving, setIsSaving] = useState(false);
+    const isOffline = offlineHomeIds.includes(homeId);
+
+    const handleToggle = async () => {
+        setIsSaving(true);
+        try {
+            await setHomeOffline(homeId, !isOffline);
+        } catch (error) {
+            console.error('Error al cambiar la disponibilidad sin conexión:', error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <button
+            onClick={handleToggle}
+            disabled={isSaving || (!isOnline && !isOffline)}
+            title={isOffline ? 'Dejar de guardar esta casa en el dispositivo' : 'Guardar esta casa en el dispositivo para usarla sin conexión'}
+            className={`inline-flex items-center px-4 py-2 text-sm font-medium border rounded-md disabled:opacity-50 ${isOffline ? 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+        >
+            {isSaving ? 'Descargando...' : isOffline ? '✅ Disponible sin conexión' : '📶 Usar sin conexión'}
+        </button>
+    );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import type { PlaybookCompletion, Room } from '@/lib/types';
+
+type PlaybookCompletionHistoryProps = {
+    completions: PlaybookCompletion[];
+    rooms: Room[];
+    isLoading?: boolean;
+};
+
+// Historial de ejecuciones de playbooks de una casa, filtrable por habitación
+export function PlaybookCompletionHistory({ completions, rooms, isLoading = false }: PlaybookCompletionHistoryProps) {
+    const [roomFilter, setRoomFilter] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const roomName = (roomId: string) => rooms.find(room => room.id === roomId)?.name || 'Habitación eliminada';
+    const visible = roomFilter ? completions.filter(completion => completion.room_id === roomFilter) : completions;
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Historial de Playbooks</h2>
+                <select
+                    value={roomFilter}
+                    onChange={(e) => setRoomFilter(e.target.value)}
+                    className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm text-sm"
+                >
+                    <option value="">Todas las habitaciones</option>
+                    {rooms.map(room => (
+                        <option key={room.id} value={room.id}>{room.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {isLoading ? (
+                <p className="text-gray-500 text-center py-8">Cargando historial...</p>
+            ) : visible.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No hay ejecuciones registradas</p>
+            ) : (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {visible.map(completion => {
+                        const done = completion.steps.filter(step => step.done).length;
+                        const isExpanded = expandedId === completion.id;
+                        return (
+                            <div key={completion.id} className="p-3 bg-gray-50 rounded-lg">
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : completion.id)}
+                                    className="w-full flex items-center justify-between text-left"
+                                >
+                                    <div>
+                                        <p className="font-medium text-gray-900">
+                                            📋 {completion.playbook_title} • {roomName(completion.room_id)}
+                                        </p>
+                                        <p className="text-sm text-gray-500">
+                                            {new Date(completion.completed_at).toLocaleString('es-ES')}
+                                            {completion.completed_by_name && ` • ${completion.completed_by_name}`}
+                                            {' • '}⏱️ {completion.duration_minutes} min
+                                        </p>
+                                    </div>
+                                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${done === completion.steps.length ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                                        {done}/{completion.steps.length}
+                                    </span>
+                                </button>
+
+                                {isExpanded && (
+                                    <div className="mt-3 space-y-2">
+                                        {completion.steps.map(step => (
+                                            <div key={step.index} className="flex items-start space-x-2 text-sm">
+                                                <span className={step.done ? 'text-green-600' : 'text-gray-400'}>{step.done ? '✓' : '○'}</span>
+                                                <span className={step.done ? 'text-gray-900' : 'text-gray-500'}>{step.text}</span>
+                                                {step.photo_url && (
+                                                    <a href={step.photo_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                                                        <img src={step.photo_url} alt={`Foto: ${step.text}`} className="w-10 h-10 object-cover rounded border" />
+                                                    </a>
+                                                )}
+                                            </div>
+                                        ))}
+                                        {completion.notes && (
+                                            <p className="text-sm text-gray-700 bg-white p-2 rounded border">📝 {completion.notes}</p>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
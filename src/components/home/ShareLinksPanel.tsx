@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useShareLinks } from '@/hooks/useApiQueries';
+import { useCreateShareLink, useRevokeShareLink } from '@/hooks/useApiMutations';
+import { guestHomePath, guestHomeUrl, shareLinkStatus, type ShareLinkStatus } from '@/lib/guestLinks';
+import type { HomeShareLink } from '@/lib/types';
+
+const STATUS_STYLES: Record<ShareLinkStatus, { label: string; className: string }> = {
+    active: { label: 'Activo', className: 'bg-green-100 text-green-800' },
+    expired: { label: 'Caducado', className: 'bg-gray-100 text-gray-700' },
+    revoked: { label: 'Revocado', className: 'bg-red-100 text-red-800' },
+};
+
+// Caducidad en días (0 = sin caducidad)
+const EXPIRY_OPTIONS = [
+    { days: 0, label: 'Sin caducidad' },
+    { days: 7, label: '7 días' },
+    { days: 30, label: '30 días' },
+    { days: 90, label: '90 días' },
+];
+
+type ShareLinksPanelProps = {
+    homeId: string;
+};
+
+// Enlaces públicos de solo lectura de una casa: los usan los QR y se pueden revocar
+export function ShareLinksPanel({ homeId }: ShareLinksPanelProps) {
+    const { data: links, isLoading } = useShareLinks(homeId);
+    const createShareLink = useCreateShareLink();
+    const revokeShareLink = useRevokeShareLink();
+
+    const [label, setLabel] = useState('');
+    const [expiryDays, setExpiryDays] = useState(0);
+    const [revokingLink, setRevokingLink] = useState<HomeShareLink | null>(null);
+    const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const sortedLinks = [...links].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+    const handleCreate = async () => {
+        try {
+            await createShareLink.mutateAsync({
+                home_id: homeId,
+                label: label.trim() || undefined,
+                expires_at: expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+            });
+            setLabel('');
+            setExpiryDays(0);
+            setSubmitMessage({ type: 'success', message: 'Enlace público creado' });
+        } catch (error) {
+            console.error('Error al crear el enlace público:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al crear el enlace público' });
+        }
+    };
+
+    const handleRevoke = async (link: HomeShareLink) => {
+        try {
+            setRevokingLink(null);
+            await revokeShareLink.mutateAsync(link.id);
+            setSubmitMessage({ type: 'success', message: 'Enlace revocado: deja de funcionar de inmediato' });
+        } catch (error) {
+            console.error('Error al revocar el enlace público:', error);
+            setSubmitMessage({ type: 'error', message: 'Error al revocar el enlace' });
+        }
+    };
+
+    const handleCopy = async (link: HomeShareLink) => {
+        try {
+            await navigator.clipboard.writeText(guestHomeUrl(link.token));
+            setSubmitMessage({ type: 'success', message: 'Enlace copiado al portapapeles' });
+        } catch (error) {
+            console.error('Error al copiar el enlace:', error);
+            setSubmitMessage({ type: 'error', message: 'No se pudo copiar el enlace' });
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold text-gray-900">Enlaces Públicos</h2>
+                <span className="text-sm text-gray-500">{links.length} enlaces</span>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+                Vista de solo lectura para huéspedes y housekeeping. Los códigos QR usan el enlace activo más reciente.
+            </p>
+
+            {/* Mensaje de estado */}
+            {submitMessage && (
+                <div className={`p-3 rounded-md mb-4 text-sm ${submitMessage.type === 'success' ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-red-50 text-red-800 border border-red-200'}`}>
+                    {submitMessage.message}
+                </div>
+            )}
+
+            {/* Nuevo enlace */}
+            <div className="flex flex-col md:flex-row gap-3 mb-4">
+                <input
+                    type="text"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    placeholder="Nombre del enlace (opcional)"
+                    className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                />
+                <select
+                    value={expiryDays}
+                    onChange={(e) => setExpiryDays(Number(e.target.value))}
+                    className="px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                >
+                    {EXPIRY_OPTIONS.map(option => (
+                        <option key={option.days} value={option.days}>{option.label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleCreate}
+                    disabled={createShareLink.isPending}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {createShareLink.isPending ? 'Creando...' : '🔗 Crear enlace'}
+                </button>
+            </div>
+
+            {isLoading ? (
+                <p className="text-sm text-gray-500 text-center py-4">Cargando enlaces...</p>
+            ) : sortedLinks.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">No hay enlaces públicos</p>
+            ) : (
+                <div className="space-y-2">
+                    {sortedLinks.map(link => {
+                        const status = shareLinkStatus(link);
+                        return (
+                            <div key={link.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 bg-gray-50 rounded-lg">
+                                <div>
+                                    <div className="flex items-center space-x-2">
+                                        <span className="text-sm font-medium text-gray-900">{link.label || 'Enlace sin nombre'}</span>
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status].className}`}>
+                                            {STATUS_STYLES[status].label}
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        Creado el {new Date(link.created_at).toLocaleDateString('es-ES')}
+                                        {link.expires_at && ` • caduca el ${new Date(link.expires_at).toLocaleDateString('es-ES')}`}
+                                    </p>
+                                </div>
+                                {status === 'active' && (
+                                    <div className="flex space-x-2">
+                                        <button
+                                            onClick={() => handleCopy(link)}
+                                            className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100"
+                                        >
+                                            📋 Copiar
+                                        </button>
+                                        <Link
+                                            href={guestHomePath(link.token)}
+                                            target="_blank"
+                                            className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded hover:bg-gray-100"
+                                        >
+                                            👁️ Abrir
+                                        </Link>
+                                        <button
+                                            onClick={() => setRevokingLink(link)}
+                                            className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                        >
+                                            🚫 Revocar
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Modal de confirmación para revocar */}
+            {revokingLink && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div className="flex min-h-screen items-center justify-center p-4">
+                        <div className="fixed inset-0 bg-black opacity-30" onClick={() => setRevokingLink(null)}></div>
+                        <div className="relative bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+                            <h3 className="text-lg font-medium text-gray-900 mb-2">¿Revocar este enlace?</h3>
+                            <p className="text-sm text-gray-500 mb-6">
+                                Quien lo tenga dejará de ver la guía, y los códigos QR impresos con este enlace dejarán de funcionar.
+                                Tendrás que imprimir etiquetas nuevas con otro enlace.
+                            </p>
+                            <div className="flex justify-end space-x-3">
+                                <button
+                                    onClick={() => setRevokingLink(null)}
+                                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    onClick={() => handleRevoke(revokingLink)}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700"
+                                >
+                                    Revocar
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import type { DragEvent } from 'react';
+import type { HomeInventoryWithRelations } from '@/lib/types';
+import { formatRestockDate, isLowStock } from '@/lib/inventory';
+
+type InventoryItemRowProps = {
+    item: HomeInventoryWithRelations;
+    roomName?: string;             // Se omite en la vista por habitación
+    onHistory?: () => void;
+    onTransfer?: () => void;
+    onEdit?: () => void;
+    onDelete?: () => void;
+    onDragStart?: (e: DragEvent<HTMLDivElement>) => void;
+};
+
+// Fila de un producto en el inventario de una casa
+export function InventoryItemRow({ item, roomName, onHistory, onTransfer, onEdit, onDelete, onDragStart }: InventoryItemRowProps) {
+    return (
+        <div
+            draggable={Boolean(onDragStart)}
+            onDragStart={onDragStart}
+            className={`px-6 py-4 hover:bg-gray-50 ${onDragStart ? 'cursor-move' : ''}`}
+        >
+            <div className="flex items-center justify-between">
+                <div className="flex-1">
+                    <div className="flex items-center">
+                        <h3 className="text-lg font-medium text-gray-900">
+                            {item.amenity?.name}
+                        </h3>
+                        {item.quantity && item.quantity > 1 && (
+                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                x{item.quantity}
+                            </span>
+                        )}
+                        {isLowStock(item) && (
+                            <span
+                                className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                                title={`Mínimo ${item.minimum_threshold} • Última reposición: ${formatRestockDate(item.last_restocked_date)}`}
+                            >
+                                ⚠️ Stock bajo
+                            </span>
+                        )}
+                    </div>
+
+                    <div className="mt-1 flex items-center text-sm text-gray-500">
+                        {roomName && (
+                            <span className="mr-4">
+                                🚪 {roomName}
+                            </span>
+                        )}
+                        {item.amenity?.category?.name && (
+                            <span className="mr-4">
+                                📂 {item.amenity.category.name}
+                            </span>
+                        )}
+                        {item.amenity?.brand?.name && (
+                            <span className="mr-4">
+                                🏷️ {item.amenity.brand.name}
+                            </span>
+                        )}
+                        {item.supplier?.name && (
+                            <span>
+                                🏢 {item.supplier.name}
+                            </span>
+                        )}
+                    </div>
+
+                    {item.amenity?.description && (
+                        <p className="mt-2 text-sm text-gray-600">
+                            {item.amenity.description}
+                        </p>
+                    )}
+                </div>
+
+                <div className="ml-6 flex flex-col items-end">
+                    <div className="text-lg font-semibold text-green-600">
+                        €{Number(item.amenity?.base_price || 0).toFixed(2)}
+                    </div>
+                    {item.quantity && item.quantity > 1 && (
+                        <div className="text-sm text-gray-500">
+                            Total: €{(Number(item.amenity?.base_price || 0) * item.quantity).toFixed(2)}
+                        </div>
+                    )}
+                    <div className="flex space-x-2 mt-2">
+                        {onHistory && (
+                            <button
+                                onClick={onHistory}
+                                className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                            >
+                                🕒 Historial
+                            </button>
+                        )}
+                        {onTransfer && (
+                            <button
+                                onClick={onTransfer}
+                                className="px-3 py-1 text-xs font-medium text-purple-600 bg-purple-50 border border-purple-200 rounded hover:bg-purple-100"
+                            >
+                                🔀 Transferir
+                            </button>
+                        )}
+                        {onEdit && (
+                            <button
+                                onClick={onEdit}
+                                className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100"
+                            >
+                                ✏️ Editar
+                            </button>
+                        )}
+                        {onDelete && (
+                            <button
+                                onClick={onDelete}
+                                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                            >
+                                🗑️ Eliminar
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import type { HomeInventoryWithRelations } from '@/lib/types';
+import { useAllHomes, useStockMovements } from '@/hooks/useApiQueries';
+import {
+    STOCK_MOVEMENT_ICONS,
+    STOCK_MOVEMENT_LABELS,
+    formatQuantityChange,
+    ledgerQuantity,
+} from '@/lib/stockMovements';
+
+type StockMovementTimelineProps = {
+    item: HomeInventoryWithRelations;
+    roomName: (roomId?: string) => string | undefined;
+};
+
+// Historial de movimientos de una línea de inventario, del más reciente al más antiguo
+export function StockMovementTimeline({ item, roomName }: StockMovementTimelineProps) {
+    const { data: movements, meta, isLoading, error } = useStockMovements(item.id);
+    const { data: homes = [] } = useAllHomes();
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-8">
+                <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    if (error) {
+        return <p className="text-sm text-red-600 py-4">Error al cargar el historial</p>;
+    }
+
+    if (movements.length === 0) {
+        return <p className="text-sm text-gray-500 py-4 text-center">Esta línea aún no tiene movimientos registrados</p>;
+    }
+
+    // Solo se puede cuadrar con la cantidad actual si se ha cargado el historial completo
+    const isComplete = !meta || meta.total <= movements.length;
+    const balance = ledgerQuantity(movements);
+
+    return (
+        <div>
+            <ol className="relative border-l-2 border-gray-200 ml-4 space-y-5">
+                {movements.map(movement => {
+                    const relatedHome = homes.find(home => home.id === movement.related_home_id)?.name;
+                    return (
+                        <li key={movement.id} className="ml-6">
+                            <span className="absolute -left-4 flex items-center justify-center w-8 h-8 bg-white border-2 border-gray-200 rounded-full text-sm">
+                                {STOCK_MOVEMENT_ICONS[movement.type]}
+                            </span>
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-sm font-medium text-gray-900">{STOCK_MOVEMENT_LABELS[movement.type]}</p>
+                                {movement.type !== 'room_move' && (
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${movement.quantity_change > 0
+                                        ? 'bg-green-100 text-green-800'
+                                        : movement.quantity_change < 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                                        }`}
+                                    >
+                                        {formatQuantityChange(movement.quantity_change)} → {movement.quantity_after} uds.
+                                    </span>
+                                )}
+                            </div>
+                            {movement.type === 'room_move' && (
+                                <p className="text-sm text-gray-600">
+                                    {roomName(movement.from_room_id) || 'Sin habitación'} → {roomName(movement.to_room_id) || 'Sin habitación'}
+                                </p>
+                            )}
+                            {relatedHome && (
+                                <p className="text-sm text-gray-600">
+                                    {movement.type === 'transfer_in' ? 'Desde' : 'Hacia'} {relatedHome}
+                                </p>
+                            )}
+                            {movement.reason && <p className="text-sm text-gray-600 italic">“{movement.reason}”</p>}
+                            <p className="text-xs text-gray-500 mt-1">
+                                {movement.created_by_name || 'Usuario'} • {new Date(movement.created_at).toLocaleString('es-ES')}
+                            </p>
+                        </li>
+                    );
+                })}
+            </ol>
+
+            {!isComplete ? (
+                <p className="text-xs text-gray-500 mt-4">Mostrando los {movements.length} movimientos más recientes de {meta?.total}</p>
+            ) : balance !== item.quantity && (
+                <p className="text-xs text-orange-700 bg-orange-50 border border-orange-200 rounded p-2 mt-4">
+                    ⚠️ El historial suma {balance} uds. y la línea tiene {item.quantity}. Registra una corrección tras el próximo recuento.
+                </p>
+            )}
+        </div>
+    );
+}
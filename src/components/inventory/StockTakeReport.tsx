@@ -0,0 +1,108 @@
+'use client';
+
+import type { StockTake } from '@/lib/types';
+import { downloadCsv } from '@/lib/csv';
+import { formatEuros } from '@/lib/purchaseOrders';
+import { formatQuantityChange } from '@/lib/stockMovements';
+import { countDifference, stockTakeRows, stockTakeSummary } from '@/lib/stockTake';
+
+type StockTakeReportProps = {
+    stockTake: StockTake;
+    homeName: string;
+    roomName: (roomId?: string) => string | undefined;
+};
+
+// Informe de un recuento ya registrado: resumen y líneas con diferencias
+export function StockTakeReport({ stockTake, homeName, roomName }: StockTakeReportProps) {
+    const summary = stockTakeSummary(stockTake.lines);
+    const discrepancies = stockTake.lines
+        .filter(line => countDifference(line) !== 0)
+        .sort((a, b) => Math.abs(countDifference(b)) - Math.abs(countDifference(a)));
+    const date = new Date(stockTake.created_at);
+
+    return (
+        <div className="bg-white rounded-lg shadow print:shadow-none">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-medium text-gray-900">Informe de recuento</h2>
+                    <p className="text-sm text-gray-500">
+                        {homeName}{stockTake.room_id && ` • ${roomName(stockTake.room_id) || 'Habitación'}`} • {date.toLocaleString('es-ES')}
+                        {stockTake.created_by_name && ` • ${stockTake.created_by_name}`}
+                    </p>
+                </div>
+                <div className="flex gap-2 print:hidden">
+                    <button
+                        onClick={() => downloadCsv(stockTakeRows(stockTake, roomName), `recuento-${date.toISOString().slice(0, 10)}.csv`)}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                    >
+                        ⬇️ CSV
+                    </button>
+                    <button
+                        onClick={() => window.print()}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                    >
+                        🖨️ Imprimir
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-6">
+                <div>
+                    <p className="text-sm text-gray-500">Líneas contadas</p>
+                    <p className="text-2xl font-semibold text-gray-900">{summary.lines}</p>
+                </div>
+                <div>
+                    <p className="text-sm text-gray-500">Con diferencias</p>
+                    <p className={`text-2xl font-semibold ${summary.discrepancies > 0 ? 'text-orange-600' : 'text-green-600'}`}>{summary.discrepancies}</p>
+                </div>
+                <div>
+                    <p className="text-sm text-gray-500">Unidades</p>
+                    <p className="text-2xl font-semibold text-gray-900">
+                        <span className="text-red-600">-{summary.missingUnits}</span> / <span className="text-green-600">+{summary.surplusUnits}</span>
+                    </p>
+                </div>
+                <div>
+                    <p className="text-sm text-gray-500">Diferencia valorada</p>
+                    <p className={`text-2xl font-semibold ${summary.valueDifference < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatEuros(summary.valueDifference)}</p>
+                </div>
+            </div>
+
+            {stockTake.notes && (
+                <p className="px-6 pb-4 text-sm text-gray-600 italic">“{stockTake.notes}”</p>
+            )}
+
+            {discrepancies.length === 0 ? (
+                <p className="px-6 py-8 text-sm text-green-700 text-center border-t border-gray-200">
+                    ✅ Todo cuadra con el sistema
+                </p>
+            ) : (
+                <div className="overflow-x-auto border-t border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Producto</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Habitación</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sistema</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Contado</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Diferencia</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {discrepancies.map(line => (
+                                <tr key={line.inventory_id}>
+                                    <td className="px-6 py-3 text-sm text-gray-900">{line.amenity_name}</td>
+                                    <td className="px-6 py-3 text-sm text-gray-600">{roomName(line.room_id) || 'Sin habitación'}</td>
+                                    <td className="px-6 py-3 text-sm text-gray-600 text-right">{line.system_quantity}</td>
+                                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{line.counted_quantity}</td>
+                                    <td className={`px-6 py-3 text-sm text-right font-medium ${countDifference(line) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                        {formatQuantityChange(countDifference(line))}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
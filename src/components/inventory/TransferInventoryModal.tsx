@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import type { HomeInventoryWithRelations, HomeWithCompleteness } from '@/lib/types';
+import { useRooms } from '@/hooks/useApiQueries';
+import { useTransferInventory } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
+import HomeSelector from '@/components/wizard/HomeSelector';
+import { movementAuthor } from '@/lib/stockMovements';
+
+type TransferInventoryModalProps = {
+    item: HomeInventoryWithRelations;
+    sourceRoomName?: string;
+    onClose: () => void;
+    onDone: (result: { type: 'success' | 'error'; message: string }) => void;
+};
+
+// Transferencia de unidades de una línea de inventario a otra casa
+export function TransferInventoryModal({ item, sourceRoomName, onClose, onDone }: TransferInventoryModalProps) {
+    const { user } = useAuth();
+    const transferInventory = useTransferInventory();
+    const [destinationHome, setDestinationHome] = useState<HomeWithCompleteness | null>(null);
+    const [roomId, setRoomId] = useState('');
+    const [quantity, setQuantity] = useState(item.quantity.toString());
+    const [reason, setReason] = useState('');
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const { data: rooms = [] } = useRooms(destinationHome?.id);
+
+    const units = Number(quantity);
+    const quantityError = quantity === ''
+        ? null
+        : !Number.isInteger(units) || units < 1
+            ? 'Introduce un número entero de unidades'
+            : units > item.quantity
+                ? `Solo hay ${item.quantity} unidades`
+                : null;
+    const isValidQuantity = quantity !== '' && !quantityError;
+
+    const handleSelectHome = (home: HomeWithCompleteness | null) => {
+        setDestinationHome(home);
+        setRoomId('');
+    };
+
+    const handleTransfer = async () => {
+        if (!destinationHome || !user || !isValidQuantity) return;
+
+        setSubmitError(null);
+        try {
+            await transferInventory.mutateAsync({
+                inventory_id: item.id,
+                to_home_id: destinationHome.id,
+                to_room_id: roomId || undefined,
+                quantity: units,
+                reason: reason.trim() || undefined,
+                ...movementAuthor(user),
+            });
+            onClose();
+            onDone({ type: 'success', message: `${units} uds. de ${item.amenity?.name || 'producto'} transferidas a ${destinationHome.name}` });
+        } catch (error) {
+            console.error('Error transferring inventory:', error);
+            // El modal sigue abierto con lo introducido para poder reintentar
+            setSubmitError('Error al transferir el producto');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex min-h-screen items-center justify-center p-4">
+                <div className="fixed inset-0 bg-black opacity-30" onClick={onClose}></div>
+                <div className="relative bg-white rounded-lg shadow-lg max-w-2xl w-full p-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">Transferir a otra casa</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                        {item.amenity?.name} • {item.quantity} uds.{sourceRoomName && ` en ${sourceRoomName}`}
+                    </p>
+
+                    <HomeSelector
+                        selectedHome={destinationHome}
+                        onHomeSelect={handleSelectHome}
+                        title="Casa de destino"
+                        description="Elige la casa que recibe las unidades"
+                        showCompleteness={false}
+                        excludeHomeId={item.home_id}
+                    />
+
+                    {destinationHome && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 bg-gray-50 p-4 rounded-lg">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Habitación de destino (opcional)
+                                </label>
+                                <select
+                                    value={roomId}
+                                    onChange={(e) => setRoomId(e.target.value)}
+                                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                >
+                                    <option value="">Sin habitación</option>
+                                    {rooms.map(room => (
+                                        <option key={room.id} value={room.id}>{room.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Unidades
+                                </label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max={item.quantity}
+                                    value={quantity}
+                                    onChange={(e) => setQuantity(e.target.value)}
+                                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                />
+                                {quantityError && (
+                                    <p className="text-xs text-red-600 mt-1">{quantityError}</p>
+                                )}
+                                {isValidQuantity && units === item.quantity && (
+                                    <p className="text-xs text-gray-500 mt-1">La línea de esta casa se queda a 0 y conserva su historial</p>
+                                )}
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Motivo (opcional)
+                                </label>
+                                <input
+                                    type="text"
+                                    value={reason}
+                                    onChange={(e) => setReason(e.target.value)}
+                                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm"
+                                    placeholder="Ej: ropa de cama extra para temporada alta"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {submitError && (
+                        <div className="mt-4 p-3 rounded-md bg-red-50 text-red-800 border border-red-200 text-sm">
+                            {submitError}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end space-x-3 mt-6">
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            onClick={handleTransfer}
+                            disabled={!destinationHome || !isValidQuantity || transferInventory.isPending}
+                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {transferInventory.isPending ? 'Transfiriendo...' : '🔀 Transferir'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAllHomes, useAllRooms, useTemplatePlaybooks } from '@/hooks/useApiQueries';
+import { useApplyPlaybookTemplate } from '@/hooks/useApiMutations';
+import type { PlaybookTemplate, Room } from '@/lib/types';
+
+type ApplyTemplateModalProps = {
+    template: PlaybookTemplate;
+    roomTypeName: string;
+    onClose: () => void;
+    onDone: (message: { type: 'success' | 'error'; message: string }) => void;
+};
+
+// Aplicar una plantilla a habitaciones de su tipo en una o varias casas
+export function ApplyTemplateModal({ template, roomTypeName, onClose, onDone }: ApplyTemplateModalProps) {
+    const { data: homes = [], isLoading: isLoadingHomes } = useAllHomes();
+    const { data: rooms = [], isLoading: isLoadingRooms } = useAllRooms();
+    const { data: copies, isLoading: isLoadingCopies } = useTemplatePlaybooks(template.id);
+    const applyTemplate = useApplyPlaybookTemplate();
+
+    const [search, setSearch] = useState('');
+    const [selectedRoomIds, setSelectedRoomIds] = useState<Set<string>>(new Set());
+
+    // Habitaciones del tipo de la plantilla agrupadas por casa; las que ya tienen copia no se pueden elegir
+    const groups = useMemo(() => {
+        const copiedRoomIds = new Set(copies.map(playbook => playbook.room_id));
+        const term = search.trim().toLowerCase();
+        return homes
+            .filter(home => !term || home.name.toLowerCase().includes(term) || home.destination?.toLowerCase().includes(term))
+            .map(home => {
+                const homeRooms = rooms.filter(room => room.home_id === home.id && room.room_type_id === template.room_type_id);
+                return {
+                    home,
+                    rooms: homeRooms,
+                    available: homeRooms.filter(room => !copiedRoomIds.has(room.id)),
+                    isCopied: (room: Room) => copiedRoomIds.has(room.id),
+                };
+            })
+            .filter(group => group.rooms.length > 0);
+    }, [homes, rooms, copies, search, template.room_type_id]);
+
+    const availableRoomIds = groups.flatMap(group => group.available.map(room => room.id));
+
+    const toggleRooms = (roomIds: string[], checked: boolean) => {
+        setSelectedRoomIds(prev => {
+            const next = new Set(prev);
+            roomIds.forEach(id => (checked ? next.add(id) : next.delete(id)));
+            return next;
+        });
+    };
+
+    const handleApply = async () => {
+        try {
+            const { succeeded, failed } = await applyTemplate.mutateAsync({ template, roomIds: [...selectedRoomIds] });
+            onDone(failed === 0
+                ? { type: 'success', message: `Plantilla aplicada a ${succeeded} habitación${succeeded !== 1 ? 'es' : ''}` }
+                : { type: 'error', message: `Plantilla aplicada a ${succeeded} habitaciones; ${failed} fallaron` });
+        } catch (error) {
+            console.error('Error al aplicar la plantilla:', error);
+            onDone({ type: 'error', message: 'Error al aplicar la plantilla' });
+        }
+    };
+
+    const isLoading = isLoadingHomes || isLoadingRooms || isLoadingCopies;
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex min-h-screen items-center justify-center p-4">
+                <div className="fixed inset-0 bg-black opacity-30" onClick={onClose}></div>
+                <div className="relative bg-white rounded-lg shadow-lg max-w-2xl w-full p-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">Aplicar &quot;{template.title}&quot;</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                        Se crea una copia enlazada en cada habitación de tipo <strong>{roomTypeName}</strong> que elijas.
+                    </p>
+
+                    <div className="flex items-center space-x-3 mb-3">
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Buscar casa o destino..."
+                            className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 shadow-sm text-sm"
+                        />
+                        <button
+                            onClick={() => toggleRooms(availableRoomIds, selectedRoomIds.size < availableRoomIds.length)}
+                            disabled={availableRoomIds.length === 0}
+                            className="px-3 py-2 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50"
+                        >
+                            {selectedRoomIds.size < availableRoomIds.length ? 'Seleccionar todas' : 'Quitar selección'}
+                        </button>
+                    </div>
+
+                    <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                        {isLoading ? (
+                            <p className="p-4 text-sm text-gray-500 text-center">Cargando habitaciones...</p>
+                        ) : groups.length === 0 ? (
+                            <p className="p-4 text-sm text-gray-500 text-center">No hay habitaciones de tipo {roomTypeName}</p>
+                        ) : (
+                            groups.map(group => {
+                                const groupIds = group.available.map(room => room.id);
+                                const allSelected = groupIds.length > 0 && groupIds.every(id => selectedRoomIds.has(id));
+                                return (
+                                    <div key={group.home.id} className="p-3">
+                                        <label className="flex items-center space-x-2 font-medium text-gray-900 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={allSelected}
+                                                disabled={groupIds.length === 0}
+                                                onChange={(e) => toggleRooms(groupIds, e.target.checked)}
+                                                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                            />
+                                            <span>🏠 {group.home.name}</span>
+                                            <span className="text-xs text-gray-500 font-normal">{group.home.destination}</span>
+                                        </label>
+                                        <div className="mt-2 ml-6 space-y-1">
+                                            {group.rooms.map(room => (
+                                                <label key={room.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedRoomIds.has(room.id)}
+                                                        disabled={group.isCopied(room)}
+                                                        onChange={(e) => toggleRooms([room.id], e.target.checked)}
+                                                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                    />
+                                                    <span>{room.name}</span>
+                                                    {group.isCopied(room) && (
+                                                        <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Ya aplicada</span>
+                                                    )}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })
+                        )}
+                    </div>
+
+                    <div className="flex items-center justify-between mt-6">
+                        <span className="text-sm text-gray-500">{selectedRoomIds.size} habitaciones seleccionadas</span>
+                        <div className="flex space-x-3">
+                            <button
+                                onClick={onClose}
+                                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={handleApply}
+                                disabled={selectedRoomIds.size === 0 || applyTemplate.isPending}
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {applyTemplate.isPending ? 'Aplicando...' : 'Aplicar'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUpload } from '@/components/ui/FileUpload';
+import { useAllAmenities } from '@/hooks/useApiQueries';
+import type { UploadSession } from '@/hooks/useUploadSession';
+import { storagePathFromUrl } from '@/lib/firebase';
+import { STYLING_PHOTO_PROCESSING } from '@/lib/imageProcessing';
+import { renumberSteps, stepsFromText, TEMPLATE_IMAGE_PATH } from '@/lib/playbooks';
+import type { PlaybookMaterial, PlaybookStep } from '@/lib/types';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900 bg-white placeholder-gray-400';
+
+// Las imágenes de plantilla las comparten sus copias: nunca se borran al quitarlas de un paso
+// (las que queden sin uso aparecen en la auditoría de Storage)
+export function isTemplateImage(url: string) {
+    return Boolean(storagePathFromUrl(url)?.startsWith(`${TEMPLATE_IMAGE_PATH}/`));
+}
+
+type PlaybookStepsEditorProps = {
+    value: PlaybookStep[];
+    onChange: (steps: PlaybookStep[]) => void;
+    uploadSession?: UploadSession; // Las imágenes de los pasos se borran si el playbook no se guarda
+    basePath?: string;
+    error?: string;
+};
+
+// Lista ordenada de pasos: texto, duración e imagen opcionales
+export function PlaybookStepsEditor({ value, onChange, uploadSession, basePath = 'playbooks/steps', error }: PlaybookStepsEditorProps) {
+    const [imageStep, setImageStep] = useState<number | null>(null);
+    const [pasteText, setPasteText] = useState<string | null>(null);
+
+    const updateStep = (index: number, changes: Partial<PlaybookStep>) => {
+        onChange(value.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+    };
+
+    const releaseImage = (url: string | undefined) => {
+        if (url && !isTemplateImage(url)) uploadSession?.release(url);
+    };
+
+    const removeImage = (index: number) => {
+        releaseImage(value[index]?.image_url);
+        updateStep(index, { image_url: undefined });
+    };
+
+    const removeStep = (index: number) => {
+        releaseImage(value[index]?.image_url);
+        setImageStep(null);
+        onChange(renumberSteps(value.filter((_, i) => i !== index)));
+    };
+
+    const moveStep = (index: number, offset: -1 | 1) => {
+        const target = index + offset;
+        if (target < 0 || target >= value.length) return;
+        const next = [...value];
+        [next[index], next[target]] = [next[target], next[index]];
+        setImageStep(null);
+        onChange(renumberSteps(next));
+    };
+
+    const addStep = () => {
+        onChange(renumberSteps([...value, { order: value.length + 1, text: '' }]));
+    };
+
+    // Añadir varios pasos de golpe pegando una lista (una tarea por línea)
+    const appendPasted = () => {
+        onChange(renumberSteps([...value, ...stepsFromText(pasteText)]));
+        setPasteText(null);
+    };
+
+    return (
+        <div className="space-y-3">
+            {value.map((step, index) => (
+                <div key={index} className="bg-white border border-gray-200 rounded-lg p-3">
+                    <div className="flex items-start space-x-2">
+                        <span className="mt-2 w-6 text-sm font-medium text-gray-500 text-right flex-shrink-0">{step.order}.</span>
+                        <div className="flex-1 space-y-2">
+                            <input
+                                type="text"
+                                value={step.text}
+                                onChange={(e) => updateStep(index, { text: e.target.value })}
+                                className={inputClassName}
+                                placeholder="Describe el paso..."
+                            />
+                            <div className="flex flex-wrap items-center gap-3">
+                                <label className="inline-flex items-center space-x-1 text-xs text-gray-600">
+                                    <span>⏱️</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={step.duration_minutes ?? ''}
+                                        onChange={(e) => updateStep(index, { duration_minutes: e.target.value ? Number(e.target.value) : undefined })}
+                                        className="w-20 px-2 py-1 border border-gray-300 rounded text-gray-900 bg-white"
+                                        placeholder="min"
+                                    />
+                                    <span>min</span>
+                                </label>
+                                {step.image_url ? (
+                                    <div className="relative inline-block">
+                                        <img src={step.image_url} alt={`Paso ${step.order}`} className="w-12 h-12 object-cover rounded border" />
+                                        <button
+                                            type="button"
+                                            onClick={() => removeImage(index)}
+                                            className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white rounded-full text-xs flex items-center justify-center hover:bg-red-600"
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => setImageStep(imageStep === index ? null : index)}
+                                        className="text-xs font-medium text-gray-600 hover:text-gray-900"
+                                    >
+                                        📷 {imageStep === index ? 'Cancelar imagen' : 'Añadir imagen'}
+                                    </button>
+                                )}
+                            </div>
+                            {imageStep === index && !step.image_url && (
+                                <FileUpload
+                                    onUrlsChange={(urls) => {
+                                        if (urls[0]) {
+                                            updateStep(index, { image_url: urls[0] });
+                                            setImageStep(null);
+                                        }
+                                    }}
+                                    accept="image/*"
+                                    multiple={false}
+                                    maxFiles={1}
+                                    maxSize={5}
+                                    basePath={basePath}
+                                    uploadSession={uploadSession}
+                                    imageProcessing={{ ...STYLING_PHOTO_PROCESSING, thumbnail: false }}
+                                />
+                            )}
+                        </div>
+                        <div className="flex flex-col space-y-1 flex-shrink-0">
+                            <button
+                                type="button"
+                                onClick={() => moveStep(index, -1)}
+                                disabled={index === 0}
+                                className="px-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                                title="Subir"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => moveStep(index, 1)}
+                                disabled={index === value.length - 1}
+                                className="px-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                                title="Bajar"
+                            >
+                                ↓
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => removeStep(index)}
+                                className="px-2 text-red-500 hover:text-red-700"
+                                title="Eliminar paso"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            {pasteText !== null ? (
+                <div className="space-y-2">
+                    <textarea
+                        value={pasteText}
+                        onChange={(e) => setPasteText(e.target.value)}
+                        rows={4}
+                        className={inputClassName}
+                        placeholder="1. Primer paso...&#10;2. Segundo paso...&#10;3. Tercer paso..."
+                    />
+                    <div className="flex justify-end space-x-2">
+                        <button
+                            type="button"
+                            onClick={() => setPasteText(null)}
+                            className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            type="button"
+                            onClick={appendPasted}
+                            className="px-3 py-1 text-xs font-medium text-white bg-purple-600 border border-transparent rounded hover:bg-purple-700"
+                        >
+                            Añadir pasos
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex space-x-2">
+                    <button
+                        type="button"
+                        onClick={addStep}
+                        className="px-3 py-1 text-xs font-medium text-purple-600 bg-purple-50 border border-purple-200 rounded hover:bg-purple-100"
+                    >
+                        ➕ Añadir paso
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setPasteText('')}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                    >
+                        📋 Pegar lista
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+type PlaybookMaterialsEditorProps = {
+    value: PlaybookMaterial[];
+    onChange: (materials: PlaybookMaterial[]) => void;
+    legacyNote?: string; // Materiales en texto de un playbook antiguo, como referencia
+};
+
+// Materiales enlazados a productos del catálogo, con cantidad
+export function PlaybookMaterialsEditor({ value, onChange, legacyNote }: PlaybookMaterialsEditorProps) {
+    const { data: amenities = [], isLoading } = useAllAmenities();
+
+    const updateMaterial = (index: number, changes: Partial<PlaybookMaterial>) => {
+        onChange(value.map((material, i) => (i === index ? { ...material, ...changes } : material)));
+    };
+
+    return (
+        <div className="space-y-2">
+            {legacyNote && (
+                <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                    Materiales anteriores (texto libre): {legacyNote}
+                </p>
+            )}
+            {value.map((material, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                    <select
+                        value={material.amenity_id}
+                        onChange={(e) => updateMaterial(index, { amenity_id: e.target.value, amenity: undefined })}
+                        className={inputClassName}
+                    >
+                        <option value="">{isLoading ? 'Cargando productos...' : 'Selecciona un producto'}</option>
+                        {amenities.map(amenity => (
+                            <option key={amenity.id} value={amenity.id}>{amenity.name}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        min={1}
+                        value={material.quantity}
+                        onChange={(e) => updateMaterial(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                        className="w-20 px-2 py-2 border border-gray-300 rounded-md text-gray-900 bg-white"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => onChange(value.filter((_, i) => i !== index))}
+                        className="px-2 text-red-500 hover:text-red-700"
+                        title="Quitar material"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <button
+                type="button"
+                onClick={() => onChange([...value, { amenity_id: '', quantity: 1 }])}
+                className="px-3 py-1 text-xs font-medium text-purple-600 bg-purple-50 border border-purple-200 rounded hover:bg-purple-100"
+            >
+                ➕ Añadir material
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { useAllHomes, useAllRooms, useTemplatePlaybooks } from '@/hooks/useApiQueries';
+import { usePropagatePlaybookTemplate } from '@/hooks/useApiMutations';
+import { isOutdatedCopy } from '@/lib/playbooks';
+import type { PlaybookTemplate } from '@/lib/types';
+
+type PropagateTemplateModalProps = {
+    template: PlaybookTemplate;
+    justUpdated?: boolean; // Se abre tras guardar la plantilla
+    onClose: () => void;
+    onDone: (message: { type: 'success' | 'error'; message: string }) => void;
+};
+
+// Llevar los cambios de una plantilla a sus copias desactualizadas
+export function PropagateTemplateModal({ template, justUpdated = false, onClose, onDone }: PropagateTemplateModalProps) {
+    const { data: copies, isLoading } = useTemplatePlaybooks(template.id);
+    const { data: homes = [] } = useAllHomes();
+    const { data: rooms = [] } = useAllRooms();
+    const propagateTemplate = usePropagatePlaybookTemplate();
+
+    // Por defecto se propaga a todas: se guardan las que el usuario desmarca
+    const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+    const outdated = copies.filter(playbook => isOutdatedCopy(playbook, template));
+    const selectedIds = outdated.map(playbook => playbook.id).filter(id => !excludedIds.has(id));
+
+    const roomLabel = (roomId: string) => {
+        const room = rooms.find(r => r.id === roomId);
+        const home = homes.find(h => h.id === room?.home_id);
+        return room ? `${home?.name ?? 'Casa'} • ${room.name}` : 'Habitación eliminada';
+    };
+
+    const toggle = (id: string) => {
+        setExcludedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handlePropagate = async () => {
+        try {
+            const { succeeded, failed } = await propagateTemplate.mutateAsync({ template, playbookIds: selectedIds });
+            onDone(failed === 0
+                ? { type: 'success', message: `Cambios propagados a ${succeeded} playbook${succeeded !== 1 ? 's' : ''}` }
+                : { type: 'error', message: `Cambios propagados a ${succeeded} playbooks; ${failed} fallaron` });
+        } catch (error) {
+            console.error('Error al propagar la plantilla:', error);
+            onDone({ type: 'error', message: 'Error al propagar los cambios' });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex min-h-screen items-center justify-center p-4">
+                <div className="fixed inset-0 bg-black opacity-30" onClick={onClose}></div>
+                <div className="relative bg-white rounded-lg shadow-lg max-w-lg w-full p-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">
+                        {justUpdated ? 'Plantilla actualizada: ¿propagar cambios?' : `Propagar "${template.title}"`}
+                    </h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                        Las copias elegidas se sobrescriben con la versión {template.version} de la plantilla.
+                        Se pierden los cambios hechos a mano en esas habitaciones.
+                    </p>
+
+                    {isLoading ? (
+                        <p className="text-sm text-gray-500 text-center py-4">Cargando copias...</p>
+                    ) : outdated.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-4">
+                            {copies.length === 0 ? 'La plantilla no se ha aplicado a ninguna habitación' : 'Todas las copias están al día'}
+                        </p>
+                    ) : (
+                        <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                            {outdated.map(playbook => (
+                                <label key={playbook.id} className="flex items-center justify-between p-3 text-sm">
+                                    <span className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={!excludedIds.has(playbook.id)}
+                                            onChange={() => toggle(playbook.id)}
+                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                        />
+                                        <span className="text-gray-900">{roomLabel(playbook.room_id)}</span>
+                                    </span>
+                                    <span className="text-xs text-gray-500">v{playbook.template_version ?? 0} → v{template.version}</span>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end space-x-3 mt-6">
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                        >
+                            {outdated.length === 0 ? 'Cerrar' : 'Ahora no'}
+                        </button>
+                        {outdated.length > 0 && (
+                            <button
+                                onClick={handlePropagate}
+                                disabled={selectedIds.length === 0 || propagateTemplate.isPending}
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {propagateTemplate.isPending ? 'Propagando...' : `Propagar a ${selectedIds.length}`}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
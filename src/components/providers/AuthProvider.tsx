@@ -0,0 +1,85 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { onIdTokenChanged, signInWithEmailAndPassword, signOut as firebaseSignOut, type User } from 'firebase/auth';
+import { useQueryClient } from '@tanstack/react-query';
+import { auth } from '@/lib/firebase';
+import { hasPermission, parseRole, type Permission, type UserRole } from '@/lib/auth';
+
+type AuthContextValue = {
+    user: User | null;
+    role: UserRole | null;
+    // true hasta que Firebase restaura (o descarta) la sesión persistida
+    isLoading: boolean;
+    signIn: (email: string, password: string) => Promise<void>;
+    signOut: () => Promise<void>;
+    can: (permission: Permission) => boolean;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Último rol conocido de cada usuario, para la app sin conexión
+const ROLE_STORAGE_PREFIX = 'vivla:role:';
+
+type AuthProviderProps = {
+    children: React.ReactNode;
+};
+
+export default function AuthProvider({ children }: AuthProviderProps) {
+    const queryClient = useQueryClient();
+    const [user, setUser] = useState<User | null>(null);
+    const [role, setRole] = useState<UserRole | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        // onIdTokenChanged también salta al renovar el token, así los cambios de rol se recogen sin recargar
+        const unsubscribe = onIdTokenChanged(auth, async (firebaseUser) => {
+            if (!firebaseUser) {
+                setUser(null);
+                setRole(null);
+                setIsLoading(false);
+                return;
+            }
+            const storedRoleKey = `${ROLE_STORAGE_PREFIX}${firebaseUser.uid}`;
+            try {
+                const tokenResult = await firebaseUser.getIdTokenResult();
+                setRole(parseRole(tokenResult.claims.role));
+                window.localStorage.setItem(storedRoleKey, parseRole(tokenResult.claims.role));
+            } catch (error) {
+                // Sin conexión no se puede renovar un token caducado: se usa el último rol conocido
+                console.error('Error al leer el rol del usuario:', error);
+                setRole(parseRole(window.localStorage.getItem(storedRoleKey) ?? undefined));
+            }
+            setUser(firebaseUser);
+            setIsLoading(false);
+        });
+        return unsubscribe;
+    }, []);
+
+    const signIn = useCallback(async (email: string, password: string) => {
+        await signInWithEmailAndPassword(auth, email, password);
+    }, []);
+
+    const signOut = useCallback(async () => {
+        await firebaseSignOut(auth);
+        // No dejar datos del usuario anterior en caché
+        queryClient.clear();
+    }, [queryClient]);
+
+    const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+    const value = useMemo(
+        () => ({ user, role, isLoading, signIn, signOut, can }),
+        [user, role, isLoading, signIn, signOut, can]
+    );
+
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+    const context = useContext(AuthContext);
+    if (!context) {
+        throw new Error('useAuth debe usarse dentro de AuthProvider');
+    }
+    return context;
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { fetchEveryPage } from '@/hooks/useApiData';
+import type { OutboxConflict, OutboxEntry } from '@/lib/offline';
+import {
+    dismissConflict as dismissStoredConflict,
+    listConflicts,
+    listOfflineHomes,
+    listOutbox,
+    setOfflineHome,
+    subscribeOfflineStore,
+    syncOutbox,
+} from '@/lib/offlineStore';
+import { useAuth } from '@/components/providers/AuthProvider';
+
+type OfflineContextValue = {
+    isOnline: boolean;
+    outbox: OutboxEntry[];
+    conflicts: OutboxConflict[];
+    isSyncing: boolean;
+    offlineHomeIds: string[];
+    sync: () => Promise<void>;
+    dismissConflict: (seq: number) => Promise<void>;
+    // Descarga (o deja de guardar) una casa para usarla sin conexión
+    setHomeOffline: (homeId: string, enabled: boolean) => Promise<void>;
+};
+
+const OfflineContext = createContext<OfflineContextValue | null>(null);
+
+type OfflineProviderProps = {
+    children: React.ReactNode;
+};
+
+// Páginas de una casa que se guardan en el service worker al descargarla
+const homePages = (homeId: string, playbookIds: string[]) => [
+    `/home/${homeId}`,
+    `/home/${homeId}/inventory`,
+    `/home/${homeId}/inventory/count`,
+    `/home/${homeId}/styling-guides`,
+    ...playbookIds.map(playbookId => `/home/${homeId}/playbooks/${playbookId}/run`),
+];
+
+// Pide una página y sus scripts y estilos para que el service worker los guarde
+async function precachePage(url: string) {
+    const html = await (await fetch(url)).text();
+    const assets = [...html.matchAll(/(?:src|href)="(\/_next\/static\/[^"]+)"/g)].map(match => match[1]);
+    await Promise.all([...new Set(assets)].map(asset => fetch(asset)));
+}
+
+export default function OfflineProvider({ children }: OfflineProviderProps) {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const [isOnline, setIsOnline] = useState(true);
+    const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+    const [conflicts, setConflicts] = useState<OutboxConflict[]>([]);
+    const [offlineHomeIds, setOfflineHomeIds] = useState<string[]>([]);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [entries, storedConflicts, homes] = await Promise.all([listOutbox(), listConflicts(), listOfflineHomes()]);
+            setOutbox(entries);
+            setConflicts(storedConflicts);
+            setOfflineHomeIds(homes.map(home => home.id));
+        } catch (error) {
+            console.error('Error al leer el estado sin conexión:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        return subscribeOfflineStore(refresh);
+    }, [refresh]);
+
+    // Service worker para abrir la app sin red (en desarrollo interferiría con la recarga en caliente)
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+        navigator.serviceWorker.register('/sw.js').catch(error => {
+            console.error('Error al registrar el service worker:', error);
+        });
+    }, []);
+
+    const sync = useCallback(async () => {
+        if (!user) return;
+        setIsSyncing(true);
+        try {
+            const result = await syncOutbox(apiClient.replayQueued);
+            if (result.synced > 0 || result.conflicts > 0) {
+                await queryClient.invalidateQueries();
+            }
+        } catch (error) {
+            console.error('Error al sincronizar los cambios pendientes:', error);
+        } finally {
+            setIsSyncing(false);
+        }
+    }, [user, queryClient]);
+
+    // Al recuperar la conexión (y al iniciar sesión) se envían los cambios pendientes
+    useEffect(() => {
+        setIsOnline(navigator.onLine);
+        const handleOnline = () => {
+            setIsOnline(true);
+            sync();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        if (navigator.onLine) sync();
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [sync]);
+
+    const dismissConflict = useCallback(async (seq: number) => {
+        await dismissStoredConflict(seq);
+    }, []);
+
+    const setHomeOffline = useCallback(async (homeId: string, enabled: boolean) => {
+        await setOfflineHome(homeId, enabled);
+        if (!enabled) return;
+
+        // Mismos filtros que los hooks de useApiQueries para que las lecturas guardadas coincidan
+        const params = { home_id: homeId, pageSize: 100 };
+        const playbooks = apiClient.listPlaybooks(params);
+        const results: PromiseSettledResult<unknown>[] = await Promise.allSettled([
+            apiClient.getHomeWithCompleteness(homeId),
+            apiClient.listRooms(params),
+            // Mismas páginas que recorre useInventory
+            fetchEveryPage(page => apiClient.listInventory({ home_id: homeId, ...page })),
+            apiClient.listStylingGuides(params),
+            playbooks,
+            apiClient.listPlaybookCompletions({ home_id: homeId, pageSize: 50 }),
+            apiClient.listTechnicalPlans(params),
+            apiClient.listApplianceGuidesByHome(homeId),
+            apiClient.listSuppliers({ page: 1, pageSize: 100 }),
+            apiClient.listRoomTypes({ pageSize: 100 }),
+        ]);
+        if (navigator.serviceWorker?.controller) {
+            const playbookIds = (await playbooks.catch(() => ({ data: [] }))).data.map(playbook => playbook.id);
+            results.push(...await Promise.allSettled(homePages(homeId, playbookIds).map(precachePage)));
+        }
+        results.forEach(result => {
+            if (result.status === 'rejected') console.error('Error al descargar la casa:', result.reason);
+        });
+    }, []);
+
+    const value = useMemo(
+        () => ({ isOnline, outbox, conflicts, isSyncing, offlineHomeIds, sync, dismissConflict, setHomeOffline }),
+        [isOnline, outbox, conflicts, isSyncing, offlineHomeIds, sync, dismissConflict, setHomeOffline]
+    );
+
+    return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>;
+}
+
+export function useOffline() {
+    const context = useContext(OfflineContext);
+    if (!context) {
+        throw new Error('useOffline debe usarse dentro de OfflineProvider');
+    }
+    return context;
+}
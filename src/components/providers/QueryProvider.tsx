@@ -0,0 +1,42 @@
+'use client';
+
+import { useState } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { isApiError } from '@/lib/apiClient';
+
+function makeQueryClient() {
+    return new QueryClient({
+        defaultOptions: {
+            // Sin conexión las peticiones se lanzan igualmente: el cliente de la API responde
+            // con las lecturas guardadas y encola las escrituras
+            queries: {
+                networkMode: 'always',
+                staleTime: 30 * 1000,
+                refetchOnWindowFocus: false,
+                // No reintentar errores del cliente (4xx): solo fallos de red o del servidor
+                retry: (failureCount, error) => {
+                    if (isApiError(error) && error.status >= 400 && error.status < 500) return false;
+                    return failureCount < 2;
+                },
+            },
+            mutations: {
+                networkMode: 'always',
+            },
+        },
+    });
+}
+
+type QueryProviderProps = {
+    children: React.ReactNode;
+};
+
+export default function QueryProvider({ children }: QueryProviderProps) {
+    // Un QueryClient por montaje para no compartir caché entre peticiones en SSR
+    const [queryClient] = useState(makeQueryClient);
+
+    return (
+        <QueryClientProvider client={queryClient}>
+            {children}
+        </QueryClientProvider>
+    );
+}
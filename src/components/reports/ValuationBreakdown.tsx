@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { downloadCsv } from '@/lib/csv';
+import { valuationRows, type ValuationGroup } from '@/lib/inventoryReports';
+import { formatEuros } from '@/lib/purchaseOrders';
+
+// Filas visibles antes de "Ver todo"
+const COLLAPSED_ROWS = 10;
+
+type ValuationBreakdownProps = {
+    title: string;
+    groupLabel: string;            // Cabecera de la primera columna ("Casa", "Categoría"...)
+    groups: ValuationGroup[];
+    filename: string;
+};
+
+// Desglose de valoración con barras proporcionales al valor de reposición
+export function ValuationBreakdown({ title, groupLabel, groups, filename }: ValuationBreakdownProps) {
+    const [expanded, setExpanded] = useState(false);
+    const maxValue = Math.max(...groups.map(group => group.replacementValue), 0);
+    const visibleGroups = expanded ? groups : groups.slice(0, COLLAPSED_ROWS);
+
+    return (
+        <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+                <button
+                    onClick={() => downloadCsv(valuationRows(groupLabel, groups), filename)}
+                    disabled={groups.length === 0}
+                    className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50"
+                >
+                    ⬇️ CSV
+                </button>
+            </div>
+
+            {groups.length === 0 ? (
+                <p className="px-6 py-8 text-sm text-gray-500 text-center">Sin datos</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{groupLabel}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/3">Valor de reposición</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gasto de compra</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unidades</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {visibleGroups.map(group => (
+                                <tr key={group.id}>
+                                    <td className="px-6 py-3 text-sm text-gray-900">{group.name}</td>
+                                    <td className="px-6 py-3 text-sm text-gray-900">
+                                        <div className="flex items-center gap-3">
+                                            <div className="flex-1 bg-gray-100 rounded h-3">
+                                                <div
+                                                    className="bg-blue-500 h-3 rounded"
+                                                    style={{ width: `${maxValue ? (group.replacementValue / maxValue) * 100 : 0}%` }}
+                                                ></div>
+                                            </div>
+                                            <span className="w-24 text-right">{formatEuros(group.replacementValue)}</span>
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-gray-600 text-right">{formatEuros(group.purchaseSpend)}</td>
+                                    <td className="px-6 py-3 text-sm text-gray-600 text-right">{group.units}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {groups.length > COLLAPSED_ROWS && (
+                        <div className="px-6 py-3 border-t border-gray-200 text-center">
+                            <button onClick={() => setExpanded(prev => !prev)} className="text-sm text-blue-600 hover:text-blue-800">
+                                {expanded ? 'Ver menos' : `Ver los ${groups.length}`}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
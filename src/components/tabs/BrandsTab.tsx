@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Brand, CreateBrand } from '@/lib/types';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
+import { useBrands } from '@/hooks/useApiQueries';
+import { useCreateBrand, useUpdateBrand, useDeleteBrand } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
 
 const createBrandSchema = z.object({
     name: z.string().min(1, 'El nombre de la marca es requerido'),
@@ -22,8 +23,7 @@ interface BrandsTabProps {
 }
 
 export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTabProps) {
-    const [brands, setBrands] = useState<Brand[]>([]);
-    const [loadingBrands, setLoadingBrands] = useState(false);
+    const { can } = useAuth();
     const [editingBrand, setEditingBrand] = useState<Brand | null>(null);
     const [deletingBrand, setDeletingBrand] = useState<Brand | null>(null);
     const [showBrandForm, setShowBrandForm] = useState(false);
@@ -31,10 +31,13 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
     // Estados para paginación
     const [brandsPage, setBrandsPage] = useState(1);
     const [brandsPageSize] = useState(20);
-    const [brandsTotal, setBrandsTotal] = useState(0);
-    const [brandsTotalPages, setBrandsTotalPages] = useState(0);
 
-    const apiClient = createApiClient(config.apiUrl);
+    const { data: brands, meta: brandsMeta, isFetching: loadingBrands } = useBrands({ page: brandsPage, pageSize: brandsPageSize });
+    const brandsTotal = brandsMeta?.total ?? 0;
+    const brandsTotalPages = brandsMeta?.totalPages ?? 0;
+    const createBrand = useCreateBrand();
+    const updateBrand = useUpdateBrand();
+    const deleteBrand = useDeleteBrand();
 
     const brandForm = useForm<CreateBrandFormData>({
         resolver: zodResolver(createBrandSchema),
@@ -46,23 +49,6 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
     });
 
     // Funciones para gestión de marcas
-    const loadBrands = async (page: number = brandsPage) => {
-        setLoadingBrands(true);
-        try {
-            const response = await apiClient.listBrands({ page, pageSize: brandsPageSize });
-            if (response.success) {
-                setBrands(response.data);
-                setBrandsTotal(response.meta.total);
-                setBrandsTotalPages(response.meta.totalPages);
-                setBrandsPage(page);
-            }
-        } catch (error) {
-            console.error('Error loading brands:', error);
-        } finally {
-            setLoadingBrands(false);
-        }
-    };
-
     const handleCreateBrand = async (data: CreateBrandFormData) => {
         try {
             const brandData: CreateBrand = {
@@ -71,9 +57,8 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
                 contact_info: data.contact_info,
             };
 
-            const response = await apiClient.createBrand(brandData);
+            const response = await createBrand.mutateAsync(brandData);
             if (response.success) {
-                await loadBrands(); // Recargar marcas
                 brandForm.reset();
                 setShowBrandForm(false);
                 setSubmitMessage({
@@ -101,9 +86,8 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
                 contact_info: data.contact_info,
             };
 
-            const response = await apiClient.updateBrand(editingBrand.id, brandData);
+            const response = await updateBrand.mutateAsync({ id: editingBrand.id, payload: brandData });
             if (response.success) {
-                await loadBrands(); // Recargar marcas
                 brandForm.reset();
                 setEditingBrand(null);
                 setShowBrandForm(false);
@@ -126,8 +110,7 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
         if (!deletingBrand) return;
 
         try {
-            await apiClient.deleteBrand(deletingBrand.id);
-            await loadBrands(); // Recargar marcas
+            await deleteBrand.mutateAsync(deletingBrand.id);
             setDeletingBrand(null);
             setSubmitMessage({
                 type: 'success',
@@ -151,11 +134,6 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
         setShowBrandForm(true);
     };
 
-    // Cargar marcas al montar el componente
-    useEffect(() => {
-        loadBrands();
-    }, []);
-
     return (
         <div className="p-6">
             <div className="flex items-center justify-between mb-6">
@@ -301,12 +279,14 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
                                             >
                                                 ✏️ Editar
                                             </button>
-                                            <button
-                                                onClick={() => setDeletingBrand(brand)}
-                                                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
-                                            >
-                                                🗑️ Eliminar
-                                            </button>
+                                            {can('catalog:delete') && (
+                                                <button
+                                                    onClick={() => setDeletingBrand(brand)}
+                                                    className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                                >
+                                                    🗑️ Eliminar
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -320,7 +300,7 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
                                     </div>
                                     <div className="flex space-x-2">
                                         <button
-                                            onClick={() => loadBrands(brandsPage - 1)}
+                                            onClick={() => setBrandsPage(brandsPage - 1)}
                                             disabled={brandsPage <= 1}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${brandsPage <= 1
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -335,7 +315,7 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
                                                 return (
                                                     <button
                                                         key={pageNum}
-                                                        onClick={() => loadBrands(pageNum)}
+                                                        onClick={() => setBrandsPage(pageNum)}
                                                         className={`px-3 py-1 text-sm font-medium rounded-md ${brandsPage === pageNum
                                                             ? 'text-white bg-blue-600'
                                                             : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
@@ -350,7 +330,7 @@ export default function BrandsTab({ submitMessage, setSubmitMessage }: BrandsTab
                                             )}
                                         </div>
                                         <button
-                                            onClick={() => loadBrands(brandsPage + 1)}
+                                            onClick={() => setBrandsPage(brandsPage + 1)}
                                             disabled={brandsPage >= brandsTotalPages}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${brandsPage >= brandsTotalPages
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
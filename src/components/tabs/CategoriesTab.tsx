@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Category, CreateCategory } from '@/lib/types';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
+import { useCategories } from '@/hooks/useApiQueries';
+import { useCreateCategory, useUpdateCategory, useDeleteCategory } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
 
 const createCategorySchema = z.object({
     name: z.string().min(1, 'El nombre de la categoría es requerido'),
@@ -21,8 +22,7 @@ interface CategoriesTabProps {
 }
 
 export default function CategoriesTab({ submitMessage, setSubmitMessage }: CategoriesTabProps) {
-    const [categories, setCategories] = useState<Category[]>([]);
-    const [loadingCategories, setLoadingCategories] = useState(false);
+    const { can } = useAuth();
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
     const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
     const [showCategoryForm, setShowCategoryForm] = useState(false);
@@ -30,10 +30,13 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
     // Estados para paginación
     const [categoriesPage, setCategoriesPage] = useState(1);
     const [categoriesPageSize] = useState(20);
-    const [categoriesTotal, setCategoriesTotal] = useState(0);
-    const [categoriesTotalPages, setCategoriesTotalPages] = useState(0);
 
-    const apiClient = createApiClient(config.apiUrl);
+    const { data: categories, meta: categoriesMeta, isFetching: loadingCategories } = useCategories({ page: categoriesPage, pageSize: categoriesPageSize });
+    const categoriesTotal = categoriesMeta?.total ?? 0;
+    const categoriesTotalPages = categoriesMeta?.totalPages ?? 0;
+    const createCategory = useCreateCategory();
+    const updateCategory = useUpdateCategory();
+    const deleteCategory = useDeleteCategory();
 
     const categoryForm = useForm<CreateCategoryFormData>({
         resolver: zodResolver(createCategorySchema),
@@ -44,23 +47,6 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
     });
 
     // Funciones para gestión de categorías
-    const loadCategories = async (page: number = categoriesPage) => {
-        setLoadingCategories(true);
-        try {
-            const response = await apiClient.listCategories({ page, pageSize: categoriesPageSize });
-            if (response.success) {
-                setCategories(response.data);
-                setCategoriesTotal(response.meta.total);
-                setCategoriesTotalPages(response.meta.totalPages);
-                setCategoriesPage(page);
-            }
-        } catch (error) {
-            console.error('Error loading categories:', error);
-        } finally {
-            setLoadingCategories(false);
-        }
-    };
-
     const handleCreateCategory = async (data: CreateCategoryFormData) => {
         try {
             const categoryData: CreateCategory = {
@@ -68,9 +54,8 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
                 description: data.description,
             };
 
-            const response = await apiClient.createCategory(categoryData);
+            const response = await createCategory.mutateAsync(categoryData);
             if (response.success) {
-                await loadCategories(); // Recargar categorías
                 categoryForm.reset();
                 setShowCategoryForm(false);
                 setSubmitMessage({
@@ -97,9 +82,8 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
                 description: data.description,
             };
 
-            const response = await apiClient.updateCategory(editingCategory.id, categoryData);
+            const response = await updateCategory.mutateAsync({ id: editingCategory.id, payload: categoryData });
             if (response.success) {
-                await loadCategories(); // Recargar categorías
                 categoryForm.reset();
                 setEditingCategory(null);
                 setShowCategoryForm(false);
@@ -122,8 +106,7 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
         if (!deletingCategory) return;
 
         try {
-            await apiClient.deleteCategory(deletingCategory.id);
-            await loadCategories(); // Recargar categorías
+            await deleteCategory.mutateAsync(deletingCategory.id);
             setDeletingCategory(null);
             setSubmitMessage({
                 type: 'success',
@@ -146,11 +129,6 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
         setShowCategoryForm(true);
     };
 
-    // Cargar categorías al montar el componente
-    useEffect(() => {
-        loadCategories();
-    }, []);
-
     return (
         <div className="p-6">
             <div className="flex items-center justify-between mb-6">
@@ -272,12 +250,14 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
                                             >
                                                 ✏️ Editar
                                             </button>
-                                            <button
-                                                onClick={() => setDeletingCategory(category)}
-                                                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
-                                            >
-                                                🗑️ Eliminar
-                                            </button>
+                                            {can('catalog:delete') && (
+                                                <button
+                                                    onClick={() => setDeletingCategory(category)}
+                                                    className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                                >
+                                                    🗑️ Eliminar
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -291,7 +271,7 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
                                     </div>
                                     <div className="flex space-x-2">
                                         <button
-                                            onClick={() => loadCategories(categoriesPage - 1)}
+                                            onClick={() => setCategoriesPage(categoriesPage - 1)}
                                             disabled={categoriesPage <= 1}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${categoriesPage <= 1
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -306,7 +286,7 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
                                                 return (
                                                     <button
                                                         key={pageNum}
-                                                        onClick={() => loadCategories(pageNum)}
+                                                        onClick={() => setCategoriesPage(pageNum)}
                                                         className={`px-3 py-1 text-sm font-medium rounded-md ${categoriesPage === pageNum
                                                             ? 'text-white bg-blue-600'
                                                             : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
@@ -321,7 +301,7 @@ export default function CategoriesTab({ submitMessage, setSubmitMessage }: Categ
                                             )}
                                         </div>
                                         <button
-                                            onClick={() => loadCategories(categoriesPage + 1)}
+                                            onClick={() => setCategoriesPage(categoriesPage + 1)}
                                             disabled={categoriesPage >= categoriesTotalPages}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${categoriesPage >= categoriesTotalPages
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
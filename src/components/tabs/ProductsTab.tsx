@@ -1,17 +1,22 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Amenity, CreateAmenity, Brand, Category } from '@/lib/types';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
+import { Amenity, CreateAmenity } from '@/lib/types';
+import { useAmenities, useCategories, useBrands, useSuppliers } from '@/hooks/useApiQueries';
+import { useCreateAmenity, useUpdateAmenity, useDeleteAmenity } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { FileUpload } from '@/components/ui/FileUpload';
+import { PRODUCT_IMAGE_PROCESSING } from '@/lib/imageProcessing';
+import { useUploadSession } from '@/hooks/useUploadSession';
 
 const createAmenitySchema = z.object({
     name: z.string().min(1, 'El nombre del producto es requerido'),
     category_id: z.string().min(1, 'La categoría es requerida'),
     brand_id: z.string().optional(),
+    preferred_supplier_id: z.string().optional(),
     reference: z.string().optional(),
     model: z.string().optional(),
     description: z.string().optional(),
@@ -26,8 +31,7 @@ interface ProductsTabProps {
 }
 
 export default function ProductsTab({ submitMessage, setSubmitMessage }: ProductsTabProps) {
-    const [amenities, setAmenities] = useState<Amenity[]>([]);
-    const [loadingAmenities, setLoadingAmenities] = useState(false);
+    const { can } = useAuth();
     const [editingAmenity, setEditingAmenity] = useState<Amenity | null>(null);
     const [deletingAmenity, setDeletingAmenity] = useState<Amenity | null>(null);
     const [showAmenityForm, setShowAmenityForm] = useState(false);
@@ -35,14 +39,22 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
     // Estados para paginación
     const [amenitiesPage, setAmenitiesPage] = useState(1);
     const [amenitiesPageSize] = useState(20);
-    const [amenitiesTotal, setAmenitiesTotal] = useState(0);
-    const [amenitiesTotalPages, setAmenitiesTotalPages] = useState(0);
 
-    // Estados para categorías y marcas (para los selects)
-    const [categories, setCategories] = useState<Category[]>([]);
-    const [brands, setBrands] = useState<Brand[]>([]);
+    const { data: amenities, meta: amenitiesMeta, isFetching: loadingAmenities } = useAmenities({ page: amenitiesPage, pageSize: amenitiesPageSize });
+    const amenitiesTotal = amenitiesMeta?.total ?? 0;
+    const amenitiesTotalPages = amenitiesMeta?.totalPages ?? 0;
+    const createAmenity = useCreateAmenity();
+    const updateAmenity = useUpdateAmenity();
+    const deleteAmenity = useDeleteAmenity();
 
-    const apiClient = createApiClient(config.apiUrl);
+    // Categorías, marcas y proveedores para los selects: hasta 100 (suficiente para la mayoría de casos)
+    const { data: categories } = useCategories({ page: 1, pageSize: 100 });
+    const { data: brands } = useBrands({ page: 1, pageSize: 100 });
+    const { data: suppliers } = useSuppliers({ page: 1, pageSize: 100 });
+
+    // Imágenes del producto (y sus miniaturas), fuera del formulario como en los wizards
+    const [amenityImages, setAmenityImages] = useState<{ urls: string[]; thumbnails: string[] }>({ urls: [], thumbnails: [] });
+    const amenityUploads = useUploadSession();
 
     const amenityForm = useForm<CreateAmenityFormData>({
         resolver: zodResolver(createAmenitySchema),
@@ -50,6 +62,7 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
             name: '',
             category_id: '',
             brand_id: '',
+            preferred_supplier_id: '',
             reference: '',
             model: '',
             description: '',
@@ -58,64 +71,26 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
     });
 
     // Funciones para gestión de productos
-    const loadAmenities = async (page: number = amenitiesPage) => {
-        setLoadingAmenities(true);
-        try {
-            const response = await apiClient.listAmenities({ page, pageSize: amenitiesPageSize });
-            if (response.success) {
-                setAmenities(response.data);
-                setAmenitiesTotal(response.meta.total);
-                setAmenitiesTotalPages(response.meta.totalPages);
-                setAmenitiesPage(page);
-            }
-        } catch (error) {
-            console.error('Error loading amenities:', error);
-        } finally {
-            setLoadingAmenities(false);
-        }
-    };
-
-    const loadCategories = async () => {
-        try {
-            // Cargar hasta 100 categorías para los selects (suficiente para la mayoría de casos)
-            const response = await apiClient.listCategories({ page: 1, pageSize: 100 });
-            if (response.success) {
-                setCategories(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading categories:', error);
-        }
-    };
-
-    const loadBrands = async () => {
-        try {
-            // Cargar hasta 100 marcas para los selects (suficiente para la mayoría de casos)
-            const response = await apiClient.listBrands({ page: 1, pageSize: 100 });
-            if (response.success) {
-                setBrands(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading brands:', error);
-        }
-    };
-
     const handleCreateAmenity = async (data: CreateAmenityFormData) => {
         try {
             const amenityData: CreateAmenity = {
                 name: data.name,
                 category_id: data.category_id,
                 brand_id: data.brand_id || '',
+                preferred_supplier_id: data.preferred_supplier_id || '',
                 reference: data.reference || '',
                 model: data.model || '',
                 description: data.description || '',
                 base_price: data.base_price,
-                images: [],
+                images: amenityImages.urls,
+                thumbnail_urls: amenityImages.thumbnails,
             };
 
-            const response = await apiClient.createAmenity(amenityData);
+            const response = await createAmenity.mutateAsync(amenityData);
             if (response.success) {
-                await loadAmenities(); // Recargar productos
+                await amenityUploads.commit();
                 amenityForm.reset();
+                setAmenityImages({ urls: [], thumbnails: [] });
                 setShowAmenityForm(false);
                 setSubmitMessage({
                     type: 'success',
@@ -140,17 +115,20 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                 name: data.name,
                 category_id: data.category_id,
                 brand_id: data.brand_id || '',
+                preferred_supplier_id: data.preferred_supplier_id || '',
                 reference: data.reference || '',
                 model: data.model || '',
                 description: data.description || '',
                 base_price: data.base_price,
-                images: [],
+                images: amenityImages.urls,
+                thumbnail_urls: amenityImages.thumbnails,
             };
 
-            const response = await apiClient.updateAmenity(editingAmenity.id, amenityData);
+            const response = await updateAmenity.mutateAsync({ id: editingAmenity.id, payload: amenityData });
             if (response.success) {
-                await loadAmenities(); // Recargar productos
+                await amenityUploads.commit();
                 amenityForm.reset();
+                setAmenityImages({ urls: [], thumbnails: [] });
                 setEditingAmenity(null);
                 setShowAmenityForm(false);
                 setSubmitMessage({
@@ -172,8 +150,7 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
         if (!deletingAmenity) return;
 
         try {
-            await apiClient.deleteAmenity(deletingAmenity.id);
-            await loadAmenities(); // Recargar productos
+            await deleteAmenity.mutateAsync(deletingAmenity.id);
             setDeletingAmenity(null);
             setSubmitMessage({
                 type: 'success',
@@ -190,24 +167,21 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
     };
 
     const openEditAmenity = (amenity: Amenity) => {
+        // Las subidas del producto que se estaba editando no llegaron a guardarse
+        amenityUploads.discard();
         setEditingAmenity(amenity);
         amenityForm.setValue('name', amenity.name);
         amenityForm.setValue('category_id', amenity.category_id);
         amenityForm.setValue('brand_id', amenity.brand_id || '');
+        amenityForm.setValue('preferred_supplier_id', amenity.preferred_supplier_id || '');
         amenityForm.setValue('reference', amenity.reference || '');
         amenityForm.setValue('model', amenity.model || '');
         amenityForm.setValue('description', amenity.description || '');
         amenityForm.setValue('base_price', amenity.base_price || 0);
+        setAmenityImages({ urls: amenity.images || [], thumbnails: amenity.thumbnail_urls || [] });
         setShowAmenityForm(true);
     };
 
-    // Cargar datos al montar el componente
-    useEffect(() => {
-        loadAmenities();
-        loadCategories();
-        loadBrands();
-    }, []);
-
     return (
         <div className="p-6">
             <div className="flex items-center justify-between mb-6">
@@ -299,6 +273,24 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                 </select>
                             </div>
 
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Proveedor habitual (opcional)
+                                </label>
+                                <select
+                                    {...amenityForm.register('preferred_supplier_id')}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+                                >
+                                    <option value="">Sin proveedor habitual</option>
+                                    {suppliers.map((supplier) => (
+                                        <option key={supplier.id} value={supplier.id}>
+                                            {supplier.name}
+                                        </option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-gray-500 mt-1">Se propone al añadir el producto al inventario de una casa</p>
+                            </div>
+
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -356,6 +348,20 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                 )}
                             </div>
 
+                            <FileUpload
+                                key={editingAmenity?.id ?? 'new'}
+                                label="Imágenes del producto"
+                                accept="image/*"
+                                maxFiles={6}
+                                maxSize={5}
+                                basePath="amenities/images"
+                                existingUrls={amenityImages.urls}
+                                existingThumbnailUrls={amenityImages.thumbnails}
+                                imageProcessing={PRODUCT_IMAGE_PROCESSING}
+                                uploadSession={amenityUploads}
+                                onUrlsChange={(urls, thumbnails) => setAmenityImages({ urls, thumbnails })}
+                            />
+
                             <div className="flex space-x-3">
                                 <button
                                     type="button"
@@ -363,6 +369,8 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                         setShowAmenityForm(false);
                                         setEditingAmenity(null);
                                         amenityForm.reset();
+                                        setAmenityImages({ urls: [], thumbnails: [] });
+                                        amenityUploads.discard();
                                     }}
                                     className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
                                 >
@@ -395,6 +403,13 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                             <div className="max-h-96 overflow-y-auto space-y-2">
                                 {amenities.map((amenity) => (
                                     <div key={amenity.id} className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                                        {amenity.images?.length > 0 && (
+                                            <img
+                                                src={amenity.thumbnail_urls?.[0] || amenity.images[0]}
+                                                alt={amenity.name}
+                                                className="w-12 h-12 object-cover rounded border border-gray-200 mr-3 flex-shrink-0"
+                                            />
+                                        )}
                                         <div className="flex-1">
                                             <div className="font-medium text-gray-900">{amenity.name}</div>
                                             <div className="text-sm text-gray-500 mt-1">
@@ -421,12 +436,14 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                             >
                                                 ✏️ Editar
                                             </button>
-                                            <button
-                                                onClick={() => setDeletingAmenity(amenity)}
-                                                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
-                                            >
-                                                🗑️ Eliminar
-                                            </button>
+                                            {can('catalog:delete') && (
+                                                <button
+                                                    onClick={() => setDeletingAmenity(amenity)}
+                                                    className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                                >
+                                                    🗑️ Eliminar
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -440,7 +457,7 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                     </div>
                                     <div className="flex space-x-2">
                                         <button
-                                            onClick={() => loadAmenities(amenitiesPage - 1)}
+                                            onClick={() => setAmenitiesPage(amenitiesPage - 1)}
                                             disabled={amenitiesPage <= 1}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${amenitiesPage <= 1
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -455,7 +472,7 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                                 return (
                                                     <button
                                                         key={pageNum}
-                                                        onClick={() => loadAmenities(pageNum)}
+                                                        onClick={() => setAmenitiesPage(pageNum)}
                                                         className={`px-3 py-1 text-sm font-medium rounded-md ${amenitiesPage === pageNum
                                                             ? 'text-white bg-blue-600'
                                                             : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
@@ -470,7 +487,7 @@ export default function ProductsTab({ submitMessage, setSubmitMessage }: Product
                                             )}
                                         </div>
                                         <button
-                                            onClick={() => loadAmenities(amenitiesPage + 1)}
+                                            onClick={() => setAmenitiesPage(amenitiesPage + 1)}
                                             disabled={amenitiesPage >= amenitiesTotalPages}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${amenitiesPage >= amenitiesTotalPages
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -5,8 +5,9 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Supplier, CreateSupplier } from '@/lib/types';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
+import { useSuppliers } from '@/hooks/useApiQueries';
+import { useCreateSupplier, useUpdateSupplier, useDeleteSupplier } from '@/hooks/useApiMutations';
+import { useAuth } from '@/components/providers/AuthProvider';
 
 import { Modal } from '@/components/ui/Modal';
 
@@ -26,17 +27,19 @@ interface SuppliersTabProps {
 }
 
 export default function SuppliersTab({ submitMessage, setSubmitMessage }: SuppliersTabProps) {
-    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
-    const [loading, setLoading] = useState(false);
+    const { can } = useAuth();
     const [currentPage, setCurrentPage] = useState(1);
-    const [totalPages, setTotalPages] = useState(0);
-    const [totalSuppliers, setTotalSuppliers] = useState(0);
     const [pageSize] = useState(20);
     const [showSupplierForm, setShowSupplierForm] = useState(false);
     const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
     const [deletingSupplier, setDeletingSupplier] = useState<Supplier | null>(null);
 
-    const apiClient = createApiClient(config.apiUrl);
+    const { data: suppliers, meta: suppliersMeta, isFetching: loading, error: suppliersError } = useSuppliers({ page: currentPage, pageSize });
+    const totalPages = suppliersMeta?.totalPages ?? 0;
+    const totalSuppliers = suppliersMeta?.total ?? 0;
+    const createSupplier = useCreateSupplier();
+    const updateSupplier = useUpdateSupplier();
+    const deleteSupplier = useDeleteSupplier();
 
     // Formulario
     const supplierForm = useForm<CreateSupplierFormData>({
@@ -49,29 +52,13 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
         }
     });
 
-    // Cargar proveedores
-    const loadSuppliers = async (page: number = currentPage) => {
-        setLoading(true);
-        try {
-            const response = await apiClient.listSuppliers({ page, pageSize });
-            if (response.success) {
-                setSuppliers(response.data);
-                setTotalPages(response.meta.totalPages);
-                setTotalSuppliers(response.meta.total);
-                setCurrentPage(page);
-            }
-        } catch (error) {
-            console.error('Error loading suppliers:', error);
+    // Avisar si falla la carga de proveedores
+    useEffect(() => {
+        if (suppliersError) {
+            console.error('Error loading suppliers:', suppliersError);
             setSubmitMessage({ type: 'error', message: 'Error al cargar los proveedores' });
-        } finally {
-            setLoading(false);
         }
-    };
-
-    // Cargar datos iniciales
-    useEffect(() => {
-        loadSuppliers();
-    }, []);
+    }, [suppliersError, setSubmitMessage]);
 
     // Crear proveedor
     const handleCreateSupplier = async (data: CreateSupplierFormData) => {
@@ -83,12 +70,12 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
                 phone: data.phone,
             };
 
-            const response = await apiClient.createSupplier(payload);
+            const response = await createSupplier.mutateAsync(payload);
             if (response.success) {
                 setSubmitMessage({ type: 'success', message: 'Proveedor creado exitosamente' });
                 setShowSupplierForm(false);
                 supplierForm.reset();
-                loadSuppliers(1); // Recargar primera página
+                setCurrentPage(1); // Volver a la primera página
             }
         } catch (error) {
             console.error('Error creating supplier:', error);
@@ -108,13 +95,12 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
                 phone: data.phone,
             };
 
-            const response = await apiClient.updateSupplier(editingSupplier.id, payload);
+            const response = await updateSupplier.mutateAsync({ id: editingSupplier.id, payload });
             if (response.success) {
                 setSubmitMessage({ type: 'success', message: 'Proveedor actualizado exitosamente' });
                 setShowSupplierForm(false);
                 setEditingSupplier(null);
                 supplierForm.reset();
-                loadSuppliers(currentPage);
             }
         } catch (error) {
             console.error('Error updating supplier:', error);
@@ -127,10 +113,9 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
         if (!deletingSupplier) return;
 
         try {
-            await apiClient.deleteSupplier(deletingSupplier.id);
+            await deleteSupplier.mutateAsync(deletingSupplier.id);
             setSubmitMessage({ type: 'success', message: 'Proveedor eliminado exitosamente' });
             setDeletingSupplier(null);
-            loadSuppliers(currentPage);
         } catch (error) {
             console.error('Error deleting supplier:', error);
             setSubmitMessage({ type: 'error', message: 'Error al eliminar el proveedor' });
@@ -319,12 +304,14 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
                                             >
                                                 ✏️ Editar
                                             </button>
-                                            <button
-                                                onClick={() => openDeleteSupplier(supplier)}
-                                                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
-                                            >
-                                                🗑️ Eliminar
-                                            </button>
+                                            {can('catalog:delete') && (
+                                                <button
+                                                    onClick={() => openDeleteSupplier(supplier)}
+                                                    className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100"
+                                                >
+                                                    🗑️ Eliminar
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -338,7 +325,7 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
                                     </div>
                                     <div className="flex space-x-2">
                                         <button
-                                            onClick={() => loadSuppliers(currentPage - 1)}
+                                            onClick={() => setCurrentPage(currentPage - 1)}
                                             disabled={currentPage <= 1}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage <= 1
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -353,7 +340,7 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
                                                 return (
                                                     <button
                                                         key={pageNum}
-                                                        onClick={() => loadSuppliers(pageNum)}
+                                                        onClick={() => setCurrentPage(pageNum)}
                                                         className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage === pageNum
                                                             ? 'text-white bg-blue-600'
                                                             : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
@@ -368,7 +355,7 @@ export default function SuppliersTab({ submitMessage, setSubmitMessage }: Suppli
                                             )}
                                         </div>
                                         <button
-                                            onClick={() => loadSuppliers(currentPage + 1)}
+                                            onClick={() => setCurrentPage(currentPage + 1)}
                                             disabled={currentPage >= totalPages}
                                             className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage >= totalPages
                                                 ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -1,5 +1,14 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { uploadMultipleFiles, deleteMultipleFiles } from '@/lib/firebase';
+import { DEFAULT_UPLOAD_CONCURRENCY, firebaseStorageAdapter } from '@/lib/firebase';
+import {
+    buildUploadPath,
+    isUploadCanceled,
+    runWithConcurrency,
+    type StorageAdapter,
+    type UploadHandle,
+} from '@/lib/storage';
+import { canProcessImage, processImage, type ImageProcessingOptions } from '@/lib/imageProcessing';
+import type { UploadSession } from '@/hooks/useUploadSession';
 
 interface FileUploadProps {
     label?: string;
@@ -7,20 +16,35 @@ interface FileUploadProps {
     accept?: string;
     maxFiles?: number;
     maxSize?: number; // en MB
-    onUrlsChange: (urls: string[]) => void;
+    onUrlsChange: (urls: string[], thumbnailUrls: string[]) => void; // miniaturas alineadas por índice ('' si no hay)
     error?: string;
     disabled?: boolean;
     className?: string;
     basePath?: string; // Carpeta en Firebase Storage
     existingUrls?: string[]; // URLs existentes para mostrar
+    existingThumbnailUrls?: string[]; // Miniaturas de las URLs existentes
+    imageProcessing?: ImageProcessingOptions; // Redimensionar/convertir imágenes antes de subir
+    concurrency?: number; // Subidas simultáneas
+    storageAdapter?: StorageAdapter; // Backend de almacenamiento (Firebase por defecto)
+    uploadSession?: UploadSession; // Seguimiento de subidas para borrarlas si el formulario no se guarda
 }
 
+type FileUploadStatus = 'pending' | 'queued' | 'processing' | 'uploading' | 'error' | 'canceled';
+
+// Con procesado activo se aceptan originales más pesados: el límite se aplica al resultado
+const MAX_SOURCE_IMAGE_MB = 40;
+
 interface FileWithPreview {
     file: File;
     preview: string;
     id: string;
+    status: FileUploadStatus;
+    progress: number; // 0-100
+    error?: string;
 }
 
+const isActiveUpload = (f: FileWithPreview) => f.status === 'queued' || f.status === 'processing' || f.status === 'uploading';
+
 export function FileUpload({
     label,
     multiple = true,
@@ -32,17 +56,34 @@ export function FileUpload({
     disabled = false,
     className = '',
     basePath = 'uploads',
-    existingUrls = []
+    existingUrls = [],
+    existingThumbnailUrls = [],
+    imageProcessing,
+    concurrency = DEFAULT_UPLOAD_CONCURRENCY,
+    storageAdapter = firebaseStorageAdapter,
+    uploadSession
 }: FileUploadProps) {
     const [files, setFiles] = useState<FileWithPreview[]>([]);
     const [isDragging, setIsDragging] = useState(false);
-    const [isUploading, setIsUploading] = useState(false);
     const [uploadProgress, setUploadProgress] = useState(0);
     const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
     const [uploadMessage, setUploadMessage] = useState('');
     const [uploadedUrls, setUploadedUrls] = useState<string[]>(existingUrls);
+    const [thumbnailUrls, setThumbnailUrls] = useState<string[]>(() => existingUrls.map((_, i) => existingThumbnailUrls[i] || ''));
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Referencias para leer el último estado desde callbacks asíncronos de subida
+    const filesRef = useRef(files);
+    filesRef.current = files;
+    const uploadedUrlsRef = useRef(uploadedUrls);
+    const thumbnailUrlsRef = useRef(thumbnailUrls);
+    // Subidas en curso (para cancelar) y bytes del lote actual (para la barra global)
+    const handlesRef = useRef(new Map<string, UploadHandle>());
+    const canceledRef = useRef(new Set<string>());
+    const batchRef = useRef(new Map<string, { loaded: number; total: number }>());
+
+    const isUploading = files.some(isActiveUpload);
+
     // Validar archivo
     const validateFile = (file: File): string | null => {
         // Validar tipo contra "accept" que puede contener múltiples tokens separados por comas
@@ -71,8 +112,12 @@ export function FileUpload({
             }
         }
 
-        // Validar tamaño
-        if (maxSize && file.size > maxSize * 1024 * 1024) {
+        // Validar tamaño (si la imagen se va a procesar, se valida de nuevo tras reducirla)
+        if (imageProcessing && canProcessImage(file)) {
+            if (file.size > MAX_SOURCE_IMAGE_MB * 1024 * 1024) {
+                return `Imagen demasiado grande. Máximo ${MAX_SOURCE_IMAGE_MB}MB`;
+            }
+        } else if (maxSize && file.size > maxSize * 1024 * 1024) {
             return `Archivo demasiado grande. Máximo ${maxSize}MB`;
         }
 
@@ -101,7 +146,7 @@ export function FileUpload({
                 ? URL.createObjectURL(file)
                 : '';
 
-            newFiles.push({ file, preview, id });
+            newFiles.push({ file, preview, id, status: 'pending', progress: 0 });
         }
 
         setFiles(prev => [...prev, ...newFiles]);
@@ -145,12 +190,43 @@ export function FileUpload({
 
     // Eliminar archivo
     const removeFile = (id: string) => {
+        const removed = filesRef.current.find(f => f.id === id);
+        if (removed?.preview) {
+            URL.revokeObjectURL(removed.preview);
+        }
         setFiles(prev => {
             const updated = prev.filter(f => f.id !== id);
             return updated;
         });
     };
 
+    const updateFile = (id: string, patch: Partial<FileWithPreview>) => {
+        setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...patch } : f)));
+    };
+
+    // Actualiza la lista de URLs (y sus miniaturas) y avisa al formulario
+    const commitUrls = (urls: string[], thumbs: string[]) => {
+        uploadedUrlsRef.current = urls;
+        thumbnailUrlsRef.current = thumbs;
+        setUploadedUrls(urls);
+        setThumbnailUrls(thumbs);
+        onUrlsChange(urls, thumbs);
+    };
+
+    // Progreso global del lote: bytes subidos sobre el total de los archivos en curso
+    const refreshBatchProgress = () => {
+        let loaded = 0;
+        let total = 0;
+        batchRef.current.forEach(entry => {
+            loaded += entry.loaded;
+            total += entry.total;
+        });
+        setUploadProgress(total > 0 ? (loaded / total) * 100 : 0);
+    };
+
+    // Con sesión de subidas, los archivos ya guardados no se borran hasta que se guarda el formulario
+    const releaseUrl = (url: string) => (uploadSession ? uploadSession.release(url) : storageAdapter.delete(url));
+
     // Eliminar una URL específica
     const removeUrl = async (urlToRemove: string) => {
         try {
@@ -158,13 +234,16 @@ export function FileUpload({
             setUploadStatus('uploading');
             setUploadMessage('Eliminando archivo del servidor...');
 
-            // Eliminar archivo del Firebase Storage
-            await deleteMultipleFiles([urlToRemove]);
+            // Eliminar archivo (y su miniatura) del almacenamiento
+            const index = uploadedUrlsRef.current.indexOf(urlToRemove);
+            const thumbnail = thumbnailUrlsRef.current[index];
+            await Promise.all([urlToRemove, thumbnail].filter(Boolean).map(releaseUrl));
 
             // Actualizar estado local
-            const newUrls = uploadedUrls.filter(url => url !== urlToRemove);
-            setUploadedUrls(newUrls);
-            onUrlsChange(newUrls);
+            commitUrls(
+                uploadedUrlsRef.current.filter((_, i) => i !== index),
+                thumbnailUrlsRef.current.filter((_, i) => i !== index)
+            );
 
             // Mostrar confirmación
             setUploadStatus('success');
@@ -186,12 +265,11 @@ export function FileUpload({
             setUploadStatus('uploading');
             setUploadMessage('Eliminando archivos del servidor...');
 
-            // Eliminar archivos del Firebase Storage
-            await deleteMultipleFiles(uploadedUrls);
+            // Eliminar archivos del almacenamiento
+            await Promise.all([...uploadedUrls, ...thumbnailUrls].filter(Boolean).map(releaseUrl));
 
             // Limpiar estado local
-            setUploadedUrls([]);
-            onUrlsChange([]);
+            commitUrls([], []);
 
             // Mostrar confirmación
             setUploadStatus('success');
@@ -204,67 +282,157 @@ export function FileUpload({
         }
     };
 
-    // Subir archivos
-    const uploadFiles = async () => {
-        if (files.length === 0) return;
+    // Sube un archivo con progreso real; nunca lanza: devuelve el resultado final del archivo
+    const uploadOne = async (item: FileWithPreview): Promise<'success' | 'error' | 'canceled'> => {
+        // Cancelado mientras esperaba turno en la cola
+        if (canceledRef.current.has(item.id)) {
+            canceledRef.current.delete(item.id);
+            return 'canceled';
+        }
 
-        setIsUploading(true);
-        setUploadProgress(0);
-        setUploadStatus('uploading');
-        setUploadMessage(`Subiendo ${files.length} archivo${files.length > 1 ? 's' : ''}...`);
+        // Procesar la imagen (redimensionar, quitar EXIF, WebP y miniatura) si está configurado
+        let upload: { file: File; thumbnail?: File } = { file: item.file };
+        if (imageProcessing && canProcessImage(item.file)) {
+            updateFile(item.id, { status: 'processing', progress: 0, error: undefined });
+            try {
+                upload = await processImage(item.file, imageProcessing);
+            } catch (error) {
+                console.error('Error al procesar imagen:', error);
+                updateFile(item.id, { status: 'error', progress: 0, error: 'No se pudo procesar la imagen' });
+                return 'error';
+            }
+            if (canceledRef.current.has(item.id)) {
+                canceledRef.current.delete(item.id);
+                return 'canceled';
+            }
+            if (maxSize && upload.file.size > maxSize * 1024 * 1024) {
+                updateFile(item.id, { status: 'error', progress: 0, error: `Supera ${maxSize}MB tras procesar` });
+                return 'error';
+            }
+        }
 
-        try {
-            const fileArray = files.map(f => f.file);
+        updateFile(item.id, { status: 'uploading', progress: 0, error: undefined });
+        const totalBytes = upload.file.size + (upload.thumbnail?.size ?? 0);
 
-            // Simular progreso durante la subida
-            const progressInterval = setInterval(() => {
-                setUploadProgress(prev => {
-                    if (prev >= 90) return prev;
-                    return prev + Math.random() * 10;
+        // Sube una variante; `offset` son los bytes ya subidos de variantes anteriores
+        const uploadVariant = (variant: File, path: string, offset: number) => {
+            const handle = storageAdapter.upload(variant, path, ({ bytesTransferred }) => {
+                const loaded = offset + bytesTransferred;
+                batchRef.current.set(item.id, { loaded, total: totalBytes });
+                refreshBatchProgress();
+                updateFile(item.id, { progress: totalBytes > 0 ? (loaded / totalBytes) * 100 : 0 });
+            });
+            handlesRef.current.set(item.id, handle);
+            return handle.promise;
+        };
+
+        let url: string | undefined;
+        try {
+            url = await uploadVariant(upload.file, buildUploadPath(basePath, upload.file), 0);
+            const thumbnailUrl = upload.thumbnail
+                ? await uploadVariant(upload.thumbnail, buildUploadPath(`${basePath}/thumbs`, upload.thumbnail), upload.file.size)
+                : '';
+            uploadSession?.track([url, thumbnailUrl]);
+            // El archivo sustituido también queda huérfano
+            if (!multiple && uploadSession) {
+                [...uploadedUrlsRef.current, ...thumbnailUrlsRef.current].filter(Boolean).forEach(previous => {
+                    uploadSession.release(previous);
                 });
-            }, 200);
+            }
+            // Con un solo archivo permitido, la nueva subida sustituye a la anterior
+            commitUrls(
+                multiple ? [...uploadedUrlsRef.current, url] : [url],
+                multiple ? [...thumbnailUrlsRef.current, thumbnailUrl] : [thumbnailUrl]
+            );
+            removeFile(item.id);
+            return 'success';
+        } catch (error) {
+            // Si falló la miniatura, no dejar la imagen principal huérfana
+            if (url) {
+                storageAdapter.delete(url).catch(deleteError => console.error('Error al eliminar archivo:', deleteError));
+            }
+            batchRef.current.delete(item.id);
+            refreshBatchProgress();
+            if (isUploadCanceled(error)) {
+                updateFile(item.id, { status: 'canceled', progress: 0 });
+                return 'canceled';
+            }
+            console.error('Error al subir archivo:', error);
+            updateFile(item.id, { status: 'error', progress: 0, error: 'Error al subir' });
+            return 'error';
+        } finally {
+            handlesRef.current.delete(item.id);
+        }
+    };
 
-            const urls = await uploadMultipleFiles(fileArray, basePath);
+    // Sube varios archivos en paralelo (hasta `concurrency` a la vez) y resume el resultado
+    const runUploads = async (items: FileWithPreview[]) => {
+        if (items.length === 0) return;
 
-            clearInterval(progressInterval);
-            setUploadProgress(100);
+        // Un lote nuevo reinicia la barra global; un reintento durante otro lote se suma a él
+        if (handlesRef.current.size === 0) {
+            batchRef.current = new Map();
+        }
+        items.forEach(item => {
+            canceledRef.current.delete(item.id);
+            batchRef.current.set(item.id, { loaded: 0, total: item.file.size });
+        });
+        setFiles(prev => prev.map(f => (items.some(item => item.id === f.id) ? { ...f, status: 'queued', progress: 0, error: undefined } : f)));
+        refreshBatchProgress();
+
+        setUploadStatus('uploading');
+        setUploadMessage(`Subiendo ${items.length} archivo${items.length > 1 ? 's' : ''}...`);
 
-            onUrlsChange(urls);
-            setUploadedUrls(urls);
+        const results = await runWithConcurrency(items.map(item => () => uploadOne(item)), concurrency);
+        const outcomes = results.map(result => (result.status === 'fulfilled' ? result.value : 'error'));
+        const succeeded = outcomes.filter(o => o === 'success').length;
+        const failed = outcomes.filter(o => o === 'error').length;
+        const canceled = outcomes.filter(o => o === 'canceled').length;
 
+        if (failed === 0 && canceled === 0) {
             // Mostrar mensaje de éxito (mantener progress al 100%)
+            setUploadProgress(100);
             setUploadStatus('success');
-            setUploadMessage(`¡${files.length} archivo${files.length > 1 ? 's' : ''} subido${files.length > 1 ? 's' : ''} exitosamente!`);
+            setUploadMessage(`¡${succeeded} archivo${succeeded > 1 ? 's' : ''} subido${succeeded > 1 ? 's' : ''} exitosamente!`);
+            return;
+        }
 
-            // Limpiar solo los archivos temporales y previsualizaciones
-            setFiles([]);
+        const parts = [`${succeeded} de ${items.length} subidos`];
+        if (failed > 0) parts.push(`${failed} con error`);
+        if (canceled > 0) parts.push(`${canceled} cancelado${canceled > 1 ? 's' : ''}`);
+        setUploadStatus(failed > 0 ? 'error' : 'idle');
+        setUploadMessage(`${parts.join(', ')}. Puedes reintentarlos individualmente.`);
+    };
 
-            // Limpiar previsualizaciones
-            files.forEach(f => {
-                if (f.preview) {
-                    URL.revokeObjectURL(f.preview);
-                }
-            });
+    // Subir archivos
+    const uploadFiles = () => runUploads(files.filter(f => f.status === 'pending' || f.status === 'error' || f.status === 'canceled'));
 
-        } catch (error) {
-            console.error('Error al subir archivos:', error);
-            setUploadStatus('error');
-            setUploadMessage('Error al subir archivos. Inténtalo de nuevo.');
-        } finally {
-            setIsUploading(false);
+    // Reintentar un archivo fallido o cancelado
+    const retryFile = (item: FileWithPreview) => runUploads([item]);
+
+    // Cancelar un archivo en cola o en curso
+    const cancelFile = (id: string) => {
+        const handle = handlesRef.current.get(id);
+        if (handle) {
+            handle.cancel();
+            return;
         }
+        canceledRef.current.add(id);
+        updateFile(id, { status: 'canceled', progress: 0 });
     };
 
-    // Limpiar previsualizaciones al desmontar
+    // Al desmontar: cancelar subidas en curso y limpiar previsualizaciones
     React.useEffect(() => {
+        const handles = handlesRef.current;
         return () => {
-            files.forEach(f => {
+            handles.forEach(handle => handle.cancel());
+            filesRef.current.forEach(f => {
                 if (f.preview) {
                     URL.revokeObjectURL(f.preview);
                 }
             });
         };
-    }, [files]);
+    }, []);
 
     return (
         <div className={`space-y-4 ${className}`}>
@@ -329,7 +497,7 @@ export function FileUpload({
                                     <span>Subiendo...</span>
                                 </>
                             ) : (
-                                <span>Subir archivos</span>
+                                <span>{files.some(f => f.status !== 'pending') ? 'Subir pendientes' : 'Subir archivos'}</span>
                             )}
                         </button>
                     </div>
@@ -352,20 +520,65 @@ export function FileUpload({
                                     )}
                                 </div>
 
-                                {/* Botón eliminar */}
-                                <button
-                                    type="button"
-                                    onClick={() => removeFile(fileWithPreview.id)}
-                                    disabled={isUploading}
-                                    className="absolute top-1 right-1 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity"
-                                >
-                                    ×
-                                </button>
+                                {/* Botón eliminar (no disponible mientras el archivo se sube) */}
+                                {!isActiveUpload(fileWithPreview) && (
+                                    <button
+                                        type="button"
+                                        onClick={() => removeFile(fileWithPreview.id)}
+                                        className="absolute top-1 right-1 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+                                    >
+                                        ×
+                                    </button>
+                                )}
+
+                                {/* Progreso del archivo */}
+                                {isActiveUpload(fileWithPreview) && (
+                                    <div className="mt-1 w-full bg-gray-200 rounded-full h-1">
+                                        <div
+                                            className="h-1 rounded-full bg-blue-600 transition-all duration-200"
+                                            style={{ width: `${fileWithPreview.progress}%` }}
+                                        />
+                                    </div>
+                                )}
 
                                 {/* Nombre del archivo */}
                                 <p className="text-xs text-gray-600 mt-1 truncate">
                                     {fileWithPreview.file.name}
                                 </p>
+
+                                {/* Estado y acciones por archivo */}
+                                {isActiveUpload(fileWithPreview) && (
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className="text-gray-500">
+                                            {fileWithPreview.status === 'queued'
+                                                ? 'En cola'
+                                                : fileWithPreview.status === 'processing'
+                                                    ? 'Procesando...'
+                                                    : `${Math.round(fileWithPreview.progress)}%`}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => cancelFile(fileWithPreview.id)}
+                                            className="text-red-600 hover:text-red-800"
+                                        >
+                                            Cancelar
+                                        </button>
+                                    </div>
+                                )}
+                                {(fileWithPreview.status === 'error' || fileWithPreview.status === 'canceled') && (
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className={fileWithPreview.status === 'error' ? 'text-red-600' : 'text-gray-500'}>
+                                            {fileWithPreview.status === 'error' ? fileWithPreview.error : 'Cancelado'}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => retryFile(fileWithPreview)}
+                                            className="text-blue-600 hover:text-blue-800"
+                                        >
+                                            Reintentar
+                                        </button>
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -409,6 +622,9 @@ export function FileUpload({
                             <span>{uploadMessage}</span>
                         </div>
                     )}
+                    {uploadStatus === 'idle' && (
+                        <span>{uploadMessage}</span>
+                    )}
                 </div>
             )}
 
@@ -436,7 +652,7 @@ export function FileUpload({
                                 {/* Imagen */}
                                 <div className="aspect-square bg-gray-200 rounded-lg overflow-hidden">
                                     <img
-                                        src={url}
+                                        src={thumbnailUrls[index] || url}
                                         alt={`Archivo ${index + 1}`}
                                         className="w-full h-full object-cover"
                                         onError={(e) => {
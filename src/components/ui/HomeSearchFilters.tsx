@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import type { HomesSort } from '@/lib/types';
+import { HOMES_SORT_OPTIONS } from '@/hooks/useHomeFilters';
 
 interface HomeSearchFiltersProps {
     searchQuery: string;
@@ -8,6 +9,12 @@ interface HomeSearchFiltersProps {
     destinationFilter: string;
     onDestinationChange: (value: string) => void;
     destinations: string[];
+    // Filtros opcionales de completitud (0-100) y orden
+    minCompleteness?: number;
+    maxCompleteness?: number;
+    onCompletenessChange?: (min: number | undefined, max: number | undefined) => void;
+    sort?: HomesSort;
+    onSortChange?: (value: HomesSort | undefined) => void;
     isLoading?: boolean;
     hasLoadedOnce?: boolean;
     className?: string;
@@ -20,11 +27,21 @@ export default function HomeSearchFilters({
     destinationFilter,
     onDestinationChange,
     destinations,
+    minCompleteness,
+    maxCompleteness,
+    onCompletenessChange,
+    sort,
+    onSortChange,
     isLoading = false,
     hasLoadedOnce = false,
     className = "",
     showLoadingIndicator = true
 }: HomeSearchFiltersProps) {
+    const parsePercent = (value: string) => {
+        if (value === '') return undefined;
+        return Math.min(100, Math.max(0, Number(value)));
+    };
+
     return (
         <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
             <div className="flex flex-col md:flex-row gap-4">
@@ -63,6 +80,54 @@ export default function HomeSearchFilters({
                         ))}
                     </select>
                 </div>
+                {onCompletenessChange && (
+                    <div className="md:w-56">
+                        <span className="block text-sm font-medium text-gray-700 mb-2">
+                            Completitud (%)
+                        </span>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                aria-label="Completitud mínima"
+                                placeholder="Mín"
+                                value={minCompleteness ?? ''}
+                                onChange={(e) => onCompletenessChange(parsePercent(e.target.value), maxCompleteness)}
+                                className="text-gray-700 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                            <span className="text-gray-400">–</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                aria-label="Completitud máxima"
+                                placeholder="Máx"
+                                value={maxCompleteness ?? ''}
+                                onChange={(e) => onCompletenessChange(minCompleteness, parsePercent(e.target.value))}
+                                className="text-gray-700 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                        </div>
+                    </div>
+                )}
+                {onSortChange && (
+                    <div className="md:w-48">
+                        <label htmlFor="sort" className="block text-sm font-medium text-gray-700 mb-2">
+                            Ordenar por
+                        </label>
+                        <select
+                            id="sort"
+                            value={sort ?? ''}
+                            onChange={(e) => onSortChange((e.target.value || undefined) as HomesSort | undefined)}
+                            className="text-gray-700 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                            <option value="">Por defecto</option>
+                            {HOMES_SORT_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
             </div>
         </div>
     );
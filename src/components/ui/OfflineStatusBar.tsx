@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { useOffline } from '@/components/providers/OfflineProvider';
+import { outboxLabel } from '@/lib/offline';
+
+// Aviso de modo sin conexión, cambios pendientes de enviar y conflictos de la última sincronización
+export function OfflineStatusBar() {
+    const { isOnline, outbox, conflicts, isSyncing, sync, dismissConflict } = useOffline();
+    const [showConflicts, setShowConflicts] = useState(false);
+
+    if (isOnline && outbox.length === 0 && conflicts.length === 0) return null;
+
+    return (
+        <>
+            <div className={`px-4 py-2 text-sm flex flex-wrap items-center justify-between gap-2 print:hidden ${isOnline ? 'bg-blue-50 text-blue-800 border-b border-blue-200' : 'bg-yellow-50 text-yellow-800 border-b border-yellow-200'}`}>
+                <span>
+                    {isOnline ? '🔄' : '📴'} {isOnline ? 'Conectado' : 'Sin conexión: se muestran los datos descargados'}
+                    {outbox.length > 0 && ` • ${outbox.length} cambios pendientes de enviar`}
+                </span>
+                <div className="flex items-center gap-3">
+                    {conflicts.length > 0 && (
+                        <button onClick={() => setShowConflicts(true)} className="font-medium text-red-700 hover:text-red-900">
+                            ⚠️ {conflicts.length} conflictos
+                        </button>
+                    )}
+                    {isOnline && outbox.length > 0 && (
+                        <button
+                            onClick={() => sync()}
+                            disabled={isSyncing}
+                            className="font-medium hover:underline disabled:opacity-50"
+                        >
+                            {isSyncing ? 'Sincronizando...' : 'Sincronizar ahora'}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Cambios rechazados por el backend al sincronizar */}
+            {showConflicts && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div className="flex min-h-screen items-center justify-center p-4">
+                        <div className="fixed inset-0 bg-black opacity-30" onClick={() => setShowConflicts(false)}></div>
+                        <div className="relative bg-white rounded-lg shadow-lg max-w-lg w-full p-6">
+                            <h3 className="text-lg font-medium text-gray-900 mb-1">Cambios no sincronizados</h3>
+                            <p className="text-sm text-gray-500 mb-4">
+                                Se hicieron sin conexión y el servidor los rechazó, normalmente porque alguien cambió
+                                los mismos datos entre tanto. Revísalos y vuelve a hacerlos si siguen siendo necesarios.
+                            </p>
+                            {conflicts.length === 0 ? (
+                                <p className="text-sm text-gray-500 text-center py-4">No quedan conflictos</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-200 max-h-[50vh] overflow-y-auto">
+                                    {conflicts.map(conflict => (
+                                        <li key={conflict.seq} className="py-3 flex items-start justify-between gap-3">
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-medium text-gray-900">{outboxLabel(conflict.entry)}</p>
+                                                <p className="text-sm text-red-600">{conflict.message}</p>
+                                                <p className="text-xs text-gray-500">
+                                                    Hecho el {new Date(conflict.entry.queuedAt).toLocaleString('es-ES')}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => dismissConflict(conflict.seq)}
+                                                className="shrink-0 px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100"
+                                            >
+                                                Descartar
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <div className="flex justify-end mt-6">
+                                <button
+                                    onClick={() => setShowConflicts(false)}
+                                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                                >
+                                    Cerrar
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { qrCodeDataUrl } from '@/lib/guestLinks';
+
+type QrCodeProps = {
+    value: string;
+    size?: number;
+    className?: string;
+    alt?: string;
+};
+
+// Código QR generado en el navegador a partir de un texto (normalmente una URL)
+export function QrCode({ value, size = 512, className = '', alt = 'Código QR' }: QrCodeProps) {
+    const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        qrCodeDataUrl(value, size)
+            .then(url => {
+                if (!cancelled) setDataUrl(url);
+            })
+            .catch(error => console.error('Error al generar el código QR:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [value, size]);
+
+    if (!dataUrl) {
+        return <div className={`bg-gray-100 animate-pulse ${className}`} aria-label={alt} />;
+    }
+
+    return <img src={dataUrl} alt={alt} className={className} />;
+}
@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState, useCallback, useEffect } from 'react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { canAccessRoute, ROLE_LABELS } from '@/lib/auth';
 
 type SidebarProps = {
     open: boolean;
@@ -12,6 +14,7 @@ type SidebarProps = {
 
 export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
     const pathname = usePathname();
+    const { user, role, signOut } = useAuth();
 
     const isActive = useCallback((path: string) => pathname === path, [pathname]);
 
@@ -30,6 +33,27 @@ export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
                 </svg>
             )
         },
+        {
+            href: '/restock', label: 'Reposición', icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+            )
+        },
+        {
+            href: '/purchase-orders', label: 'Pedidos', icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+            )
+        },
+        {
+            href: '/reports', label: 'Informes', icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+            )
+        },
         {
             href: '/wizard/styling-guides', label: 'Gestionar Guías de Estilo', icon: (
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -37,6 +61,13 @@ export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
                 </svg>
             )
         },
+        {
+            href: '/wizard/playbook-templates', label: 'Plantillas de Playbooks', icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                </svg>
+            )
+        },
         {
             href: '/wizard/technical-docs', label: 'Gestionar Documentación', icon: (
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -51,8 +82,26 @@ export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
                 </svg>
             )
         },
+        {
+            href: '/admin/storage', label: 'Auditoría de Archivos', icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+                </svg>
+            )
+        },
     ];
 
+    // Solo se muestran las secciones a las que el rol tiene acceso
+    const visibleNavItems = navItems.filter(item => canAccessRoute(role, item.href));
+
+    const handleSignOut = async () => {
+        try {
+            await signOut();
+        } catch (error) {
+            console.error('Error al cerrar sesión:', error);
+        }
+    };
+
     return (
         <>
             {/* Botón toggle */}
@@ -60,7 +109,7 @@ export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
                 type="button"
                 aria-label="Abrir/cerrar menú"
                 onClick={onToggle}
-                className="fixed top-4 left-4 z-50 inline-flex items-center justify-center rounded-md border border-gray-300 bg-white p-2 text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="fixed top-4 left-4 z-50 inline-flex print:hidden items-center justify-center rounded-md border border-gray-300 bg-white p-2 text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
                 <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
@@ -71,14 +120,14 @@ export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
 
             {/* Sidebar */}
             <aside
-                className={`fixed left-0 top-0 z-40 h-full w-64 transform border-r border-gray-200 bg-white shadow-sm transition-transform duration-200 ${open ? 'translate-x-0' : '-translate-x-full'}`}
+                className={`fixed left-0 top-0 z-40 flex h-full print:hidden w-64 flex-col transform border-r border-gray-200 bg-white shadow-sm transition-transform duration-200 ${open ? 'translate-x-0' : '-translate-x-full'}`}
             >
                 <div className="flex h-16 items-center px-4">
                     <span className="text-lg font-semibold text-gray-900">VIVLA Guides</span>
                 </div>
-                <nav className="px-2 py-4">
+                <nav className="flex-1 overflow-y-auto px-2 py-4">
                     <ul className="space-y-1">
-                        {navItems.map(item => (
+                        {visibleNavItems.map(item => (
                             <li key={item.href}>
                                 <Link
                                     href={item.href}
@@ -94,6 +143,25 @@ export function Sidebar({ open, onToggle, onClose }: SidebarProps) {
                         ))}
                     </ul>
                 </nav>
+
+                {/* Usuario en sesión */}
+                {user && (
+                    <div className="border-t border-gray-200 px-4 py-3">
+                        <p className="truncate text-sm font-medium text-gray-900" title={user.email ?? undefined}>
+                            {user.displayName || user.email}
+                        </p>
+                        {role && (
+                            <p className="text-xs text-gray-500">{ROLE_LABELS[role]}</p>
+                        )}
+                        <button
+                            type="button"
+                            onClick={handleSignOut}
+                            className="mt-2 text-sm font-medium text-red-600 hover:text-red-800"
+                        >
+                            Cerrar sesión
+                        </button>
+                    </div>
+                )}
             </aside>
         </>
     );
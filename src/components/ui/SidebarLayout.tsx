@@ -1,7 +1,14 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
 import { Sidebar } from '@/components/ui/Sidebar';
+import { OfflineStatusBar } from '@/components/ui/OfflineStatusBar';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { canAccessRoute, isPublicRoute } from '@/lib/auth';
+import { firebaseStorageAdapter } from '@/lib/firebase';
+import { sweepAbandonedUploads } from '@/lib/uploadSessions';
 
 type SidebarLayoutProps = {
     children: React.ReactNode;
@@ -9,6 +16,10 @@ type SidebarLayoutProps = {
 
 export default function SidebarLayout({ children }: SidebarLayoutProps) {
     const [open, setOpen] = useState(false);
+    const pathname = usePathname();
+    const router = useRouter();
+    const { user, role, isLoading } = useAuth();
+    const isPublic = isPublicRoute(pathname);
 
     useEffect(() => {
         if (typeof window !== 'undefined' && window.innerWidth >= 768) {
@@ -16,15 +27,56 @@ export default function SidebarLayout({ children }: SidebarLayoutProps) {
         }
     }, []);
 
+    // Sin sesión, cualquier ruta privada redirige al login conservando el destino
+    useEffect(() => {
+        if (!isLoading && !user && !isPublic) {
+            router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+        }
+    }, [isLoading, user, isPublic, pathname, router]);
+
+    // Con sesión iniciada, borrar las subidas de formularios abandonados en visitas anteriores
+    useEffect(() => {
+        if (!user) return;
+        sweepAbandonedUploads(firebaseStorageAdapter).catch(error => {
+            console.error('Error al limpiar subidas abandonadas:', error);
+        });
+    }, [user]);
+
+    // Las rutas públicas (login) se muestran sin menú
+    if (isPublic) {
+        return <div className="min-h-screen bg-gray-50">{children}</div>;
+    }
+
+    if (isLoading || !user) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex justify-center py-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
     return (
         <div className="min-h-screen bg-gray-50">
             {/* Sidebar como overlay, no desplaza el contenido */}
             <Sidebar open={open} onToggle={() => setOpen(o => !o)} onClose={() => setOpen(false)} />
             <div>
-                {children}
+                <OfflineStatusBar />
+                {canAccessRoute(role, pathname) ? children : (
+                    <div className="min-h-screen bg-gray-50 py-8">
+                        <div className="max-w-3xl mx-auto px-4">
+                            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                                <p className="text-yellow-800 font-medium">Acceso restringido</p>
+                                <p className="text-yellow-700 text-sm mt-1">
+                                    Tu rol no tiene permisos para editar este contenido.
+                                </p>
+                                <Link href="/" className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-800">
+                                    ← Volver al inicio
+                                </Link>
+                            </div>
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
 }
-
-
@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { HomeWithCompleteness } from '@/lib/types';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
+import { useHomes, useDestinations } from '@/hooks/useApiQueries';
+import { useLocalHomeFilters } from '@/hooks/useHomeFilters';
 import HomeSearchFilters from '@/components/ui/HomeSearchFilters';
 
 interface HomeSelectorProps {
@@ -12,6 +12,7 @@ interface HomeSelectorProps {
     title?: string;
     description?: string;
     showCompleteness?: boolean;
+    excludeHomeId?: string;        // Casa que no se puede elegir (p. ej. el origen de una transferencia)
     className?: string;
 }
 
@@ -21,98 +22,23 @@ export default function HomeSelector({
     title = "Seleccionar Casa",
     description = "Elige la casa para la que quieres gestionar el contenido",
     showCompleteness = true,
+    excludeHomeId,
     className = ""
 }: HomeSelectorProps) {
-    const [homes, setHomes] = useState<HomeWithCompleteness[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [searchTerm, setSearchTerm] = useState('');
-    const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
-    const [destinationFilter, setDestinationFilter] = useState('');
-    const [destinations, setDestinations] = useState<string[]>([]);
-
-    // Estados para paginación
-    const [currentPage, setCurrentPage] = useState(1);
-    const [totalPages, setTotalPages] = useState(0);
-    const [totalHomes, setTotalHomes] = useState(0);
     const [pageSize] = useState(20);
 
-    // Debounce del término de búsqueda (450ms como en el dashboard)
-    useEffect(() => {
-        const handle = setTimeout(() => setDebouncedSearchTerm(searchTerm), 450);
-        return () => clearTimeout(handle);
-    }, [searchTerm]);
-
-    // Solo activar búsqueda si hay 3+ caracteres
-    const effectiveSearch = debouncedSearchTerm && debouncedSearchTerm.length >= 3 ? debouncedSearchTerm : '';
-
-    const apiClient = createApiClient(config.apiUrl);
-
-    // Cargar casas y destinos
-    useEffect(() => {
-        loadHomes();
-        loadDestinations();
-    }, []);
-
-    // Filtrar casas basado en búsqueda y destino (filtrado en cliente como en el dashboard)
-    const filteredHomes = homes.filter(home => {
-        const matchesSearch = effectiveSearch === '' ||
-            home.name.toLowerCase().includes(effectiveSearch.toLowerCase()) ||
-            home.address.toLowerCase().includes(effectiveSearch.toLowerCase());
-
-        const matchesDestination = destinationFilter === '' ||
-            home.destination === destinationFilter;
+    // Mismos filtros que en el dashboard, pero en estado local: el selector va embebido en otras páginas
+    const { filters, setFilters, searchInput: searchTerm, setSearchInput: setSearchTerm, isSearchTooShort, hasActiveFilters, toListParams } = useLocalHomeFilters();
+    const currentPage = filters.page;
 
-        return matchesSearch && matchesDestination;
-    });
+    // Búsqueda, filtros y paginación resueltos en servidor
+    // La casa excluida se filtra en servidor para que la paginación y los totales cuadren
+    const { data: homes, meta: homesMeta, isFetching: loading } = useHomes({ ...toListParams(pageSize), exclude_id: excludeHomeId });
+    const { data: destinations } = useDestinations();
 
-    // Paginación híbrida como en el dashboard
-    const useClientPagination = Boolean(effectiveSearch || destinationFilter);
-    const clientTotalPages = Math.max(1, Math.ceil(filteredHomes.length / pageSize));
-    const visibleHomes = useClientPagination
-        ? filteredHomes.slice((currentPage - 1) * pageSize, currentPage * pageSize)
-        : filteredHomes;
-
-    // Recargar casas cuando cambien los filtros
-    useEffect(() => {
-        if (effectiveSearch || destinationFilter) {
-            // Reset a la primera página cuando se aplican filtros
-            loadHomes(1);
-        }
-    }, [effectiveSearch, destinationFilter]);
-
-    const loadHomes = async (page: number = currentPage) => {
-        setLoading(true);
-        try {
-            // Lógica híbrida como en el dashboard
-            const params = {
-                page: (effectiveSearch || destinationFilter) ? 1 : page,
-                pageSize: (effectiveSearch || destinationFilter) ? 100 : pageSize
-            };
-
-            const response = await apiClient.listHomesWithCompleteness(params);
-            if (response.success) {
-                setHomes(response.data);
-                setTotalPages(response.meta.totalPages);
-                setTotalHomes(response.meta.total);
-                setCurrentPage(page);
-            }
-        } catch (error) {
-            console.error('Error loading homes:', error);
-        } finally {
-            setLoading(false);
-        }
-    };
-
-    const loadDestinations = async () => {
-        try {
-            const response = await apiClient.listDestinations();
-            if (response.success) {
-                setDestinations(response.data);
-            }
-        } catch (error) {
-            console.error('Error loading destinations:', error);
-        }
-    };
+    const totalPages = homesMeta?.totalPages ?? 0;
+    const totalHomes = homesMeta?.total ?? 0;
+    const setCurrentPage = (page: number) => setFilters({ page });
 
     const getCompletenessColor = (completeness: number) => {
         if (completeness >= 80) return 'text-green-600 bg-green-50 border-green-200';
@@ -144,8 +70,13 @@ export default function HomeSelector({
             <HomeSearchFilters
                 searchQuery={searchTerm}
                 onSearchChange={setSearchTerm}
-                destinationFilter={destinationFilter}
-                onDestinationChange={setDestinationFilter}
+                destinationFilter={filters.destination}
+                onDestinationChange={(value) => setFilters({ destination: value })}
+                minCompleteness={filters.minCompleteness}
+                maxCompleteness={filters.maxCompleteness}
+                onCompletenessChange={showCompleteness ? (min, max) => setFilters({ minCompleteness: min, maxCompleteness: max }) : undefined}
+                sort={filters.sort}
+                onSortChange={(value) => setFilters({ sort: value })}
                 destinations={destinations}
                 isLoading={loading}
                 hasLoadedOnce={true}
@@ -153,7 +84,7 @@ export default function HomeSelector({
             />
 
             {/* Mensaje de mínimo 3 letras */}
-            {searchTerm && searchTerm.length < 3 && (
+            {isSearchTooShort && (
                 <div className="text-center">
                     <p className="text-sm text-gray-500">
                         Escribe al menos 3 letras para buscar
@@ -168,10 +99,10 @@ export default function HomeSelector({
                         <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
                         <p className="text-blue-600 text-sm">Cargando casas...</p>
                     </div>
-                ) : visibleHomes.length > 0 ? (
+                ) : homes.length > 0 ? (
                     <div className="space-y-4">
                         <div className="grid gap-4 max-h-96 overflow-y-auto">
-                            {visibleHomes.map((home) => (
+                            {homes.map((home) => (
                                 <div
                                     key={home.id}
                                     onClick={() => onHomeSelect(home)}
@@ -214,14 +145,14 @@ export default function HomeSelector({
                         </div>
 
                         {/* Controles de paginación */}
-                        {(useClientPagination ? clientTotalPages > 1 : totalPages > 1) && (
+                        {totalPages > 1 && (
                             <div className="flex items-center justify-between pt-4 border-t border-gray-200">
                                 <div className="text-sm text-gray-500">
-                                    Mostrando {((currentPage - 1) * pageSize) + 1} a {Math.min(currentPage * pageSize, useClientPagination ? filteredHomes.length : totalHomes)} de {useClientPagination ? filteredHomes.length : totalHomes} casas
+                                    Mostrando {((currentPage - 1) * pageSize) + 1} a {Math.min(currentPage * pageSize, totalHomes)} de {totalHomes} casas
                                 </div>
                                 <div className="flex space-x-2">
                                     <button
-                                        onClick={() => useClientPagination ? setCurrentPage(currentPage - 1) : loadHomes(currentPage - 1)}
+                                        onClick={() => setCurrentPage(currentPage - 1)}
                                         disabled={currentPage <= 1}
                                         className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage <= 1
                                             ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
@@ -231,12 +162,12 @@ export default function HomeSelector({
                                         Anterior
                                     </button>
                                     <div className="flex space-x-1">
-                                        {Array.from({ length: Math.min(5, useClientPagination ? clientTotalPages : totalPages) }, (_, i) => {
+                                        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
                                             const pageNum = i + 1;
                                             return (
                                                 <button
                                                     key={pageNum}
-                                                    onClick={() => useClientPagination ? setCurrentPage(pageNum) : loadHomes(pageNum)}
+                                                    onClick={() => setCurrentPage(pageNum)}
                                                     className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage === pageNum
                                                         ? 'text-white bg-blue-600'
                                                         : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
@@ -246,14 +177,14 @@ export default function HomeSelector({
                                                 </button>
                                             );
                                         })}
-                                        {(useClientPagination ? clientTotalPages : totalPages) > 5 && (
+                                        {(totalPages) > 5 && (
                                             <span className="px-3 py-1 text-sm text-gray-500">...</span>
                                         )}
                                     </div>
                                     <button
-                                        onClick={() => useClientPagination ? setCurrentPage(currentPage + 1) : loadHomes(currentPage + 1)}
-                                        disabled={currentPage >= (useClientPagination ? clientTotalPages : totalPages)}
-                                        className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage >= (useClientPagination ? clientTotalPages : totalPages)
+                                        onClick={() => setCurrentPage(currentPage + 1)}
+                                        disabled={currentPage >= (totalPages)}
+                                        className={`px-3 py-1 text-sm font-medium rounded-md ${currentPage >= (totalPages)
                                             ? 'text-gray-400 bg-gray-100 cursor-not-allowed'
                                             : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
                                             }`}
@@ -270,9 +201,9 @@ export default function HomeSelector({
                             <span className="text-gray-400 text-xl">🏠</span>
                         </div>
                         <p className="text-gray-500 mb-2">
-                            {searchTerm && searchTerm.length < 3
+                            {isSearchTooShort
                                 ? 'Escribe al menos 3 letras para buscar'
-                                : effectiveSearch || destinationFilter
+                                : hasActiveFilters
                                     ? 'No se encontraron casas con los filtros aplicados'
                                     : currentPage > 1
                                         ? 'No hay más casas en esta página'
@@ -280,9 +211,9 @@ export default function HomeSelector({
                             }
                         </p>
                         <p className="text-sm text-gray-400">
-                            {searchTerm && searchTerm.length < 3
+                            {isSearchTooShort
                                 ? 'La búsqueda se activará automáticamente'
-                                : effectiveSearch || destinationFilter
+                                : hasActiveFilters
                                     ? 'Intenta ajustar los filtros de búsqueda'
                                     : currentPage > 1
                                         ? 'Navega a la página anterior'
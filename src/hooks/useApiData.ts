@@ -1,82 +1,216 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { createApiClient } from '@/lib/apiClient';
-import { config } from '@/lib/config';
-
-// Hook personalizado para cargar datos de la API
-export function useApiData<T>(
-  endpoint: 'categories' | 'brands' | 'homes' | 'rooms-type' | 'suppliers' | 'amenities' | 'rooms' | 'homes/with-completeness' | 'homes/destinations',
-  params?: { page?: number; pageSize?: number }
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import type { RequestOptions } from '@/lib/apiClient';
+import { queryKeys } from '@/lib/queryKeys';
+import type { HomesListParams, ListMeta, ListResponse, PurchaseOrderStatus } from '@/lib/types';
+
+type PageParams = { page?: number; pageSize?: number };
+
+// Recorre las páginas de 100 en 100 hasta que una llega incompleta
+export async function fetchEveryPage<T>(fetchPage: (params: PageParams) => Promise<ListResponse<T>>): Promise<T[]> {
+  let items: T[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await fetchPage({ page, pageSize: 100 });
+    items = [...items, ...response.data];
+    // Si recibimos menos de 100 elementos, ya no hay más páginas
+    hasMore = response.data.length === 100;
+    page++;
+  }
+
+  return items;
+}
+
+type ResourceResponse<T> = { data: T[]; meta?: ListMeta };
+
+type ResourceDefinition<P, T> = {
+  // Claves de la entidad: las mutaciones invalidan `all` y refrescan este recurso
+  keys: { lists: () => readonly unknown[] };
+  fetch: (params: P, opts: RequestOptions) => Promise<ResourceResponse<T>>;
+  // Evita lanzar la petición mientras falten filtros obligatorios
+  enabled?: (params: P) => boolean;
+};
+
+function defineResource<P, T>(definition: ResourceDefinition<P, T>) {
+  return definition;
+}
+
+// Registro de recursos: endpoint → claves de caché + carga con sus filtros tipados
+const resources = {
+  'homes': defineResource({
+    keys: queryKeys.homes,
+    fetch: (params: PageParams, opts) => apiClient.listHomes(params, opts),
+  }),
+  'homes/with-completeness': defineResource({
+    keys: queryKeys.homes,
+    fetch: (params: HomesListParams, opts) => apiClient.listHomesWithCompleteness(params, opts),
+  }),
+  'homes/destinations': defineResource({
+    keys: queryKeys.homes,
+    fetch: (_params: Record<string, never>, opts) => apiClient.listDestinations(opts),
+  }),
+  'rooms': defineResource({
+    keys: queryKeys.rooms,
+    fetch: (params: PageParams & { home_id?: string }, opts) => apiClient.listRooms(params, opts),
+  }),
+  'rooms-type': defineResource({
+    keys: queryKeys.roomTypes,
+    fetch: (params: PageParams, opts) => apiClient.listRoomTypes(params, opts),
+  }),
+  'categories': defineResource({
+    keys: queryKeys.categories,
+    fetch: (params: PageParams, opts) => apiClient.listCategories(params, opts),
+  }),
+  'brands': defineResource({
+    keys: queryKeys.brands,
+    fetch: (params: PageParams, opts) => apiClient.listBrands(params, opts),
+  }),
+  'suppliers': defineResource({
+    keys: queryKeys.suppliers,
+    fetch: (params: PageParams, opts) => apiClient.listSuppliers(params, opts),
+  }),
+  'amenities': defineResource({
+    keys: queryKeys.amenities,
+    fetch: (params: PageParams & { category_id?: string; brand_id?: string }, opts) =>
+      apiClient.listAmenities(params, opts),
+  }),
+  'home-inventory': defineResource({
+    keys: queryKeys.inventory,
+    fetch: (params: PageParams & { home_id?: string; room_id?: string; amenity_id?: string }, opts) =>
+      apiClient.listInventory(params, opts),
+  }),
+  // Todas las líneas de una casa, sin paginar (recuentos, exportaciones e inventario completo)
+  'home-inventory/by-home': defineResource({
+    keys: queryKeys.inventory,
+    fetch: async (params: { home_id?: string }, opts) => ({
+      data: await fetchEveryPage(page => apiClient.listInventory({ home_id: params.home_id, ...page }, opts)),
+    }),
+    enabled: params => Boolean(params.home_id),
+  }),
+  'stock-movements': defineResource({
+    keys: queryKeys.stockMovements,
+    fetch: (params: PageParams & { inventory_id?: string }, opts) =>
+      apiClient.listStockMovements(params.inventory_id!, { page: params.page, pageSize: params.pageSize }, opts),
+    enabled: params => Boolean(params.inventory_id),
+  }),
+  'purchase-orders': defineResource({
+    keys: queryKeys.purchaseOrders,
+    fetch: (params: PageParams & { status?: PurchaseOrderStatus; supplier_id?: string }, opts) =>
+      apiClient.listPurchaseOrders(params, opts),
+  }),
+  'styling-guides': defineResource({
+    keys: queryKeys.stylingGuides,
+    fetch: (params: PageParams & { home_id?: string; room_id?: string }, opts) =>
+      apiClient.listStylingGuides(params, opts),
+  }),
+  'playbooks': defineResource({
+    keys: queryKeys.playbooks,
+    fetch: (params: PageParams & { home_id?: string; room_id?: string; template_id?: string }, opts) =>
+      apiClient.listPlaybooks(params, opts),
+  }),
+  'playbook-templates': defineResource({
+    keys: queryKeys.playbookTemplates,
+    fetch: (params: PageParams & { room_type_id?: string }, opts) => apiClient.listPlaybookTemplates(params, opts),
+  }),
+  'playbook-completions': defineResource({
+    keys: queryKeys.playbookCompletions,
+    fetch: (params: PageParams & { home_id?: string; room_id?: string; playbook_id?: string }, opts) =>
+      apiClient.listPlaybookCompletions(params, opts),
+  }),
+  'appliance-guides': defineResource({
+    keys: queryKeys.applianceGuides,
+    fetch: (params: PageParams, opts) => apiClient.listApplianceGuides(params, opts),
+  }),
+  'appliance-guides/by-home': defineResource({
+    keys: queryKeys.applianceGuides,
+    fetch: (params: { home_id?: string }, opts) => apiClient.listApplianceGuidesByHome(params.home_id!, opts),
+    enabled: params => Boolean(params.home_id),
+  }),
+  'technical-plans': defineResource({
+    keys: queryKeys.technicalPlans,
+    fetch: (params: PageParams & { home_id?: string }, opts) => apiClient.listTechnicalPlans(params, opts),
+  }),
+  'share-links': defineResource({
+    keys: queryKeys.shareLinks,
+    fetch: (params: { home_id?: string }, opts) => apiClient.listShareLinks(params.home_id!, opts),
+    enabled: params => Boolean(params.home_id),
+  }),
+};
+
+export type ApiResource = keyof typeof resources;
+
+export type ApiResourceParams<R extends ApiResource> =
+  (typeof resources)[R] extends ResourceDefinition<infer P, unknown> ? P : never;
+
+export type ApiResourceItem<R extends ApiResource> =
+  (typeof resources)[R] extends ResourceDefinition<never, infer T> ? T : never;
+
+type UseApiDataOptions = {
+  enabled?: boolean;
+  // Mantener la página anterior visible mientras carga la siguiente
+  keepPrevious?: boolean;
+};
+
+// Clave de caché de un recurso: cuelga de las listas de su entidad
+export function apiResourceKey<R extends ApiResource>(resource: R, params?: ApiResourceParams<R>) {
+  return [...resources[resource].keys.lists(), resource, params ?? {}] as const;
+}
+
+// Hook genérico para cargar cualquier recurso del registro con sus filtros.
+// Las peticiones obsoletas (cambio de filtros o desmontaje) se cancelan con AbortController.
+export function useApiData<R extends ApiResource>(
+  resource: R,
+  params?: ApiResourceParams<R>,
+  options: UseApiDataOptions = {}
 ) {
-  const [data, setData] = useState<T[]>([]);
-  const [meta, setMeta] = useState<{ page: number; pageSize: number; total: number; totalPages: number } | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Memoizar el apiClient para evitar recrearlo en cada render
-  const apiClient = useMemo(() => createApiClient(config.apiUrl), []);
-
-  const loadData = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      let response;
-      switch (endpoint) {
-        case 'categories':
-          response = await apiClient.listCategories(params);
-          break;
-        case 'brands':
-          response = await apiClient.listBrands(params);
-          break;
-        case 'homes':
-          response = await apiClient.listHomes(params);
-          break;
-        case 'homes/with-completeness':
-          response = await apiClient.listHomesWithCompleteness(params);
-          break;
-        case 'homes/destinations': {
-          const r = await apiClient.listDestinations();
-          if (r.success) {
-            setData(r.data as T[]);
-            setMeta(null);
-          } else {
-            setError('Error al cargar datos');
-          }
-          return; // Salir temprano: este endpoint no tiene meta
-        }
-        case 'rooms-type':
-          response = await apiClient.listRoomTypes(params);
-          break;
-        case 'suppliers':
-          response = await apiClient.listSuppliers(params);
-          break;
-        case 'amenities':
-          response = await apiClient.listAmenities(params);
-          break;
-        case 'rooms':
-          response = await apiClient.listRooms(params);
-          break;
-        default:
-          throw new Error(`Endpoint no soportado: ${endpoint}`);
-      }
-
-      if (response.success) {
-        setData(response.data as T[]);
-        setMeta(response.meta);
-      } else {
-        setError('Error al cargar datos');
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error desconocido');
-      console.error(`Error al cargar ${endpoint}:`, err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [endpoint, apiClient, params?.page, params?.pageSize]);
+  type P = ApiResourceParams<R>;
+  type T = ApiResourceItem<R>;
 
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
+  const queryClient = useQueryClient();
+  const definition = resources[resource] as unknown as ResourceDefinition<P, T>;
+  const resolvedParams = (params ?? {}) as P;
+  const queryKey = apiResourceKey(resource, params);
 
-  return { data, meta, isLoading, error };
+  const query = useQuery({
+    queryKey,
+    queryFn: ({ signal }) => definition.fetch(resolvedParams, { signal }),
+    enabled: (options.enabled ?? true) && (definition.enabled?.(resolvedParams) ?? true),
+    placeholderData: options.keepPrevious ? keepPreviousData : undefined,
+  });
+
+  const refetch = async () => {
+    await query.refetch();
+  };
+
+  // Modifica los datos en caché (actualización local u optimista) y, por defecto, revalida con el servidor
+  const mutate = async (
+    updater?: T[] | ((current: T[]) => T[]),
+    { revalidate = true }: { revalidate?: boolean } = {}
+  ) => {
+    if (updater !== undefined) {
+      queryClient.setQueryData<ResourceResponse<T>>(queryKey, old => {
+        const current = old?.data ?? [];
+        const next = typeof updater === 'function' ? (updater as (current: T[]) => T[])(current) : updater;
+        return { ...old, data: next };
+      });
+    }
+    if (revalidate) {
+      await queryClient.invalidateQueries({ queryKey });
+    }
+  };
+
+  return {
+    data: query.data?.data ?? (EMPTY as T[]),
+    meta: query.data?.meta ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ? query.error.message : null,
+    refetch,
+    mutate,
+  };
 }
+
+// Array vacío estable para no disparar efectos en cada render mientras no hay datos
+const EMPTY: never[] = [];
@@ -0,0 +1,600 @@
+import { QueryClient, QueryKey, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import type {
+  CreateAmenity,
+  CreateApplianceGuide,
+  CreateBrand,
+  CreateCategory,
+  CreateInventory,
+  CreatePlaybook,
+  CreatePlaybookCompletion,
+  CreatePlaybookTemplate,
+  CreatePurchaseOrder,
+  CreateRoom,
+  CreateStylingGuide,
+  CreateStockMovement,
+  CreateStockTake,
+  CreateSupplier,
+  CreateTechnicalPlan,
+  CreateHomeShareLink,
+  CreateInventoryTransfer,
+  HomeInventory,
+  ListResponse,
+  PlaybookTemplate,
+  UpdateInventory,
+} from '@/lib/types';
+import { playbookFromTemplate, templateContent } from '@/lib/playbooks';
+import type { MovementAuthor } from '@/lib/stockMovements';
+import { inventoryFromImportRow, normalizeText, type CatalogRef, type ImportPlanRow, type ImportResult } from '@/lib/inventoryImport';
+
+type UpdateVars<T> = { id: string; payload: Partial<T> };
+
+// Invalida varias entidades a la vez (listas, detalles y datos por casa)
+function invalidate(queryClient: QueryClient, keys: readonly QueryKey[]) {
+  return Promise.all(keys.map(queryKey => queryClient.invalidateQueries({ queryKey })));
+}
+
+// Actualización optimista sobre todas las listas cacheadas de una entidad.
+// Devuelve el snapshot previo para poder revertir si la mutación falla.
+async function optimisticListUpdate<T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  updater: (items: T[]) => T[]
+) {
+  await queryClient.cancelQueries({ queryKey });
+  const previous = queryClient.getQueriesData<ListResponse<T>>({ queryKey });
+  queryClient.setQueriesData<ListResponse<T>>({ queryKey }, old =>
+    old && Array.isArray(old.data) ? { ...old, data: updater(old.data) } : old
+  );
+  return { previous };
+}
+
+function rollback(queryClient: QueryClient, context?: { previous: [QueryKey, unknown][] }) {
+  context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+// Las casas muestran conteos y completitud: cualquier cambio de contenido las invalida
+const withHomes = (...keys: QueryKey[]) => [...keys, queryKeys.homes.all];
+
+type BatchResult = { succeeded: number; failed: number };
+
+// Operaciones en lote (una petición por elemento): un fallo no detiene al resto
+async function settleAll(tasks: Promise<unknown>[]): Promise<BatchResult> {
+  const results = await Promise.allSettled(tasks);
+  results.forEach(result => {
+    if (result.status === 'rejected') console.error('Error en la operación en lote:', result.reason);
+  });
+  const failed = results.filter(result => result.status === 'rejected').length;
+  return { succeeded: results.length - failed, failed };
+}
+
+// ===== INVENTARIO =====
+
+export function useCreateInventory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateInventory) => apiClient.createInventory(payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.inventory.all)),
+  });
+}
+
+export function useUpdateInventory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<UpdateInventory>) => apiClient.updateInventory(id, payload),
+    onMutate: ({ id, payload }) =>
+      optimisticListUpdate<{ id: string }>(queryClient, queryKeys.inventory.all, items =>
+        items.map(item => (item.id === id ? { ...item, ...payload } : item))
+      ),
+    onError: (_error, _vars, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.inventory.all)),
+  });
+}
+
+// Reponer: movimiento de reposición hasta la cantidad indicada (el backend guarda la fecha de reposición)
+export function useRestockInventory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ item, quantity, author }: { item: Pick<HomeInventory, 'id' | 'quantity'>; quantity: number; author: MovementAuthor }) =>
+      apiClient.createStockMovement({
+        inventory_id: item.id,
+        type: 'restock',
+        quantity_change: quantity - item.quantity,
+        ...author,
+      }),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.inventory.all, queryKeys.stockMovements.all)),
+  });
+}
+
+// Registra un movimiento de stock. La línea se actualiza al momento en las listas cacheadas:
+// la cantidad con la variación y, en los cambios de habitación, la habitación de destino.
+export function useRecordStockMovement() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateStockMovement) => apiClient.createStockMovement(payload),
+    onMutate: payload =>
+      optimisticListUpdate<Pick<HomeInventory, 'id' | 'quantity' | 'room_id'>>(queryClient, queryKeys.inventory.all, items =>
+        items.map(item => (item.id === payload.inventory_id
+          ? {
+            ...item,
+            quantity: item.quantity + payload.quantity_change,
+            room_id: payload.type === 'room_move' ? payload.to_room_id : item.room_id,
+          }
+          : item))
+      ),
+    onError: (_error, _payload, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.inventory.all, queryKeys.stockMovements.all)),
+  });
+}
+
+// Transferencia a otra casa: la salida se refleja al momento en la casa de origen
+export function useTransferInventory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateInventoryTransfer) => apiClient.transferInventory(payload),
+    onMutate: payload =>
+      optimisticListUpdate<Pick<HomeInventory, 'id' | 'quantity'>>(queryClient, queryKeys.inventory.all, items =>
+        items.map(item => (item.id === payload.inventory_id ? { ...item, quantity: item.quantity - payload.quantity } : item))
+      ),
+    onError: (_error, _payload, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.inventory.all, queryKeys.stockMovements.all)),
+  });
+}
+
+// Recuento: todas las correcciones se registran a la vez en el backend
+export function useCreateStockTake() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateStockTake) => apiClient.createStockTake(payload),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.inventory.all, queryKeys.stockMovements.all)),
+  });
+}
+
+export function useDeleteInventory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteInventory(id),
+    onMutate: id =>
+      optimisticListUpdate<{ id: string }>(queryClient, queryKeys.inventory.all, items =>
+        items.filter(item => item.id !== id)
+      ),
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.inventory.all)),
+  });
+}
+
+type ImportInventoryVars = {
+  homeId: string;
+  rows: ImportPlanRow[];         // Solo filas sin errores
+  author: MovementAuthor;        // Autor de las correcciones de cantidad en líneas existentes
+  onProgress?: (done: number, total: number) => void;
+};
+
+// Importación masiva: una fila detrás de otra para poder informar del progreso y reutilizar
+// las marcas, categorías y productos creados por filas anteriores
+export function useImportInventory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ homeId, rows, author, onProgress }: ImportInventoryVars): Promise<ImportResult[]> => {
+      const created = { brands: new Map<string, string>(), categories: new Map<string, string>(), amenities: new Map<string, string>() };
+
+      const ensure = async (ref: CatalogRef | undefined, cache: Map<string, string>, create: (name: string) => Promise<{ data: { id: string } }>) => {
+        if (!ref) return '';
+        if (ref.id) return ref.id;
+        const key = normalizeText(ref.name);
+        if (!cache.has(key)) cache.set(key, (await create(ref.name)).data.id);
+        return cache.get(key)!;
+      };
+
+      const results: ImportResult[] = [];
+      for (const [index, row] of rows.entries()) {
+        try {
+          const data = row.data!;
+          const amenityId = await ensure(row.amenity, created.amenities, async name => {
+            const category_id = await ensure(row.category, created.categories, categoryName =>
+              apiClient.createCategory({ name: categoryName, description: '' }));
+            const brand_id = await ensure(row.brand, created.brands, brandName =>
+              apiClient.createBrand({ name: brandName, website: '', contact_info: '' }));
+            return apiClient.createAmenity({
+              name,
+              category_id,
+              brand_id,
+              reference: data.reference,
+              model: '',
+              description: '',
+              base_price: data.purchase_price,
+              preferred_supplier_id: row.supplierId,
+              images: [],
+            });
+          });
+
+          const payload = inventoryFromImportRow(row, homeId, amenityId);
+          if (row.existing) {
+            // La cantidad de una línea existente no se sobrescribe: se corrige con un movimiento.
+            // La habitación ya coincide (la línea se eligió por producto y habitación).
+            const { quantity, ...details } = payload;
+            await apiClient.updateInventory(row.existing.id, details);
+            if (quantity !== row.existing.quantity) {
+              await apiClient.createStockMovement({
+                inventory_id: row.existing.id,
+                type: 'correction',
+                quantity_change: quantity - row.existing.quantity,
+                reason: 'Importación',
+                ...author,
+              });
+            }
+          } else {
+            await apiClient.createInventory(payload);
+          }
+          results.push({ line: row.line, ok: true });
+        } catch (error) {
+          console.error(`Error al importar la fila ${row.line}:`, error);
+          results.push({ line: row.line, ok: false, message: error instanceof Error ? error.message : 'Error desconocido' });
+        }
+        onProgress?.(index + 1, rows.length);
+      }
+      return results;
+    },
+    onSettled: () => invalidate(queryClient, withHomes(
+      queryKeys.inventory.all,
+      queryKeys.stockMovements.all,
+      queryKeys.amenities.all,
+      queryKeys.brands.all,
+      queryKeys.categories.all
+    )),
+  });
+}
+
+// ===== HABITACIONES =====
+
+export function useCreateRoom() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateRoom) => apiClient.createRoom(payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.rooms.all)),
+  });
+}
+
+// ===== GUÍAS DE ESTILO =====
+
+export function useCreateStylingGuide() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateStylingGuide) => apiClient.createStylingGuide(payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.stylingGuides.all)),
+  });
+}
+
+export function useUpdateStylingGuide() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreateStylingGuide>) => apiClient.updateStylingGuide(id, payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.stylingGuides.all)),
+  });
+}
+
+export function useDeleteStylingGuide() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteStylingGuide(id),
+    onMutate: id =>
+      optimisticListUpdate<{ id: string }>(queryClient, queryKeys.stylingGuides.all, items =>
+        items.filter(item => item.id !== id)
+      ),
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.stylingGuides.all)),
+  });
+}
+
+// ===== PLAYBOOKS =====
+
+export function useCreatePlaybook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreatePlaybook) => apiClient.createPlaybook(payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.playbooks.all)),
+  });
+}
+
+export function useUpdatePlaybook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreatePlaybook>) => apiClient.updatePlaybook(id, payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.playbooks.all)),
+  });
+}
+
+export function useDeletePlaybook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deletePlaybook(id),
+    onMutate: id =>
+      optimisticListUpdate<{ id: string }>(queryClient, queryKeys.playbooks.all, items =>
+        items.filter(item => item.id !== id)
+      ),
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.playbooks.all)),
+  });
+}
+
+// ===== PEDIDOS A PROVEEDORES =====
+
+// Un borrador por proveedor; si alguno falla, los demás se crean igualmente
+export function useCreatePurchaseOrders() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (orders: CreatePurchaseOrder[]) =>
+      settleAll(orders.map(order => apiClient.createPurchaseOrder(order))),
+    onSettled: () => invalidate(queryClient, [queryKeys.purchaseOrders.all]),
+  });
+}
+
+export function useUpdatePurchaseOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreatePurchaseOrder>) => apiClient.updatePurchaseOrder(id, payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.purchaseOrders.all]),
+  });
+}
+
+export function useDeletePurchaseOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deletePurchaseOrder(id),
+    onMutate: id =>
+      optimisticListUpdate<{ id: string }>(queryClient, queryKeys.purchaseOrders.all, items =>
+        items.filter(item => item.id !== id)
+      ),
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, [queryKeys.purchaseOrders.all]),
+  });
+}
+
+export function useSendPurchaseOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.sendPurchaseOrder(id),
+    onSuccess: () => invalidate(queryClient, [queryKeys.purchaseOrders.all]),
+  });
+}
+
+// Al recibir cambian las cantidades del inventario de las casas
+export function useReceivePurchaseOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.receivePurchaseOrder(id),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.purchaseOrders.all, queryKeys.inventory.all)),
+  });
+}
+
+// ===== PLANTILLAS DE PLAYBOOKS =====
+
+export function useCreatePlaybookTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreatePlaybookTemplate) => apiClient.createPlaybookTemplate(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.playbookTemplates.all]),
+  });
+}
+
+export function useUpdatePlaybookTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreatePlaybookTemplate>) => apiClient.updatePlaybookTemplate(id, payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.playbookTemplates.all]),
+  });
+}
+
+// Las copias ya creadas se conservan, solo pierden la plantilla de referencia
+export function useDeletePlaybookTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deletePlaybookTemplate(id),
+    onSuccess: () => invalidate(queryClient, [queryKeys.playbookTemplates.all, queryKeys.playbooks.all]),
+  });
+}
+
+// Crea una copia de la plantilla en cada habitación
+export function useApplyPlaybookTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ template, roomIds }: { template: PlaybookTemplate; roomIds: string[] }) =>
+      settleAll(roomIds.map(roomId => apiClient.createPlaybook(playbookFromTemplate(template, roomId)))),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.playbooks.all)),
+  });
+}
+
+// Sobrescribe las copias con el contenido actual de la plantilla
+export function usePropagatePlaybookTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ template, playbookIds }: { template: PlaybookTemplate; playbookIds: string[] }) =>
+      settleAll(playbookIds.map(id => apiClient.updatePlaybook(id, templateContent(template)))),
+    onSettled: () => invalidate(queryClient, [queryKeys.playbooks.all]),
+  });
+}
+
+export function useCreatePlaybookCompletion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreatePlaybookCompletion) => apiClient.createPlaybookCompletion(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.playbookCompletions.all]),
+  });
+}
+
+// ===== DOCUMENTACIÓN TÉCNICA =====
+
+export function useCreateTechnicalPlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateTechnicalPlan) => apiClient.createTechnicalPlan(payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.technicalPlans.all)),
+  });
+}
+
+export function useUpdateTechnicalPlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreateTechnicalPlan>) => apiClient.updateTechnicalPlan(id, payload),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.technicalPlans.all)),
+  });
+}
+
+export function useDeleteTechnicalPlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteTechnicalPlan(id),
+    onMutate: id =>
+      optimisticListUpdate<{ id: string }>(queryClient, queryKeys.technicalPlans.all, items =>
+        items.filter(item => item.id !== id)
+      ),
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: () => invalidate(queryClient, withHomes(queryKeys.technicalPlans.all)),
+  });
+}
+
+export function useCreateApplianceGuide() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateApplianceGuide) => apiClient.createApplianceGuide(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.applianceGuides.all]),
+  });
+}
+
+export function useLinkApplianceGuide() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ homeId, guideId }: { homeId: string; guideId: string }) =>
+      apiClient.linkApplianceGuide(homeId, guideId),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.applianceGuides.all)),
+  });
+}
+
+export function useUnlinkApplianceGuide() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ homeId, guideId }: { homeId: string; guideId: string }) =>
+      apiClient.unlinkApplianceGuide(homeId, guideId),
+    onSuccess: () => invalidate(queryClient, withHomes(queryKeys.applianceGuides.all)),
+  });
+}
+
+// ===== ENLACES PÚBLICOS =====
+// Revocar un enlace invalida también la vista pública cacheada de ese token
+
+export function useCreateShareLink() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateHomeShareLink) => apiClient.createShareLink(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.shareLinks.all]),
+  });
+}
+
+export function useRevokeShareLink() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.revokeShareLink(id),
+    onSuccess: response =>
+      invalidate(queryClient, [queryKeys.shareLinks.all, queryKeys.guestView(response.data.token)]),
+  });
+}
+
+// ===== CATÁLOGO =====
+// Marcas, categorías y proveedores se muestran embebidos en productos e inventario
+
+export function useCreateAmenity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateAmenity) => apiClient.createAmenity(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.amenities.all]),
+  });
+}
+
+export function useUpdateAmenity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreateAmenity>) => apiClient.updateAmenity(id, payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.amenities.all, queryKeys.inventory.all]),
+  });
+}
+
+export function useDeleteAmenity() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteAmenity(id),
+    onSuccess: () => invalidate(queryClient, [queryKeys.amenities.all, queryKeys.inventory.all]),
+  });
+}
+
+export function useCreateBrand() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateBrand) => apiClient.createBrand(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.brands.all]),
+  });
+}
+
+export function useUpdateBrand() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreateBrand>) => apiClient.updateBrand(id, payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.brands.all, queryKeys.amenities.all]),
+  });
+}
+
+export function useDeleteBrand() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteBrand(id),
+    onSuccess: () => invalidate(queryClient, [queryKeys.brands.all, queryKeys.amenities.all]),
+  });
+}
+
+export function useCreateCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateCategory) => apiClient.createCategory(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.categories.all]),
+  });
+}
+
+export function useUpdateCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreateCategory>) => apiClient.updateCategory(id, payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.categories.all, queryKeys.amenities.all]),
+  });
+}
+
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteCategory(id),
+    onSuccess: () => invalidate(queryClient, [queryKeys.categories.all, queryKeys.amenities.all]),
+  });
+}
+
+export function useCreateSupplier() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateSupplier) => apiClient.createSupplier(payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.suppliers.all]),
+  });
+}
+
+export function useUpdateSupplier() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateVars<CreateSupplier>) => apiClient.updateSupplier(id, payload),
+    onSuccess: () => invalidate(queryClient, [queryKeys.suppliers.all, queryKeys.inventory.all]),
+  });
+}
+
+export function useDeleteSupplier() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteSupplier(id),
+    onSuccess: () => invalidate(queryClient, [queryKeys.suppliers.all, queryKeys.inventory.all]),
+  });
+}
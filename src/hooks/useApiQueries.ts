@@ -0,0 +1,211 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { shareLinkStatus } from '@/lib/guestLinks';
+import type { HomesListParams } from '@/lib/types';
+import { fetchEveryPage, useApiData, type ApiResourceParams } from './useApiData';
+
+type PageParams = { page?: number; pageSize?: number };
+
+// Accesos con nombre a los recursos más usados sobre useApiData
+
+// ===== HOMES (Casas) =====
+
+export function useHomes(params?: HomesListParams) {
+  return useApiData('homes/with-completeness', params, { keepPrevious: true });
+}
+
+export function useHome(homeId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.homes.detail(homeId ?? ''),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getHomeWithCompleteness(homeId!, { signal });
+      return response.data;
+    },
+    enabled: Boolean(homeId),
+  });
+}
+
+export function useDestinations() {
+  return useApiData('homes/destinations');
+}
+
+// Todas las casas, sin filtros (para selecciones múltiples)
+export function useAllHomes() {
+  return useQuery({
+    queryKey: queryKeys.homes.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listHomes(params, { signal })),
+  });
+}
+
+// ===== ROOMS (Habitaciones) =====
+
+export function useRooms(homeId: string | null | undefined) {
+  return useApiData('rooms', { home_id: homeId ?? undefined, pageSize: 100 }, { enabled: Boolean(homeId) });
+}
+
+// Habitaciones de todas las casas
+export function useAllRooms() {
+  return useQuery({
+    queryKey: queryKeys.rooms.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listRooms(params, { signal })),
+  });
+}
+
+export function useRoomTypes() {
+  return useApiData('rooms-type', { pageSize: 100 });
+}
+
+// ===== CATÁLOGO =====
+
+export function useCategories(params?: PageParams) {
+  return useApiData('categories', params, { keepPrevious: true });
+}
+
+export function useBrands(params?: PageParams) {
+  return useApiData('brands', params, { keepPrevious: true });
+}
+
+// Todas las categorías y marcas (informes e importaciones que las buscan por nombre)
+export function useAllCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listCategories(params, { signal })),
+  });
+}
+
+export function useAllBrands() {
+  return useQuery({
+    queryKey: queryKeys.brands.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listBrands(params, { signal })),
+  });
+}
+
+export function useSuppliers(params?: PageParams) {
+  return useApiData('suppliers', params, { keepPrevious: true });
+}
+
+// Todos los proveedores, recorriendo las páginas de 100 en 100
+export function useAllSuppliers() {
+  return useQuery({
+    queryKey: queryKeys.suppliers.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listSuppliers(params, { signal })),
+  });
+}
+
+export function useAmenities(params?: ApiResourceParams<'amenities'>) {
+  return useApiData('amenities', params, { keepPrevious: true });
+}
+
+// Todos los amenities, recorriendo las páginas de 100 en 100
+export function useAllAmenities() {
+  return useQuery({
+    queryKey: queryKeys.amenities.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listAmenities(params, { signal })),
+  });
+}
+
+// ===== DATOS POR CASA =====
+
+// Todas las líneas de la casa: las pantallas filtran por habitación en local
+export function useInventory(homeId: string | null | undefined) {
+  return useApiData('home-inventory/by-home', { home_id: homeId ?? undefined });
+}
+
+// Inventario de todas las casas (pantalla de reposición)
+export function useAllInventory() {
+  return useQuery({
+    queryKey: queryKeys.inventory.everything(),
+    queryFn: ({ signal }) => fetchEveryPage(params => apiClient.listInventory(params, { signal })),
+  });
+}
+
+// Historial de movimientos de una línea (el backend los devuelve del más reciente al más antiguo)
+export function useStockMovements(inventoryId: string | null | undefined) {
+  return useApiData('stock-movements', { inventory_id: inventoryId ?? undefined, pageSize: 100 });
+}
+
+// Pedidos a proveedores, paginados (el backend los devuelve del más reciente al más antiguo)
+export function usePurchaseOrders(params?: ApiResourceParams<'purchase-orders'>) {
+  return useApiData('purchase-orders', { pageSize: 100, ...params }, { keepPrevious: true });
+}
+
+export function usePurchaseOrder(orderId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.detail(orderId ?? ''),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getPurchaseOrderById(orderId!, { signal });
+      return response.data;
+    },
+    enabled: Boolean(orderId),
+  });
+}
+
+export function useStylingGuides(homeId: string | null | undefined) {
+  return useApiData('styling-guides', { home_id: homeId ?? undefined, pageSize: 100 }, { enabled: Boolean(homeId) });
+}
+
+export function usePlaybooks(homeId: string | null | undefined) {
+  return useApiData('playbooks', { home_id: homeId ?? undefined, pageSize: 100 }, { enabled: Boolean(homeId) });
+}
+
+// ===== PLANTILLAS DE PLAYBOOKS =====
+
+export function usePlaybookTemplates(roomTypeId?: string | null) {
+  return useApiData('playbook-templates', { room_type_id: roomTypeId ?? undefined, pageSize: 100 });
+}
+
+// Copias de una plantilla en todas las casas
+export function useTemplatePlaybooks(templateId: string | null | undefined) {
+  return useApiData('playbooks', { template_id: templateId ?? undefined, pageSize: 100 }, { enabled: Boolean(templateId) });
+}
+
+// Historial de ejecuciones de una casa (el backend las devuelve de la más reciente a la más antigua)
+export function usePlaybookCompletions(homeId: string | null | undefined, params?: { room_id?: string; playbook_id?: string; pageSize?: number }) {
+  return useApiData('playbook-completions', { home_id: homeId ?? undefined, pageSize: 50, ...params }, { enabled: Boolean(homeId) });
+}
+
+export function useTechnicalPlans(homeId: string | null | undefined) {
+  const result = useApiData('technical-plans', { home_id: homeId ?? undefined, pageSize: 100 }, { enabled: Boolean(homeId) });
+  // Filtrar solo los planos que pertenecen a esta casa específica
+  const plans = useMemo(() => result.data.filter(plan => plan.home_id === homeId), [result.data, homeId]);
+  return { ...result, data: plans };
+}
+
+export function useApplianceGuides() {
+  return useApiData('appliance-guides', { pageSize: 100 });
+}
+
+export function useHomeApplianceGuides(homeId: string | null | undefined) {
+  return useApiData('appliance-guides/by-home', { home_id: homeId ?? undefined });
+}
+
+// ===== ENLACES PÚBLICOS =====
+
+export function useShareLinks(homeId: string | null | undefined) {
+  return useApiData('share-links', { home_id: homeId ?? undefined });
+}
+
+// Enlace vigente más reciente de una casa: es el que codifican los QR
+export function useActiveShareLink(homeId: string | null | undefined) {
+  const result = useShareLinks(homeId);
+  const link = useMemo(() => {
+    return result.data
+      .filter(item => shareLinkStatus(item) === 'active')
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] ?? null;
+  }, [result.data]);
+  return { ...result, link };
+}
+
+// Vista pública resuelta por token (no requiere sesión)
+export function useGuestView(token: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.guestView(token ?? ''),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getGuestView(token!, { signal });
+      return response.data;
+    },
+    enabled: Boolean(token),
+  });
+}
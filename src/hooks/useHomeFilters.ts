@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { HomesListParams, HomesSort } from '@/lib/types';
+
+export const HOMES_SORT_OPTIONS: { value: HomesSort; label: string }[] = [
+  { value: 'name', label: 'Nombre (A-Z)' },
+  { value: '-name', label: 'Nombre (Z-A)' },
+  { value: '-completeness', label: 'Más completas' },
+  { value: 'completeness', label: 'Menos completas' },
+  { value: '-created_at', label: 'Más recientes' },
+  { value: 'created_at', label: 'Más antiguas' },
+];
+
+export interface HomeFilters {
+  q: string;
+  destination: string;
+  minCompleteness?: number;
+  maxCompleteness?: number;
+  sort?: HomesSort;
+  page: number;
+}
+
+// Nombres de los parámetros en la URL (los mismos que acepta la API)
+const URL_KEYS: Record<keyof HomeFilters, string> = {
+  q: 'q',
+  destination: 'destination',
+  minCompleteness: 'min_completeness',
+  maxCompleteness: 'max_completeness',
+  sort: 'sort',
+  page: 'page',
+};
+
+// La búsqueda solo se activa con 3+ caracteres
+const MIN_SEARCH_LENGTH = 3;
+
+function parseNumber(value: string | null) {
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function parseSort(value: string | null): HomesSort | undefined {
+  return HOMES_SORT_OPTIONS.some(option => option.value === value) ? (value as HomesSort) : undefined;
+}
+
+const DEFAULT_FILTERS: HomeFilters = { q: '', destination: '', page: 1 };
+
+// Quita los espacios y descarta búsquedas demasiado cortas
+function effectiveSearch(input: string) {
+  const term = input.trim();
+  return term.length >= MIN_SEARCH_LENGTH ? term : '';
+}
+
+// Cualquier cambio de filtro vuelve a la primera página, salvo que se cambie la propia página
+function applyPatch(current: HomeFilters, patch: Partial<HomeFilters>): HomeFilters {
+  return { ...current, ...patch, page: 'page' in patch ? patch.page ?? 1 : 1 };
+}
+
+// Texto de búsqueda local volcado a los filtros con debounce, y resto del estado derivado
+function useHomeFiltersState(
+  filters: HomeFilters,
+  setFilters: (patch: Partial<HomeFilters>) => void,
+  debounceMs: number
+) {
+  const [searchInput, setSearchInputState] = useState(filters.q);
+  // Solo se vuelca a los filtros lo que escribe el usuario, no lo que llega de fuera
+  const [isTyping, setIsTyping] = useState(false);
+  const [lastQuery, setLastQuery] = useState(filters.q);
+
+  // La búsqueda cambió desde fuera (atrás/adelante del navegador, un enlace con ?q=...)
+  if (filters.q !== lastQuery) {
+    setLastQuery(filters.q);
+    if (effectiveSearch(searchInput) !== filters.q) {
+      setSearchInputState(filters.q);
+      setIsTyping(false);
+    }
+  }
+
+  const setSearchInput = useCallback((value: string) => {
+    setSearchInputState(value);
+    setIsTyping(true);
+  }, []);
+
+  // Debounce del término de búsqueda
+  useEffect(() => {
+    if (!isTyping) return;
+    const handle = setTimeout(() => {
+      setIsTyping(false);
+      const effective = effectiveSearch(searchInput);
+      if (effective !== filters.q) {
+        setFilters({ q: effective });
+      }
+    }, debounceMs);
+    return () => clearTimeout(handle);
+  }, [isTyping, searchInput, filters.q, setFilters, debounceMs]);
+
+  const toListParams = useCallback((pageSize: number): HomesListParams => ({
+    page: filters.page,
+    pageSize,
+    q: filters.q || undefined,
+    destination: filters.destination || undefined,
+    min_completeness: filters.minCompleteness,
+    max_completeness: filters.maxCompleteness,
+    sort: filters.sort,
+  }), [filters]);
+
+  const hasActiveFilters = Boolean(
+    filters.q || filters.destination || filters.minCompleteness !== undefined || filters.maxCompleteness !== undefined
+  );
+
+  return {
+    filters,
+    setFilters,
+    searchInput,
+    setSearchInput,
+    isSearchTooShort: searchInput.trim().length > 0 && searchInput.trim().length < MIN_SEARCH_LENGTH,
+    hasActiveFilters,
+    toListParams,
+  };
+}
+
+// Estado de filtros del listado de casas sincronizado con la query string, para poder compartir la URL.
+// El texto de búsqueda se mantiene en local y se vuelca a la URL con debounce.
+export function useHomeFilters(debounceMs = 450) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo<HomeFilters>(() => ({
+    q: searchParams.get(URL_KEYS.q) ?? '',
+    destination: searchParams.get(URL_KEYS.destination) ?? '',
+    minCompleteness: parseNumber(searchParams.get(URL_KEYS.minCompleteness)),
+    maxCompleteness: parseNumber(searchParams.get(URL_KEYS.maxCompleteness)),
+    sort: parseSort(searchParams.get(URL_KEYS.sort)),
+    page: Math.max(1, parseNumber(searchParams.get(URL_KEYS.page)) ?? 1),
+  }), [searchParams]);
+
+  const setFilters = useCallback((patch: Partial<HomeFilters>) => {
+    const next = new URLSearchParams(searchParams.toString());
+    const updated = applyPatch(filters, patch);
+    (Object.keys(URL_KEYS) as (keyof HomeFilters)[]).forEach(key => {
+      const value = updated[key];
+      if (value === undefined || value === '' || (key === 'page' && value === 1)) {
+        next.delete(URL_KEYS[key]);
+      } else {
+        next.set(URL_KEYS[key], String(value));
+      }
+    });
+    const query = next.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, searchParams, filters]);
+
+  return useHomeFiltersState(filters, setFilters, debounceMs);
+}
+
+// Mismos filtros en estado local, para selectores de casa embebidos en otras páginas
+// (asistentes, modales) que no deben tocar la URL de la página que los contiene
+export function useLocalHomeFilters(debounceMs = 450) {
+  const [filters, setFiltersState] = useState<HomeFilters>(DEFAULT_FILTERS);
+
+  const setFilters = useCallback((patch: Partial<HomeFilters>) => {
+    setFiltersState(current => applyPatch(current, patch));
+  }, []);
+
+  return useHomeFiltersState(filters, setFilters, debounceMs);
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { firebaseStorageAdapter } from '@/lib/firebase';
+import type { StorageAdapter } from '@/lib/storage';
+import { setPendingUploads } from '@/lib/uploadSessions';
+
+export type UploadSession = {
+  // Registra archivos recién subidos que aún no pertenecen a ninguna entidad guardada
+  track: (urls: string[]) => void;
+  // Quita un archivo del formulario: si es una subida pendiente se borra ya;
+  // si ya estaba guardado, se borra al confirmar (commit) para poder cancelar la edición.
+  // Nunca rechaza: si el borrado falla, se reintenta al confirmar o descartar
+  release: (url: string) => Promise<void>;
+  // La entidad se guardó: las subidas pasan a ser definitivas y se aplican los borrados diferidos
+  commit: () => Promise<void>;
+  // Se descarta el formulario: se borran las subidas pendientes y se olvidan los borrados diferidos
+  discard: () => Promise<void>;
+  pendingCount: number;
+};
+
+function newSessionId() {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+// Seguimiento de subidas por sesión de formulario. Al desmontar sin guardar se descartan;
+// si la pestaña se cierra, quedan en el registro y se limpian en la siguiente visita.
+export function useUploadSession(storage: StorageAdapter = firebaseStorageAdapter): UploadSession {
+  const sessionIdRef = useRef<string>(null);
+  if (!sessionIdRef.current) {
+    sessionIdRef.current = newSessionId();
+  }
+  const pendingRef = useRef(new Set<string>());
+  const releasedRef = useRef(new Set<string>());
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const syncPending = useCallback(() => {
+    setPendingUploads(sessionIdRef.current!, [...pendingRef.current]);
+    setPendingCount(pendingRef.current.size);
+  }, []);
+
+  const deleteAll = useCallback(async (urls: string[]) => {
+    const results = await Promise.allSettled(urls.map(url => storage.delete(url)));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error('Error al eliminar archivo:', urls[index], result.reason);
+      }
+    });
+  }, [storage]);
+
+  const track = useCallback((urls: string[]) => {
+    urls.filter(Boolean).forEach(url => pendingRef.current.add(url));
+    syncPending();
+  }, [syncPending]);
+
+  const release = useCallback(async (url: string) => {
+    if (pendingRef.current.has(url)) {
+      pendingRef.current.delete(url);
+      syncPending();
+      try {
+        await storage.delete(url);
+      } catch (error) {
+        console.error('Error al eliminar archivo, se reintentará:', url, error);
+        // Sigue registrada (la limpieza la encuentra si se abandona) y se borra al confirmar o descartar
+        pendingRef.current.add(url);
+        releasedRef.current.add(url);
+        syncPending();
+      }
+      return;
+    }
+    releasedRef.current.add(url);
+  }, [storage, syncPending]);
+
+  const commit = useCallback(async () => {
+    const released = [...releasedRef.current];
+    pendingRef.current.clear();
+    releasedRef.current.clear();
+    syncPending();
+    await deleteAll(released);
+  }, [deleteAll, syncPending]);
+
+  const discard = useCallback(async () => {
+    const pending = [...pendingRef.current];
+    pendingRef.current.clear();
+    releasedRef.current.clear();
+    syncPending();
+    await deleteAll(pending);
+  }, [deleteAll, syncPending]);
+
+  // Formulario cerrado sin guardar
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      if (pending.size > 0) {
+        discard().catch(error => console.error('Error al descartar subidas:', error));
+      }
+    };
+  }, [discard]);
+
+  return useMemo(
+    () => ({ track, release, commit, discard, pendingCount }),
+    [track, release, commit, discard, pendingCount]
+  );
+}
@@ -0,0 +1,10 @@
+import { createApiClient } from './apiClient';
+import { config } from './config';
+import { getIdToken } from './firebase';
+import { indexedDbOfflineAdapter } from './offlineStore';
+
+// Cliente de la API compartido por toda la aplicación; cada petición lleva el ID token de Firebase.
+// Sin conexión, las casas descargadas se leen de IndexedDB y las escrituras esperan en el outbox.
+export const apiClient = createApiClient(config.apiUrl, { getAuthToken: getIdToken, offline: indexedDbOfflineAdapter });
+
+export type ApiClient = typeof apiClient;
@@ -29,17 +29,131 @@ import {
   TechnicalPlan,
   CreateTechnicalPlan,
   HomeWithCompleteness,
-  HomesCompletenessReport
+  HomesCompletenessReport,
+  HomesListParams,
+  HomeShareLink,
+  CreateHomeShareLink,
+  GuestHomeView,
+  PlaybookCompletion,
+  CreatePlaybookCompletion,
+  PlaybookRecord,
+  PlaybookTemplate,
+  CreatePlaybookTemplate,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  CreatePurchaseOrder,
+  StockMovement,
+  CreateStockMovement,
+  UpdateInventory,
+  CreateInventoryTransfer,
+  InventoryTransferResult,
+  StockTake,
+  CreateStockTake
 } from './types';
+import { normalizePlaybook } from './playbooks';
+import type { OfflineAdapter, OutboxEntry, OutboxMethod } from './offline';
 
 export type { ListMeta, ListResponse, ItemResponse, ErrorResponse };
 
-export function createApiClient(baseUrl: string) {
-  async function request<T>(path: string, init?: RequestInit): Promise<T> {
-    const res = await fetch(`${baseUrl}${path}`, {
-      headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+// Rutas del catálogo compartido por todas las casas (el modo sin conexión las guarda aparte)
+export const CATALOG_PATHS = {
+  roomTypes: '/rooms-type',
+  categories: '/categories',
+  brands: '/brands',
+  amenities: '/amenities',
+  suppliers: '/suppliers',
+} as const;
+
+// Opciones por petición: permite cancelar lecturas obsoletas con AbortController
+export type RequestOptions = Pick<RequestInit, 'signal'>;
+
+export type ApiErrorDetail = { field?: string; message: string };
+
+// Error tipado de la API: conserva el status HTTP, un código legible y el detalle por campo
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details: ApiErrorDetail[];
+
+  constructor(message: string, status: number, code?: string, details: ApiErrorDetail[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code || apiErrorCodeFromStatus(status);
+    this.details = details;
+  }
+
+  // Errores de validación con detalle por campo (p. ej. 400/422 del backend)
+  get isValidation(): boolean {
+    return this.code === 'VALIDATION_ERROR' || this.details.some(d => Boolean(d.field));
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+function apiErrorCodeFromStatus(status: number): string {
+  if (status === 0) return 'NETWORK_ERROR';
+  if (status === 400 || status === 422) return 'VALIDATION_ERROR';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'HTTP_ERROR';
+}
+
+export type ApiClientOptions = {
+  // Devuelve el ID token del usuario en sesión (o null); con forceRefresh pide uno nuevo
+  getAuthToken?: (forceRefresh?: boolean) => Promise<string | null>;
+  // Sin red, sirve lecturas guardadas y encola escrituras (ver lib/offline)
+  offline?: OfflineAdapter;
+};
+
+export function createApiClient(baseUrl: string, options: ApiClientOptions = {}) {
+  async function authorizedFetch(path: string, init: RequestInit | undefined, forceRefresh: boolean) {
+    const token = options.getAuthToken ? await options.getAuthToken(forceRefresh) : null;
+    return fetch(`${baseUrl}${path}`, {
       ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init?.headers || {}),
+      },
     });
+  }
+
+  // Respuesta sin conexión: lectura guardada o escritura encolada (undefined si no hay alternativa)
+  async function offlineFallback(path: string, init?: RequestInit): Promise<unknown | undefined> {
+    if (!options.offline) return undefined;
+    const method = (init?.method ?? 'GET') as OutboxMethod | 'GET';
+    try {
+      return method === 'GET'
+        ? await options.offline.readResponse(path)
+        : await options.offline.enqueue(method, path, typeof init?.body === 'string' ? init.body : undefined);
+    } catch (error) {
+      console.error('Error en el modo sin conexión:', error);
+      return undefined;
+    }
+  }
+
+  async function request<T>(path: string, init?: RequestInit, { allowOffline = true } = {}): Promise<T> {
+    let res: Response;
+    try {
+      res = await authorizedFetch(path, init, false);
+      // Un 401 puede deberse a un token caducado: se reintenta una vez con un token renovado
+      if (res.status === 401 && options.getAuthToken) {
+        res = await authorizedFetch(path, init, true);
+      }
+    } catch (error) {
+      // Las cancelaciones se propagan tal cual para que el llamante las ignore
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      // fetch solo rechaza por fallos de red (sin respuesta del servidor)
+      const fallback = allowOffline ? await offlineFallback(path, init) : undefined;
+      if (fallback !== undefined) return fallback as T;
+      throw new ApiError(error instanceof Error ? error.message : 'Error de red', 0);
+    }
     
     let body: unknown;
     try {
@@ -60,20 +174,41 @@ export function createApiClient(baseUrl: string) {
     
     if (!res.ok || (body as { success?: boolean })?.success === false) {
       const err = (body as ErrorResponse)?.error || { message: `HTTP ${res.status}` } as ErrorResponse['error'];
-      throw new Error(err.message);
+      throw new ApiError(err.message || `HTTP ${res.status}`, res.status, err.code, err.details || []);
+    }
+    if (!init?.method && options.offline) {
+      options.offline.saveResponse(path, body).catch(error => {
+        console.error('Error al guardar la lectura sin conexión:', error);
+      });
     }
     return body as T;
   }
 
-  const q = (params?: Record<string, unknown>) =>
+  // Los playbooks antiguos (tareas y materiales en texto) se convierten al modelo estructurado al leerlos
+  const playbookList = (response: ListResponse<PlaybookRecord>): ListResponse<Playbook> =>
+    ({ ...response, data: response.data.map(normalizePlaybook) });
+  const playbookItem = (response: ItemResponse<PlaybookRecord>): ItemResponse<Playbook> =>
+    ({ ...response, data: normalizePlaybook(response.data) });
+
+  const q = (params?: object) =>
     params ? '?' + new URLSearchParams(Object.entries(params).filter(([, v]) => v !== undefined && v !== null) as [string, string][]).toString() : '';
 
   return {
+    // ===== SINCRONIZACIÓN =====
+    // Reenvía una escritura encolada sin conexión. La cabecera permite al backend rechazar con 409
+    // los cambios sobre registros modificados después de encolarse.
+    replayQueued: (entry: OutboxEntry) =>
+      request<unknown>(entry.path, {
+        method: entry.method,
+        body: entry.body,
+        headers: { 'X-Offline-Queued-At': entry.queuedAt },
+      }, { allowOffline: false }),
+
     // ===== CRUD GENÉRICOS =====
-    list: <T>(resource: string, params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<T>>(`/${resource}${q(params)}`),
-    getById: <T>(resource: string, id: string) =>
-      request<ItemResponse<T>>(`/${resource}/${id}`),
+    list: <T>(resource: string, params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<T>>(`/${resource}${q(params)}`, opts),
+    getById: <T>(resource: string, id: string, opts?: RequestOptions) =>
+      request<ItemResponse<T>>(`/${resource}/${id}`, opts),
     create: <T>(resource: string, payload: unknown) =>
       request<ItemResponse<T>>(`/${resource}`, { method: 'POST', body: JSON.stringify(payload) }),
     update: <T>(resource: string, id: string, payload: unknown) =>
@@ -84,173 +219,244 @@ export function createApiClient(baseUrl: string) {
     // ===== ENDPOINTS ESPECÍFICOS VIVLA GUIDES =====
     
     // HOMES (Casas)
-    listHomes: (params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Home>>(`/homes${q(params)}`),
-    listHomesWithCompleteness: (params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<HomeWithCompleteness>>(`/homes/with-completeness${q(params)}`),
-    listHomesCompleteness: () =>
-      request<ItemResponse<HomesCompletenessReport>>(`/homes/completeness`),
-    listDestinations: () =>
-      request<{ success: true; data: string[] }>(`/homes/destinations`),
+    listHomes: (params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<Home>>(`/homes${q(params)}`, opts),
+    listHomesWithCompleteness: (params?: HomesListParams, opts?: RequestOptions) =>
+      request<ListResponse<HomeWithCompleteness>>(`/homes/with-completeness${q(params)}`, opts),
+    listHomesCompleteness: (opts?: RequestOptions) =>
+      request<ItemResponse<HomesCompletenessReport>>(`/homes/completeness`, opts),
+    listDestinations: (opts?: RequestOptions) =>
+      request<{ success: true; data: string[] }>(`/homes/destinations`, opts),
     createHome: (payload: CreateHome) =>
       request<ItemResponse<Home>>(`/homes`, { method: 'POST', body: JSON.stringify(payload) }),
-    getHomeById: (id: string) =>
-      request<ItemResponse<Home>>(`/homes/${id}`),
+    getHomeById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<Home>>(`/homes/${id}`, opts),
+    getHomeWithCompleteness: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<HomeWithCompleteness>>(`/homes/${id}/with-completeness`, opts),
     updateHome: (id: string, payload: Partial<CreateHome>) =>
       request<ItemResponse<Home>>(`/homes/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteHome: (id: string) =>
       request<Record<string, never>>(`/homes/${id}`, { method: 'DELETE' }),
 
     // ROOMS (Habitaciones)
-    listRooms: (params?: { page?: number; pageSize?: number; home_id?: string }) =>
-      request<ListResponse<Room>>(`/rooms${q(params)}`),
+    listRooms: (params?: { page?: number; pageSize?: number; home_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<Room>>(`/rooms${q(params)}`, opts),
     createRoom: (payload: CreateRoom) =>
       request<ItemResponse<Room>>(`/rooms`, { method: 'POST', body: JSON.stringify(payload) }),
-    getRoomById: (id: string) =>
-      request<ItemResponse<Room>>(`/rooms/${id}`),
+    getRoomById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<Room>>(`/rooms/${id}`, opts),
     updateRoom: (id: string, payload: Partial<CreateRoom>) =>
       request<ItemResponse<Room>>(`/rooms/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteRoom: (id: string) =>
       request<Record<string, never>>(`/rooms/${id}`, { method: 'DELETE' }),
 
     // ROOM TYPES (Tipos de Habitación)
-    listRoomTypes: (params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<RoomType>>(`/rooms-type${q(params)}`),
+    listRoomTypes: (params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<RoomType>>(`${CATALOG_PATHS.roomTypes}${q(params)}`, opts),
     createRoomType: (payload: CreateRoomType) =>
-      request<ItemResponse<RoomType>>(`/rooms-type`, { method: 'POST', body: JSON.stringify(payload) }),
-    getRoomTypeById: (id: string) =>
-      request<ItemResponse<RoomType>>(`/rooms-type/${id}`),
+      request<ItemResponse<RoomType>>(CATALOG_PATHS.roomTypes, { method: 'POST', body: JSON.stringify(payload) }),
+    getRoomTypeById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<RoomType>>(`${CATALOG_PATHS.roomTypes}/${id}`, opts),
     updateRoomType: (id: string, payload: Partial<CreateRoomType>) =>
-      request<ItemResponse<RoomType>>(`/rooms-type/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+      request<ItemResponse<RoomType>>(`${CATALOG_PATHS.roomTypes}/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteRoomType: (id: string) =>
-      request<Record<string, never>>(`/rooms-type/${id}`, { method: 'DELETE' }),
+      request<Record<string, never>>(`${CATALOG_PATHS.roomTypes}/${id}`, { method: 'DELETE' }),
 
     // CATEGORIES (Categorías)
-    listCategories: (params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Category>>(`/categories${q(params)}`),
+    listCategories: (params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<Category>>(`${CATALOG_PATHS.categories}${q(params)}`, opts),
     createCategory: (payload: CreateCategory) =>
-      request<ItemResponse<Category>>(`/categories`, { method: 'POST', body: JSON.stringify(payload) }),
-    getCategoryById: (id: string) =>
-      request<ItemResponse<Category>>(`/categories/${id}`),
+      request<ItemResponse<Category>>(CATALOG_PATHS.categories, { method: 'POST', body: JSON.stringify(payload) }),
+    getCategoryById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<Category>>(`${CATALOG_PATHS.categories}/${id}`, opts),
     updateCategory: (id: string, payload: Partial<CreateCategory>) =>
-      request<ItemResponse<Category>>(`/categories/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+      request<ItemResponse<Category>>(`${CATALOG_PATHS.categories}/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteCategory: (id: string) =>
-      request<Record<string, never>>(`/categories/${id}`, { method: 'DELETE' }),
+      request<Record<string, never>>(`${CATALOG_PATHS.categories}/${id}`, { method: 'DELETE' }),
 
     // BRANDS (Marcas)
-    listBrands: (params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Brand>>(`/brands${q(params)}`),
+    listBrands: (params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<Brand>>(`${CATALOG_PATHS.brands}${q(params)}`, opts),
     createBrand: (payload: CreateBrand) =>
-      request<ItemResponse<Brand>>(`/brands`, { method: 'POST', body: JSON.stringify(payload) }),
-    getBrandById: (id: string) =>
-      request<ItemResponse<Brand>>(`/brands/${id}`),
+      request<ItemResponse<Brand>>(CATALOG_PATHS.brands, { method: 'POST', body: JSON.stringify(payload) }),
+    getBrandById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<Brand>>(`${CATALOG_PATHS.brands}/${id}`, opts),
     updateBrand: (id: string, payload: Partial<CreateBrand>) =>
-      request<ItemResponse<Brand>>(`/brands/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+      request<ItemResponse<Brand>>(`${CATALOG_PATHS.brands}/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteBrand: (id: string) =>
-      request<Record<string, never>>(`/brands/${id}`, { method: 'DELETE' }),
+      request<Record<string, never>>(`${CATALOG_PATHS.brands}/${id}`, { method: 'DELETE' }),
 
     // AMENITIES (Productos)
-    listAmenities: (params?: { page?: number; pageSize?: number; category_id?: string; brand_id?: string }) =>
-      request<ListResponse<Amenity>>(`/amenities${q(params)}`),
+    listAmenities: (params?: { page?: number; pageSize?: number; category_id?: string; brand_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<Amenity>>(`${CATALOG_PATHS.amenities}${q(params)}`, opts),
     createAmenity: (payload: CreateAmenity) =>
-      request<ItemResponse<Amenity>>(`/amenities`, { method: 'POST', body: JSON.stringify(payload) }),
-    getAmenityById: (id: string) =>
-      request<ItemResponse<Amenity>>(`/amenities/${id}`),
+      request<ItemResponse<Amenity>>(CATALOG_PATHS.amenities, { method: 'POST', body: JSON.stringify(payload) }),
+    getAmenityById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<Amenity>>(`${CATALOG_PATHS.amenities}/${id}`, opts),
     updateAmenity: (id: string, payload: Partial<CreateAmenity>) =>
-      request<ItemResponse<Amenity>>(`/amenities/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+      request<ItemResponse<Amenity>>(`${CATALOG_PATHS.amenities}/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteAmenity: (id: string) =>
-      request<Record<string, never>>(`/amenities/${id}`, { method: 'DELETE' }),
+      request<Record<string, never>>(`${CATALOG_PATHS.amenities}/${id}`, { method: 'DELETE' }),
 
     // INVENTORY (Inventario)
-    listInventory: (params?: { page?: number; pageSize?: number; home_id?: string; amenity_id?: string; room_id?: string }) =>
-      request<ListResponse<HomeInventoryWithRelations>>(`/home-inventory${q(params)}`),
+    listInventory: (params?: { page?: number; pageSize?: number; home_id?: string; amenity_id?: string; room_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<HomeInventoryWithRelations>>(`/home-inventory${q(params)}`, opts),
+    // El backend registra la cantidad inicial como movimiento de alta
     createInventory: (payload: CreateInventory) =>
       request<ItemResponse<HomeInventoryWithRelations>>(`/home-inventory`, { method: 'POST', body: JSON.stringify(payload) }),
-    getInventoryById: (id: string) =>
-      request<ItemResponse<HomeInventoryWithRelations>>(`/home-inventory/${id}`),
-    updateInventory: (id: string, payload: Partial<CreateInventory>) =>
+    getInventoryById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<HomeInventoryWithRelations>>(`/home-inventory/${id}`, opts),
+    // Cantidad y habitación no se editan aquí: cambian solo mediante movimientos de stock
+    updateInventory: (id: string, payload: UpdateInventory) =>
       request<ItemResponse<HomeInventoryWithRelations>>(`/home-inventory/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteInventory: (id: string) =>
       request<Record<string, never>>(`/home-inventory/${id}`, { method: 'DELETE' }),
 
+    // STOCK MOVEMENTS (Movimientos de stock)
+    listStockMovements: (inventoryId: string, params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<StockMovement>>(`/home-inventory/${inventoryId}/movements${q(params)}`, opts),
+    // El backend aplica el movimiento a la línea (cantidad, o habitación en los cambios de habitación)
+    // en la misma transacción en la que lo registra
+    createStockMovement: (payload: CreateStockMovement) =>
+      request<ItemResponse<StockMovement>>(`/home-inventory/${payload.inventory_id}/movements`, { method: 'POST', body: JSON.stringify(payload) }),
+    transferInventory: (payload: CreateInventoryTransfer) =>
+      request<ItemResponse<InventoryTransferResult>>(`/home-inventory/${payload.inventory_id}/transfer`, { method: 'POST', body: JSON.stringify(payload) }),
+
+    // STOCK TAKES (Recuentos de inventario)
+    createStockTake: (payload: CreateStockTake) =>
+      request<ItemResponse<StockTake>>(`/stock-takes`, { method: 'POST', body: JSON.stringify(payload) }),
+
     // SUPPLIERS (Proveedores)
-    listSuppliers: (params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Supplier>>(`/suppliers${q(params)}`),
+    listSuppliers: (params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<Supplier>>(`${CATALOG_PATHS.suppliers}${q(params)}`, opts),
     createSupplier: (payload: CreateSupplier) =>
-      request<ItemResponse<Supplier>>(`/suppliers`, { method: 'POST', body: JSON.stringify(payload) }),
-    getSupplierById: (id: string) =>
-      request<ItemResponse<Supplier>>(`/suppliers/${id}`),
+      request<ItemResponse<Supplier>>(CATALOG_PATHS.suppliers, { method: 'POST', body: JSON.stringify(payload) }),
+    getSupplierById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<Supplier>>(`${CATALOG_PATHS.suppliers}/${id}`, opts),
     updateSupplier: (id: string, payload: Partial<CreateSupplier>) =>
-      request<ItemResponse<Supplier>>(`/suppliers/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+      request<ItemResponse<Supplier>>(`${CATALOG_PATHS.suppliers}/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteSupplier: (id: string) =>
-      request<Record<string, never>>(`/suppliers/${id}`, { method: 'DELETE' }),
+      request<Record<string, never>>(`${CATALOG_PATHS.suppliers}/${id}`, { method: 'DELETE' }),
+
+    // PURCHASE ORDERS (Pedidos a proveedores)
+    listPurchaseOrders: (params?: { page?: number; pageSize?: number; status?: PurchaseOrderStatus; supplier_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<PurchaseOrder>>(`/purchase-orders${q(params)}`, opts),
+    createPurchaseOrder: (payload: CreatePurchaseOrder) =>
+      request<ItemResponse<PurchaseOrder>>(`/purchase-orders`, { method: 'POST', body: JSON.stringify(payload) }),
+    getPurchaseOrderById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<PurchaseOrder>>(`/purchase-orders/${id}`, opts),
+    // Solo los borradores admiten cambios en líneas y notas
+    updatePurchaseOrder: (id: string, payload: Partial<CreatePurchaseOrder>) =>
+      request<ItemResponse<PurchaseOrder>>(`/purchase-orders/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+    deletePurchaseOrder: (id: string) =>
+      request<Record<string, never>>(`/purchase-orders/${id}`, { method: 'DELETE' }),
+    sendPurchaseOrder: (id: string) =>
+      request<ItemResponse<PurchaseOrder>>(`/purchase-orders/${id}/send`, { method: 'POST' }),
+    // Recibir registra una reposición por línea en su inventario en una única transacción del backend
+    receivePurchaseOrder: (id: string) =>
+      request<ItemResponse<PurchaseOrder>>(`/purchase-orders/${id}/receive`, { method: 'POST' }),
 
     // STYLING GUIDES (Guías de Estilo)
-    listStylingGuides: (params?: { page?: number; pageSize?: number; room_id?: string }) =>
-      request<ListResponse<StylingGuide>>(`/styling-guides${q(params)}`),
+    listStylingGuides: (params?: { page?: number; pageSize?: number; room_id?: string; home_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<StylingGuide>>(`/styling-guides${q(params)}`, opts),
     createStylingGuide: (payload: CreateStylingGuide) =>
       request<ItemResponse<StylingGuide>>(`/styling-guides`, { method: 'POST', body: JSON.stringify(payload) }),
-    getStylingGuideById: (id: string) =>
-      request<ItemResponse<StylingGuide>>(`/styling-guides/${id}`),
+    getStylingGuideById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<StylingGuide>>(`/styling-guides/${id}`, opts),
     updateStylingGuide: (id: string, payload: Partial<CreateStylingGuide>) =>
       request<ItemResponse<StylingGuide>>(`/styling-guides/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteStylingGuide: (id: string) =>
       request<Record<string, never>>(`/styling-guides/${id}`, { method: 'DELETE' }),
 
     // PLAYBOOKS (Playbooks)
-    listPlaybooks: (params?: { page?: number; pageSize?: number; room_id?: string }) =>
-      request<ListResponse<Playbook>>(`/playbooks${q(params)}`),
+    listPlaybooks: (params?: { page?: number; pageSize?: number; room_id?: string; home_id?: string; template_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<PlaybookRecord>>(`/playbooks${q(params)}`, opts).then(playbookList),
     createPlaybook: (payload: CreatePlaybook) =>
-      request<ItemResponse<Playbook>>(`/playbooks`, { method: 'POST', body: JSON.stringify(payload) }),
-    getPlaybookById: (id: string) =>
-      request<ItemResponse<Playbook>>(`/playbooks/${id}`),
+      request<ItemResponse<PlaybookRecord>>(`/playbooks`, { method: 'POST', body: JSON.stringify(payload) }).then(playbookItem),
+    getPlaybookById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<PlaybookRecord>>(`/playbooks/${id}`, opts).then(playbookItem),
     updatePlaybook: (id: string, payload: Partial<CreatePlaybook>) =>
-      request<ItemResponse<Playbook>>(`/playbooks/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+      request<ItemResponse<PlaybookRecord>>(`/playbooks/${id}`, { method: 'PUT', body: JSON.stringify(payload) }).then(playbookItem),
     deletePlaybook: (id: string) =>
       request<Record<string, never>>(`/playbooks/${id}`, { method: 'DELETE' }),
 
+    // PLAYBOOK TEMPLATES (Plantillas de playbooks)
+    listPlaybookTemplates: (params?: { page?: number; pageSize?: number; room_type_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<PlaybookTemplate>>(`/playbook-templates${q(params)}`, opts),
+    createPlaybookTemplate: (payload: CreatePlaybookTemplate) =>
+      request<ItemResponse<PlaybookTemplate>>(`/playbook-templates`, { method: 'POST', body: JSON.stringify(payload) }),
+    getPlaybookTemplateById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<PlaybookTemplate>>(`/playbook-templates/${id}`, opts),
+    updatePlaybookTemplate: (id: string, payload: Partial<CreatePlaybookTemplate>) =>
+      request<ItemResponse<PlaybookTemplate>>(`/playbook-templates/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
+    deletePlaybookTemplate: (id: string) =>
+      request<Record<string, never>>(`/playbook-templates/${id}`, { method: 'DELETE' }),
+
+    // PLAYBOOK COMPLETIONS (Ejecuciones de playbooks)
+    listPlaybookCompletions: (params?: { page?: number; pageSize?: number; home_id?: string; room_id?: string; playbook_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<PlaybookCompletion>>(`/playbook-completions${q(params)}`, opts),
+    createPlaybookCompletion: (payload: CreatePlaybookCompletion) =>
+      request<ItemResponse<PlaybookCompletion>>(`/playbook-completions`, { method: 'POST', body: JSON.stringify(payload) }),
+
     // APPLIANCE GUIDES (Guías de Electrodomésticos)
-    listApplianceGuides: (params?: { page?: number; pageSize?: number; home_id?: string }) =>
-      request<ListResponse<ApplianceGuide>>(`/appliance-guides${q(params)}`),
+    listApplianceGuides: (params?: { page?: number; pageSize?: number; home_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<ApplianceGuide>>(`/appliance-guides${q(params)}`, opts),
     createApplianceGuide: (payload: CreateApplianceGuide) =>
       request<ItemResponse<ApplianceGuide>>(`/appliance-guides`, { method: 'POST', body: JSON.stringify(payload) }),
-    getApplianceGuideById: (id: string) =>
-      request<ItemResponse<ApplianceGuide>>(`/appliance-guides/${id}`),
+    getApplianceGuideById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<ApplianceGuide>>(`/appliance-guides/${id}`, opts),
     updateApplianceGuide: (id: string, payload: Partial<CreateApplianceGuide>) =>
       request<ItemResponse<ApplianceGuide>>(`/appliance-guides/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteApplianceGuide: (id: string) =>
       request<Record<string, never>>(`/appliance-guides/${id}`, { method: 'DELETE' }),
 
     // TECHNICAL PLANS (Planos Técnicos)
-    listTechnicalPlans: (params?: { page?: number; pageSize?: number; home_id?: string }) =>
-      request<ListResponse<TechnicalPlan>>(`/technical-plans${q(params)}`),
+    listTechnicalPlans: (params?: { page?: number; pageSize?: number; home_id?: string }, opts?: RequestOptions) =>
+      request<ListResponse<TechnicalPlan>>(`/technical-plans${q(params)}`, opts),
     createTechnicalPlan: (payload: CreateTechnicalPlan) =>
       request<ItemResponse<TechnicalPlan>>(`/technical-plans`, { method: 'POST', body: JSON.stringify(payload) }),
-    getTechnicalPlanById: (id: string) =>
-      request<ItemResponse<TechnicalPlan>>(`/technical-plans/${id}`),
+    getTechnicalPlanById: (id: string, opts?: RequestOptions) =>
+      request<ItemResponse<TechnicalPlan>>(`/technical-plans/${id}`, opts),
     updateTechnicalPlan: (id: string, payload: Partial<CreateTechnicalPlan>) =>
       request<ItemResponse<TechnicalPlan>>(`/technical-plans/${id}`, { method: 'PUT', body: JSON.stringify(payload) }),
     deleteTechnicalPlan: (id: string) =>
       request<Record<string, never>>(`/technical-plans/${id}`, { method: 'DELETE' }),
 
 
+    // SHARE LINKS (Enlaces públicos por casa)
+    listShareLinks: (homeId: string, opts?: RequestOptions) =>
+      request<ListResponse<HomeShareLink>>(`/share-links${q({ home_id: homeId })}`, opts),
+    createShareLink: (payload: CreateHomeShareLink) =>
+      request<ItemResponse<HomeShareLink>>(`/share-links`, { method: 'POST', body: JSON.stringify(payload) }),
+    revokeShareLink: (id: string) =>
+      request<ItemResponse<HomeShareLink>>(`/share-links/${id}/revoke`, { method: 'POST' }),
+
+    // Vista pública: el token identifica la casa; un token revocado o caducado responde 404/410
+    getGuestView: (token: string, opts?: RequestOptions) =>
+      request<ItemResponse<Omit<GuestHomeView, 'playbooks'> & { playbooks: PlaybookRecord[] }>>(`/guest/${encodeURIComponent(token)}`, opts)
+        .then((response): ItemResponse<GuestHomeView> => ({
+          ...response,
+          data: { ...response.data, playbooks: response.data.playbooks.map(normalizePlaybook) },
+        })),
+
+
     // ===== ENDPOINTS ESPECIALES =====
     
     // Habitaciones por casa
-    listRoomsByHome: (homeId: string, params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Room>>(`/rooms${q({ home_id: homeId, ...params })}`),
+    listRoomsByHome: (homeId: string, params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<Room>>(`/rooms${q({ home_id: homeId, ...params })}`, opts),
     
     // Amenities por casa
-    listAmenitiesByHome: (homeId: string, params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Amenity>>(`/amenities${q({ home_id: homeId, ...params })}`),
+    listAmenitiesByHome: (homeId: string, params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<Amenity>>(`${CATALOG_PATHS.amenities}${q({ home_id: homeId, ...params })}`, opts),
 
     // ===== ENDPOINTS LEGACY (mantener compatibilidad) =====
-    listStylingGuidesByHome: (homeId: string, params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<StylingGuide>>(`/styling-guides${q({ home_id: homeId, ...params })}`),
-    listPlaybooksByHome: (homeId: string, params?: { page?: number; pageSize?: number }) =>
-      request<ListResponse<Playbook>>(`/playbooks${q({ home_id: homeId, ...params })}`),
-    listApplianceGuidesByHome: (homeId: string) =>
-      request<{ success: true; data: ApplianceGuide[] }>(`/appliance-guides/by-home/${homeId}`),
+    listStylingGuidesByHome: (homeId: string, params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<StylingGuide>>(`/styling-guides${q({ home_id: homeId, ...params })}`, opts),
+    listPlaybooksByHome: (homeId: string, params?: { page?: number; pageSize?: number }, opts?: RequestOptions) =>
+      request<ListResponse<PlaybookRecord>>(`/playbooks${q({ home_id: homeId, ...params })}`, opts).then(playbookList),
+    listApplianceGuidesByHome: (homeId: string, opts?: RequestOptions) =>
+      request<{ success: true; data: ApplianceGuide[] }>(`/appliance-guides/by-home/${homeId}`, opts),
 
     linkApplianceGuide: (homeId: string, guideId: string) =>
       request<{ success: true }>(`/appliance-guides/link`, {
@@ -0,0 +1,62 @@
+// Roles de usuario: se leen del custom claim `role` del ID token de Firebase
+export type UserRole = 'admin' | 'content_editor' | 'housekeeping';
+
+export type Permission =
+  | 'content:edit'     // inventario, guías de estilo, playbooks y documentación de las casas
+  | 'content:delete'
+  | 'catalog:edit'     // productos, marcas, categorías y proveedores
+  | 'catalog:delete'
+  | 'playbook:run'     // ejecutar playbooks y registrar su finalización
+  | 'inventory:restock' // pantalla de reposición y marcar productos como repuestos
+  | 'inventory:count'  // recuentos físicos del inventario de una casa
+  | 'purchase:manage'  // pedidos a proveedores
+  | 'reports:view'     // informes de valoración del inventario
+  | 'storage:audit';   // auditoría y limpieza de archivos en Storage
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  content_editor: 'Editor de contenido',
+  housekeeping: 'Housekeeping',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['content:edit', 'content:delete', 'catalog:edit', 'catalog:delete', 'playbook:run', 'inventory:restock', 'inventory:count', 'purchase:manage', 'reports:view', 'storage:audit'],
+  content_editor: ['content:edit', 'content:delete', 'catalog:edit', 'playbook:run', 'inventory:restock', 'inventory:count', 'purchase:manage', 'reports:view'],
+  // Housekeeping consulta y ejecuta playbooks, repone productos y hace recuentos
+  housekeeping: ['playbook:run', 'inventory:restock', 'inventory:count'],
+};
+
+// Un claim ausente o desconocido se trata como el rol de menos privilegios
+export function parseRole(value: unknown): UserRole {
+  return typeof value === 'string' && value in ROLE_PERMISSIONS ? (value as UserRole) : 'housekeeping';
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
+// Rutas accesibles sin sesión iniciada (el login y la vista de solo lectura de los QR)
+const PUBLIC_ROUTES = ['/login', '/guest'];
+
+export function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+// Permiso necesario por ruta: gana el primer prefijo que coincide
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/admin/storage', permission: 'storage:audit' },
+  { prefix: '/restock', permission: 'inventory:restock' },
+  { prefix: '/purchase-orders', permission: 'purchase:manage' },
+  { prefix: '/reports', permission: 'reports:view' },
+  { prefix: '/wizard/catalog', permission: 'catalog:edit' },
+  { prefix: '/wizard', permission: 'content:edit' },
+];
+
+export function routePermission(pathname: string): Permission | null {
+  return ROUTE_PERMISSIONS.find(route => pathname.startsWith(route.prefix))?.permission ?? null;
+}
+
+export function canAccessRoute(role: UserRole | null | undefined, pathname: string): boolean {
+  const permission = routePermission(pathname);
+  return permission ? hasPermission(role, permission) : true;
+}
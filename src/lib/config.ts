@@ -6,6 +6,9 @@ const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL
 export const config = {
   // URL de la API backend
   apiUrl: baseUrl || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/api/v1',
+
+  // URL pública de esta aplicación (enlaces de los códigos QR); si falta se usa el origen actual
+  appUrl: process.env.NEXT_PUBLIC_APP_URL?.replace(/\/$/, ''),
   
   // Configuración de la aplicación
   app: {
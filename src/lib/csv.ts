@@ -0,0 +1,95 @@
+// CSV pensado para abrirse en Excel en español: separador ';', coma decimal y BOM UTF-8
+export type CsvCell = string | number | null | undefined;
+
+const SEPARATOR = ';';
+
+// Un texto que empieza por = + - @ (o tabulador/retorno) Excel lo ejecuta como fórmula:
+// se antepone un apóstrofo para que se muestre como texto (salvo números con signo, que son inofensivos)
+const FORMULA_START = /^[=+\-@\t\r]/;
+const SIGNED_NUMBER = /^[+-]\d+([.,]\d+)?$/;
+const GUARDED_FORMULA = /^'[=+\-@\t\r]/;
+
+function formatCell(value: CsvCell): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number'
+    ? String(value).replace('.', ',')
+    : FORMULA_START.test(value) && !SIGNED_NUMBER.test(value) ? `'${value}` : value;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(formatCell).join(SEPARATOR)).join('\r\n');
+}
+
+// Descarga en el navegador un contenido generado en cliente
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Firefox y Safari cancelan la descarga si la URL se revoca en el mismo tick del click
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadCsv(rows: CsvCell[][], filename: string) {
+  downloadFile(toCsv(rows), filename, 'text/csv;charset=utf-8');
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Mismas filas en un Excel de una hoja (write-excel-file se carga solo al exportar)
+export async function downloadXlsx(rows: CsvCell[][], filename: string, sheetName = 'Hoja1') {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  downloadFile(await writeXlsxFile(rows, { sheet: sheetName }).toBlob(), filename, XLSX_MIME_TYPE);
+}
+
+// Lee un CSV exportado por Excel u otras herramientas: detecta ';' o ',' en la cabecera
+// y respeta comillas (con "" escapadas y saltos de línea dentro de la celda)
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const separator = firstLine.split(';').length >= firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Las filas vacías (p. ej. al final del fichero) no aportan nada; a los textos protegidos
+  // al exportar se les quita el apóstrofo para que el CSV se pueda volver a importar
+  return rows
+    .filter(r => r.some(value => value.trim() !== ''))
+    .map(r => r.map(value => (GUARDED_FORMULA.test(value) ? value.slice(1) : value)));
+}
@@ -1,5 +1,15 @@
 import { initializeApp } from 'firebase/app';
-import { getStorage } from 'firebase/storage';
+import { getAuth } from 'firebase/auth';
+import { getDownloadURL, getStorage, ref, uploadBytesResumable } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import {
+  buildUploadPath,
+  runWithConcurrency,
+  UploadCanceledError,
+  type StorageAdapter,
+  type UploadHandle,
+  type UploadProgress,
+} from './storage';
 
 // Configuración de Firebase
 const firebaseConfig = {
@@ -17,92 +27,171 @@ const app = initializeApp(firebaseConfig);
 // Obtener instancia de Storage
 export const storage = getStorage(app);
 
+// Obtener instancia de Auth
+export const auth = getAuth(app);
+
+// ID token del usuario en sesión (Firebase lo renueva solo al caducar)
+export const getIdToken = async (forceRefresh = false): Promise<string | null> => {
+  // Esperar a que Firebase restaure la sesión persistida antes de leer currentUser
+  await auth.authStateReady();
+  return auth.currentUser ? auth.currentUser.getIdToken(forceRefresh) : null;
+};
+
+// Subidas simultáneas por defecto al subir varios archivos
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+
+// Subida reanudable con progreso por bytes y cancelación
+export const uploadFileResumable = (
+  file: Blob,
+  path: string,
+  onProgress?: (progress: UploadProgress) => void
+): UploadHandle => {
+  const task = uploadBytesResumable(ref(storage, path), file);
+
+  const promise = new Promise<string>((resolve, reject) => {
+    task.on(
+      'state_changed',
+      snapshot => onProgress?.({ bytesTransferred: snapshot.bytesTransferred, totalBytes: snapshot.totalBytes }),
+      error => {
+        if (error instanceof FirebaseError && error.code === 'storage/canceled') {
+          reject(new UploadCanceledError());
+          return;
+        }
+        console.error('Error durante la subida:', error);
+        reject(error);
+      },
+      () => {
+        getDownloadURL(task.snapshot.ref).then(resolve, reject);
+      }
+    );
+  });
+
+  return { promise, cancel: () => { task.cancel(); } };
+};
+
 // Función para subir archivos
 export const uploadFile = async (file: File, path: string): Promise<string> => {
-  const { ref, uploadBytes, getDownloadURL } = await import('firebase/storage');
-  
-  const storageRef = ref(storage, path);
+  return uploadFileResumable(file, path).promise;
+};
 
-  
-  try {
-    const snapshot = await uploadBytes(storageRef, file);
-    const downloadURL = await getDownloadURL(snapshot.ref);
-    return downloadURL;
-  } catch (error) {
-    console.error('Error durante la subida:', error);
-    throw error;
+// Función para subir múltiples archivos (en paralelo, con límite de concurrencia)
+export const uploadMultipleFiles = async (
+  files: File[],
+  basePath: string,
+  concurrency = DEFAULT_UPLOAD_CONCURRENCY
+): Promise<string[]> => {
+  const results = await runWithConcurrency(
+    files.map(file => () => uploadFile(file, buildUploadPath(basePath, file))),
+    concurrency
+  );
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed) {
+    throw failed.reason;
   }
+  return results.map(result => (result as PromiseFulfilledResult<string>).value);
 };
 
-// Función para subir múltiples archivos
-export const uploadMultipleFiles = async (files: File[], basePath: string): Promise<string[]> => {
-  const urls: string[] = [];
-  
-  for (const file of files) {
-    const timestamp = Date.now();
-    const fileName = `${timestamp}_${file.name}`;
-    const path = `${basePath}/${fileName}`;
-    
-    const url = await uploadFile(file, path);
-    urls.push(url);
+// Ruta del objeto en Storage a partir de su URL de descarga (null si no es una URL de Storage)
+export const storagePathFromUrl = (url: string): string | null => {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+
+  // Intentar diferentes patrones para extraer la ruta
+  let filePath: string | null = null;
+
+  // Patrón 1: /o/encoded-path?alt=media&token=...
+  const pattern1 = urlObj.pathname.match(/\/o\/(.+?)\?/);
+  if (pattern1) {
+    filePath = decodeURIComponent(pattern1[1]);
+  }
+
+  // Patrón 2: /o/encoded-path
+  if (!filePath) {
+    const pattern2 = urlObj.pathname.match(/\/o\/(.+)/);
+    if (pattern2) {
+      filePath = decodeURIComponent(pattern2[1]);
+    }
+  }
+
+  // Patrón 3: Si no funciona, intentar extraer directamente del pathname
+  if (!filePath) {
+    // Remover el bucket name del pathname
+    const pathParts = urlObj.pathname.split('/');
+    const bucketIndex = pathParts.findIndex(part => part === 'o');
+    if (bucketIndex !== -1 && bucketIndex + 1 < pathParts.length) {
+      filePath = pathParts.slice(bucketIndex + 1).join('/');
+      filePath = decodeURIComponent(filePath);
+    }
   }
-  
-  return urls;
+
+  return filePath;
 };
 
-// Función para eliminar un archivo del storage
-export const deleteFile = async (url: string): Promise<void> => {
+// Función para eliminar un archivo del storage por su ruta
+export const deleteFileByPath = async (filePath: string): Promise<void> => {
   const { ref, deleteObject } = await import('firebase/storage');
-  
+
   try {
-    
-    // Extraer la ruta del archivo desde la URL
-    const urlObj = new URL(url);
-    
-    // Intentar diferentes patrones para extraer la ruta
-    let filePath: string | null = null;
-    
-    // Patrón 1: /o/encoded-path?alt=media&token=...
-    const pattern1 = urlObj.pathname.match(/\/o\/(.+?)\?/);
-    if (pattern1) {
-      filePath = decodeURIComponent(pattern1[1]);
-    }
-    
-    // Patrón 2: /o/encoded-path
-    if (!filePath) {
-      const pattern2 = urlObj.pathname.match(/\/o\/(.+)/);
-      if (pattern2) {
-        filePath = decodeURIComponent(pattern2[1]);
-      }
-    }
-    
-    // Patrón 3: Si no funciona, intentar extraer directamente del pathname
-    if (!filePath) {
-      // Remover el bucket name del pathname
-      const pathParts = urlObj.pathname.split('/');
-      const bucketIndex = pathParts.findIndex(part => part === 'o');
-      if (bucketIndex !== -1 && bucketIndex + 1 < pathParts.length) {
-        filePath = pathParts.slice(bucketIndex + 1).join('/');
-        filePath = decodeURIComponent(filePath);
-      }
-    }
-    
-    if (!filePath) {
-      console.error('No se pudo extraer la ruta. URL completa:', url);
-      throw new Error('No se pudo extraer la ruta del archivo desde la URL');
-    }
-    
-    
-    const fileRef = ref(storage, filePath);
-    await deleteObject(fileRef);
+    await deleteObject(ref(storage, filePath));
   } catch (error) {
     console.error('Error al eliminar archivo:', error);
     throw error;
   }
 };
 
+// Función para eliminar un archivo del storage
+export const deleteFile = async (url: string): Promise<void> => {
+  // Extraer la ruta del archivo desde la URL
+  const filePath = storagePathFromUrl(url);
+  if (!filePath) {
+    console.error('No se pudo extraer la ruta. URL completa:', url);
+    throw new Error('No se pudo extraer la ruta del archivo desde la URL');
+  }
+  await deleteFileByPath(filePath);
+};
+
 // Función para eliminar múltiples archivos del storage
 export const deleteMultipleFiles = async (urls: string[]): Promise<void> => {
   const deletePromises = urls.map(url => deleteFile(url));
   await Promise.all(deletePromises);
 };
+
+export type StorageObjectInfo = {
+  path: string;
+  size: number;
+  createdAt: string; // ISO
+  contentType?: string;
+};
+
+// Lista recursivamente los objetos bajo una carpeta, con tamaño y fecha de creación
+export const listStorageObjects = async (prefix: string): Promise<StorageObjectInfo[]> => {
+  const { ref, listAll, getMetadata } = await import('firebase/storage');
+
+  const collect = async (folder: string): Promise<string[]> => {
+    const result = await listAll(ref(storage, folder));
+    const nested = await Promise.all(result.prefixes.map(child => collect(child.fullPath)));
+    return [...result.items.map(item => item.fullPath), ...nested.flat()];
+  };
+
+  const paths = await collect(prefix);
+  const results = await runWithConcurrency(
+    paths.map(path => async (): Promise<StorageObjectInfo> => {
+      const metadata = await getMetadata(ref(storage, path));
+      return { path, size: metadata.size, createdAt: metadata.timeCreated, contentType: metadata.contentType };
+    }),
+    8
+  );
+  return results
+    .filter((result): result is PromiseFulfilledResult<StorageObjectInfo> => result.status === 'fulfilled')
+    .map(result => result.value);
+};
+
+// Adaptador de almacenamiento sobre Firebase Storage (por defecto en FileUpload)
+export const firebaseStorageAdapter: StorageAdapter = {
+  upload: uploadFileResumable,
+  delete: deleteFile,
+};
@@ -0,0 +1,49 @@
+import type { FieldValues, Path, UseFormReturn } from 'react-hook-form';
+import { isApiError } from './apiClient';
+
+type ApplyApiErrorOptions<T extends FieldValues> = {
+  // Campos del formulario que pueden recibir errores (normalmente Object.keys(schema.shape))
+  fields: readonly string[];
+  // Traducción de nombres de campo del backend a nombres del formulario
+  fieldMap?: Partial<Record<string, Path<T>>>;
+  // Mensaje por defecto cuando el error no es de la API
+  fallbackMessage?: string;
+};
+
+// Vuelca los errores de validación del backend (ErrorResponse.error.details) sobre los
+// campos del formulario de react-hook-form. Los detalles sin campo reconocible y los
+// errores que no son de validación se asignan a `root.serverError`.
+// Devuelve el mensaje general para mostrarlo fuera del formulario si hace falta.
+export function applyApiErrorToForm<T extends FieldValues>(
+  error: unknown,
+  form: Pick<UseFormReturn<T>, 'setError'>,
+  { fields, fieldMap = {}, fallbackMessage = 'Se produjo un error inesperado' }: ApplyApiErrorOptions<T>
+): string {
+  if (!isApiError(error)) {
+    form.setError('root.serverError', { type: 'server', message: fallbackMessage });
+    return fallbackMessage;
+  }
+
+  const unmatched: string[] = [];
+  let focused = false;
+
+  for (const detail of error.details) {
+    const field = detail.field ? (fieldMap[detail.field] ?? detail.field) : undefined;
+    if (field && fields.includes(field)) {
+      form.setError(field as Path<T>, { type: 'server', message: detail.message }, { shouldFocus: !focused });
+      focused = true;
+    } else {
+      unmatched.push(detail.message);
+    }
+  }
+
+  const message = unmatched.length > 0
+    ? `${error.message}: ${unmatched.join(', ')}`
+    : error.message;
+
+  if (!focused || unmatched.length > 0) {
+    form.setError('root.serverError', { type: 'server', message });
+  }
+
+  return message;
+}
@@ -0,0 +1,37 @@
+import QRCode from 'qrcode';
+import { config } from './config';
+import type { HomeShareLink } from './types';
+
+// Rutas públicas de solo lectura: el token del enlace identifica la casa (nunca el UUID)
+export function guestHomePath(token: string): string {
+  return `/guest/${encodeURIComponent(token)}`;
+}
+
+export function guestRoomPath(token: string, roomId: string): string {
+  return `${guestHomePath(token)}/${roomId}`;
+}
+
+function appOrigin(): string {
+  return config.appUrl || (typeof window !== 'undefined' ? window.location.origin : '');
+}
+
+export function guestHomeUrl(token: string): string {
+  return `${appOrigin()}${guestHomePath(token)}`;
+}
+
+export function guestRoomUrl(token: string, roomId: string): string {
+  return `${appOrigin()}${guestRoomPath(token, roomId)}`;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export function shareLinkStatus(link: HomeShareLink, now = Date.now()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+// Código QR como data URL PNG; con corrección de errores 'M' sigue leyéndose con la etiqueta algo gastada
+export function qrCodeDataUrl(text: string, size = 512): Promise<string> {
+  return QRCode.toDataURL(text, { errorCorrectionLevel: 'M', margin: 1, width: size });
+}
@@ -0,0 +1,119 @@
+// Procesado de imágenes en el navegador antes de subirlas: redimensiona, corrige la orientación,
+// elimina los metadatos EXIF (incluida la geolocalización) y convierte a WebP.
+
+export type ImageOutputFormat = 'image/webp' | 'image/jpeg';
+
+export type ImageVariantOptions = {
+  maxWidth: number;
+  maxHeight: number;
+  quality?: number; // 0-1
+};
+
+export type ImageProcessingOptions = ImageVariantOptions & {
+  format?: ImageOutputFormat;
+  // Variante reducida para listados y galerías; false para no generarla
+  thumbnail?: ImageVariantOptions | false;
+};
+
+export type ProcessedImage = {
+  file: File;
+  thumbnail?: File;
+};
+
+// Presets por tipo de contenido
+export const STYLING_PHOTO_PROCESSING: ImageProcessingOptions = {
+  maxWidth: 2048,
+  maxHeight: 2048,
+  quality: 0.82,
+  format: 'image/webp',
+  thumbnail: { maxWidth: 400, maxHeight: 400, quality: 0.7 },
+};
+
+export const PRODUCT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxWidth: 1200,
+  maxHeight: 1200,
+  quality: 0.85,
+  format: 'image/webp',
+  thumbnail: { maxWidth: 300, maxHeight: 300, quality: 0.7 },
+};
+
+// Formatos que no conviene rasterizar: vectoriales y posiblemente animados
+const SKIPPED_TYPES = ['image/svg+xml', 'image/gif'];
+
+export function canProcessImage(file: File) {
+  return file.type.startsWith('image/') && !SKIPPED_TYPES.includes(file.type);
+}
+
+const EXTENSIONS: Record<ImageOutputFormat, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+function renameWithExtension(name: string, format: ImageOutputFormat, suffix = '') {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}${suffix}.${EXTENSIONS[format]}`;
+}
+
+async function decodeImage(file: File): Promise<ImageBitmap> {
+  // 'from-image' aplica la rotación indicada en el EXIF antes de dibujar
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number) {
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// Redibuja el bitmap en un canvas del tamaño final: el resultado ya no lleva metadatos
+async function renderVariant(
+  bitmap: ImageBitmap,
+  { maxWidth, maxHeight, quality }: ImageVariantOptions,
+  format: ImageOutputFormat
+): Promise<{ blob: Blob; format: ImageOutputFormat }> {
+  // Nunca se amplía: solo se reduce si supera el máximo
+  const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('No se pudo crear el contexto de dibujo');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas, format, quality);
+  // Navegadores sin codificador WebP devuelven PNG (o nada): se usa JPEG en su lugar
+  if (blob && blob.type === format) {
+    return { blob, format };
+  }
+  const fallback = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!fallback) {
+    throw new Error('No se pudo codificar la imagen');
+  }
+  return { blob: fallback, format: 'image/jpeg' };
+}
+
+export async function processImage(file: File, options: ImageProcessingOptions): Promise<ProcessedImage> {
+  if (!canProcessImage(file)) {
+    return { file };
+  }
+
+  const format = options.format ?? 'image/webp';
+  const bitmap = await decodeImage(file);
+  try {
+    const main = await renderVariant(bitmap, options, format);
+    const processed: ProcessedImage = {
+      file: new File([main.blob], renameWithExtension(file.name, main.format), { type: main.format }),
+    };
+
+    if (options.thumbnail) {
+      const thumb = await renderVariant(bitmap, options.thumbnail, format);
+      processed.thumbnail = new File([thumb.blob], renameWithExtension(file.name, thumb.format, '_thumb'), { type: thumb.format });
+    }
+
+    return processed;
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,60 @@
+import type { CsvCell } from './csv';
+import type { HomeInventory, HomeInventoryWithRelations, Room } from './types';
+
+// Stock bajo: la cantidad ha llegado al umbral mínimo de la línea
+export function isLowStock(item: Pick<HomeInventory, 'quantity' | 'minimum_threshold'>): boolean {
+  return item.quantity <= item.minimum_threshold;
+}
+
+// Cantidad propuesta al reponer: el doble del umbral, como mínimo una unidad más que ahora
+export function suggestedRestockQuantity(item: Pick<HomeInventory, 'quantity' | 'minimum_threshold'>): number {
+  return Math.max(item.minimum_threshold * 2, item.quantity + 1);
+}
+
+export function formatRestockDate(date: Date | string | undefined): string {
+  return date ? new Date(date).toLocaleDateString('es-ES') : 'Nunca';
+}
+
+export type InventoryRoomGroup = { id: string; name: string; items: HomeInventoryWithRelations[] };
+
+// Inventario agrupado por habitación. Los productos sin habitación (o de una habitación ya
+// eliminada) van a un grupo final con id ''.
+export function groupInventoryByRoom(items: HomeInventoryWithRelations[], rooms: Room[]): InventoryRoomGroup[] {
+  const groups = rooms.map(room => ({ id: room.id, name: room.name, items: items.filter(item => item.room_id === room.id) }));
+  const unassigned = items.filter(item => !rooms.some(room => room.id === item.room_id));
+  return [...groups, { id: '', name: 'Sin habitación', items: unassigned }];
+}
+
+// Coste unitario: precio de compra de la línea o, si no se indicó, precio base del producto
+export function unitCost(item: HomeInventoryWithRelations): number {
+  return Number(item.purchase_price || item.amenity?.base_price || 0);
+}
+
+export function inventoryValue(item: HomeInventoryWithRelations): number {
+  return unitCost(item) * item.quantity;
+}
+
+// Hoja de inventario de una casa para CSV o Excel
+export function inventorySpreadsheetRows(
+  items: HomeInventoryWithRelations[],
+  roomName: (roomId?: string) => string | undefined
+): CsvCell[][] {
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+  return [
+    ['Producto', 'Marca', 'Categoría', 'Habitación', 'Ubicación', 'Cantidad', 'Proveedor', 'Precio de compra', 'Precio base', 'Valor total'],
+    ...items.map(item => [
+      item.amenity?.name ?? '',
+      item.amenity?.brand?.name ?? '',
+      item.amenity?.category?.name ?? '',
+      roomName(item.room_id) ?? '',
+      item.location_details,
+      item.quantity,
+      item.supplier?.name ?? '',
+      round(Number(item.purchase_price || 0)),
+      round(Number(item.amenity?.base_price || 0)),
+      round(inventoryValue(item)),
+    ]),
+    [],
+    ['', '', '', '', '', '', '', '', 'Total', round(items.reduce((sum, item) => sum + inventoryValue(item), 0))],
+  ];
+}
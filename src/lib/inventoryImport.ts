@@ -0,0 +1,305 @@
+import { z } from 'zod';
+import { parseCsv } from './csv';
+import type { Amenity, Brand, Category, CreateInventory, HomeInventory, Room, Supplier } from './types';
+
+// ===== IMPORTACIÓN MASIVA DE INVENTARIO (CSV / XLSX) =====
+
+// Campos que se pueden asignar a una columna del fichero. Los alias (ya normalizados)
+// permiten adivinar la asignación a partir de la cabecera.
+export const IMPORT_FIELDS = [
+  { key: 'amenity_name', label: 'Producto', required: true, aliases: ['producto', 'nombre', 'articulo', 'amenity', 'product', 'name', 'item'] },
+  { key: 'reference', label: 'Referencia', required: false, aliases: ['referencia', 'ref', 'sku', 'codigo', 'reference'] },
+  { key: 'brand', label: 'Marca', required: false, aliases: ['marca', 'brand', 'fabricante'] },
+  { key: 'category', label: 'Categoría', required: false, aliases: ['categoria', 'category', 'familia'] },
+  { key: 'quantity', label: 'Cantidad', required: true, aliases: ['cantidad', 'unidades', 'uds', 'qty', 'quantity', 'stock'] },
+  { key: 'room', label: 'Habitación', required: false, aliases: ['habitacion', 'estancia', 'room', 'sala'] },
+  { key: 'location_details', label: 'Ubicación', required: false, aliases: ['ubicacion', 'location', 'lugar'] },
+  { key: 'minimum_threshold', label: 'Umbral mínimo', required: false, aliases: ['umbral', 'stock minimo', 'minimo', 'minimum', 'threshold'] },
+  { key: 'supplier', label: 'Proveedor', required: false, aliases: ['proveedor', 'supplier', 'vendor'] },
+  { key: 'purchase_price', label: 'Precio de compra', required: false, aliases: ['precio compra', 'precio', 'coste', 'price', 'cost'] },
+  { key: 'purchase_link', label: 'Enlace de compra', required: false, aliases: ['enlace', 'link', 'url'] },
+  { key: 'notes', label: 'Notas', required: false, aliases: ['notas', 'observaciones', 'comentarios', 'notes'] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['key'];
+
+// Campo → índice de columna del fichero
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Similitud mínima para dar por buena una coincidencia aproximada de nombres
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(text: string): string[] {
+  const compact = normalizeText(text).replace(/ /g, '');
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+}
+
+// Coeficiente de Dice sobre bigramas: 1 = iguales, 0 = nada en común
+export function similarity(a: string, b: string): number {
+  if (normalizeText(a) === normalizeText(b)) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach(gram => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let shared = 0;
+  right.forEach(gram => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+}
+
+function bestMatch<T>(name: string, items: T[], getName: (item: T) => string): { item: T; score: number } | null {
+  let best: { item: T; score: number } | null = null;
+  for (const item of items) {
+    const score = similarity(name, getName(item));
+    if (!best || score > best.score) best = { item, score };
+  }
+  return best && best.score >= FUZZY_MATCH_THRESHOLD ? best : null;
+}
+
+// Asigna cada campo a la columna cuya cabecera mejor encaja con sus alias
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const candidates: { field: ImportField; column: number; score: number }[] = [];
+  headers.forEach((header, column) => {
+    const normalized = normalizeText(header);
+    if (!normalized) return;
+    IMPORT_FIELDS.forEach(field => {
+      field.aliases.forEach(alias => {
+        if (normalized === alias) {
+          candidates.push({ field: field.key, column, score: 2 });
+        } else if (normalized.includes(alias)) {
+          // Entre coincidencias parciales gana el alias más largo ("stock minimo" antes que "stock")
+          candidates.push({ field: field.key, column, score: 1 + alias.length / 100 });
+        }
+      });
+    });
+  });
+
+  const mapping: ColumnMapping = {};
+  const usedColumns = new Set<number>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, column }) => {
+      if (mapping[field] !== undefined || usedColumns.has(column)) return;
+      mapping[field] = column;
+      usedColumns.add(column);
+    });
+  return mapping;
+}
+
+// Números escritos a la española ("1.234,50 €") o a la inglesa ("1234.50")
+export function parseNumber(value: string): number | undefined {
+  const text = value.replace(/[\s€]/g, '');
+  if (!text) return undefined;
+  // Solo puntos seguidos de grupos de tres cifras ("1.234", "1.234.567"): son separadores de miles
+  if (/^[+-]?\d{1,3}(\.\d{3})+$/.test(text)) return Number(text.replace(/\./g, ''));
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  const normalized = lastComma > lastDot
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  return Number(normalized);
+}
+
+export const importRowSchema = z.object({
+  amenity_name: z.string().trim().min(1, 'Falta el nombre del producto'),
+  reference: z.string().trim(),
+  brand: z.string().trim(),
+  category: z.string().trim(),
+  quantity: z.number({ message: 'Cantidad vacía o no válida' }).int('La cantidad debe ser un número entero').min(1, 'La cantidad debe ser mayor a 0'),
+  room: z.string().trim(),
+  location_details: z.string().trim(),
+  minimum_threshold: z.number({ message: 'Umbral mínimo no válido' }).int('El umbral debe ser un número entero').min(0, 'El umbral debe ser mayor o igual a 0'),
+  supplier: z.string().trim(),
+  purchase_price: z.number({ message: 'Precio no válido' }).min(0, 'El precio debe ser mayor o igual a 0'),
+  purchase_link: z.string().trim().url('El enlace de compra no es una URL válida').or(z.literal('')),
+  notes: z.string().trim(),
+});
+
+export type ImportRow = z.infer<typeof importRowSchema>;
+
+export type ImportCatalog = {
+  amenities: Amenity[];
+  brands: Brand[];
+  categories: Category[];
+  suppliers: Supplier[];
+  rooms: Room[];
+  inventory: HomeInventory[];   // Inventario actual de la casa
+};
+
+export type ImportOptions = {
+  createMissing: boolean;        // Crear productos, marcas y categorías que no existan
+  defaultSupplierId: string;     // Proveedor si ni la fila ni el producto indican uno
+};
+
+// Referencia a un elemento del catálogo: sin id hay que crearlo durante la importación
+export type CatalogRef = { id?: string; name: string };
+
+export type ImportPlanRow = {
+  line: number;                  // Fila del fichero (la 1 es la cabecera)
+  data?: ImportRow;
+  errors: string[];
+  warnings: string[];
+  amenity?: CatalogRef & { score?: number };
+  brand?: CatalogRef;
+  category?: CatalogRef;
+  room?: Room;
+  supplierId?: string;
+  existing?: HomeInventory;      // Línea de la casa que se actualiza en lugar de crear otra
+};
+
+export type ImportAction = 'create' | 'update' | 'error';
+
+export function importAction(row: ImportPlanRow): ImportAction {
+  if (row.errors.length > 0) return 'error';
+  return row.existing ? 'update' : 'create';
+}
+
+function cell(cells: string[], mapping: ColumnMapping, field: ImportField): string {
+  const column = mapping[field];
+  return column === undefined ? '' : (cells[column] ?? '').trim();
+}
+
+function resolveByName<T extends { id: string; name: string }>(name: string, items: T[]): T | undefined {
+  return bestMatch(name, items, item => item.name)?.item;
+}
+
+// Simulación: valida cada fila y decide qué se crea, qué se actualiza y qué falla, sin escribir nada
+export function buildImportPlan(
+  rows: string[][],
+  mapping: ColumnMapping,
+  catalog: ImportCatalog,
+  options: ImportOptions
+): ImportPlanRow[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const raw = {
+      amenity_name: cell(cells, mapping, 'amenity_name'),
+      reference: cell(cells, mapping, 'reference'),
+      brand: cell(cells, mapping, 'brand'),
+      category: cell(cells, mapping, 'category'),
+      quantity: parseNumber(cell(cells, mapping, 'quantity')),
+      room: cell(cells, mapping, 'room'),
+      location_details: cell(cells, mapping, 'location_details'),
+      minimum_threshold: parseNumber(cell(cells, mapping, 'minimum_threshold')) ?? 1,
+      supplier: cell(cells, mapping, 'supplier'),
+      purchase_price: parseNumber(cell(cells, mapping, 'purchase_price')) ?? 0,
+      purchase_link: cell(cells, mapping, 'purchase_link'),
+      notes: cell(cells, mapping, 'notes'),
+    };
+
+    const parsed = importRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      return { line, errors: parsed.error.issues.map(issue => issue.message), warnings: [] };
+    }
+
+    const data = parsed.data;
+    const row: ImportPlanRow = { line, data, errors: [], warnings: [] };
+
+    // Producto: primero por referencia exacta, después por nombre aproximado
+    const byReference = data.reference
+      ? catalog.amenities.find(amenity => amenity.reference && normalizeText(amenity.reference) === normalizeText(data.reference))
+      : undefined;
+    const byName = byReference ? null : bestMatch(data.amenity_name, catalog.amenities, amenity => amenity.name);
+    const amenity = byReference ?? byName?.item;
+
+    if (amenity) {
+      row.amenity = { id: amenity.id, name: amenity.name, score: byReference ? 1 : byName?.score };
+    } else if (!options.createMissing) {
+      row.errors.push(`"${data.amenity_name}" no existe en el catálogo`);
+    } else {
+      row.amenity = { name: data.amenity_name };
+      if (data.category) {
+        const category = resolveByName(data.category, catalog.categories);
+        row.category = category ? { id: category.id, name: category.name } : { name: data.category };
+      } else {
+        row.errors.push('Falta la categoría para crear el producto');
+      }
+      if (data.brand) {
+        const brand = resolveByName(data.brand, catalog.brands);
+        row.brand = brand ? { id: brand.id, name: brand.name } : { name: data.brand };
+      }
+    }
+
+    if (data.room) {
+      row.room = resolveByName(data.room, catalog.rooms);
+      if (!row.room) row.warnings.push(`La habitación "${data.room}" no existe: se importa sin habitación`);
+    }
+
+    if (data.supplier) {
+      row.supplierId = resolveByName(data.supplier, catalog.suppliers)?.id;
+      if (!row.supplierId) row.errors.push(`El proveedor "${data.supplier}" no existe`);
+    } else {
+      row.supplierId = amenity?.preferred_supplier_id || options.defaultSupplierId || undefined;
+      if (!row.supplierId) row.errors.push('Sin proveedor: indica uno en el fichero o elige uno por defecto');
+    }
+
+    // Un producto por habitación: si ya está en la casa se actualiza esa línea
+    const amenityKey = row.amenity?.id ?? `nuevo:${normalizeText(data.amenity_name)}`;
+    const key = `${amenityKey}|${row.room?.id ?? ''}`;
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) {
+      row.errors.push(`Repite el producto y la habitación de la fila ${duplicateOf}`);
+    } else {
+      seen.set(key, line);
+    }
+    if (amenity) {
+      row.existing = catalog.inventory.find(item => item.amenity_id === amenity.id && (item.room_id || '') === (row.room?.id ?? ''));
+    }
+
+    return row;
+  });
+}
+
+// Línea de inventario a partir de una fila ya validada
+export function inventoryFromImportRow(row: ImportPlanRow, homeId: string, amenityId: string): CreateInventory {
+  const data = row.data!;
+  return {
+    home_id: homeId,
+    amenity_id: amenityId,
+    room_id: row.room?.id,
+    quantity: data.quantity,
+    location_details: data.location_details || 'Sin ubicación específica',
+    minimum_threshold: data.minimum_threshold,
+    supplier_id: row.supplierId!,
+    purchase_link: data.purchase_link || undefined,
+    purchase_price: data.purchase_price,
+    notes: data.notes || undefined,
+  };
+}
+
+export type ImportResult = { line: number; ok: boolean; message?: string };
+
+// Filas del fichero como texto: CSV con el lector propio, XLSX con read-excel-file (se carga solo al importar).
+// Los números de Excel se pasan con coma decimal, igual que en un CSV en español
+export async function readImportFile(file: File): Promise<string[][]> {
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCsv(await file.text());
+
+  const { readSheet } = await import('read-excel-file/browser');
+  const rows = await readSheet(file);
+  return rows
+    .map(row => row.map(value => {
+      if (value === null || value === undefined) return '';
+      if (typeof value === 'number') return String(value).replace('.', ',');
+      if (value instanceof Date) return value.toISOString().slice(0, 10);
+      return String(value);
+    }))
+    .filter(row => row.some(value => value.trim() !== ''));
+}
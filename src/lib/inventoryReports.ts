@@ -0,0 +1,123 @@
+import type { CsvCell } from './csv';
+import type { HomeInventoryWithRelations } from './types';
+
+// ===== VALORACIÓN DEL INVENTARIO =====
+// Valor de reposición: lo que costaría reponerlo hoy a precio de catálogo (o al de compra si el
+// producto no tiene precio base). Gasto: lo que se pagó según el precio de compra de cada línea.
+
+export function replacementValue(item: HomeInventoryWithRelations): number {
+  return Number(item.amenity?.base_price || item.purchase_price || 0) * item.quantity;
+}
+
+export function purchaseSpend(item: HomeInventoryWithRelations): number {
+  return Number(item.purchase_price || 0) * item.quantity;
+}
+
+export type ValuationGroup = {
+  id: string;
+  name: string;
+  lines: number;
+  units: number;
+  replacementValue: number;
+  purchaseSpend: number;
+};
+
+export type ValuationTotals = Omit<ValuationGroup, 'id' | 'name'>;
+
+export function valuationTotals(items: HomeInventoryWithRelations[]): ValuationTotals {
+  return items.reduce<ValuationTotals>(
+    (totals, item) => ({
+      lines: totals.lines + 1,
+      units: totals.units + item.quantity,
+      replacementValue: totals.replacementValue + replacementValue(item),
+      purchaseSpend: totals.purchaseSpend + purchaseSpend(item),
+    }),
+    { lines: 0, units: 0, replacementValue: 0, purchaseSpend: 0 }
+  );
+}
+
+// Agrupa las líneas por la clave indicada, de mayor a menor valor de reposición
+export function groupValuation(
+  items: HomeInventoryWithRelations[],
+  groupOf: (item: HomeInventoryWithRelations) => { id: string; name: string }
+): ValuationGroup[] {
+  const groups = new Map<string, { name: string; items: HomeInventoryWithRelations[] }>();
+  items.forEach(item => {
+    const { id, name } = groupOf(item);
+    const group = groups.get(id) ?? { name, items: [] };
+    group.items.push(item);
+    groups.set(id, group);
+  });
+  return [...groups.entries()]
+    .map(([id, group]) => ({ id, name: group.name, ...valuationTotals(group.items) }))
+    .sort((a, b) => b.replacementValue - a.replacementValue);
+}
+
+export type PriceComparison = {
+  amenityId: string;
+  name: string;
+  units: number;
+  averagePurchasePrice: number;  // Media ponderada por unidades
+  basePrice: number;
+  difference: number;            // Compra - catálogo, por unidad
+  differencePercent: number;
+};
+
+// Precio medio de compra frente al precio base del catálogo, por producto.
+// Solo productos con ambos precios: sin alguno de ellos la comparación no dice nada.
+export function priceComparison(items: HomeInventoryWithRelations[]): PriceComparison[] {
+  const byAmenity = new Map<string, { name: string; basePrice: number; units: number; spend: number }>();
+  items
+    .filter(item => Number(item.purchase_price) > 0 && Number(item.amenity?.base_price) > 0)
+    .forEach(item => {
+      const entry = byAmenity.get(item.amenity_id) ?? {
+        name: item.amenity?.name ?? 'Producto',
+        basePrice: Number(item.amenity!.base_price),
+        units: 0,
+        spend: 0,
+      };
+      entry.units += item.quantity;
+      entry.spend += purchaseSpend(item);
+      byAmenity.set(item.amenity_id, entry);
+    });
+
+  return [...byAmenity.entries()]
+    .filter(([, entry]) => entry.units > 0)
+    .map(([amenityId, entry]) => {
+      const averagePurchasePrice = entry.spend / entry.units;
+      const difference = averagePurchasePrice - entry.basePrice;
+      return {
+        amenityId,
+        name: entry.name,
+        units: entry.units,
+        averagePurchasePrice,
+        basePrice: entry.basePrice,
+        difference,
+        differencePercent: (difference / entry.basePrice) * 100,
+      };
+    })
+    .sort((a, b) => Math.abs(b.differencePercent) - Math.abs(a.differencePercent));
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function valuationRows(title: string, groups: ValuationGroup[]): CsvCell[][] {
+  return [
+    [title, 'Líneas', 'Unidades', 'Valor de reposición', 'Gasto de compra'],
+    ...groups.map(group => [group.name, group.lines, group.units, round(group.replacementValue), round(group.purchaseSpend)]),
+  ];
+}
+
+export function priceComparisonRows(comparisons: PriceComparison[]): CsvCell[][] {
+  return [
+    ['Producto', 'Unidades', 'Precio medio de compra', 'Precio base', 'Diferencia', 'Diferencia (%)'],
+    ...comparisons.map(comparison => [
+      comparison.name,
+      comparison.units,
+      round(comparison.averagePurchasePrice),
+      round(comparison.basePrice),
+      round(comparison.difference),
+      round(comparison.differencePercent),
+    ]),
+  ];
+}
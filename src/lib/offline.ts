@@ -0,0 +1,176 @@
+// Modo sin conexión: caché de lecturas de las casas descargadas y cola de escrituras (outbox)
+// que se reenvía al recuperar la conexión. La persistencia está en offlineStore (IndexedDB);
+// aquí solo la lógica pura.
+
+import { CATALOG_PATHS } from './apiClient';
+
+export type OutboxMethod = 'POST' | 'PUT' | 'DELETE';
+
+export type OutboxEntry = {
+  seq: number;                   // Orden de llegada (clave autoincremental)
+  method: OutboxMethod;
+  path: string;
+  body?: string;                 // JSON tal cual se habría enviado
+  tempId?: string;               // Id provisional devuelto a la interfaz en las altas
+  queuedAt: string;              // ISO: el backend lo usa para detectar cambios posteriores
+};
+
+export type OutboxConflict = {
+  seq: number;
+  entry: OutboxEntry;
+  status: number;                // Status HTTP con el que el backend rechazó la escritura
+  message: string;
+  failedAt: string;
+};
+
+// Lo que el cliente de la API necesita del modo sin conexión
+export interface OfflineAdapter {
+  // Guarda una lectura correcta si pertenece a una casa disponible sin conexión
+  saveResponse: (path: string, body: unknown) => Promise<void>;
+  readResponse: (path: string) => Promise<unknown | undefined>;
+  // Encola una escritura y devuelve la respuesta provisional, o undefined si la ruta no admite cola
+  enqueue: (method: OutboxMethod, path: string, body?: string) => Promise<unknown | undefined>;
+}
+
+// Escrituras que se pueden hacer sin conexión: el contenido del día a día de una casa.
+// Catálogo, casas y pedidos necesitan conexión.
+const QUEUEABLE_PATHS = [
+  /^\/home-inventory(\/|$)/,
+  /^\/rooms(\/|$)/,
+  /^\/styling-guides(\/|$)/,
+  /^\/playbooks(\/|$)/,
+  /^\/playbook-completions(\/|$)/,
+  /^\/stock-takes$/,
+];
+
+export function isQueueable(path: string): boolean {
+  return QUEUEABLE_PATHS.some(pattern => pattern.test(path));
+}
+
+// Listas compartidas por todas las casas que usan los formularios (proveedores, productos...)
+const SHARED_LIST_PATHS: string[] = Object.values(CATALOG_PATHS);
+
+type ParsedPath = { resource: string; id?: string; action?: string; params: URLSearchParams };
+
+function parsePath(path: string): ParsedPath {
+  const url = new URL(path, 'http://offline.local');
+  const [resource = '', id, action] = url.pathname.split('/').filter(Boolean);
+  return { resource, id, action, params: url.searchParams };
+}
+
+// Clave de una lectura guardada: la ruta con los parámetros ordenados
+export function cacheKey(path: string): string {
+  const url = new URL(path, 'http://offline.local');
+  url.searchParams.sort();
+  return `${url.pathname}${url.search}`;
+}
+
+// Casa a la que pertenece una lectura, si se puede saber por la ruta o por la respuesta
+export function responseHomeId(path: string, body: unknown): string | undefined {
+  const { resource, id, action, params } = parsePath(path);
+  if (params.get('home_id')) return params.get('home_id')!;
+  if (resource === 'homes' && id) return id;
+  if (resource === 'appliance-guides' && id === 'by-home') return action;
+  const data = (body as { data?: { home_id?: string } } | undefined)?.data;
+  return data && !Array.isArray(data) ? data.home_id : undefined;
+}
+
+export function isSharedList(path: string): boolean {
+  const { pathname } = new URL(path, 'http://offline.local');
+  return SHARED_LIST_PATHS.includes(pathname);
+}
+
+export function newTempId(): string {
+  return `offline-${crypto.randomUUID()}`;
+}
+
+// Respuesta provisional de una escritura encolada, con la forma de ItemResponse
+export function queuedResponse(entry: Omit<OutboxEntry, 'seq'>): unknown {
+  if (entry.method === 'DELETE') return {};
+  const payload = entry.body ? (JSON.parse(entry.body) as Record<string, unknown>) : {};
+  const { id } = parsePath(entry.path);
+  const now = new Date().toISOString();
+  return {
+    success: true,
+    data: entry.tempId
+      ? { ...payload, id: entry.tempId, created_at: now, updated_at: now }
+      : { ...payload, id, updated_at: now },
+  };
+}
+
+type CachedBody = { data?: unknown };
+type Item = Record<string, unknown>;
+
+// Refleja una escritura encolada en una lectura guardada, para que la interfaz la muestre
+// mientras no hay conexión. Devuelve undefined si la lectura no se ve afectada.
+export function applyQueuedWrite(key: string, cached: CachedBody, entry: Omit<OutboxEntry, 'seq'>): CachedBody | undefined {
+  const write = parsePath(entry.path);
+  const target = parsePath(key);
+  const payload = entry.body ? (JSON.parse(entry.body) as Item) : {};
+
+  let patch: ((item: Item) => Item) | undefined;
+  if (write.resource === 'home-inventory' && write.action === 'movements') {
+    // Movimiento de stock: cambia la cantidad (y la habitación en los cambios de habitación)
+    patch = item => ({
+      ...item,
+      quantity: Number(item.quantity) + Number(payload.quantity_change || 0),
+      ...(payload.type === 'room_move' ? { room_id: payload.to_room_id } : {}),
+    });
+  } else if (write.action) {
+    return undefined;
+  } else if (entry.method === 'PUT') {
+    patch = item => ({ ...item, ...payload });
+  }
+
+  if (target.resource !== write.resource || target.action) return undefined;
+  const data = cached.data;
+
+  if (Array.isArray(data)) {
+    if (entry.method === 'POST' && !write.id) {
+      const homeFilter = target.params.get('home_id');
+      if (homeFilter && payload.home_id !== homeFilter) return undefined;
+      // Las listas recorridas página a página solo reciben el alta en la primera
+      if (Number(target.params.get('page') ?? 1) > 1) return undefined;
+      return { ...cached, data: [...data, (queuedResponse(entry) as { data: Item }).data] };
+    }
+    if (!write.id) return undefined;
+    if (entry.method === 'DELETE') return { ...cached, data: data.filter(item => (item as Item).id !== write.id) };
+    return patch ? { ...cached, data: data.map(item => ((item as Item).id === write.id ? patch!(item as Item) : item)) } : undefined;
+  }
+
+  if (data && target.id === write.id && patch) {
+    return { ...cached, data: patch(data as Item) };
+  }
+  return undefined;
+}
+
+// Sustituye un id provisional por el definitivo en una escritura pendiente
+export function replaceTempId<T extends Pick<OutboxEntry, 'path' | 'body'>>(entry: T, tempId: string, realId: string): T {
+  return {
+    ...entry,
+    path: entry.path.split(tempId).join(realId),
+    body: entry.body?.split(tempId).join(realId),
+  };
+}
+
+const RESOURCE_LABELS: Record<string, string> = {
+  'home-inventory': 'inventario',
+  'rooms': 'habitación',
+  'styling-guides': 'guía de estilo',
+  'playbooks': 'playbook',
+  'playbook-completions': 'registro de playbook',
+  'stock-takes': 'recuento',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  movements: 'Movimiento de stock',
+  transfer: 'Transferencia entre casas',
+};
+
+// Descripción legible de una escritura pendiente o en conflicto
+export function outboxLabel(entry: Pick<OutboxEntry, 'method' | 'path'>): string {
+  const { resource, action } = parsePath(entry.path);
+  if (action && ACTION_LABELS[action]) return ACTION_LABELS[action];
+  const verb = entry.method === 'POST' ? 'Alta' : entry.method === 'PUT' ? 'Cambio' : 'Baja';
+  return `${verb} de ${RESOURCE_LABELS[resource] ?? resource}`;
+}
@@ -0,0 +1,242 @@
+import { isApiError } from './apiClient';
+import {
+  applyQueuedWrite,
+  cacheKey,
+  isQueueable,
+  isSharedList,
+  newTempId,
+  queuedResponse,
+  replaceTempId,
+  responseHomeId,
+  type OfflineAdapter,
+  type OutboxConflict,
+  type OutboxEntry,
+  type OutboxMethod,
+} from './offline';
+
+// Persistencia del modo sin conexión en IndexedDB:
+// - responses: lecturas guardadas de las casas disponibles sin conexión
+// - outbox: escrituras pendientes, en orden de llegada
+// - conflicts: escrituras que el backend rechazó al sincronizar
+// - homes: casas disponibles sin conexión
+
+const DB_NAME = 'vivla-offline';
+const DB_VERSION = 1;
+
+type StoreName = 'responses' | 'outbox' | 'conflicts' | 'homes';
+type CachedResponse = { key: string; body: { data?: unknown }; savedAt: string };
+export type OfflineHome = { id: string; savedAt: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('responses', { keyPath: 'key' });
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+        db.createObjectStore('conflicts', { keyPath: 'seq' });
+        db.createObjectStore('homes', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const isAvailable = () => typeof indexedDB !== 'undefined';
+
+// ===== AVISOS DE CAMBIOS =====
+// La interfaz (OfflineProvider) se suscribe para refrescar pendientes y conflictos
+
+const listeners = new Set<() => void>();
+
+export function subscribeOfflineStore(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const notify = () => listeners.forEach(listener => listener());
+
+// ===== CASAS DISPONIBLES SIN CONEXIÓN =====
+
+let offlineHomeIds: Promise<Set<string>> | null = null;
+
+function loadOfflineHomeIds(): Promise<Set<string>> {
+  if (!offlineHomeIds) {
+    offlineHomeIds = run<OfflineHome[]>('homes', 'readonly', store => store.getAll())
+      .then(homes => new Set(homes.map(home => home.id)))
+      .catch(error => {
+        console.error('Error al leer las casas sin conexión:', error);
+        return new Set<string>();
+      });
+  }
+  return offlineHomeIds;
+}
+
+export async function listOfflineHomes(): Promise<OfflineHome[]> {
+  if (!isAvailable()) return [];
+  return run<OfflineHome[]>('homes', 'readonly', store => store.getAll());
+}
+
+export async function setOfflineHome(homeId: string, enabled: boolean): Promise<void> {
+  const ids = await loadOfflineHomeIds();
+  if (enabled) {
+    await run('homes', 'readwrite', store => store.put({ id: homeId, savedAt: new Date().toISOString() }));
+    ids.add(homeId);
+  } else {
+    await run('homes', 'readwrite', store => store.delete(homeId));
+    ids.delete(homeId);
+    // Las lecturas de la casa se borran; las compartidas se quedan mientras quede alguna casa
+    const responses = await run<CachedResponse[]>('responses', 'readonly', store => store.getAll());
+    await Promise.all(responses
+      .filter(response => responseHomeId(response.key, response.body) === homeId || (ids.size === 0 && isSharedList(response.key)))
+      .map(response => run('responses', 'readwrite', store => store.delete(response.key))));
+  }
+  notify();
+}
+
+// ===== ADAPTADOR PARA EL CLIENTE DE LA API =====
+
+async function saveResponse(path: string, body: unknown): Promise<void> {
+  if (!isAvailable()) return;
+  const ids = await loadOfflineHomeIds();
+  if (ids.size === 0) return;
+  const homeId = responseHomeId(path, body);
+  if (homeId ? !ids.has(homeId) : !isSharedList(path)) return;
+  await run('responses', 'readwrite', store =>
+    store.put({ key: cacheKey(path), body: body as CachedResponse['body'], savedAt: new Date().toISOString() }));
+}
+
+async function readResponse(path: string): Promise<unknown | undefined> {
+  if (!isAvailable()) return undefined;
+  const cached = await run<CachedResponse | undefined>('responses', 'readonly', store => store.get(cacheKey(path)));
+  return cached?.body;
+}
+
+async function enqueue(method: OutboxMethod, path: string, body?: string): Promise<unknown | undefined> {
+  if (!isAvailable() || !isQueueable(path)) return undefined;
+  const isCreate = method === 'POST' && path.split('/').filter(Boolean).length === 1;
+  const entry: Omit<OutboxEntry, 'seq'> = {
+    method,
+    path,
+    body,
+    tempId: isCreate ? newTempId() : undefined,
+    queuedAt: new Date().toISOString(),
+  };
+  await run('outbox', 'readwrite', store => store.add(entry));
+
+  // Las lecturas guardadas reflejan el cambio para que la interfaz lo muestre sin conexión
+  const responses = await run<CachedResponse[]>('responses', 'readonly', store => store.getAll());
+  await Promise.all(responses.map(response => {
+    const updated = applyQueuedWrite(response.key, response.body, entry);
+    return updated ? run('responses', 'readwrite', store => store.put({ ...response, body: updated })) : undefined;
+  }));
+
+  notify();
+  return queuedResponse(entry);
+}
+
+export const indexedDbOfflineAdapter: OfflineAdapter = { saveResponse, readResponse, enqueue };
+
+// ===== OUTBOX Y CONFLICTOS =====
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  if (!isAvailable()) return [];
+  return run<OutboxEntry[]>('outbox', 'readonly', store => store.getAll());
+}
+
+export async function listConflicts(): Promise<OutboxConflict[]> {
+  if (!isAvailable()) return [];
+  return run<OutboxConflict[]>('conflicts', 'readonly', store => store.getAll());
+}
+
+export async function dismissConflict(seq: number): Promise<void> {
+  await run('conflicts', 'readwrite', store => store.delete(seq));
+  notify();
+}
+
+export type SyncResult = { synced: number; conflicts: number; remaining: number };
+
+let syncing: Promise<SyncResult> | null = null;
+
+// Fallos que no dependen de la escritura (red, servidor caído, sesión caducada o límite de
+// peticiones): la escritura se queda en cola para la próxima sincronización
+function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 401 || status === 403 || status === 408 || status === 429 || status >= 500;
+}
+
+// Reenvía las escrituras pendientes en orden. Un fallo reintentable detiene la sincronización
+// (se reintenta más tarde); un rechazo del backend (409, 412, 422...) pasa a conflictos y se continúa.
+// Al crearse algo que se dio de alta sin conexión, su id provisional se sustituye por el
+// definitivo en las escrituras pendientes que lo usan.
+export function syncOutbox(replay: (entry: OutboxEntry) => Promise<unknown>): Promise<SyncResult> {
+  if (!syncing) {
+    syncing = (async () => {
+      let entries = await listOutbox();
+      let synced = 0;
+      let conflicts = 0;
+
+      while (entries.length > 0) {
+        const [entry, ...rest] = entries;
+        try {
+          const response = await replay(entry);
+          await run('outbox', 'readwrite', store => store.delete(entry.seq));
+          synced++;
+
+          const realId = (response as { data?: { id?: string } } | undefined)?.data?.id;
+          if (entry.tempId && realId) {
+            const tempId = entry.tempId;
+            entries = await Promise.all(rest.map(async pending => {
+              const updated = replaceTempId(pending, tempId, realId);
+              if (updated.path !== pending.path || updated.body !== pending.body) {
+                await run('outbox', 'readwrite', store => store.put(updated));
+              }
+              return updated;
+            }));
+          } else {
+            entries = rest;
+          }
+        } catch (error) {
+          if (!isApiError(error) || isRetryableStatus(error.status)) {
+            console.error('Sincronización interrumpida, se reintentará más tarde:', error);
+            break;
+          }
+          console.error('Conflicto al sincronizar una escritura pendiente:', error);
+          const conflict: OutboxConflict = {
+            seq: entry.seq,
+            entry,
+            status: error.status,
+            message: error.message,
+            failedAt: new Date().toISOString(),
+          };
+          await run('conflicts', 'readwrite', store => store.put(conflict));
+          await run('outbox', 'readwrite', store => store.delete(entry.seq));
+          conflicts++;
+          entries = rest;
+        }
+      }
+
+      notify();
+      return { synced, conflicts, remaining: entries.length };
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
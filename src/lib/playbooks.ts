@@ -0,0 +1,111 @@
+import { parseBulletList } from './textLists';
+import type { Amenity, CreatePlaybook, Playbook, PlaybookMaterial, PlaybookRecord, PlaybookStep, PlaybookTemplate, PlaybookType } from './types';
+
+export const PLAYBOOK_TYPE_LABELS: Record<PlaybookType, string> = {
+  check_in: 'Check-in',
+  check_out: 'Check-out',
+  deep_clean: 'Limpieza profunda',
+  maintenance: 'Mantenimiento',
+};
+
+export const PLAYBOOK_TYPES = ['check_in', 'check_out', 'deep_clean', 'maintenance'] as const satisfies readonly PlaybookType[];
+
+export function isPlaybookType(value: unknown): value is PlaybookType {
+  return typeof value === 'string' && value in PLAYBOOK_TYPE_LABELS;
+}
+
+// Tipos en texto libre de playbooks antiguos (incluidas las opciones del wizard anterior)
+const LEGACY_TYPE_PATTERNS: [RegExp, PlaybookType][] = [
+  [/check.?in|entrada|llegada|preparaci/i, 'check_in'],
+  [/check.?out|salida/i, 'check_out'],
+  [/profund|deep|limpieza/i, 'deep_clean'],
+  [/manten|revisi|emergencia|repara/i, 'maintenance'],
+];
+
+export function parsePlaybookType(value: string | null | undefined): PlaybookType {
+  if (isPlaybookType(value)) return value;
+  const match = LEGACY_TYPE_PATTERNS.find(([pattern]) => pattern.test(value ?? ''));
+  // Sin coincidencia se trata como mantenimiento: es el tipo más genérico
+  return match ? match[1] : 'maintenance';
+}
+
+// Texto con una tarea por línea (con o sin viñetas/numeración) → pasos ordenados
+export function stepsFromText(text: string | null | undefined): PlaybookStep[] {
+  return parseBulletList(text).map((line, index) => ({ order: index + 1, text: line }));
+}
+
+// Reasigna `order` tras añadir, quitar o mover pasos
+export function renumberSteps(steps: PlaybookStep[]): PlaybookStep[] {
+  return steps.map((step, index) => ({ ...step, order: index + 1 }));
+}
+
+// Migración de registros antiguos al modelo estructurado. Es idempotente:
+// un playbook que ya tiene pasos y materiales estructurados se devuelve igual.
+export function normalizePlaybook(record: PlaybookRecord): Playbook {
+  const { tasks, steps, materials, type, ...rest } = record;
+  const structuredMaterials: PlaybookMaterial[] = Array.isArray(materials) ? materials : [];
+  const legacyMaterials = typeof materials === 'string' && materials.trim() ? materials.trim() : undefined;
+
+  return {
+    ...rest,
+    type: parsePlaybookType(type),
+    steps: Array.isArray(steps) && steps.length > 0
+      ? [...steps].sort((a, b) => a.order - b.order)
+      : stepsFromText(tasks),
+    materials: structuredMaterials,
+    materials_note: rest.materials_note || legacyMaterials,
+  };
+}
+
+// Suma de las duraciones de los pasos (0 si ninguno la tiene)
+export function totalStepMinutes(steps: PlaybookStep[]): number {
+  return steps.reduce((sum, step) => sum + (step.duration_minutes ?? 0), 0);
+}
+
+// Nombre del material: relación poblada o búsqueda en el catálogo cargado
+export function materialName(material: PlaybookMaterial, amenities: Amenity[] = []): string {
+  return material.amenity?.name
+    || amenities.find(amenity => amenity.id === material.amenity_id)?.name
+    || 'Producto del catálogo';
+}
+
+// Antes de guardar: sin pasos vacíos ni materiales sin producto, y sin relaciones pobladas
+export function cleanPlaybookContent(steps: PlaybookStep[], materials: PlaybookMaterial[]) {
+  return {
+    steps: renumberSteps(
+      steps
+        .map(step => ({ ...step, text: step.text.trim() }))
+        .filter(step => step.text)
+    ),
+    materials: materials
+      .filter(material => material.amenity_id && material.quantity > 0)
+      .map(({ amenity_id, quantity }) => ({ amenity_id, quantity })),
+  };
+}
+
+// ===== PLANTILLAS =====
+
+// Carpeta de Storage de las imágenes de plantilla: las comparten todas sus copias
+export const TEMPLATE_IMAGE_PATH = 'playbooks/templates';
+
+// Contenido de la plantilla que se copia a cada playbook (y se propaga al actualizarla)
+export function templateContent(template: PlaybookTemplate) {
+  return {
+    type: template.type,
+    title: template.title,
+    estimated_time: template.estimated_time,
+    steps: template.steps,
+    materials: template.materials.map(({ amenity_id, quantity }) => ({ amenity_id, quantity })),
+    template_id: template.id,
+    template_version: template.version,
+  };
+}
+
+export function playbookFromTemplate(template: PlaybookTemplate, roomId: string): CreatePlaybook {
+  return { room_id: roomId, ...templateContent(template) };
+}
+
+// Copia creada con una versión anterior de la plantilla
+export function isOutdatedCopy(playbook: Playbook, template: PlaybookTemplate): boolean {
+  return playbook.template_id === template.id && (playbook.template_version ?? 0) < template.version;
+}
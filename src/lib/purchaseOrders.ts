@@ -0,0 +1,98 @@
+import type { CsvCell } from './csv';
+import { suggestedRestockQuantity } from './inventory';
+import type {
+  CreatePurchaseOrder,
+  HomeInventoryWithRelations,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from './types';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Enviado',
+  received: 'Recibido',
+};
+
+export function lineTotal(line: Pick<PurchaseOrderLine, 'quantity' | 'unit_price'>): number {
+  return line.quantity * line.unit_price;
+}
+
+export function orderTotal(order: Pick<PurchaseOrder, 'lines'>): number {
+  return order.lines.reduce((sum, line) => sum + lineTotal(line), 0);
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function formatEuros(amount: number): string {
+  return `€${amount.toFixed(2)}`;
+}
+
+// Referencia corta para el proveedor (no hay numeración correlativa en el backend)
+export function purchaseOrderNumber(order: Pick<PurchaseOrder, 'id'>): string {
+  return `PO-${order.id.slice(0, 8).toUpperCase()}`;
+}
+
+// Borradores a partir de líneas de inventario con stock bajo: uno por proveedor.
+// Se pide lo necesario para llegar a la cantidad de reposición sugerida.
+export function draftOrdersFromInventory(items: HomeInventoryWithRelations[]): CreatePurchaseOrder[] {
+  const bySupplier = new Map<string, PurchaseOrderLine[]>();
+  items
+    .filter(item => item.supplier_id)
+    .forEach(item => {
+      const lines = bySupplier.get(item.supplier_id) ?? [];
+      lines.push({
+        inventory_id: item.id,
+        home_id: item.home_id,
+        amenity_id: item.amenity_id,
+        amenity_name: item.amenity?.name || 'Producto',
+        quantity: Math.max(1, suggestedRestockQuantity(item) - item.quantity),
+        unit_price: Number(item.purchase_price || item.amenity?.base_price || 0),
+        purchase_link: item.purchase_link,
+      });
+      bySupplier.set(item.supplier_id, lines);
+    });
+  return [...bySupplier.entries()].map(([supplier_id, lines]) => ({ supplier_id, lines }));
+}
+
+export function purchaseOrderRows(order: PurchaseOrder, homeName: (homeId: string) => string): CsvCell[][] {
+  return [
+    ['Pedido', purchaseOrderNumber(order)],
+    ['Proveedor', order.supplier?.name ?? ''],
+    ['Email', order.supplier?.contact_email ?? ''],
+    ['Fecha', new Date(order.created_at).toLocaleDateString('es-ES')],
+    [],
+    ['Producto', 'Casa', 'Cantidad', 'Precio unitario', 'Total', 'Enlace'],
+    ...order.lines.map(line => [
+      line.amenity_name,
+      homeName(line.home_id),
+      line.quantity,
+      roundCents(line.unit_price),
+      roundCents(lineTotal(line)),
+      line.purchase_link,
+    ]),
+    [],
+    ['', '', '', 'Total', roundCents(orderTotal(order))],
+  ];
+}
+
+// Borrador de email al proveedor con el detalle del pedido
+export function purchaseOrderMailto(order: PurchaseOrder, homeName: (homeId: string) => string): string {
+  const lines = order.lines.map(line =>
+    `- ${line.quantity} x ${line.amenity_name} (${homeName(line.home_id)}): ${formatEuros(lineTotal(line))}`
+  );
+  const body = [
+    'Hola,',
+    '',
+    `Os enviamos el pedido ${purchaseOrderNumber(order)}:`,
+    '',
+    ...lines,
+    '',
+    `Total: ${formatEuros(orderTotal(order))}`,
+    ...(order.notes ? ['', order.notes] : []),
+    '',
+    'Gracias.',
+  ].join('\n');
+  const subject = `Pedido ${purchaseOrderNumber(order)}`;
+  return `mailto:${order.supplier?.contact_email ?? ''}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+}
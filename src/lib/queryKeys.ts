@@ -0,0 +1,62 @@
+// ===== CLAVES DE REACT-QUERY POR ENTIDAD =====
+// Jerarquía: [entidad] > [entidad, 'list', params] | [entidad, 'home', homeId, params] | [entidad, 'detail', id]
+// Invalidar `all` refresca todas las listas y detalles de esa entidad.
+
+type Params = Record<string, unknown> | undefined;
+
+function entityKeys<E extends string>(entity: E) {
+  const all = [entity] as const;
+  return {
+    all,
+    lists: () => [...all, 'list'] as const,
+    list: (params?: Params) => [...all, 'list', params ?? {}] as const,
+    homes: () => [...all, 'home'] as const,
+    byHome: (homeId: string, params?: Params) => [...all, 'home', homeId, params ?? {}] as const,
+    details: () => [...all, 'detail'] as const,
+    detail: (id: string) => [...all, 'detail', id] as const,
+  };
+}
+
+export const queryKeys = {
+  homes: {
+    ...entityKeys('homes'),
+    destinations: () => ['homes', 'destinations'] as const,
+    everything: () => ['homes', 'everything'] as const,
+  },
+  rooms: {
+    ...entityKeys('rooms'),
+    everything: () => ['rooms', 'everything'] as const,
+  },
+  roomTypes: entityKeys('room-types'),
+  categories: {
+    ...entityKeys('categories'),
+    everything: () => ['categories', 'everything'] as const,
+  },
+  brands: {
+    ...entityKeys('brands'),
+    everything: () => ['brands', 'everything'] as const,
+  },
+  suppliers: {
+    ...entityKeys('suppliers'),
+    everything: () => ['suppliers', 'everything'] as const,
+  },
+  amenities: {
+    ...entityKeys('amenities'),
+    everything: () => ['amenities', 'everything'] as const,
+  },
+  inventory: {
+    ...entityKeys('inventory'),
+    everything: () => ['inventory', 'everything'] as const,
+  },
+  stockMovements: entityKeys('stock-movements'),
+  purchaseOrders: entityKeys('purchase-orders'),
+  stylingGuides: entityKeys('styling-guides'),
+  playbooks: entityKeys('playbooks'),
+  playbookTemplates: entityKeys('playbook-templates'),
+  playbookCompletions: entityKeys('playbook-completions'),
+  applianceGuides: entityKeys('appliance-guides'),
+  technicalPlans: entityKeys('technical-plans'),
+  shareLinks: entityKeys('share-links'),
+  guestView: (token: string) => ['guest', token] as const,
+  storageAudit: () => ['storage-audit'] as const,
+};
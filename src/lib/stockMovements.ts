@@ -0,0 +1,59 @@
+import type { StockMovement, StockMovementType } from './types';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  initial: 'Alta',
+  restock: 'Reposición',
+  consumption: 'Consumo',
+  breakage: 'Rotura',
+  transfer_in: 'Entrada desde otra casa',
+  transfer_out: 'Salida a otra casa',
+  room_move: 'Cambio de habitación',
+  correction: 'Corrección',
+};
+
+export const STOCK_MOVEMENT_ICONS: Record<StockMovementType, string> = {
+  initial: '🆕',
+  restock: '📦',
+  consumption: '🧴',
+  breakage: '💥',
+  transfer_in: '📥',
+  transfer_out: '📤',
+  room_move: '🚪',
+  correction: '✏️',
+};
+
+// Movimientos que se registran a mano desde una línea de inventario
+// (las transferencias y los cambios de habitación tienen su propio flujo)
+export type ManualMovementType = 'consumption' | 'breakage' | 'restock' | 'correction';
+
+export const MANUAL_MOVEMENT_TYPES: ManualMovementType[] = ['consumption', 'breakage', 'restock', 'correction'];
+
+// Variación con signo a partir de lo introducido: unidades en reposiciones, consumos y roturas;
+// en una corrección, la cantidad contada
+export function movementChange(type: ManualMovementType, amount: number, currentQuantity: number): number {
+  switch (type) {
+    case 'restock':
+      return amount;
+    case 'consumption':
+    case 'breakage':
+      return -amount;
+    case 'correction':
+      return amount - currentQuantity;
+  }
+}
+
+export function formatQuantityChange(change: number): string {
+  return change > 0 ? `+${change}` : String(change);
+}
+
+// Cantidad derivada del historial: la suma de todas las variaciones
+export function ledgerQuantity(movements: Pick<StockMovement, 'quantity_change'>[]): number {
+  return movements.reduce((sum, movement) => sum + movement.quantity_change, 0);
+}
+
+export type MovementAuthor = Pick<StockMovement, 'created_by' | 'created_by_name'>;
+
+// Autor de un movimiento a partir del usuario de Firebase
+export function movementAuthor(user: { uid: string; displayName: string | null; email: string | null }): MovementAuthor {
+  return { created_by: user.uid, created_by_name: user.displayName || user.email || undefined };
+}
@@ -0,0 +1,62 @@
+import type { CsvCell } from './csv';
+import { unitCost } from './inventory';
+import type { HomeInventoryWithRelations, StockTake, StockTakeLine } from './types';
+
+export function countDifference(line: Pick<StockTakeLine, 'system_quantity' | 'counted_quantity'>): number {
+  return line.counted_quantity - line.system_quantity;
+}
+
+// Líneas del recuento a partir de lo contado: las que no se han contado no se envían
+export function stockTakeLines(items: HomeInventoryWithRelations[], counts: Record<string, number>): StockTakeLine[] {
+  return items
+    .filter(item => counts[item.id] !== undefined)
+    .map(item => ({
+      inventory_id: item.id,
+      amenity_name: item.amenity?.name ?? 'Producto',
+      room_id: item.room_id,
+      system_quantity: item.quantity,
+      counted_quantity: counts[item.id],
+      unit_cost: unitCost(item),
+    }));
+}
+
+export type StockTakeSummary = {
+  lines: number;
+  matching: number;
+  discrepancies: number;
+  missingUnits: number;          // Unidades que faltan respecto al sistema
+  surplusUnits: number;          // Unidades que sobran respecto al sistema
+  valueDifference: number;       // Diferencia valorada a coste unitario (negativa si falta)
+};
+
+export function stockTakeSummary(lines: StockTakeLine[]): StockTakeSummary {
+  return lines.reduce<StockTakeSummary>((summary, line) => {
+    const difference = countDifference(line);
+    return {
+      lines: summary.lines + 1,
+      matching: summary.matching + (difference === 0 ? 1 : 0),
+      discrepancies: summary.discrepancies + (difference === 0 ? 0 : 1),
+      missingUnits: summary.missingUnits + Math.max(-difference, 0),
+      surplusUnits: summary.surplusUnits + Math.max(difference, 0),
+      valueDifference: summary.valueDifference + difference * line.unit_cost,
+    };
+  }, { lines: 0, matching: 0, discrepancies: 0, missingUnits: 0, surplusUnits: 0, valueDifference: 0 });
+}
+
+// Informe del recuento para CSV: primero las diferencias, de mayor a menor
+export function stockTakeRows(stockTake: StockTake, roomName: (roomId?: string) => string | undefined): CsvCell[][] {
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+  const lines = [...stockTake.lines].sort((a, b) => Math.abs(countDifference(b)) - Math.abs(countDifference(a)));
+  return [
+    ['Producto', 'Habitación', 'Sistema', 'Contado', 'Diferencia', 'Coste unitario', 'Diferencia valorada'],
+    ...lines.map(line => [
+      line.amenity_name,
+      roomName(line.room_id) ?? '',
+      line.system_quantity,
+      line.counted_quantity,
+      countDifference(line),
+      round(line.unit_cost),
+      round(countDifference(line) * line.unit_cost),
+    ]),
+  ];
+}
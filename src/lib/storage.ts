@@ -0,0 +1,121 @@
+// Abstracción del almacenamiento de archivos: Firebase Storage en producción,
+// backend en memoria para desarrollo y pruebas de los componentes de subida.
+
+export type UploadProgress = {
+  bytesTransferred: number;
+  totalBytes: number;
+};
+
+// Subida en curso: se puede cancelar y resuelve con la URL pública del archivo
+export interface UploadHandle {
+  promise: Promise<string>;
+  cancel: () => void;
+}
+
+export interface StorageAdapter {
+  upload: (file: Blob, path: string, onProgress?: (progress: UploadProgress) => void) => UploadHandle;
+  delete: (url: string) => Promise<void>;
+}
+
+export class UploadCanceledError extends Error {
+  constructor(message = 'Subida cancelada') {
+    super(message);
+    this.name = 'UploadCanceledError';
+  }
+}
+
+export function isUploadCanceled(error: unknown): error is UploadCanceledError {
+  return error instanceof UploadCanceledError;
+}
+
+// Ruta única dentro de la carpeta destino
+export function buildUploadPath(basePath: string, file: File) {
+  return `${basePath}/${Date.now()}_${file.name}`;
+}
+
+// Ejecuta tareas asíncronas con un máximo de `limit` en paralelo, conservando el orden de los resultados
+export async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, worker));
+  return results;
+}
+
+type MemoryStorageOptions = {
+  // Bytes "transferidos" por paso y espera entre pasos, para simular una subida real
+  chunkSize?: number;
+  delayMs?: number;
+  // Permite forzar fallos en pruebas (p. ej. por nombre de archivo)
+  shouldFail?: (path: string) => boolean;
+};
+
+// Backend en memoria: guarda los blobs en un Map y sirve URLs de objeto locales
+export function createMemoryStorageAdapter({
+  chunkSize = 256 * 1024,
+  delayMs = 50,
+  shouldFail,
+}: MemoryStorageOptions = {}): StorageAdapter & { files: Map<string, Blob> } {
+  const files = new Map<string, Blob>();
+
+  return {
+    files,
+    upload(file, path, onProgress) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let rejectUpload: (error: Error) => void = () => {};
+
+      const promise = new Promise<string>((resolve, reject) => {
+        rejectUpload = reject;
+        let transferred = 0;
+
+        const step = () => {
+          transferred = Math.min(file.size, transferred + chunkSize);
+          onProgress?.({ bytesTransferred: transferred, totalBytes: file.size });
+          if (transferred < file.size) {
+            timer = setTimeout(step, delayMs);
+            return;
+          }
+          if (shouldFail?.(path)) {
+            reject(new Error(`Fallo simulado al subir ${path}`));
+            return;
+          }
+          const url = typeof URL.createObjectURL === 'function' ? URL.createObjectURL(file) : `memory://${path}`;
+          files.set(url, file);
+          resolve(url);
+        };
+
+        timer = setTimeout(step, delayMs);
+      });
+
+      return {
+        promise,
+        cancel: () => {
+          clearTimeout(timer);
+          rejectUpload(new UploadCanceledError());
+        },
+      };
+    },
+    async delete(url) {
+      if (!files.delete(url)) {
+        throw new Error(`Archivo no encontrado: ${url}`);
+      }
+      if (url.startsWith('blob:')) {
+        URL.revokeObjectURL(url);
+      }
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { ApiClient } from './api';
+import type { RequestOptions } from './apiClient';
+import { listStorageObjects, storagePathFromUrl, type StorageObjectInfo } from './firebase';
+import type { ListResponse } from './types';
+import { ABANDONED_SESSION_MS } from './uploadSessions';
+
+// Carpetas de Storage donde sube la aplicación (basePath de los FileUpload)
+export const STORAGE_BASE_PATHS = ['styling-guides', 'appliance-guides', 'technical-plans', 'amenities', 'homes', 'playbooks', 'playbook-runs', 'uploads'];
+
+export type StorageAuditObject = StorageObjectInfo & {
+  // Subido hace poco: puede pertenecer a un formulario que aún está abierto
+  isRecent: boolean;
+};
+
+export type StorageAuditReport = {
+  orphans: StorageAuditObject[];
+  scanned: number;
+  referenced: number;
+  generatedAt: string;
+};
+
+type PageFetcher<T> = (params: { page: number; pageSize: number }, opts?: RequestOptions) => Promise<ListResponse<T>>;
+
+// Recorre todas las páginas de un listado
+async function fetchAllPages<T>(fetchPage: PageFetcher<T>, opts?: RequestOptions): Promise<T[]> {
+  const pageSize = 100;
+  const items: T[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const response = await fetchPage({ page, pageSize }, opts);
+    items.push(...response.data);
+    totalPages = response.meta?.totalPages ?? (response.data.length === pageSize ? page + 1 : page);
+    page++;
+  } while (page <= totalPages);
+  return items;
+}
+
+// Rutas de Storage referenciadas por alguna entidad guardada
+export async function collectReferencedPaths(api: ApiClient, opts?: RequestOptions): Promise<Set<string>> {
+  const [stylingGuides, applianceGuides, technicalPlans, amenities, homes, playbooks, templates, completions] = await Promise.all([
+    fetchAllPages(api.listStylingGuides, opts),
+    fetchAllPages(api.listApplianceGuides, opts),
+    fetchAllPages(api.listTechnicalPlans, opts),
+    fetchAllPages(api.listAmenities, opts),
+    fetchAllPages(api.listHomes, opts),
+    fetchAllPages(api.listPlaybooks, opts),
+    fetchAllPages(api.listPlaybookTemplates, opts),
+    fetchAllPages(api.listPlaybookCompletions, opts),
+  ]);
+
+  const urls: (string | undefined)[] = [
+    ...stylingGuides.flatMap(guide => [guide.reference_photo_url, guide.qr_code_url, ...(guide.image_urls || []), ...(guide.thumbnail_urls || [])]),
+    ...applianceGuides.flatMap(guide => [guide.pdf_url, guide.video_url, ...(guide.image_urls || [])]),
+    ...technicalPlans.map(plan => plan.plan_file_url),
+    ...amenities.flatMap(amenity => [...(amenity.images || []), ...(amenity.thumbnail_urls || [])]),
+    ...homes.map(home => home.main_image),
+    ...[...playbooks, ...templates].flatMap(playbook => playbook.steps.map(step => step.image_url)),
+    ...completions.flatMap(completion => completion.steps.map(step => step.photo_url)),
+  ];
+
+  const paths = new Set<string>();
+  urls.forEach(url => {
+    const path = url ? storagePathFromUrl(url) : null;
+    if (path) paths.add(path);
+  });
+  return paths;
+}
+
+// Objetos de Storage bajo las carpetas de la aplicación que ninguna entidad referencia
+export async function runStorageAudit(api: ApiClient, opts?: RequestOptions, now = Date.now()): Promise<StorageAuditReport> {
+  const [referenced, objects] = await Promise.all([
+    collectReferencedPaths(api, opts),
+    Promise.all(STORAGE_BASE_PATHS.map(listStorageObjects)).then(lists => lists.flat()),
+  ]);
+
+  const orphans = objects
+    .filter(object => !referenced.has(object.path))
+    .map(object => ({ ...object, isRecent: now - new Date(object.createdAt).getTime() < ABANDONED_SESSION_MS }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return {
+    orphans,
+    scanned: objects.length,
+    referenced: referenced.size,
+    generatedAt: new Date(now).toISOString(),
+  };
+}
@@ -0,0 +1,11 @@
+// Los campos de texto libre (tareas, materiales, bullets de uso) se escriben una línea por punto.
+// Se quitan viñetas y numeraciones habituales: "-", "*", "•", "1.", "2)".
+const BULLET_PREFIX = /^\s*(?:[-*•·]|\d+[.)])\s*/;
+
+export function parseBulletList(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(BULLET_PREFIX, '').trim())
+    .filter(Boolean);
+}
@@ -40,7 +40,9 @@ export interface Amenity {
   model: string;                 // Modelo
   description: string;            // Descripción (TEXT)
   base_price: number;            // Precio base
+  preferred_supplier_id?: string; // UUID del proveedor habitual (opcional): valor por defecto al añadirlo al inventario
   images: string[];              // Array de URLs de imágenes (JSONB)
+  thumbnail_urls?: string[];     // Miniaturas alineadas por índice con images ('' si no hay)
   // Relaciones (opcionales) cuando vienen pobladas desde el backend
   category?: Category;
   brand?: Brand;
@@ -103,6 +105,46 @@ export interface HomeInventoryWithRelations extends HomeInventory {
   supplier?: Supplier;           // Relación con el proveedor
 }
 
+// 8.2. STOCK_MOVEMENT (Movimientos de stock)
+// La cantidad de una línea de inventario se deriva de sus movimientos: el backend aplica cada
+// movimiento a `quantity` al registrarlo y nunca se sobrescribe directamente.
+export type StockMovementType =
+  | 'initial'                    // Alta de la línea
+  | 'restock'                    // Reposición
+  | 'consumption'                // Consumo
+  | 'breakage'                   // Rotura o pérdida
+  | 'transfer_in'                // Entrada desde otra casa
+  | 'transfer_out'               // Salida hacia otra casa
+  | 'room_move'                  // Cambio de habitación (no cambia la cantidad)
+  | 'correction';                // Corrección de recuento
+
+export interface StockMovement {
+  id: string;                    // UUID
+  inventory_id: string;          // UUID de la línea de inventario
+  home_id: string;               // UUID de la casa
+  type: StockMovementType;       // Tipo de movimiento
+  quantity_change: number;       // Variación con signo (0 en cambios de habitación)
+  quantity_after: number;        // Cantidad de la línea tras aplicar el movimiento
+  reason?: string;               // Motivo (opcional)
+  from_room_id?: string;         // Habitación de origen (cambios de habitación)
+  to_room_id?: string;           // Habitación de destino (cambios de habitación)
+  related_home_id?: string;      // Casa de origen o destino (transferencias)
+  related_inventory_id?: string; // Línea de la otra casa (transferencias)
+  created_by: string;            // UID de Firebase de quien lo registra
+  created_by_name?: string;      // Nombre visible (opcional)
+  created_at: Date;
+}
+
+// 8.3. Transferencia de inventario entre casas
+// El backend descuenta en origen y suma en destino en una única transacción, registrando un
+// movimiento de salida y otro de entrada. En destino reutiliza la línea del mismo producto y
+// habitación o crea una nueva con el proveedor y precios de la de origen.
+export interface InventoryTransferResult {
+  source: HomeInventoryWithRelations;      // Línea de origen tras la salida
+  destination: HomeInventoryWithRelations; // Línea de destino tras la entrada
+  movements: StockMovement[];              // Salida y entrada registradas
+}
+
 // 9. STYLING_GUIDE (Guías de Estilo)
 export interface StylingGuide {
   id: string;                    // UUID
@@ -111,23 +153,51 @@ export interface StylingGuide {
   reference_photo_url?: string;  // URL de la foto de referencia (opcional)
   qr_code_url?: string;          // URL del código QR (opcional)
   image_urls: string[];          // Array de URLs de imágenes (JSONB)
+  thumbnail_urls?: string[];     // Miniaturas alineadas por índice con image_urls ('' si no hay)
   created_at: Date;
   updated_at: Date;
 }
 
 // 10. PLAYBOOK (Procedimientos)
+export type PlaybookType = 'check_in' | 'check_out' | 'deep_clean' | 'maintenance';
+
+export interface PlaybookStep {
+  order: number;                 // Posición (1, 2, 3...)
+  text: string;                  // Instrucción del paso
+  image_url?: string;            // Imagen de apoyo (opcional)
+  duration_minutes?: number;     // Duración estimada del paso (opcional)
+}
+
+export interface PlaybookMaterial {
+  amenity_id: string;            // UUID del amenity del catálogo
+  quantity: number;              // Cantidad necesaria
+  amenity?: Amenity;             // Relación poblada por el backend (opcional)
+}
+
 export interface Playbook {
   id: string;                    // UUID
   room_id: string;               // UUID de la habitación
-  type: string;                  // Tipo de procedimiento
+  type: PlaybookType;            // Tipo de procedimiento
   title: string;                 // Título
   estimated_time: string;        // Tiempo estimado
-  tasks: string;                 // Tareas (TEXT)
-  materials: string;             // Materiales necesarios
+  steps: PlaybookStep[];         // Pasos ordenados (JSONB)
+  materials: PlaybookMaterial[]; // Materiales del catálogo (JSONB)
+  materials_note?: string;       // Materiales en texto libre de playbooks antiguos (opcional)
+  template_id?: string;          // UUID de la plantilla de la que se creó (opcional)
+  template_version?: number;     // Versión de la plantilla copiada o propagada por última vez (opcional)
   created_at: Date;
   updated_at: Date;
 }
 
+// Playbook tal como puede llegar del backend: los registros antiguos traen
+// `tasks` y `materials` como texto y `type` como texto libre
+export type PlaybookRecord = Omit<Playbook, 'type' | 'steps' | 'materials'> & {
+  type: string;
+  steps?: PlaybookStep[] | null;
+  materials?: PlaybookMaterial[] | string | null;
+  tasks?: string | null;
+};
+
 // 11. APPLIANCE_GUIDE (Guías de Electrodomésticos)
 export interface ApplianceGuide {
   id: string;                    // UUID
@@ -155,6 +225,107 @@ export interface TechnicalPlan {
   updated_at: Date;
 }
 
+// 13. HOME_SHARE_LINK (Enlaces públicos de solo lectura)
+export interface HomeShareLink {
+  id: string;                    // UUID
+  home_id: string;               // UUID de la casa
+  token: string;                 // Token firmado por el backend (opaco para el cliente)
+  label?: string;                // Nombre interno del enlace (opcional)
+  expires_at?: Date;             // Caducidad (opcional)
+  revoked_at?: Date;             // Fecha de revocación (opcional)
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 14. PLAYBOOK_COMPLETION (Ejecuciones de playbooks)
+export interface PlaybookCompletionStep {
+  index: number;                 // Posición del paso en el playbook
+  text: string;                  // Texto del paso en el momento de la ejecución
+  done: boolean;                 // Marcado como hecho
+  photo_url?: string;            // Foto del resultado (opcional)
+}
+
+export interface PlaybookCompletion {
+  id: string;                    // UUID
+  playbook_id: string;           // UUID del playbook
+  room_id: string;               // UUID de la habitación
+  home_id: string;               // UUID de la casa
+  playbook_title: string;        // Título del playbook al ejecutarlo
+  completed_by: string;          // UID de Firebase de quien lo ejecutó
+  completed_by_name?: string;    // Email o nombre visible (opcional)
+  started_at: Date;              // Inicio de la ejecución
+  completed_at: Date;            // Fin de la ejecución
+  duration_minutes: number;      // Duración real
+  steps: PlaybookCompletionStep[]; // Pasos con su estado (JSONB)
+  notes?: string;                // Observaciones (opcional)
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 15. PLAYBOOK_TEMPLATE (Plantillas de playbooks por tipo de habitación)
+export interface PlaybookTemplate {
+  id: string;                    // UUID
+  room_type_id: string;          // UUID del tipo de habitación al que se aplica
+  type: PlaybookType;            // Tipo de procedimiento
+  title: string;                 // Título
+  estimated_time: string;        // Tiempo estimado
+  steps: PlaybookStep[];         // Pasos ordenados (JSONB)
+  materials: PlaybookMaterial[]; // Materiales del catálogo (JSONB)
+  version: number;               // La incrementa el backend en cada actualización
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 16. PURCHASE_ORDER (Pedidos a proveedores)
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received';
+
+export interface PurchaseOrderLine {
+  inventory_id: string;          // UUID de la línea de inventario que se repone
+  home_id: string;               // UUID de la casa de destino
+  amenity_id: string;            // UUID del amenity
+  amenity_name: string;          // Nombre del producto al crear el pedido
+  quantity: number;              // Unidades pedidas
+  unit_price: number;            // Precio unitario de compra
+  purchase_link?: string;        // Enlace de compra (opcional)
+}
+
+export interface PurchaseOrder {
+  id: string;                    // UUID
+  supplier_id: string;           // UUID del proveedor
+  status: PurchaseOrderStatus;   // Borrador → enviado → recibido
+  lines: PurchaseOrderLine[];    // Líneas del pedido (JSONB)
+  notes?: string;                // Observaciones para el proveedor (opcional)
+  sent_at?: Date;                // Fecha de envío (opcional)
+  received_at?: Date;            // Fecha de recepción (opcional)
+  supplier?: Supplier;           // Relación poblada por el backend (opcional)
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 17. STOCK_TAKE (Recuentos de inventario)
+export interface StockTakeLine {
+  inventory_id: string;          // UUID de la línea de inventario contada
+  amenity_name: string;          // Nombre del producto al hacer el recuento
+  room_id?: string;              // UUID de la habitación (opcional)
+  system_quantity: number;       // Cantidad según el sistema al empezar a contar
+  counted_quantity: number;      // Cantidad contada
+  unit_cost: number;             // Coste unitario al hacer el recuento
+}
+
+// Al registrarlo, el backend crea una corrección por cada línea con diferencia en una única
+// transacción. La corrección lleva la línea a la cantidad contada aunque haya cambiado entre tanto.
+export interface StockTake {
+  id: string;                    // UUID
+  home_id: string;               // UUID de la casa
+  room_id?: string;              // UUID de la habitación si solo se contó una (opcional)
+  lines: StockTakeLine[];        // Líneas contadas (JSONB)
+  notes?: string;                // Observaciones (opcional)
+  created_by: string;            // UID de Firebase de quien cuenta
+  created_by_name?: string;      // Nombre visible (opcional)
+  created_at: Date;
+  updated_at: Date;
+}
+
 // ===== TIPOS PARA FORMULARIOS =====
 // Tipos para crear entidades (sin ID ni timestamps)
 
@@ -166,17 +337,39 @@ export type CreateCategory = Omit<Category, 'id' | 'created_at' | 'updated_at'>;
 export type CreateBrand = Omit<Brand, 'id' | 'created_at' | 'updated_at'>;
 export type CreateSupplier = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
 export type CreateInventory = Omit<HomeInventory, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateInventory = Partial<Omit<CreateInventory, 'quantity' | 'room_id'>>;
 export type CreateStylingGuide = Omit<StylingGuide, 'id' | 'created_at' | 'updated_at'>;
 export type CreatePlaybook = Omit<Playbook, 'id' | 'created_at' | 'updated_at'>;
 export type CreateApplianceGuide = Omit<ApplianceGuide, 'id' | 'created_at' | 'updated_at'>;
 export type CreateTechnicalPlan = Omit<TechnicalPlan, 'id' | 'created_at' | 'updated_at'>;
+export type CreateHomeShareLink = { home_id: string; label?: string; expires_at?: string };
+export type CreatePlaybookCompletion = Omit<PlaybookCompletion, 'id' | 'created_at' | 'updated_at'>;
+export type CreatePlaybookTemplate = Omit<PlaybookTemplate, 'id' | 'version' | 'created_at' | 'updated_at'>;
+export type CreatePurchaseOrder = Pick<PurchaseOrder, 'supplier_id' | 'lines' | 'notes'>;
+export type CreateStockMovement = Omit<StockMovement, 'id' | 'home_id' | 'quantity_after' | 'created_at'>;
+export type CreateStockTake = Omit<StockTake, 'id' | 'created_at' | 'updated_at'>;
+export type CreateInventoryTransfer = Pick<StockMovement, 'inventory_id' | 'reason' | 'created_by' | 'created_by_name'> & {
+  to_home_id: string;
+  to_room_id?: string;
+  quantity: number;
+};
 
 // ===== TIPOS DE RESPUESTA DE LA API =====
 
 export type ListMeta = { page: number; pageSize: number; total: number; totalPages: number };
 export type ListResponse<T> = { success: true; data: T[]; meta: ListMeta };
 export type ItemResponse<T> = { success: true; data: T };
-export type ErrorResponse = { success: false; error: { message: string; details?: { field?: string; message: string }[] } };
+export type ErrorResponse = { success: false; error: { message: string; code?: string; details?: { field?: string; message: string }[] } };
+
+// ===== VISTA PÚBLICA (invitados y housekeeping) =====
+// Lo que el backend devuelve para un token de enlace público: sin datos internos de la casa
+export interface GuestHomeView {
+  home: Pick<Home, 'id' | 'name' | 'destination' | 'main_image'>;
+  rooms: Room[];
+  styling_guides: StylingGuide[];
+  playbooks: Playbook[];
+  appliance_guides: ApplianceGuide[];
+}
 
 // ===== TIPOS DE COMPLETITUD =====
 export interface HomeCountsSummary {
@@ -196,3 +389,18 @@ export interface HomeWithCompleteness extends Home {
 }
 
 export type HomesCompletenessReport = Record<string, number>; // home_id -> completeness
+
+// Orden del listado de casas (prefijo '-' = descendente)
+export type HomesSort = 'name' | '-name' | 'completeness' | '-completeness' | 'created_at' | '-created_at';
+
+// Filtros del listado de casas con completitud (resueltos en servidor)
+export interface HomesListParams {
+  page?: number;
+  pageSize?: number;
+  q?: string;                    // Búsqueda por nombre o dirección
+  destination?: string;
+  min_completeness?: number;     // 0-100
+  max_completeness?: number;     // 0-100
+  sort?: HomesSort;
+  exclude_id?: string;           // Casa que no debe aparecer (el backend la descuenta también del total)
+}
@@ -0,0 +1,70 @@
+import type { StorageAdapter } from './storage';
+
+// Registro en localStorage de las subidas pendientes de cada formulario abierto.
+// Si el formulario se abandona sin guardar (pestaña cerrada, navegación), las subidas
+// quedan aquí y se eliminan de Storage en la siguiente limpieza.
+
+const STORAGE_KEY = 'vivla:pending-uploads';
+
+// Tiempo tras el cual una sesión sin actividad se considera abandonada
+export const ABANDONED_SESSION_MS = 24 * 60 * 60 * 1000;
+
+type PendingSession = { urls: string[]; updatedAt: number };
+type PendingRegistry = Record<string, PendingSession>;
+
+function readRegistry(): PendingRegistry {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingRegistry) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeRegistry(registry: PendingRegistry) {
+  if (typeof window === 'undefined') return;
+  try {
+    if (Object.keys(registry).length === 0) {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+    }
+  } catch (error) {
+    console.error('Error al guardar las subidas pendientes:', error);
+  }
+}
+
+export function setPendingUploads(sessionId: string, urls: string[]) {
+  const registry = readRegistry();
+  if (urls.length === 0) {
+    delete registry[sessionId];
+  } else {
+    registry[sessionId] = { urls, updatedAt: Date.now() };
+  }
+  writeRegistry(registry);
+}
+
+// Elimina de Storage las subidas de sesiones abandonadas y las quita del registro.
+// Devuelve cuántos archivos se eliminaron.
+export async function sweepAbandonedUploads(storage: StorageAdapter, now = Date.now()): Promise<number> {
+  const registry = readRegistry();
+  const abandoned = Object.entries(registry).filter(([, session]) => now - session.updatedAt > ABANDONED_SESSION_MS);
+  if (abandoned.length === 0) return 0;
+
+  let deleted = 0;
+  for (const [sessionId, session] of abandoned) {
+    const results = await Promise.allSettled(session.urls.map(url => storage.delete(url)));
+    deleted += results.filter(result => result.status === 'fulfilled').length;
+    // Los fallos (p. ej. archivo ya borrado) no se reintentan: la auditoría de Storage los detectará
+    if (results.some(result => result.status === 'rejected')) {
+      console.error(`No se pudieron eliminar algunas subidas de la sesión ${sessionId}`);
+    }
+  }
+
+  // Releer por si otra pestaña modificó el registro mientras tanto
+  const latest = readRegistry();
+  abandoned.forEach(([sessionId]) => delete latest[sessionId]);
+  writeRegistry(latest);
+  return deleted;
+}